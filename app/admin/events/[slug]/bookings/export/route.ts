@@ -0,0 +1,56 @@
+import connectDB from "@/lib/mongodb";
+import { NextRequest, NextResponse } from "next/server";
+import Event, { ITicketTier } from "@/database/event.model";
+import { accessDenied } from "@/lib/api";
+import { canManageEvent, getCurrentUser } from "@/lib/auth";
+import { describeBookingTarget, findEventBookings, getBookingTarget } from "@/lib/bookings";
+import { toCsv } from "@/lib/csv";
+import { fromMinorUnits } from "@/lib/tickets";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
+  try {
+    await connectDB();
+
+    const { slug } = await params;
+    const event = await Event.findOne({ slug }).select("_id slug organizer timezone sessions ticketTiers");
+
+    if (!event) {
+      return NextResponse.json(
+        { message: `Event with slug '${slug}' not found` },
+        { status: 404 }
+      );
+    }
+
+    const user = await getCurrentUser();
+
+    if (!canManageEvent(user, event)) {
+      return accessDenied(user !== null, "Bookings Export Failed");
+    }
+
+    const bookings = await findEventBookings(event._id, req.nextUrl.searchParams.get("q") ?? "");
+    const csv = toCsv(
+      ["email", "bookedFor", "ticket", "status", "amountPaid", "currency", "createdAt", "checkedInAt"],
+      bookings.map((booking) => [
+        booking.email,
+        describeBookingTarget(event, getBookingTarget(booking)) ?? "",
+        event.ticketTiers.find((tier: ITicketTier) => booking.ticketTierId?.equals(tier._id))?.name ?? "",
+        booking.status,
+        booking.payment?.paidAt ? fromMinorUnits(booking.payment.amount, booking.payment.currency) : "",
+        booking.payment?.currency ?? "",
+        booking.createdAt,
+        booking.checkedInAt ?? "",
+      ])
+    );
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${event.slug}-bookings.csv"`,
+      },
+    });
+  } catch (e) {
+    console.error(e);
+
+    return NextResponse.json({ message: "Bookings Export Failed" }, { status: 500 });
+  }
+}
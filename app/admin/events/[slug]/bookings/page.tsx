@@ -0,0 +1,19 @@
+import {Suspense} from "react";
+import AdminBookings from "@/components/admin/AdminBookings";
+
+const AdminBookingsPage = async ({ params, searchParams }: {
+    params: Promise<{ slug: string }>;
+    searchParams: Promise<{ q?: string | string[] }>;
+}) => {
+    const query = Promise.all([params, searchParams]).then(([p, s]) => ({
+        slug: p.slug,
+        q: typeof s.q === 'string' ? s.q : '',
+    }));
+
+    return (
+        <Suspense fallback={<div>Loading...</div>}>
+            <AdminBookings params={query} />
+        </Suspense>
+    )
+}
+export default AdminBookingsPage
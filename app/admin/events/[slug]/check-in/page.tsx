@@ -0,0 +1,13 @@
+import {Suspense} from "react";
+import CheckInDesk from "@/components/admin/CheckInDesk";
+
+const CheckInPage = async ({ params }: { params: Promise<{ slug: string }> }) => {
+    const slug = params.then((p) => p.slug);
+
+    return (
+        <Suspense fallback={<div>Loading...</div>}>
+            <CheckInDesk params={slug} />
+        </Suspense>
+    )
+}
+export default CheckInPage
@@ -0,0 +1,13 @@
+import {Suspense} from "react";
+import AdminEventEdit from "@/components/admin/AdminEventEdit";
+
+const AdminEventPage = async ({ params }: { params: Promise<{ slug: string }>}) => {
+    const slug = params.then((p) => p.slug);
+
+    return (
+        <Suspense fallback={<div>Loading...</div>}>
+            <AdminEventEdit params={slug} />
+        </Suspense>
+    )
+}
+export default AdminEventPage
@@ -0,0 +1,15 @@
+import {notFound} from "next/navigation";
+import {getCurrentUser, hasRole} from "@/lib/auth";
+import EventImportForm from "@/components/admin/EventImportForm";
+
+const ImportEventsPage = async () => {
+    if (!hasRole(await getCurrentUser(), 'admin')) notFound();
+
+    return (
+        <div className="flex flex-col gap-8">
+            <h1>Import Events</h1>
+            <EventImportForm />
+        </div>
+    )
+}
+export default ImportEventsPage
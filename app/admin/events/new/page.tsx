@@ -0,0 +1,45 @@
+import {getOrganizerOptions} from "@/lib/actions/organizer.actions";
+import {getVenueOptions} from "@/lib/actions/venue.actions";
+import EventEditor, {type EventFormValues} from "@/components/admin/EventEditor";
+
+const EMPTY_EVENT: EventFormValues = {
+    title: '',
+    description: '',
+    overview: '',
+    image: '',
+    venue: '',
+    location: '',
+    venueId: '',
+    date: '',
+    time: '',
+    endDate: '',
+    endTime: '',
+    timezone: 'UTC',
+    recurrence: '',
+    mode: '',
+    audience: '',
+    organizerProfile: '',
+    speakers: '',
+    capacity: '',
+    waitlistEnabled: true,
+    agenda: [],
+    tags: [],
+    sessions: [],
+    ticketTiers: [],
+};
+
+const NewEventPage = async () => {
+    return (
+        <div className="flex flex-col gap-8">
+            <h1>New Event</h1>
+            <EventEditor
+                slug={null}
+                initialValues={EMPTY_EVENT}
+                timezones={Intl.supportedValuesOf('timeZone')}
+                organizers={await getOrganizerOptions()}
+                venues={await getVenueOptions()}
+            />
+        </div>
+    )
+}
+export default NewEventPage
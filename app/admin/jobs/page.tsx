@@ -0,0 +1,11 @@
+import {Suspense} from "react";
+import FailedJobList from "@/components/admin/FailedJobList";
+
+const JobsPage = async () => {
+    return (
+        <Suspense fallback={<div>Loading...</div>}>
+            <FailedJobList />
+        </Suspense>
+    )
+}
+export default JobsPage
@@ -0,0 +1,34 @@
+import Link from "next/link";
+import {redirect} from "next/navigation";
+import {getCurrentUser, hasRole} from "@/lib/auth";
+import {signOut} from "@/lib/actions/auth.actions";
+
+const AdminLayout = async ({ children }: Readonly<{ children: React.ReactNode }>) => {
+    const user = await getCurrentUser();
+
+    if (!user) redirect('/login?next=/admin');
+
+    return (
+        <section id="admin">
+            <nav className="admin-nav">
+                <Link href="/admin">Events</Link>
+                {hasRole(user, 'organizer', 'admin') && <Link href="/admin/events/new">New event</Link>}
+                {hasRole(user, 'organizer', 'admin') && <Link href="/admin/promo-codes">Promo codes</Link>}
+                {hasRole(user, 'admin') && <Link href="/admin/events/import">Import</Link>}
+                {hasRole(user, 'admin') && <Link href="/admin/organizers">Organizers</Link>}
+                {hasRole(user, 'admin') && <Link href="/admin/speakers">Speakers</Link>}
+                {hasRole(user, 'admin') && <Link href="/admin/venues">Venues</Link>}
+                {hasRole(user, 'admin') && <Link href="/admin/jobs">Jobs</Link>}
+                <form action={signOut} className="account">
+                    <span>{user.email}</span>
+                    <button type="submit">Sign out</button>
+                </form>
+            </nav>
+
+            {hasRole(user, 'organizer', 'admin') ? children : (
+                <p>Your account doesn&apos;t have organizer access. Ask an admin to upgrade it.</p>
+            )}
+        </section>
+    )
+}
+export default AdminLayout
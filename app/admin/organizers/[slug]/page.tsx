@@ -0,0 +1,13 @@
+import {Suspense} from "react";
+import AdminOrganizerEdit from "@/components/admin/AdminOrganizerEdit";
+
+const AdminOrganizerPage = async ({ params }: { params: Promise<{ slug: string }>}) => {
+    const slug = params.then((p) => p.slug);
+
+    return (
+        <Suspense fallback={<div>Loading...</div>}>
+            <AdminOrganizerEdit params={slug} />
+        </Suspense>
+    )
+}
+export default AdminOrganizerPage
@@ -0,0 +1,17 @@
+import {notFound} from "next/navigation";
+import {getCurrentUser, hasRole} from "@/lib/auth";
+import OrganizerForm, {type OrganizerFormValues} from "@/components/admin/OrganizerForm";
+
+const EMPTY_ORGANIZER: OrganizerFormValues = { name: '', bio: '', logo: '', website: '', socials: '' };
+
+const NewOrganizerPage = async () => {
+    if (!hasRole(await getCurrentUser(), 'admin')) notFound();
+
+    return (
+        <div className="flex flex-col gap-8">
+            <h1>New Organizer</h1>
+            <OrganizerForm slug={null} initialValues={EMPTY_ORGANIZER} />
+        </div>
+    )
+}
+export default NewOrganizerPage
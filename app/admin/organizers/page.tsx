@@ -0,0 +1,11 @@
+import {Suspense} from "react";
+import AdminOrganizerList from "@/components/admin/AdminOrganizerList";
+
+const OrganizersPage = async () => {
+    return (
+        <Suspense fallback={<div>Loading...</div>}>
+            <AdminOrganizerList />
+        </Suspense>
+    )
+}
+export default OrganizersPage
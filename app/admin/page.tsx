@@ -0,0 +1,11 @@
+import {Suspense} from "react";
+import AdminEventList from "@/components/admin/AdminEventList";
+
+const AdminPage = async () => {
+    return (
+        <Suspense fallback={<div>Loading...</div>}>
+            <AdminEventList />
+        </Suspense>
+    )
+}
+export default AdminPage
@@ -0,0 +1,11 @@
+import {Suspense} from "react";
+import PromoCodeList from "@/components/admin/PromoCodeList";
+
+const PromoCodesPage = async () => {
+    return (
+        <Suspense fallback={<div>Loading...</div>}>
+            <PromoCodeList />
+        </Suspense>
+    )
+}
+export default PromoCodesPage
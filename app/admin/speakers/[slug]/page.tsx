@@ -0,0 +1,13 @@
+import {Suspense} from "react";
+import AdminSpeakerEdit from "@/components/admin/AdminSpeakerEdit";
+
+const AdminSpeakerPage = async ({ params }: { params: Promise<{ slug: string }>}) => {
+    const slug = params.then((p) => p.slug);
+
+    return (
+        <Suspense fallback={<div>Loading...</div>}>
+            <AdminSpeakerEdit params={slug} />
+        </Suspense>
+    )
+}
+export default AdminSpeakerPage
@@ -0,0 +1,11 @@
+import {Suspense} from "react";
+import AdminSpeakerList from "@/components/admin/AdminSpeakerList";
+
+const SpeakersPage = async () => {
+    return (
+        <Suspense fallback={<div>Loading...</div>}>
+            <AdminSpeakerList />
+        </Suspense>
+    )
+}
+export default SpeakersPage
@@ -0,0 +1,13 @@
+import {Suspense} from "react";
+import AdminVenueEdit from "@/components/admin/AdminVenueEdit";
+
+const AdminVenuePage = async ({ params }: { params: Promise<{ id: string }>}) => {
+    const id = params.then((p) => p.id);
+
+    return (
+        <Suspense fallback={<div>Loading...</div>}>
+            <AdminVenueEdit params={id} />
+        </Suspense>
+    )
+}
+export default AdminVenuePage
@@ -0,0 +1,17 @@
+import {notFound} from "next/navigation";
+import {getCurrentUser, hasRole} from "@/lib/auth";
+import VenueForm, {type VenueFormValues} from "@/components/admin/VenueForm";
+
+const EMPTY_VENUE: VenueFormValues = { name: '', address: '', latitude: '', longitude: '', capacity: '' };
+
+const NewVenuePage = async () => {
+    if (!hasRole(await getCurrentUser(), 'admin')) notFound();
+
+    return (
+        <div className="flex flex-col gap-8">
+            <h1>New Venue</h1>
+            <VenueForm id={null} initialValues={EMPTY_VENUE} />
+        </div>
+    )
+}
+export default NewVenuePage
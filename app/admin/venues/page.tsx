@@ -0,0 +1,11 @@
+import {Suspense} from "react";
+import AdminVenueList from "@/components/admin/AdminVenueList";
+
+const VenuesPage = async () => {
+    return (
+        <Suspense fallback={<div>Loading...</div>}>
+            <AdminVenueList />
+        </Suspense>
+    )
+}
+export default VenuesPage
@@ -0,0 +1,117 @@
+import connectDB from "@/lib/mongodb";
+import { NextRequest, NextResponse } from "next/server";
+import Event from "@/database/event.model";
+import { IBooking } from "@/database/booking.model";
+import { accessDenied, handleApiError } from "@/lib/api";
+import { canManageEvent, getCurrentUser } from "@/lib/auth";
+import { describeBookingTarget, getBookingTarget, verifyTicketCode } from "@/lib/bookings";
+import { checkInTicket, getCheckInCounts } from "@/lib/check-in";
+
+type RouteParams = { params: Promise<{ slug: string }> };
+
+// Bookings in the statuses the door staff need to hear about
+const STATUS_NOTES: Partial<Record<IBooking["status"], string>> = {
+  waitlisted: "This booking is on the waitlist",
+  pending: "This booking hasn't been paid for",
+  refunded: "This booking was refunded",
+};
+
+// Loads an event the signed-in user may check attendees in for
+async function findManagedEvent(slug: string, failure: string) {
+  const event = await Event.findOne({ slug: slug.toLowerCase() }).select("_id organizer timezone sessions");
+
+  if (!event) {
+    return {
+      error: NextResponse.json({ message: `Event with slug '${slug}' not found` }, { status: 404 }),
+    };
+  }
+
+  const user = await getCurrentUser();
+
+  if (!canManageEvent(user, event)) return { error: accessDenied(user !== null, failure) };
+
+  return { event };
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    await connectDB();
+
+    const { slug } = await params;
+    const { event, error } = await findManagedEvent(slug, "Check-in Counts Failed");
+
+    if (error) return error;
+
+    return NextResponse.json({ message: "Check-in counts fetched successfully", counts: await getCheckInCounts(event._id) });
+  } catch (e) {
+    return handleApiError(e, "Check-in Counts Failed");
+  }
+}
+
+/**
+ * Checks in the ticket given as `{ "code": "..." }`, either the code itself
+ * or the ticket URL its QR code holds. Responds 409 for tickets already
+ * used and for bookings that don't get anyone in.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    await connectDB();
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { message: "Check-in Failed", error: "Request body must be valid JSON" },
+        { status: 400 }
+      );
+    }
+
+    const { slug } = await params;
+    const { event, error } = await findManagedEvent(slug, "Check-in Failed");
+
+    if (error) return error;
+
+    const input = body && typeof body === "object" && "code" in body && typeof body.code === "string" ? body.code : "";
+    const code = verifyTicketCode(input);
+
+    if (!code) {
+      return NextResponse.json({ message: "Check-in Failed", error: "This is not a valid ticket code" }, { status: 400 });
+    }
+
+    const result = await checkInTicket(event._id, code);
+
+    if (result.status === "not-found") {
+      return NextResponse.json(
+        { message: "Check-in Failed", error: "No booking for this event has this ticket" },
+        { status: 404 }
+      );
+    }
+
+    const { booking } = result;
+    const attendee = {
+      email: booking.email,
+      bookedFor: describeBookingTarget(event, getBookingTarget(booking)),
+      checkedInAt: booking.checkedInAt ?? null,
+    };
+    const counts = await getCheckInCounts(event._id);
+
+    if (result.status === "duplicate") {
+      return NextResponse.json(
+        { message: "Check-in Failed", error: "This ticket was already checked in", attendee, counts },
+        { status: 409 }
+      );
+    }
+
+    if (result.status === "not-attending") {
+      return NextResponse.json(
+        { message: "Check-in Failed", error: STATUS_NOTES[booking.status] ?? "This ticket is not valid", attendee, counts },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ message: "Checked in", attendee, counts });
+  } catch (e) {
+    return handleApiError(e, "Check-in Failed");
+  }
+}
@@ -0,0 +1,137 @@
+import connectDB from "@/lib/mongodb";
+import { NextRequest, NextResponse } from "next/server";
+import Event, { EVENT_EDITABLE_FIELDS, IEvent, saveEventWithUniqueSlug } from "@/database/event.model";
+import Booking from "@/database/booking.model";
+// Register the Organizer and Speaker models for populate()
+import "@/database/organizer.model";
+import "@/database/speaker.model";
+import { accessDenied, handleApiError, pickFields } from "@/lib/api";
+import { canManageEvent, getCurrentUser } from "@/lib/auth";
+import { bookingStatsTag } from "@/lib/bookings";
+import { enqueueJob } from "@/lib/jobs";
+import { notifyEventChange, notifyEventStatusChange, snapshotEventDetails } from "@/lib/event-notifications";
+import { findRenamedEventSlug, verifyEventPreviewToken } from "@/lib/event-lifecycle";
+import { isPubliclyVisible } from "@/lib/event-status";
+import { resolveEventSpeakers } from "@/lib/speakers";
+import { revalidateTag } from "next/cache";
+
+type RouteParams = { params: Promise<{ slug: string }> };
+
+const eventNotFound = (slug: string) =>
+  NextResponse.json(
+    { message: `Event with slug '${slug}' not found` },
+    { status: 404 }
+  );
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    await connectDB();
+
+    const { slug } = await params;
+    const event = await Event.findOne({ slug: slug.toLowerCase() })
+      .populate("organizerProfile", "name slug logo bio")
+      .populate(["speakers", "agenda.speakers", "sessions.speakers"].map((path) => ({ path, select: "name slug photo company" })))
+      .lean<IEvent>();
+
+    if (!event) {
+      // Links to a renamed event's old slug keep working
+      const currentSlug = await findRenamedEventSlug(slug);
+      if (!currentSlug) return eventNotFound(slug);
+
+      const url = req.nextUrl.clone();
+      url.pathname = `/api/events/${currentSlug}`;
+      return NextResponse.redirect(url, 301);
+    }
+
+    // Drafts are only shown to their organizers and through signed preview links
+    if (!isPubliclyVisible(event.status)) {
+      const preview = req.nextUrl.searchParams.get("preview");
+      const canPreview = preview
+        ? verifyEventPreviewToken(preview, event._id)
+        : canManageEvent(await getCurrentUser(), event);
+
+      if (!canPreview) return eventNotFound(slug);
+    }
+
+    return NextResponse.json({ message: "Event fetched successfully", event });
+  } catch (e) {
+    return handleApiError(e, "Event Fetching Failed");
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    await connectDB();
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { message: "Event Update Failed", error: "Request body must be valid JSON" },
+        { status: 400 }
+      );
+    }
+
+    const { slug } = await params;
+    const event = await Event.findOne({ slug: slug.toLowerCase() });
+
+    if (!event) return eventNotFound(slug);
+
+    const user = await getCurrentUser();
+
+    if (!canManageEvent(user, event)) {
+      return accessDenied(user !== null, "Event Update Failed");
+    }
+
+    const update = pickFields(body, EVENT_EDITABLE_FIELDS);
+    await resolveEventSpeakers(update);
+
+    // Go through save() so the slug/date/time pre-save hook runs
+    const details = snapshotEventDetails(event);
+    event.set(update);
+    const capacityChanged = event.isModified("capacity") || event.isModified("sessions");
+    const statusChanged = event.isModified("status");
+    await saveEventWithUniqueSlug(event);
+
+    // Attendees hear about a new date, venue or mode, and about cancellations and postponements
+    await notifyEventChange(event, details);
+    if (statusChanged) await notifyEventStatusChange(event);
+
+    // A raised (or removed) capacity frees seats for people on the waitlists; the worker fills them
+    if (capacityChanged) {
+      await enqueueJob("promote-waitlists", { eventId: String(event._id) });
+      revalidateTag(bookingStatsTag(event.slug), "max");
+    }
+
+    return NextResponse.json({ message: "Event updated successfully", event });
+  } catch (e) {
+    return handleApiError(e, "Event Update Failed");
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    await connectDB();
+
+    const { slug } = await params;
+    const event = await Event.findOne({ slug: slug.toLowerCase() });
+
+    if (!event) return eventNotFound(slug);
+
+    const user = await getCurrentUser();
+
+    if (!canManageEvent(user, event)) {
+      return accessDenied(user !== null, "Event Deletion Failed");
+    }
+
+    await event.deleteOne();
+
+    // Bookings cannot outlive the event they belong to
+    await Booking.deleteMany({ eventId: event._id });
+
+    return NextResponse.json({ message: "Event deleted successfully", event });
+  } catch (e) {
+    return handleApiError(e, "Event Deletion Failed");
+  }
+}
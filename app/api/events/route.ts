@@ -0,0 +1,116 @@
+import connectDB from "@/lib/mongodb";
+import { NextRequest, NextResponse } from "next/server";
+import Event, { EVENT_EDITABLE_FIELDS, EVENT_LIST_FIELDS, saveEventWithUniqueSlug } from "@/database/event.model";
+import { accessDenied, formDataToBody, handleApiError, parsePositiveInt, pickFields } from "@/lib/api";
+import { getCurrentUser, hasRole } from "@/lib/auth";
+import { LISTED_EVENT_FILTER } from "@/lib/event-status";
+import { resolveEventSpeakers } from "@/lib/speakers";
+import { getStorage, uploadImage, validateImage } from "@/lib/storage";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export async function GET(req: NextRequest) {
+  try {
+    await connectDB();
+
+    const { searchParams } = req.nextUrl;
+    const page = parsePositiveInt(searchParams.get("page"), 1);
+    const limit = parsePositiveInt(searchParams.get("limit"), DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    const [events, total] = await Promise.all([
+      Event.find(LISTED_EVENT_FILTER)
+        .sort({ startsAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      Event.countDocuments(LISTED_EVENT_FILTER),
+    ]);
+
+    return NextResponse.json({
+      message: "Events fetched successfully",
+      events,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (e) {
+    return handleApiError(e, "Event Fetching Failed");
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let uploadedImageUrl: string | null = null;
+
+  try {
+    await connectDB();
+
+    const user = await getCurrentUser();
+
+    if (!hasRole(user, "organizer", "admin")) {
+      return accessDenied(user !== null, "Event Creation Failed");
+    }
+
+    let body: Record<string, unknown>;
+    const contentType = req.headers.get("content-type") ?? "";
+
+    if (contentType.includes("multipart/form-data")) {
+      let formData: FormData;
+      try {
+        formData = await req.formData();
+      } catch {
+        return NextResponse.json(
+          { message: "Event Creation Failed", error: "Request body must be valid multipart form data" },
+          { status: 400 }
+        );
+      }
+
+      body = formDataToBody(formData, EVENT_EDITABLE_FIELDS, EVENT_LIST_FIELDS);
+
+      const image = formData.get("image");
+
+      if (image instanceof File) {
+        const imageError = await validateImage(image);
+
+        if (imageError) {
+          return NextResponse.json(
+            { message: "Event Creation Failed", error: "Validation failed", errors: { image: imageError } },
+            { status: 400 }
+          );
+        }
+
+        uploadedImageUrl = await uploadImage(image, "events");
+        body.image = uploadedImageUrl;
+      }
+    } else {
+      try {
+        body = pickFields(await req.json(), EVENT_EDITABLE_FIELDS);
+      } catch {
+        return NextResponse.json(
+          { message: "Event Creation Failed", error: "Request body must be valid JSON" },
+          { status: 400 }
+        );
+      }
+    }
+
+    await resolveEventSpeakers(body);
+
+    // Whoever creates an event owns it
+    const event = await saveEventWithUniqueSlug(new Event({ ...body, organizer: user._id }));
+
+    return NextResponse.json(
+      { message: "Event created successfully", event },
+      { status: 201 }
+    );
+  } catch (e) {
+    // Don't leave orphaned banners behind when the event itself was rejected
+    if (uploadedImageUrl) {
+      await getStorage().delete(uploadedImageUrl).catch(console.error);
+    }
+
+    return handleApiError(e, "Event Creation Failed");
+  }
+}
@@ -0,0 +1,31 @@
+import connectDB from "@/lib/mongodb";
+import { NextRequest, NextResponse } from "next/server";
+import { handleApiError } from "@/lib/api";
+import { bookingStatsTag } from "@/lib/bookings";
+import { completeCheckout, expireCheckout } from "@/lib/checkout";
+import { getPaymentProvider, hasPaymentProvider } from "@/lib/payments";
+import { revalidateTag } from "next/cache";
+
+// Receives checkout outcomes from the payment provider. Providers retry
+// failed deliveries, so handling the same event twice must be harmless.
+export async function POST(req: NextRequest) {
+  try {
+    const event = hasPaymentProvider() ? await getPaymentProvider().parseWebhook(req) : null;
+
+    if (!event) {
+      return NextResponse.json({ message: "Invalid payment event" }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const slug = event.type === "checkout.paid"
+      ? await completeCheckout(event.checkoutId)
+      : await expireCheckout(event.checkoutId);
+
+    if (slug) revalidateTag(bookingStatsTag(slug), "max");
+
+    return NextResponse.json({ message: "Payment event processed" });
+  } catch (e) {
+    return handleApiError(e, "Payment Event Failed");
+  }
+}
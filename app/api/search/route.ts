@@ -0,0 +1,32 @@
+import connectDB from "@/lib/mongodb";
+import { NextRequest, NextResponse } from "next/server";
+import { handleApiError } from "@/lib/api";
+import { decodeCursor, parseSearchParams, searchEvents } from "@/lib/search";
+
+/**
+ * Full-text event search.
+ * Query: q, mode, tag (repeatable), location, organizer, from, to (YYYY-MM-DD),
+ * lat, lng and within (km, default 50) for events near a point,
+ * sort (date | popularity | relevance), limit, cursor.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const query = parseSearchParams(req.nextUrl.searchParams);
+
+    // Unlike filters, a cursor that can't be read would silently restart the listing
+    if (query.cursor && !decodeCursor(query.cursor)) {
+      return NextResponse.json(
+        { message: "Event Search Failed", error: "Invalid cursor" },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const { events, nextCursor } = await searchEvents(query);
+
+    return NextResponse.json({ message: "Events fetched successfully", events, nextCursor });
+  } catch (e) {
+    return handleApiError(e, "Event Search Failed");
+  }
+}
@@ -0,0 +1,43 @@
+import connectDB from "@/lib/mongodb";
+import { NextRequest, NextResponse } from "next/server";
+import { consumeLoginToken, createSession, safeRedirectPath, SESSION_COOKIE } from "@/lib/auth";
+
+/**
+ * Landing point for emailed sign-in links: starts a session and redirects to
+ * the `next` path, or back to the login page if the link is no longer valid.
+ */
+export async function GET(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get("token");
+  const next = safeRedirectPath(req.nextUrl.searchParams.get("next"));
+
+  try {
+    await connectDB();
+
+    const user = token ? await consumeLoginToken(token) : null;
+
+    if (!user) {
+      const loginUrl = new URL("/login", req.url);
+      loginUrl.searchParams.set("error", "expired");
+      loginUrl.searchParams.set("next", next);
+
+      return NextResponse.redirect(loginUrl);
+    }
+
+    const session = await createSession(user._id);
+    const response = NextResponse.redirect(new URL(next, req.url));
+
+    response.cookies.set(SESSION_COOKIE, session.token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      expires: session.expiresAt,
+    });
+
+    return response;
+  } catch (e) {
+    console.error(e);
+
+    return NextResponse.json({ message: "Sign In Failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,15 @@
+import {Suspense} from "react";
+import ManageBookings from "@/components/ManageBookings";
+
+const ManageBookingsPage = async ({ params }: { params: Promise<{ token: string }>}) => {
+    const token = params.then((p) => p.token);
+
+    return (
+        <main>
+            <Suspense fallback={<div>Loading...</div>}>
+                <ManageBookings params={token} />
+            </Suspense>
+        </main>
+    )
+}
+export default ManageBookingsPage
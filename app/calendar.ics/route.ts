@@ -0,0 +1,58 @@
+import connectDB from "@/lib/mongodb";
+import { NextRequest, NextResponse } from "next/server";
+import Event from "@/database/event.model";
+// Registers the Speaker model for populate()
+import "@/database/speaker.model";
+import { buildCalendar, CalendarEvent } from "@/lib/ics";
+import { LISTED_EVENT_FILTER } from "@/lib/event-status";
+
+const MODES = ["online", "offline", "hybrid"];
+
+/**
+ * Subscribable feed of upcoming events.
+ * Optional filters: `?tags=react,nextjs` (any of) and `?mode=online`.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await connectDB();
+
+    const { searchParams } = req.nextUrl;
+    const tags = (searchParams.get("tags") ?? "")
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+    const mode = searchParams.get("mode");
+
+    if (mode && !MODES.includes(mode)) {
+      return NextResponse.json(
+        { message: "Calendar Export Failed", error: `Mode must be one of: ${MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // Recurring series stay in the feed; their RRULE says when they end
+    const filter: Record<string, unknown> = {
+      ...LISTED_EVENT_FILTER,
+      $or: [{ startsAt: { $gte: new Date() } }, { recurrence: { $nin: [null, ""] } }],
+    };
+
+    if (tags.length > 0) filter.tags = { $in: tags };
+    if (mode) filter.mode = mode;
+
+    const events = await Event.find(filter)
+      .sort({ startsAt: 1 })
+      .populate("agenda.speakers", "name")
+      .lean<CalendarEvent[]>();
+
+    return new NextResponse(buildCalendar(events, "DevEvent"), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Cache-Control": "public, max-age=900",
+      },
+    });
+  } catch (e) {
+    console.error(e);
+
+    return NextResponse.json({ message: "Calendar Export Failed" }, { status: 500 });
+  }
+}
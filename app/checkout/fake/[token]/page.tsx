@@ -0,0 +1,15 @@
+import {Suspense} from "react";
+import FakeCheckout from "@/components/FakeCheckout";
+
+const FakeCheckoutPage = async ({ params }: { params: Promise<{ token: string }>}) => {
+    const token = params.then((p) => p.token);
+
+    return (
+        <main>
+            <Suspense fallback={<div>Loading...</div>}>
+                <FakeCheckout params={token} />
+            </Suspense>
+        </main>
+    )
+}
+export default FakeCheckoutPage
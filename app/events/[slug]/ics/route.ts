@@ -0,0 +1,37 @@
+import connectDB from "@/lib/mongodb";
+import { NextRequest, NextResponse } from "next/server";
+import Event from "@/database/event.model";
+// Registers the Speaker model for populate()
+import "@/database/speaker.model";
+import { buildCalendar, CalendarEvent } from "@/lib/ics";
+import { EventStatus, isPubliclyVisible } from "@/lib/event-status";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
+  try {
+    await connectDB();
+
+    const { slug } = await params;
+    const event = await Event.findOne({ slug: slug.toLowerCase() })
+      .populate("agenda.speakers", "name")
+      .lean<CalendarEvent & { status?: EventStatus }>();
+
+    // Drafts aren't public yet
+    if (!event || (event.status && !isPubliclyVisible(event.status))) {
+      return NextResponse.json(
+        { message: `Event with slug '${slug}' not found` },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(buildCalendar([event]), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${event.slug}.ics"`,
+      },
+    });
+  } catch (e) {
+    console.error(e);
+
+    return NextResponse.json({ message: "Calendar Export Failed" }, { status: 500 });
+  }
+}
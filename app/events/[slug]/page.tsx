@@ -1,15 +1,40 @@
 import {Suspense} from "react";
+import {Types} from "mongoose";
+import Event from "@/database/event.model";
+import connectDB from "@/lib/mongodb";
+import {canManageEvent, getCurrentUser} from "@/lib/auth";
+import {createEventPreviewToken} from "@/lib/event-lifecycle";
 import EventDetails from "@/components/EventDetails";
 
-const EventDetailsPage = async ({ params }: { params: Promise<{ slug: string }>}) => {
+/**
+ * Event details are cached and fetched without the visitor's cookies, so
+ * organizers opening their own draft get a preview token minted here instead.
+ */
+const getOwnDraftPreviewToken = async (slug: string): Promise<string | undefined> => {
+    const user = await getCurrentUser();
+
+    if (!user) return undefined;
+
+    await connectDB();
+    const draft = await Event.findOne({ slug: slug.toLowerCase(), status: 'draft' }).select('organizer').lean<{ _id: Types.ObjectId; organizer: Types.ObjectId }>();
+
+    return draft && canManageEvent(user, draft) ? createEventPreviewToken(draft) : undefined;
+}
+
+const EventDetailsPage = async ({ params, searchParams }: {
+    params: Promise<{ slug: string }>;
+    searchParams: Promise<{ preview?: string }>;
+}) => {
     const slug = params.then((p) => p.slug);
+    // Signed token that shows a draft before it's published
+    const preview = Promise.all([slug, searchParams]).then(([eventSlug, p]) => p.preview ?? getOwnDraftPreviewToken(eventSlug));
 
     return (
         <main>
             <Suspense fallback={<div>Loading...</div>}>
-                <EventDetails params={slug} />
+                <EventDetails params={slug} preview={preview} />
             </Suspense>
         </main>
     )
 }
-export default EventDetailsPage
\ No newline at end of file
+export default EventDetailsPage
@@ -0,0 +1,27 @@
+import {Suspense} from "react";
+import EventSearch from "@/components/EventSearch";
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+const EventsPage = async ({ searchParams }: { searchParams: Promise<SearchParams> }) => {
+    const params = searchParams.then((p) => {
+        const urlParams = new URLSearchParams();
+
+        for (const [key, value] of Object.entries(p)) {
+            for (const item of Array.isArray(value) ? value : value ? [value] : []) {
+                urlParams.append(key, item);
+            }
+        }
+
+        return urlParams.toString();
+    });
+
+    return (
+        <main>
+            <Suspense fallback={<div>Loading...</div>}>
+                <EventSearch params={params} />
+            </Suspense>
+        </main>
+    )
+}
+export default EventsPage
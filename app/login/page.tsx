@@ -0,0 +1,22 @@
+import {Suspense} from "react";
+import LoginForm from "@/components/LoginForm";
+import {safeRedirectPath} from "@/lib/auth";
+
+const LoginPage = async ({ searchParams }: { searchParams: Promise<{ next?: string | string[]; error?: string | string[] }> }) => {
+    const params = searchParams.then((p) => ({
+        next: safeRedirectPath(typeof p.next === 'string' ? p.next : null),
+        expired: p.error === 'expired',
+    }));
+
+    return (
+        <section id="login">
+            <h1>Sign in</h1>
+            <p>We&apos;ll email you a link to sign in. No password needed.</p>
+
+            <Suspense fallback={<div>Loading...</div>}>
+                <LoginForm params={params} />
+            </Suspense>
+        </section>
+    )
+}
+export default LoginPage
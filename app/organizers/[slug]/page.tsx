@@ -0,0 +1,15 @@
+import {Suspense} from "react";
+import OrganizerProfile from "@/components/OrganizerProfile";
+
+const OrganizerPage = async ({ params }: { params: Promise<{ slug: string }>}) => {
+    const slug = params.then((p) => p.slug);
+
+    return (
+        <main>
+            <Suspense fallback={<div>Loading...</div>}>
+                <OrganizerProfile params={slug} />
+            </Suspense>
+        </main>
+    )
+}
+export default OrganizerPage
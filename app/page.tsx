@@ -1,7 +1,9 @@
+import Link from "next/link";
 import ExploreBtn from "@/components/ExploreBtn";
 import EventCard from "@/components/EventCard";
 import {IEvent} from "@/database";
 import {cacheLife} from "next/cache";
+import {getBookingStatsIfAvailable} from "@/lib/actions/event.actions";
 
 const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
 
@@ -10,6 +12,10 @@ const Page = async () => {
     cacheLife('hours')
     const response = await fetch(`${BASE_URL}/api/events`);
     const { events } = await response.json();
+    const stats = await Promise.all((events ?? []).map((event: IEvent) => getBookingStatsIfAvailable(event.slug)));
+
+    // Stats that failed to load are hidden; don't keep the page without them for hours
+    if (stats.includes(undefined)) cacheLife('seconds');
 
     return (
         <section>
@@ -22,12 +28,15 @@ const Page = async () => {
                 <h3>Featured Events</h3>
 
                 <ul className="events">
-                    {events && events.length > 0 && events.map((event: IEvent) => (
+                    {events && events.length > 0 && events.map((event: IEvent, index: number) => (
                         <li key={event.title} className="list-none">
-                            <EventCard {...event} />
+                            <EventCard {...event} stats={stats[index]} />
                         </li>
                     ))}
                 </ul>
+
+                <Link href="/events" className="text-link">Browse all events</Link>
+                <Link href="/speakers" className="text-link">Meet the speakers</Link>
             </div>
         </section>
     )
@@ -0,0 +1,15 @@
+import {Suspense} from "react";
+import SpeakerProfile from "@/components/SpeakerProfile";
+
+const SpeakerPage = async ({ params }: { params: Promise<{ slug: string }>}) => {
+    const slug = params.then((p) => p.slug);
+
+    return (
+        <main>
+            <Suspense fallback={<div>Loading...</div>}>
+                <SpeakerProfile params={slug} />
+            </Suspense>
+        </main>
+    )
+}
+export default SpeakerPage
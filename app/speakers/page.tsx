@@ -0,0 +1,32 @@
+import Image from "next/image";
+import Link from "next/link";
+import {getSpeakers} from "@/lib/actions/speaker.actions";
+
+const SpeakersPage = async () => {
+    const speakers = await getSpeakers();
+
+    return (
+        <section id="speakers">
+            <h1>Speakers</h1>
+
+            {speakers.length > 0 ? (
+                <ul>
+                    {speakers.map((speaker) => (
+                        <li key={String(speaker._id)} className="list-none">
+                            <Link href={`/speakers/${speaker.slug}`} className="flex flex-row items-center gap-4">
+                                {speaker.photo && <Image src={speaker.photo} alt={speaker.name} width={64} height={64} className="photo" />}
+                                <div>
+                                    <p className="name">{speaker.name}</p>
+                                    {speaker.company && <p className="company">{speaker.company}</p>}
+                                </div>
+                            </Link>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p>No speakers yet.</p>
+            )}
+        </section>
+    )
+}
+export default SpeakersPage
@@ -0,0 +1,15 @@
+import {Suspense} from "react";
+import Ticket from "@/components/Ticket";
+
+const TicketPage = async ({ params }: { params: Promise<{ code: string }>}) => {
+    const code = params.then((p) => p.code);
+
+    return (
+        <main>
+            <Suspense fallback={<div>Loading...</div>}>
+                <Ticket params={code} />
+            </Suspense>
+        </main>
+    )
+}
+export default TicketPage
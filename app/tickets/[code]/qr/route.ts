@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createTicketUrl, verifyTicketCode } from "@/lib/bookings";
+import { encodeQr, qrToSvg } from "@/lib/qr";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ code: string }> }) {
+  const { code } = await params;
+  const ticketCode = verifyTicketCode(code);
+
+  if (!ticketCode) {
+    return NextResponse.json({ message: "Ticket not found" }, { status: 404 });
+  }
+
+  // The code holds the ticket page URL, so a phone camera opens the ticket while door scanners read the code from it
+  return new NextResponse(qrToSvg(encodeQr(createTicketUrl(ticketCode))), {
+    headers: {
+      "Content-Type": "image/svg+xml",
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readLocalUpload } from "@/lib/storage";
+
+// Serves files saved by the local storage adapter, which `next start` wouldn't serve from `public` after the build
+export async function GET(req: NextRequest, { params }: { params: Promise<{ key: string[] }> }) {
+  const { key } = await params;
+  const file = await readLocalUpload(key.join("/"));
+
+  if (!file) {
+    return NextResponse.json({ message: "File not found" }, { status: 404 });
+  }
+
+  // Stored files get a new random name on every upload, so they never change
+  return new NextResponse(new Uint8Array(file.data), {
+    headers: {
+      "Content-Type": file.contentType,
+      "Cache-Control": "public, max-age=31536000, immutable",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
@@ -1,33 +1,134 @@
 'use client';
 
 import {useState} from "react";
+import Image from "next/image";
 import {createBooking} from "@/lib/actions/booking.actions";
+import type {BookingErrorCode} from "@/lib/actions/booking.actions";
 import posthog from "posthog-js";
 
-const BookEvent = ({ eventId, slug }: { eventId: string, slug: string;}) => {
+const ERROR_MESSAGES: Record<BookingErrorCode, string> = {
+    DUPLICATE: "You've already booked this event with this email.",
+    INVALID_EMAIL: 'Please enter a valid email address.',
+    EVENT_NOT_FOUND: 'This event no longer exists.',
+    EVENT_UNAVAILABLE: "This event isn't taking bookings.",
+    INVALID_TARGET: 'Please choose a date or session.',
+    INVALID_TIER: 'This ticket is no longer on sale.',
+    SOLD_OUT: 'Sorry, this ticket is sold out. Please choose another one.',
+    INVALID_CODE: "This promo code can't be used for this ticket.",
+    CODE_EXHAUSTED: 'This promo code has already been used up.',
+    EVENT_FULL: 'Sorry, this event is fully booked.',
+    PAYMENTS_UNAVAILABLE: "Paid tickets can't be bought right now. Please try again later.",
+    INTERNAL: 'Something went wrong. Please try again.',
+};
+
+// Occurrences of a recurring event, or sessions of a multi-session event, to book one of
+export type BookingTargets = {
+    field: 'occurrenceStart' | 'sessionId';
+    options: { value: string; label: string }[];
+};
+
+// Ticket tiers of a ticketed event; tiers that can't be bought are shown disabled
+export type TicketOption = { value: string; label: string; disabled: boolean };
+
+const BookEvent = ({ eventId, slug, targets, tickets }: {
+    eventId: string,
+    slug: string;
+    targets?: BookingTargets;
+    tickets?: TicketOption[];
+}) => {
     const [email, setEmail] = useState('');
+    const [target, setTarget] = useState(targets?.options[0]?.value ?? '');
+    const [ticket, setTicket] = useState(tickets?.find((option) => !option.disabled)?.value ?? '');
+    const [promoCode, setPromoCode] = useState('');
     const [submitted, setSubmitted] = useState(false);
+    const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
+    const [ticketCode, setTicketCode] = useState<string | null>(null);
+    const [errorCode, setErrorCode] = useState<BookingErrorCode | null>(null);
+    const [errorMessage, setErrorMessage] = useState('');
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        setErrorCode(null);
 
-        const { success } = await createBooking({ eventId, slug, email });
+        const result = await createBooking({
+            eventId,
+            slug,
+            email,
+            ...(targets && { [targets.field]: target }),
+            ...(tickets && { ticketTierId: ticket, promoCode }),
+        });
 
-        if(success) {
+        if (result.success && result.checkoutUrl) {
+            posthog.capture('checkout_started', { eventId, slug, email })
+            window.location.assign(result.checkoutUrl);
+        } else if(result.success) {
             setSubmitted(true);
-            posthog.capture('event_booked', { eventId, slug, email })
+            setWaitlistPosition(result.status === 'waitlisted' ? result.position ?? null : null);
+            setTicketCode(result.ticketCode ?? null);
+            posthog.capture(result.status === 'waitlisted' ? 'event_waitlisted' : 'event_booked', { eventId, slug, email })
         } else {
-            console.error('Booking creation failed')
-            posthog.captureException('Booking creation failed')
+            setErrorCode(result.code);
+            setErrorMessage(result.message);
+            console.error('Booking creation failed', result.code)
+            posthog.captureException(new Error(result.message), { code: result.code, eventId, slug })
         }
     }
 
     return (
         <div id="book-event">
             {submitted ? (
-                <p className="text-sm">Thank you for signing up!</p>
+                waitlistPosition !== null ? (
+                    <p className="text-sm">You&apos;re on the waitlist (#{waitlistPosition})</p>
+                ) : (
+                    <div className="flex flex-col gap-2">
+                        <p className="text-sm">Thank you for signing up!</p>
+                        {ticketCode && (
+                            <>
+                                <Image src={`/tickets/${ticketCode}/qr`} alt="Your ticket's QR code" width={160} height={160} unoptimized />
+                                <a href={`/tickets/${ticketCode}`} className="text-link">View your ticket</a>
+                            </>
+                        )}
+                        <a href={`/events/${slug}/ics`} className="text-link" download>Add to calendar</a>
+                    </div>
+                )
             ): (
                 <form onSubmit={handleSubmit}>
+                    {targets && (
+                        <div>
+                            <label htmlFor="target">{targets.field === 'sessionId' ? 'Session' : 'Date'}</label>
+                            <select id="target" value={target} onChange={(e) => setTarget(e.target.value)}>
+                                {targets.options.map((option) => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
+                    {tickets && (
+                        <div>
+                            <label htmlFor="ticket">Ticket</label>
+                            <select id="ticket" value={ticket} onChange={(e) => setTicket(e.target.value)}>
+                                {tickets.map((option) => (
+                                    <option key={option.value} value={option.value} disabled={option.disabled}>{option.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
+                    {tickets && (
+                        <div>
+                            <label htmlFor="promo-code">Promo code</label>
+                            <input
+                                type="text"
+                                value={promoCode}
+                                onChange={(e) => setPromoCode(e.target.value)}
+                                id="promo-code"
+                                placeholder="Optional"
+                                autoCapitalize="characters"
+                            />
+                        </div>
+                    )}
+
                     <div>
                         <label htmlFor="email">Email Address</label>
                         <input
@@ -39,6 +140,15 @@ const BookEvent = ({ eventId, slug }: { eventId: string, slug: string;}) => {
                         />
                     </div>
 
+                    {errorCode && (
+                        <p className="text-sm error" role="alert">
+                            {/* The server says why a code doesn't apply, e.g. that it expired, or why the event closed */}
+                            {(errorCode === 'INVALID_CODE' || errorCode === 'EVENT_UNAVAILABLE') && errorMessage
+                                ? `${errorMessage}.`
+                                : ERROR_MESSAGES[errorCode]}
+                        </p>
+                    )}
+
                     <button type="submit" className="button-submit">Submit</button>
                 </form>
             )}
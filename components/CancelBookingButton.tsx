@@ -0,0 +1,34 @@
+'use client';
+
+import {useState, useTransition} from "react";
+import {cancelBookingByToken} from "@/lib/actions/booking.actions";
+import posthog from "posthog-js";
+
+// Paid bookings are refunded when cancelled
+const CancelBookingButton = ({ token, bookingId, refund = false }: { token: string; bookingId: string; refund?: boolean }) => {
+    const [isPending, startTransition] = useTransition();
+    const [failed, setFailed] = useState(false);
+
+    const handleCancel = () => {
+        startTransition(async () => {
+            const { success } = await cancelBookingByToken(token, bookingId);
+
+            if (success) {
+                posthog.capture('booking_cancelled', { bookingId })
+            } else {
+                setFailed(true);
+                posthog.captureException('Booking cancellation failed')
+            }
+        });
+    }
+
+    return (
+        <div className="flex flex-col gap-1">
+            <button type="button" className="cancel-booking" onClick={handleCancel} disabled={isPending}>
+                {isPending ? 'Cancelling...' : refund ? 'Cancel and refund' : 'Cancel booking'}
+            </button>
+            {failed && <p className="text-sm">We couldn&apos;t cancel this booking. Please try again.</p>}
+        </div>
+    )
+}
+export default CancelBookingButton
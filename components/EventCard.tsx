@@ -1,5 +1,8 @@
 import Link from "next/link";
 import Image from "next/image";
+import type {BookingStats} from "@/lib/actions/event.actions";
+import {formatTime} from "@/lib/timezone";
+import ViewerLocalTime from "@/components/ViewerLocalTime";
 
 interface Props {
     title: string;
@@ -8,9 +11,12 @@ interface Props {
     location: string;
     date: string;
     time: string;
+    startsAt?: string | Date;
+    timezone?: string;
+    stats?: BookingStats;
 }
 
-const EventCard = ({ title, image, slug, location, date, time }: Props) => {
+const EventCard = ({ title, image, slug, location, date, time, startsAt, timezone, stats }: Props) => {
     return (
         <Link href={`/events/${slug}`} id="event-card">
             <Image src={image} alt={title} width={410} height={300} className="poster" />
@@ -29,9 +35,18 @@ const EventCard = ({ title, image, slug, location, date, time }: Props) => {
                 </div>
                 <div>
                     <Image src="/icons/clock.svg" alt="time" width={14} height={14} />
-                    <p>{time}</p>
+                    <p>{startsAt && timezone ? formatTime(startsAt, timezone) : time}</p>
                 </div>
             </div>
+
+            {startsAt && timezone && <ViewerLocalTime startsAt={startsAt} timezone={timezone} timeOnly />}
+
+            {stats && (
+                <p className="stats">
+                    {stats.total} booked
+                    {stats.seatsLeft !== null && (stats.seatsLeft > 0 ? ` · ${stats.seatsLeft} seats left` : ' · Sold out')}
+                </p>
+            )}
         </Link>
     )
 }
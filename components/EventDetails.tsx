@@ -1,14 +1,26 @@
 import React from 'react'
 import {notFound} from "next/navigation";
-import {IEvent} from "@/database";
-import {getSimilarEventsBySlug} from "@/lib/actions/event.actions";
+import Link from "next/link";
+import {IEvent, IOrganizer} from "@/database";
+import {getBookingStatsIfAvailable, getSimilarEventsBySlug} from "@/lib/actions/event.actions";
 import Image from "next/image";
-import BookEvent from "@/components/BookEvent";
+import BookEvent, {BookingTargets, TicketOption} from "@/components/BookEvent";
 import EventCard from "@/components/EventCard";
 import {cacheLife} from "next/cache";
+import {formatDateTime, formatTime} from "@/lib/timezone";
+import ViewerLocalTime from "@/components/ViewerLocalTime";
+import EventSchedule, {ScheduleSession} from "@/components/EventSchedule";
+import {expandOccurrences, Occurrence} from "@/lib/recurrence";
+import {AgendaItem, formatAgendaTime, groupAgendaByTrack} from "@/lib/agenda";
+import EventSpeakers, {SpeakerLinks, SpeakerSummary} from "@/components/EventSpeakers";
+import {formatPrice, getTicketsSold, getTierAvailability, TicketTier, TierAvailability} from "@/lib/tickets";
+import {EventStatus, isBookable} from "@/lib/event-status";
 
 const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
 
+// Upcoming dates listed (and bookable) for recurring events
+const OCCURRENCES_SHOWN = 6;
+
 const EventDetailItem = ({ icon, alt, label }: { icon: string; alt: string; label: string; }) => (
     <div className="flex-row-gap-2 items-center">
         <Image src={icon} alt={alt} width={17} height={17} />
@@ -16,17 +28,90 @@ const EventDetailItem = ({ icon, alt, label }: { icon: string; alt: string; labe
     </div>
 )
 
-const EventAgenda = ({ agendaItems }: { agendaItems: string[] }) => (
-    <div className="agenda">
-        <h2>Agenda</h2>
-        <ul>
-            {agendaItems.map((item) => (
-                <li key={item}>{item}</li>
-            ))}
-        </ul>
+const EventAgenda = ({ agendaItems }: { agendaItems: (AgendaItem<SpeakerSummary> & { _id: string })[] }) => {
+    const tracks = groupAgendaByTrack(agendaItems);
+    const multiDay = agendaItems.some((item) => item.day > 1);
+
+    return (
+        <div className="agenda">
+            <h2>Agenda</h2>
+            <div className="tracks">
+                {tracks.map(({ track, items }) => (
+                    <div key={track} className="track">
+                        {tracks.length > 1 && <h3>{track}</h3>}
+                        <ol className="timeline">
+                            {items.map((item) => (
+                                <li key={item._id}>
+                                    <p className="time">{[multiDay && `Day ${item.day}`, formatAgendaTime(item)].filter(Boolean).join(' · ')}</p>
+                                    <div className="flex-col-gap-2">
+                                        <p className="title">{item.title}</p>
+                                        {item.speakers.length > 0 && <p className="speakers"><SpeakerLinks speakers={item.speakers} /></p>}
+                                        {item.description && <p className="text-sm">{item.description}</p>}
+                                    </div>
+                                </li>
+                            ))}
+                        </ol>
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
+
+const EventOrganizer = ({ organizer }: { organizer: Pick<IOrganizer, 'name' | 'slug' | 'logo' | 'bio'> }) => (
+    <section className="organizer">
+        <h2>About the Organizer</h2>
+        <Link href={`/organizers/${organizer.slug}`} className="flex-row-gap-2 items-center">
+            {organizer.logo && <Image src={organizer.logo} alt={organizer.name} width={40} height={40} className="logo" />}
+            <p className="name">{organizer.name}</p>
+        </Link>
+        {organizer.bio && <p>{organizer.bio}</p>}
+    </section>
+)
+
+const EventOccurrences = ({ occurrences, timezone }: { occurrences: Occurrence[]; timezone: string }) => (
+    <div className="flex-col-gap-2">
+        <h3>Upcoming dates</h3>
+        {occurrences.length > 0 ? (
+            <ul className="occurrences">
+                {occurrences.map((occurrence) => (
+                    <li key={occurrence.startsAt.toISOString()}>{formatDateTime(occurrence.startsAt, timezone)}</li>
+                ))}
+            </ul>
+        ) : (
+            <p>This series has ended.</p>
+        )}
     </div>
 )
 
+const TIER_NOTES: Record<TierAvailability, string> = {
+    'on-sale': '',
+    'not-started': 'not on sale yet',
+    ended: 'sales ended',
+    'sold-out': 'sold out',
+};
+
+// What visitors are told about events that aren't simply on sale
+const STATUS_NOTICES: Partial<Record<EventStatus, { title: string; text: string }>> = {
+    draft: { title: 'Draft preview', text: "This event isn't published yet. Only people with this link can see it." },
+    cancelled: { title: 'This event was cancelled', text: 'The organizer cancelled this event. Bookings are closed.' },
+    postponed: { title: 'This event was postponed', text: 'The organizer will announce new dates. Existing bookings stay in place.' },
+    archived: { title: 'This event is over', text: 'Thanks to everyone who joined.' },
+};
+
+const EventStatusNotice = ({ status }: { status: EventStatus }) => {
+    const notice = STATUS_NOTICES[status];
+
+    if (!notice) return null;
+
+    return (
+        <div className={`status-notice ${status}`} role="status">
+            <strong>{notice.title}</strong>
+            <p>{notice.text}</p>
+        </div>
+    )
+}
+
 const EventTags = ({ tags }: { tags: string[] }) => (
     <div className="flex flex-row gap-1.5 flex-wrap">
         {tags.map((tag) => (
@@ -35,14 +120,16 @@ const EventTags = ({ tags }: { tags: string[] }) => (
     </div>
 )
 
-const EventDetails = async ({ params }: { params: Promise<string> }) => {
+const EventDetails = async ({ params, preview }: { params: Promise<string>; preview?: Promise<string | undefined> }) => {
     'use cache'
     cacheLife('hours');
     const slug = await params;
+    const previewToken = await preview;
 
     let event;
     try {
-        const request = await fetch(`${BASE_URL}/api/events/${slug}`, {
+        const query = previewToken ? `?preview=${encodeURIComponent(previewToken)}` : '';
+        const request = await fetch(`${BASE_URL}/api/events/${slug}${query}`, {
             next: { revalidate: 60 }
         });
 
@@ -64,16 +151,69 @@ const EventDetails = async ({ params }: { params: Promise<string> }) => {
         return notFound();
     }
 
-    const { description, image, overview, date, time, location, mode, agenda, audience, tags, organizer } = event;
+    const { description, image, overview, date, time, startsAt, endsAt, timezone, recurrence, location, mode, agenda, audience, tags, organizerProfile, status } = event;
+    const sessions: ScheduleSession[] = event.sessions ?? [];
+
+    // Headline speakers first, then everyone else on the agenda or schedule
+    const speakers: SpeakerSummary[] = [
+        ...(event.speakers ?? []),
+        ...agenda.flatMap((item: AgendaItem<SpeakerSummary>) => item.speakers),
+        ...sessions.flatMap((session) => session.speakers),
+    ];
+    const uniqueSpeakers = speakers.filter((speaker, index) => speakers.findIndex((other) => other._id === speaker._id) === index);
 
     if(!description) return notFound();
 
-    const bookings = 10;
+    const occurrences = recurrence
+        ? expandOccurrences(event, { from: new Date(), limit: OCCURRENCES_SHOWN })
+        : [];
+
+    let targets: BookingTargets | undefined;
+    if (recurrence) {
+        targets = {
+            field: 'occurrenceStart',
+            options: occurrences.map((occurrence) => ({
+                value: occurrence.startsAt.toISOString(),
+                label: formatDateTime(occurrence.startsAt, timezone),
+            })),
+        };
+    } else if (sessions.length > 0) {
+        targets = {
+            field: 'sessionId',
+            options: sessions.map((session) => ({
+                value: session._id,
+                label: `${session.title} (${formatDateTime(session.startsAt, timezone)})`,
+            })),
+        };
+    }
+
+    const ticketsSold = getTicketsSold(event);
+    const tickets: TicketOption[] | undefined = event.ticketTiers?.length > 0
+        ? event.ticketTiers.map((tier: TicketTier & { _id: string }) => {
+            const availability = getTierAvailability(tier, ticketsSold.get(tier._id) ?? 0);
+            const note = TIER_NOTES[availability];
+
+            return {
+                value: tier._id,
+                label: `${tier.name} · ${formatPrice(tier.price, tier.currency)}${note ? ` (${note})` : ''}`,
+                disabled: availability !== 'on-sale',
+            };
+        })
+        : undefined;
 
-    const similarEvents: IEvent[] = await getSimilarEventsBySlug(slug);
+    const [stats, similarEvents] = await Promise.all([
+        getBookingStatsIfAvailable(slug),
+        getSimilarEventsBySlug(slug),
+    ]);
+    const similarEventStats = await Promise.all(similarEvents.map((similarEvent) => getBookingStatsIfAvailable(similarEvent.slug)));
+
+    // Stats that failed to load are hidden; don't keep the page without them for hours
+    if (!stats || similarEventStats.includes(undefined)) cacheLife('seconds');
 
     return (
         <section id="event">
+            <EventStatusNotice status={status} />
+
             <div className="header">
                 <h1>Event Description</h1>
                 <p>{description}</p>
@@ -92,19 +232,36 @@ const EventDetails = async ({ params }: { params: Promise<string> }) => {
                     <section className="flex-col-gap-2">
                         <h2>Event Details</h2>
 
-                        <EventDetailItem icon="/icons/calendar.svg" alt="calendar" label={date} />
-                        <EventDetailItem icon="/icons/clock.svg" alt="clock" label={time} />
+                        {startsAt ? (
+                            <>
+                                <EventDetailItem
+                                    icon="/icons/calendar.svg"
+                                    alt="calendar"
+                                    label={endsAt ? `${formatDateTime(startsAt, timezone)} – ${formatTime(endsAt, timezone)}` : formatDateTime(startsAt, timezone)}
+                                />
+                                <ViewerLocalTime startsAt={startsAt} timezone={timezone} className="viewer-time" />
+                            </>
+                        ) : (
+                            <>
+                                <EventDetailItem icon="/icons/calendar.svg" alt="calendar" label={date} />
+                                <EventDetailItem icon="/icons/clock.svg" alt="clock" label={time} />
+                            </>
+                        )}
+                        {recurrence && <EventOccurrences occurrences={occurrences} timezone={timezone} />}
                         <EventDetailItem icon="/icons/pin.svg" alt="pin" label={location} />
                         <EventDetailItem icon="/icons/mode.svg" alt="mode" label={mode} />
                         <EventDetailItem icon="/icons/audience.svg" alt="audience" label={audience} />
+
+                        <a href={`/events/${slug}/ics`} className="text-link" download>Add to calendar</a>
                     </section>
 
                     <EventAgenda agendaItems={agenda} />
 
-                    <section className="flex-col-gap-2">
-                        <h2>About the Organizer</h2>
-                        <p>{organizer}</p>
-                    </section>
+                    {sessions.length > 0 && <EventSchedule sessions={sessions} timezone={timezone} />}
+
+                    {uniqueSpeakers.length > 0 && <EventSpeakers speakers={uniqueSpeakers} />}
+
+                    {organizerProfile && <EventOrganizer organizer={organizerProfile} />}
 
                     <EventTags tags={tags} />
                 </div>
@@ -113,15 +270,31 @@ const EventDetails = async ({ params }: { params: Promise<string> }) => {
                 <aside className="booking">
                     <div className="signup-card">
                         <h2>Book Your Spot</h2>
-                        {bookings > 0 ? (
+                        {!stats ? null : stats.total > 0 ? (
                             <p className="text-sm">
-                                Join {bookings} people who have already booked their spot!
+                                Join {stats.total} people who have already booked their spot!
+                                {stats.last24h > 0 && ` ${stats.last24h} booked in the last 24 hours.`}
                             </p>
                         ): (
                             <p className="text-sm">Be the first to book your spot!</p>
                         )}
+                        {stats && stats.seatsLeft !== null && (
+                            <p className="text-sm">
+                                {stats.seatsLeft > 0
+                                    ? `${stats.seatsLeft} ${stats.seatsLeft === 1 ? 'seat' : 'seats'} left`
+                                    : tickets
+                                        ? 'Sold out.'
+                                        : `Sold out. New bookings join the waitlist${stats.waitlisted > 0 ? ` (${stats.waitlisted} waiting)` : ''}.`}
+                            </p>
+                        )}
 
-                        <BookEvent eventId={event._id} slug={event.slug} />
+                        {!isBookable(status) ? (
+                            <p className="text-sm">{status === 'draft' ? 'Bookings open once the event is published.' : 'Bookings are closed.'}</p>
+                        ) : targets?.options.length === 0 ? (
+                            <p className="text-sm">There are no upcoming dates to book.</p>
+                        ) : (
+                            <BookEvent eventId={event._id} slug={event.slug} targets={targets} tickets={tickets} />
+                        )}
                     </div>
                 </aside>
             </div>
@@ -129,8 +302,8 @@ const EventDetails = async ({ params }: { params: Promise<string> }) => {
             <div className="flex w-full flex-col gap-4 pt-20">
                 <h2>Similar Events</h2>
                 <div className="events">
-                    {similarEvents.length > 0 && similarEvents.map((similarEvent: IEvent) => (
-                        <EventCard key={similarEvent.title} {...similarEvent} />
+                    {similarEvents.length > 0 && similarEvents.map((similarEvent: IEvent, index) => (
+                        <EventCard key={similarEvent.title} {...similarEvent} stats={similarEventStats[index]} />
                     ))}
                 </div>
             </div>
@@ -0,0 +1,79 @@
+import React from 'react'
+import {formatDay, formatTime, utcToZonedTime} from "@/lib/timezone";
+import {SpeakerLinks, SpeakerSummary} from "@/components/EventSpeakers";
+
+export type ScheduleSession = {
+    _id: string;
+    title: string;
+    startsAt: string;
+    endsAt: string;
+    room?: string;
+    speakers: SpeakerSummary[];
+};
+
+// Column for sessions that don't name a room
+const DEFAULT_ROOM = 'Main stage';
+
+/**
+ * Lays sessions out per day in the event's timezone: one row per start time,
+ * one column per room.
+ */
+const EventSchedule = ({ sessions, timezone }: { sessions: ScheduleSession[]; timezone: string }) => {
+    const sorted = [...sessions].sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
+    const rooms = [...new Set(sorted.map((session) => session.room || DEFAULT_ROOM))];
+
+    const days = new Map<string, ScheduleSession[]>();
+    for (const session of sorted) {
+        const { date } = utcToZonedTime(new Date(session.startsAt), timezone);
+        days.set(date, [...(days.get(date) ?? []), session]);
+    }
+
+    return (
+        <section className="schedule">
+            <h2>Schedule</h2>
+
+            {[...days.entries()].map(([date, daySessions]) => {
+                const startTimes = [...new Set(daySessions.map((session) => session.startsAt))];
+
+                return (
+                    <div key={date} className="flex-col-gap-2">
+                        <h3>{formatDay(daySessions[0].startsAt, timezone)}</h3>
+                        <div className="schedule-grid">
+                            <table>
+                                <thead>
+                                    <tr>
+                                        <th>Time</th>
+                                        {rooms.map((room) => <th key={room}>{room}</th>)}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {startTimes.map((startsAt) => (
+                                        <tr key={startsAt}>
+                                            <td className="time">{formatTime(startsAt, timezone)}</td>
+                                            {rooms.map((room) => (
+                                                <td key={room}>
+                                                    {daySessions
+                                                        .filter((session) => session.startsAt === startsAt && (session.room || DEFAULT_ROOM) === room)
+                                                        .map((session) => (
+                                                            <div key={session._id} className="session">
+                                                                <p className="title">{session.title}</p>
+                                                                <p className="text-sm">Until {formatTime(session.endsAt, timezone)}</p>
+                                                                {session.speakers.length > 0 && (
+                                                                    <p className="text-sm"><SpeakerLinks speakers={session.speakers} /></p>
+                                                                )}
+                                                            </div>
+                                                        ))}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                );
+            })}
+        </section>
+    )
+}
+export default EventSchedule
@@ -0,0 +1,79 @@
+import Link from "next/link";
+import EventCard from "@/components/EventCard";
+import NearMeFields from "@/components/NearMeFields";
+import connectDB from "@/lib/mongodb";
+import {parseSearchParams, searchEvents, toSearchParams} from "@/lib/search";
+import {getBookingStatsIfAvailable} from "@/lib/actions/event.actions";
+
+const SORT_LABELS = {
+    date: 'Date',
+    popularity: 'Popularity',
+    relevance: 'Relevance',
+};
+
+const EventSearch = async ({ params }: { params: Promise<string> }) => {
+    const query = parseSearchParams(new URLSearchParams(await params));
+
+    await connectDB();
+    const { events, nextCursor } = await searchEvents(query);
+    const stats = await Promise.all(events.map((event) => getBookingStatsIfAvailable(event.slug)));
+
+    const nextPageHref = nextCursor ? `/events?${toSearchParams({ ...query, cursor: nextCursor })}` : null;
+
+    return (
+        <section id="event-search">
+            <h1>Browse Events</h1>
+
+            {/* A plain GET form keeps every filter in the URL, so results can be shared */}
+            <form action="/events" method="GET" className="filters">
+                <input type="search" name="q" defaultValue={query.q} placeholder="Search events" aria-label="Search events" />
+
+                <select name="mode" defaultValue={query.mode ?? ''} aria-label="Mode">
+                    <option value="">Any mode</option>
+                    <option value="online">Online</option>
+                    <option value="offline">Offline</option>
+                    <option value="hybrid">Hybrid</option>
+                </select>
+
+                <input type="text" name="tag" defaultValue={query.tags.join(', ')} placeholder="Tags" aria-label="Tags" />
+                <input type="text" name="location" defaultValue={query.location} placeholder="Location" aria-label="Location" />
+                <input type="text" name="organizer" defaultValue={query.organizer} placeholder="Organizer" aria-label="Organizer" />
+                <NearMeFields near={query.near} />
+
+                <label>
+                    From
+                    <input type="date" name="from" defaultValue={query.from} />
+                </label>
+                <label>
+                    To
+                    <input type="date" name="to" defaultValue={query.to} />
+                </label>
+
+                <select name="sort" defaultValue={query.sort} aria-label="Sort by">
+                    {Object.entries(SORT_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>Sort by {label.toLowerCase()}</option>
+                    ))}
+                </select>
+
+                <button type="submit">Search</button>
+            </form>
+
+            {events.length > 0 ? (
+                <ul className="events">
+                    {events.map((event, index) => (
+                        <li key={String(event._id)} className="list-none">
+                            <EventCard {...event} stats={stats[index]} />
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p>No events match your filters.</p>
+            )}
+
+            {nextPageHref && (
+                <Link href={nextPageHref} className="load-more">Next page</Link>
+            )}
+        </section>
+    )
+}
+export default EventSearch
@@ -0,0 +1,41 @@
+import Image from "next/image";
+import Link from "next/link";
+
+export type SpeakerSummary = {
+    _id: string;
+    name: string;
+    slug: string;
+    photo?: string;
+    company?: string;
+};
+
+export const SpeakerLinks = ({ speakers }: { speakers: SpeakerSummary[] }) => (
+    <>
+        {speakers.map((speaker, index) => (
+            <span key={speaker._id}>
+                {index > 0 && ', '}
+                <Link href={`/speakers/${speaker.slug}`}>{speaker.name}</Link>
+            </span>
+        ))}
+    </>
+)
+
+const EventSpeakers = ({ speakers }: { speakers: SpeakerSummary[] }) => (
+    <section className="speakers">
+        <h2>Speakers</h2>
+        <ul>
+            {speakers.map((speaker) => (
+                <li key={speaker._id}>
+                    <Link href={`/speakers/${speaker.slug}`} className="flex-row-gap-2 items-center">
+                        {speaker.photo && <Image src={speaker.photo} alt={speaker.name} width={48} height={48} className="photo" />}
+                        <div>
+                            <p className="name">{speaker.name}</p>
+                            {speaker.company && <p className="text-sm">{speaker.company}</p>}
+                        </div>
+                    </Link>
+                </li>
+            ))}
+        </ul>
+    </section>
+)
+export default EventSpeakers
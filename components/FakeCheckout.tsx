@@ -0,0 +1,35 @@
+import {payFakeCheckout} from "@/lib/actions/checkout.actions";
+import {isFakePaymentProvider, readFakeCheckout} from "@/lib/payments";
+import {formatPrice} from "@/lib/tickets";
+
+const FakeCheckout = async ({ params }: { params: Promise<string> }) => {
+    const token = await params;
+    const checkout = isFakePaymentProvider() ? readFakeCheckout(token) : null;
+
+    if (!checkout) {
+        return (
+            <section id="checkout">
+                <h1>Checkout expired</h1>
+                <p>This checkout is invalid or has expired. Book the event again to get a new one.</p>
+            </section>
+        )
+    }
+
+    return (
+        <section id="checkout">
+            <h1>Test checkout</h1>
+            <p>No money is charged. Payments are simulated for development.</p>
+
+            <div className="summary">
+                <p>{checkout.description}</p>
+                <p className="amount">{formatPrice(checkout.amount, checkout.currency)}</p>
+            </div>
+
+            <form action={payFakeCheckout.bind(null, token)}>
+                <button type="submit" className="button-submit">Pay {formatPrice(checkout.amount, checkout.currency)}</button>
+            </form>
+            <a href={checkout.cancelUrl} className="text-link">Cancel and go back</a>
+        </section>
+    )
+}
+export default FakeCheckout
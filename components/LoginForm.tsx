@@ -0,0 +1,35 @@
+'use client';
+
+import {use, useActionState} from "react";
+import {requestLoginLink, type LoginFormState} from "@/lib/actions/auth.actions";
+
+const initialState: LoginFormState = { status: 'idle' };
+
+const LoginForm = ({ params }: { params: Promise<{ next: string; expired: boolean }> }) => {
+    const { next, expired } = use(params);
+    const [state, formAction, isPending] = useActionState(requestLoginLink.bind(null, next), initialState);
+
+    if (state.status === 'sent') {
+        return <p className="text-sm">{state.message}. Check your inbox.</p>;
+    }
+
+    return (
+        <form action={formAction}>
+            {expired && state.status === 'idle' && (
+                <p className="error">That sign-in link has expired or was already used. Request a new one below.</p>
+            )}
+
+            <div>
+                <label htmlFor="email">Email Address</label>
+                <input type="email" name="email" id="email" placeholder="Enter your email address" required />
+            </div>
+
+            {state.status === 'error' && <p className="error">{state.message}</p>}
+
+            <button type="submit" className="button-submit" disabled={isPending}>
+                {isPending ? 'Sending...' : 'Email me a sign-in link'}
+            </button>
+        </form>
+    )
+}
+export default LoginForm
@@ -0,0 +1,72 @@
+import Link from "next/link";
+import {getBookingsByToken} from "@/lib/actions/booking.actions";
+import CancelBookingButton from "@/components/CancelBookingButton";
+import type {BookingStatus} from "@/database/booking.model";
+
+const STATUS_LABELS: Record<BookingStatus, string> = {
+    confirmed: 'Confirmed',
+    waitlisted: 'Waitlisted',
+    pending: 'Awaiting payment',
+    paid: 'Paid',
+    refunded: 'Refunded',
+};
+
+const ManageBookings = async ({ params }: { params: Promise<string> }) => {
+    const token = await params;
+    const result = await getBookingsByToken(token);
+
+    if (!result) {
+        return (
+            <section id="manage-bookings">
+                <h1>Link expired</h1>
+                <p>This booking link is invalid or has expired. Book any event again to receive a fresh link.</p>
+            </section>
+        )
+    }
+
+    const { email, bookings } = result;
+
+    return (
+        <section id="manage-bookings">
+            <div className="header">
+                <h1>Your Bookings</h1>
+                <p>Bookings for {email}</p>
+            </div>
+
+            {bookings.length > 0 ? (
+                <ul className="bookings">
+                    {bookings.map((booking) => (
+                        <li key={booking.id} className="booking-item">
+                            <div className="flex-col-gap-2">
+                                {booking.event ? (
+                                    <Link href={`/events/${booking.event.slug}`} className="title">{booking.event.title}</Link>
+                                ) : (
+                                    <p className="title">Event no longer available</p>
+                                )}
+                                {booking.event && (
+                                    booking.target ? (
+                                        <p>{booking.target} · {booking.event.location}</p>
+                                    ) : (
+                                        <p>{booking.event.date} · {booking.event.time} · {booking.event.location}</p>
+                                    )
+                                )}
+                                {booking.ticket && <p>{booking.ticket}</p>}
+                                <div className="pill w-fit">{STATUS_LABELS[booking.status] ?? 'Confirmed'}</div>
+                                {booking.ticketCode && (
+                                    <Link href={`/tickets/${booking.ticketCode}`} className="text-link">View ticket</Link>
+                                )}
+                            </div>
+
+                            {booking.status !== 'refunded' && (
+                                <CancelBookingButton token={token} bookingId={booking.id} refund={booking.status === 'paid'} />
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            ): (
+                <p>You have no bookings.</p>
+            )}
+        </section>
+    )
+}
+export default ManageBookings
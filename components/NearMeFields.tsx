@@ -0,0 +1,53 @@
+'use client';
+
+import {useState} from "react";
+
+const RADIUS_OPTIONS = [10, 25, 50, 100, 250];
+
+type Point = { lat: number; lng: number };
+
+/**
+ * Search form fields for "events near me". Asks the browser for the viewer's
+ * position and submits it as `lat`/`lng` with a `within` radius in km.
+ */
+const NearMeFields = ({ near }: { near?: Point & { withinKm: number } }) => {
+    const [point, setPoint] = useState<Point | null>(near ? { lat: near.lat, lng: near.lng } : null);
+    const [status, setStatus] = useState<'idle' | 'locating' | 'denied'>('idle');
+
+    const locate = () => {
+        if (!navigator.geolocation) {
+            setStatus('denied');
+            return;
+        }
+
+        setStatus('locating');
+        navigator.geolocation.getCurrentPosition(
+            ({ coords }) => {
+                // Two decimals (about 1 km) is plenty for a radius search and keeps URLs short
+                setPoint({ lat: Number(coords.latitude.toFixed(2)), lng: Number(coords.longitude.toFixed(2)) });
+                setStatus('idle');
+            },
+            () => setStatus('denied')
+        );
+    }
+
+    if (!point) {
+        return (
+            <button type="button" className="near-me" onClick={locate} disabled={status === 'locating'}>
+                {status === 'locating' ? 'Locating...' : status === 'denied' ? 'Location unavailable' : 'Near me'}
+            </button>
+        )
+    }
+
+    return (
+        <>
+            <input type="hidden" name="lat" value={point.lat} />
+            <input type="hidden" name="lng" value={point.lng} />
+            <select name="within" defaultValue={near?.withinKm ?? 50} aria-label="Distance">
+                {RADIUS_OPTIONS.map((km) => <option key={km} value={km}>Within {km} km</option>)}
+            </select>
+            <button type="button" className="near-me" onClick={() => setPoint(null)}>Anywhere</button>
+        </>
+    )
+}
+export default NearMeFields
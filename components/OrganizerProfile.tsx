@@ -0,0 +1,58 @@
+import Image from "next/image";
+import {notFound} from "next/navigation";
+import {IEvent} from "@/database";
+import EventCard from "@/components/EventCard";
+import {getOrganizerWithEvents} from "@/lib/actions/organizer.actions";
+import {getBookingStatsIfAvailable} from "@/lib/actions/event.actions";
+
+const EventList = async ({ title, events, empty }: { title: string; events: IEvent[]; empty: string }) => {
+    const stats = await Promise.all(events.map((event) => getBookingStatsIfAvailable(event.slug)));
+
+    return (
+        <div className="flex flex-col gap-7">
+            <h2>{title}</h2>
+            {events.length > 0 ? (
+                <ul className="events">
+                    {events.map((event, index) => (
+                        <li key={String(event._id)} className="list-none">
+                            <EventCard {...event} stats={stats[index]} />
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p>{empty}</p>
+            )}
+        </div>
+    )
+}
+
+const OrganizerProfile = async ({ params }: { params: Promise<string> }) => {
+    const slug = await params;
+    const result = await getOrganizerWithEvents(slug);
+
+    if (!result) return notFound();
+
+    const { organizer, upcoming, past } = result;
+
+    return (
+        <section id="organizer">
+            <div className="header">
+                {organizer.logo && <Image src={organizer.logo} alt={organizer.name} width={96} height={96} className="logo" />}
+                <div className="flex flex-col gap-3">
+                    <h1>{organizer.name}</h1>
+                    {organizer.bio && <p>{organizer.bio}</p>}
+                    <div className="links">
+                        {organizer.website && <a href={organizer.website} target="_blank" rel="noopener noreferrer">Website</a>}
+                        {organizer.socials.map((social) => (
+                            <a key={social.url} href={social.url} target="_blank" rel="noopener noreferrer">{social.label}</a>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <EventList title="Upcoming Events" events={upcoming} empty="No upcoming events right now." />
+            <EventList title="Past Events" events={past} empty="No past events yet." />
+        </section>
+    )
+}
+export default OrganizerProfile
@@ -0,0 +1,59 @@
+import Image from "next/image";
+import Link from "next/link";
+import {notFound} from "next/navigation";
+import {getSpeakerWithTalks, SpeakerAppearance} from "@/lib/actions/speaker.actions";
+import {formatDateTime} from "@/lib/timezone";
+
+const AppearanceList = ({ title, appearances, empty }: { title: string; appearances: SpeakerAppearance[]; empty: string }) => (
+    <div className="appearances">
+        <h2>{title}</h2>
+        {appearances.length > 0 ? (
+            <ul className="flex flex-col gap-6">
+                {appearances.map(({ event, talks }) => (
+                    <li key={String(event._id)}>
+                        <Link href={`/events/${event.slug}`} className="event">{event.title}</Link>
+                        <p className="text-sm">{formatDateTime(event.startsAt, event.timezone)} · {event.location}</p>
+                        {talks.map((talk) => (
+                            <p key={talk.id} className="talk">
+                                {talk.when && `${talk.when} · `}{talk.title}
+                            </p>
+                        ))}
+                    </li>
+                ))}
+            </ul>
+        ) : (
+            <p>{empty}</p>
+        )}
+    </div>
+)
+
+const SpeakerProfile = async ({ params }: { params: Promise<string> }) => {
+    const slug = await params;
+    const result = await getSpeakerWithTalks(slug);
+
+    if (!result) return notFound();
+
+    const { speaker, upcoming, past } = result;
+
+    return (
+        <section id="speaker">
+            <div className="header">
+                {speaker.photo && <Image src={speaker.photo} alt={speaker.name} width={96} height={96} className="photo" />}
+                <div className="flex flex-col gap-3">
+                    <h1>{speaker.name}</h1>
+                    {speaker.company && <p>{speaker.company}</p>}
+                    {speaker.bio && <p>{speaker.bio}</p>}
+                    <div className="links">
+                        {speaker.links.map((link) => (
+                            <a key={link.url} href={link.url} target="_blank" rel="noopener noreferrer">{link.label}</a>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <AppearanceList title="Upcoming Talks" appearances={upcoming} empty="No upcoming talks right now." />
+            <AppearanceList title="Past Talks" appearances={past} empty="No past talks yet." />
+        </section>
+    )
+}
+export default SpeakerProfile
@@ -0,0 +1,60 @@
+import Image from "next/image";
+import Link from "next/link";
+import {getTicketByCode} from "@/lib/actions/booking.actions";
+import {formatDateTime} from "@/lib/timezone";
+import type {BookingStatus} from "@/database/booking.model";
+
+// Why a ticket doesn't get its holder in yet, or anymore
+const INVALID_NOTES: Partial<Record<BookingStatus, string>> = {
+    waitlisted: "You're on the waitlist. This ticket becomes valid if a spot opens up.",
+    pending: 'This ticket becomes valid once your payment goes through.',
+    refunded: 'This booking was refunded, so the ticket is no longer valid.',
+};
+
+const Ticket = async ({ params }: { params: Promise<string> }) => {
+    const code = await params;
+    const ticket = await getTicketByCode(code);
+
+    if (!ticket) {
+        return (
+            <section id="ticket">
+                <h1>Ticket not found</h1>
+                <p>This ticket doesn&apos;t exist or its booking was cancelled.</p>
+            </section>
+        )
+    }
+
+    return (
+        <section id="ticket">
+            <div className="header">
+                {ticket.event ? (
+                    <Link href={`/events/${ticket.event.slug}`} className="title">{ticket.event.title}</Link>
+                ) : (
+                    <h1 className="title">Event no longer available</h1>
+                )}
+                {ticket.event && (
+                    <p>{ticket.target ?? `${ticket.event.date} · ${ticket.event.time}`} · {ticket.event.location}</p>
+                )}
+                {ticket.ticket && <p>{ticket.ticket}</p>}
+                <p>{ticket.email}</p>
+            </div>
+
+            {ticket.valid ? (
+                <div className="code">
+                    <Image
+                        src={`/tickets/${ticket.code}/qr`}
+                        alt={`QR code for ticket ${ticket.code}`}
+                        width={240}
+                        height={240}
+                        unoptimized
+                    />
+                    <p className="ticket-code">{ticket.code}</p>
+                    {ticket.checkedInAt && <p>Checked in {formatDateTime(ticket.checkedInAt)}</p>}
+                </div>
+            ) : (
+                <p>{INVALID_NOTES[ticket.status] ?? 'This ticket is not valid.'}</p>
+            )}
+        </section>
+    )
+}
+export default Ticket
@@ -0,0 +1,31 @@
+'use client';
+
+import {useSyncExternalStore} from "react";
+import {formatDateTime, formatTime} from "@/lib/timezone";
+
+// The viewer's timezone never changes while the page is open
+const subscribe = () => () => {};
+const getViewerTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+interface Props {
+    startsAt: string | Date;
+    timezone: string;
+    timeOnly?: boolean;
+    className?: string;
+}
+
+/**
+ * Renders an event's start in the viewer's own timezone. Renders nothing on the
+ * server (where the viewer's zone is unknown) or when it matches the event's zone.
+ */
+const ViewerLocalTime = ({ startsAt, timezone, timeOnly = false, className }: Props) => {
+    const viewerTimeZone = useSyncExternalStore(subscribe, getViewerTimeZone, () => null);
+
+    if (!viewerTimeZone || viewerTimeZone === timezone) return null;
+
+    const label = timeOnly ? formatTime(startsAt, viewerTimeZone) : formatDateTime(startsAt, viewerTimeZone);
+
+    return <p className={className}>{label} your time</p>
+}
+
+export default ViewerLocalTime
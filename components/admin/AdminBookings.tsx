@@ -0,0 +1,98 @@
+import Link from "next/link";
+import {notFound} from "next/navigation";
+import Event, {IEvent} from "@/database/event.model";
+import connectDB from "@/lib/mongodb";
+import {canManageEvent, getCurrentUser} from "@/lib/auth";
+import {describeBookingTarget, findDuplicateAttendees, findEventBookings, getBookingTarget} from "@/lib/bookings";
+import {DeleteBookingButton, MergeDuplicatesButton} from "@/components/admin/BookingActions";
+
+const AdminBookings = async ({ params }: { params: Promise<{ slug: string; q: string }> }) => {
+    const { slug, q } = await params;
+
+    await connectDB();
+    const event = await Event.findOne({ slug }).lean<IEvent>();
+
+    // Events someone can't manage look the same as missing ones
+    if (!event || !canManageEvent(await getCurrentUser(), event)) return notFound();
+
+    const bookings = await findEventBookings(event._id as string, q);
+    // Duplicates are checked across all bookings, not just the search results
+    const duplicates = findDuplicateAttendees(q ? await findEventBookings(event._id as string) : bookings);
+
+    const perTarget = !!event.recurrence || (event.sessions?.length ?? 0) > 0;
+    const tierNames = new Map((event.ticketTiers ?? []).map((tier) => [String(tier._id), tier.name]));
+
+    const exportHref = `/admin/events/${slug}/bookings/export${q ? `?q=${encodeURIComponent(q)}` : ''}`;
+
+    return (
+        <div className="flex flex-col gap-8">
+            <div className="flex flex-row justify-between items-center">
+                <h1>Bookings</h1>
+                <div className="flex flex-row gap-4">
+                    <Link href={`/admin/events/${slug}/check-in`} className="text-link">Check-in</Link>
+                    <Link href={`/admin/events/${slug}`} className="text-link">Edit event</Link>
+                </div>
+            </div>
+            <p>{event.title}</p>
+
+            <form method="GET" className="filters">
+                <input type="search" name="q" defaultValue={q} placeholder="Search by email" aria-label="Search by email" />
+                <button type="submit">Search</button>
+                <a href={exportHref} className="text-link" download>Export CSV</a>
+            </form>
+
+            {duplicates.length > 0 && (
+                <div className="flex flex-col gap-4">
+                    <h2>Possible duplicates</h2>
+                    <ul className="flex flex-col gap-2">
+                        {duplicates.map(([keep, ...rest]) => (
+                            <li key={String(keep._id)} className="flex flex-row flex-wrap items-center gap-4">
+                                <span>{[keep, ...rest].map((booking) => booking.email).join(', ')}</span>
+                                <MergeDuplicatesButton
+                                    keepId={String(keep._id)}
+                                    duplicateIds={rest.map((booking) => String(booking._id))}
+                                />
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {bookings.length > 0 ? (
+                <table className="admin-table">
+                    <thead>
+                        <tr>
+                            <th>Email</th>
+                            {perTarget && <th>{event.recurrence ? 'Date' : 'Session'}</th>}
+                            {tierNames.size > 0 && <th>Ticket</th>}
+                            <th>Status</th>
+                            <th>Booked at</th>
+                            <th>Checked in</th>
+                            <th />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {bookings.map((booking) => (
+                            <tr key={String(booking._id)}>
+                                <td>{booking.email}</td>
+                                {perTarget && <td>{describeBookingTarget(event, getBookingTarget(booking))}</td>}
+                                {tierNames.size > 0 && <td>{booking.ticketTierId ? tierNames.get(String(booking.ticketTierId)) ?? 'Removed tier' : ''}</td>}
+                                <td>{booking.status}</td>
+                                <td>{booking.createdAt.toISOString().replace('T', ' ').slice(0, 16)} UTC</td>
+                                <td>{booking.checkedInAt ? `${booking.checkedInAt.toISOString().replace('T', ' ').slice(0, 16)} UTC` : ''}</td>
+                                <td className="actions">
+                                    {booking.status !== 'refunded' && (
+                                        <DeleteBookingButton bookingId={String(booking._id)} refund={booking.status === 'paid'} />
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <p>{q ? 'No bookings match your search.' : 'No bookings yet.'}</p>
+            )}
+        </div>
+    )
+}
+export default AdminBookings
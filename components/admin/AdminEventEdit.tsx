@@ -0,0 +1,128 @@
+import Link from "next/link";
+import {notFound} from "next/navigation";
+import Event, {IAgendaItem, IEvent, IEventSession} from "@/database/event.model";
+import "@/database/speaker.model";
+import connectDB from "@/lib/mongodb";
+import {canManageEvent, getCurrentUser} from "@/lib/auth";
+import {utcToZonedTime} from "@/lib/timezone";
+import {fromMinorUnits} from "@/lib/tickets";
+import {getOrganizerOptions} from "@/lib/actions/organizer.actions";
+import {getVenueOptions} from "@/lib/actions/venue.actions";
+import {createEventPreviewUrl} from "@/lib/event-lifecycle";
+import EventEditor, {type EventFormValues} from "@/components/admin/EventEditor";
+
+type SpeakerName = { name: string };
+
+// The event with speaker references replaced by names
+type EditableEvent = Omit<IEvent, 'speakers' | 'agenda' | 'sessions'> & {
+    speakers: SpeakerName[];
+    agenda: (Omit<IAgendaItem, 'speakers'> & { speakers: SpeakerName[] })[];
+    sessions: (Omit<IEventSession, 'speakers'> & { speakers: SpeakerName[] })[];
+};
+
+// Value for a datetime-local input in the event's timezone
+const toLocalInput = (instant: Date | undefined, timezone: string) => {
+    if (!instant) return '';
+
+    const { date, time } = utcToZonedTime(instant, timezone);
+    return `${date}T${time}`;
+}
+
+const speakerNames = (speakers: SpeakerName[] | undefined) => (speakers ?? []).map((speaker) => speaker.name).join(', ');
+
+const toFormValues = (event: EditableEvent): EventFormValues => {
+    const end = event.endsAt ? utcToZonedTime(event.endsAt, event.timezone) : null;
+
+    return {
+        title: event.title,
+        description: event.description,
+        overview: event.overview,
+        image: event.image,
+        venue: event.venue,
+        location: event.location,
+        venueId: event.venueId ? String(event.venueId) : '',
+        date: event.date,
+        time: event.time,
+        endDate: end?.date ?? '',
+        endTime: end?.time ?? '',
+        timezone: event.timezone ?? 'UTC',
+        recurrence: event.recurrence ?? '',
+        mode: event.mode,
+        audience: event.audience,
+        organizerProfile: event.organizerProfile ? String(event.organizerProfile) : '',
+        speakers: speakerNames(event.speakers),
+        capacity: event.capacity ? String(event.capacity) : '',
+        waitlistEnabled: event.waitlistEnabled !== false,
+        agenda: event.agenda.map((item) => ({
+            day: String(item.day ?? 1),
+            startTime: item.startTime ?? '',
+            endTime: item.endTime ?? '',
+            title: item.title,
+            description: item.description ?? '',
+            speakers: speakerNames(item.speakers),
+            track: item.track ?? '',
+        })),
+        tags: event.tags,
+        sessions: (event.sessions ?? []).map((session) => {
+            const start = utcToZonedTime(session.startsAt, event.timezone);
+
+            return {
+                id: String(session._id),
+                title: session.title,
+                date: start.date,
+                startTime: start.time,
+                endTime: utcToZonedTime(session.endsAt, event.timezone).time,
+                room: session.room ?? '',
+                speakers: speakerNames(session.speakers),
+                capacity: session.capacity ? String(session.capacity) : '',
+            };
+        }),
+        ticketTiers: (event.ticketTiers ?? []).map((tier) => ({
+            id: String(tier._id),
+            name: tier.name,
+            price: fromMinorUnits(tier.price, tier.currency),
+            currency: tier.currency,
+            quantity: tier.quantity ? String(tier.quantity) : '',
+            salesStart: toLocalInput(tier.salesStart, event.timezone),
+            salesEnd: toLocalInput(tier.salesEnd, event.timezone),
+        })),
+    };
+}
+
+const AdminEventEdit = async ({ params }: { params: Promise<string> }) => {
+    const slug = await params;
+
+    await connectDB();
+    const event = await Event.findOne({ slug })
+        .populate(['speakers', 'agenda.speakers', 'sessions.speakers'].map((path) => ({ path, select: 'name' })))
+        .lean<EditableEvent>();
+
+    // Events someone can't manage look the same as missing ones
+    if (!event || !canManageEvent(await getCurrentUser(), event)) return notFound();
+
+    return (
+        <div className="flex flex-col gap-8">
+            <div className="flex flex-row justify-between items-center">
+                <h1>Edit Event</h1>
+                <div className="flex flex-row gap-4">
+                    {/* Drafts aren't public, so their page is opened through a signed preview link */}
+                    {event.status === 'draft' ? (
+                        <Link href={createEventPreviewUrl({ _id: event._id, slug })} className="text-link">Preview</Link>
+                    ) : (
+                        <Link href={`/events/${slug}`} className="text-link">View</Link>
+                    )}
+                    <Link href={`/admin/events/${slug}/bookings`} className="text-link">Manage bookings</Link>
+                </div>
+            </div>
+
+            <EventEditor
+                slug={slug}
+                initialValues={toFormValues(event)}
+                timezones={Intl.supportedValuesOf('timeZone')}
+                organizers={await getOrganizerOptions()}
+                venues={await getVenueOptions()}
+            />
+        </div>
+    )
+}
+export default AdminEventEdit
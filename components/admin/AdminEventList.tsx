@@ -0,0 +1,81 @@
+import Link from "next/link";
+import Event, {IEvent} from "@/database/event.model";
+import Booking, {NOT_ATTENDING_STATUSES} from "@/database/booking.model";
+import connectDB from "@/lib/mongodb";
+import {getCurrentUser} from "@/lib/auth";
+import {createEventPreviewUrl} from "@/lib/event-lifecycle";
+import {EVENT_STATUS_LABELS} from "@/lib/event-status";
+import EventStatusActions from "@/components/admin/EventStatusActions";
+
+const AdminEventList = async () => {
+    await connectDB();
+
+    const user = await getCurrentUser();
+
+    // Organizers see the events they own; admins see everything
+    const filter = user?.role === 'admin' ? {} : { organizer: user?._id };
+    const events = await Event.find(filter).sort({ startsAt: -1 }).lean<IEvent[]>();
+    const counts: { _id: unknown; confirmed: number; waitlisted: number }[] = await Booking.aggregate([
+        { $match: { eventId: { $in: events.map((event) => event._id) } } },
+        {
+            $group: {
+                _id: '$eventId',
+                confirmed: { $sum: { $cond: [{ $in: ['$status', NOT_ATTENDING_STATUSES] }, 0, 1] } },
+                waitlisted: { $sum: { $cond: [{ $eq: ['$status', 'waitlisted'] }, 1, 0] } },
+            },
+        },
+    ]);
+    const countsByEvent = new Map(counts.map((count) => [String(count._id), count]));
+
+    return (
+        <div className="flex flex-col gap-8">
+            <h1>Events</h1>
+
+            {events.length > 0 ? (
+                <table className="admin-table">
+                    <thead>
+                        <tr>
+                            <th>Title</th>
+                            <th>Status</th>
+                            <th>Date</th>
+                            <th>Mode</th>
+                            <th>Booked</th>
+                            <th>Waitlisted</th>
+                            <th />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {events.map((event) => {
+                            const count = countsByEvent.get(String(event._id));
+
+                            return (
+                                <tr key={String(event._id)}>
+                                    <td>{event.title}</td>
+                                    <td>{EVENT_STATUS_LABELS[event.status]}</td>
+                                    <td>{event.date} {event.time}</td>
+                                    <td>{event.mode}</td>
+                                    <td>{count?.confirmed ?? 0}{event.capacity ? ` / ${event.capacity}` : ''}</td>
+                                    <td>{count?.waitlisted ?? 0}</td>
+                                    <td className="actions">
+                                        <Link href={`/admin/events/${event.slug}`}>Edit</Link>
+                                        <Link href={`/admin/events/${event.slug}/bookings`}>Bookings</Link>
+                                        <Link href={`/admin/events/${event.slug}/check-in`}>Check-in</Link>
+                                        {event.status === 'draft' ? (
+                                            <Link href={createEventPreviewUrl(event)}>Preview</Link>
+                                        ) : (
+                                            <Link href={`/events/${event.slug}`}>View</Link>
+                                        )}
+                                        <EventStatusActions slug={event.slug} status={event.status} />
+                                    </td>
+                                </tr>
+                            )
+                        })}
+                    </tbody>
+                </table>
+            ) : (
+                <p>No events yet. <Link href="/admin/events/new" className="text-link">Create the first one</Link>.</p>
+            )}
+        </div>
+    )
+}
+export default AdminEventList
@@ -0,0 +1,40 @@
+import Link from "next/link";
+import {notFound} from "next/navigation";
+import Organizer, {IOrganizer} from "@/database/organizer.model";
+import connectDB from "@/lib/mongodb";
+import {getCurrentUser, hasRole} from "@/lib/auth";
+import {formatSocialLinks} from "@/lib/social-links";
+import OrganizerForm from "@/components/admin/OrganizerForm";
+
+const AdminOrganizerEdit = async ({ params }: { params: Promise<string> }) => {
+    const slug = await params;
+
+    await connectDB();
+
+    if (!hasRole(await getCurrentUser(), 'admin')) notFound();
+
+    const organizer = await Organizer.findOne({ slug }).lean<IOrganizer>();
+
+    if (!organizer) notFound();
+
+    return (
+        <div className="flex flex-col gap-8">
+            <div className="flex flex-row justify-between items-center">
+                <h1>Edit Organizer</h1>
+                <Link href={`/organizers/${slug}`} className="text-link">View profile</Link>
+            </div>
+
+            <OrganizerForm
+                slug={slug}
+                initialValues={{
+                    name: organizer.name,
+                    bio: organizer.bio ?? '',
+                    logo: organizer.logo ?? '',
+                    website: organizer.website ?? '',
+                    socials: formatSocialLinks(organizer.socials),
+                }}
+            />
+        </div>
+    )
+}
+export default AdminOrganizerEdit
@@ -0,0 +1,49 @@
+import Link from "next/link";
+import {notFound} from "next/navigation";
+import Organizer, {IOrganizer} from "@/database/organizer.model";
+import connectDB from "@/lib/mongodb";
+import {getCurrentUser, hasRole} from "@/lib/auth";
+
+const AdminOrganizerList = async () => {
+    await connectDB();
+
+    if (!hasRole(await getCurrentUser(), 'admin')) notFound();
+
+    const organizers = await Organizer.find()
+        .sort({ name: 1 })
+        .collation({ locale: 'en', strength: 2 })
+        .lean<IOrganizer[]>();
+
+    return (
+        <div className="flex flex-col gap-8">
+            <div className="flex flex-row justify-between items-center">
+                <h1>Organizers</h1>
+                <Link href="/admin/organizers/new" className="text-link">New organizer</Link>
+            </div>
+
+            {organizers.length > 0 ? (
+                <table className="admin-table">
+                    <thead>
+                        <tr>
+                            <th>Name</th>
+                            <th>Website</th>
+                            <th>Profile</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {organizers.map((organizer) => (
+                            <tr key={String(organizer._id)}>
+                                <td><Link href={`/admin/organizers/${organizer.slug}`} className="text-link">{organizer.name}</Link></td>
+                                <td>{organizer.website}</td>
+                                <td><Link href={`/organizers/${organizer.slug}`} className="text-link">/organizers/{organizer.slug}</Link></td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <p>No organizers yet.</p>
+            )}
+        </div>
+    )
+}
+export default AdminOrganizerList
@@ -0,0 +1,40 @@
+import Link from "next/link";
+import {notFound} from "next/navigation";
+import Speaker, {ISpeaker} from "@/database/speaker.model";
+import connectDB from "@/lib/mongodb";
+import {getCurrentUser, hasRole} from "@/lib/auth";
+import {formatSocialLinks} from "@/lib/social-links";
+import SpeakerForm from "@/components/admin/SpeakerForm";
+
+const AdminSpeakerEdit = async ({ params }: { params: Promise<string> }) => {
+    const slug = await params;
+
+    await connectDB();
+
+    if (!hasRole(await getCurrentUser(), 'admin')) notFound();
+
+    const speaker = await Speaker.findOne({ slug }).lean<ISpeaker>();
+
+    if (!speaker) notFound();
+
+    return (
+        <div className="flex flex-col gap-8">
+            <div className="flex flex-row justify-between items-center">
+                <h1>Edit Speaker</h1>
+                <Link href={`/speakers/${slug}`} className="text-link">View profile</Link>
+            </div>
+
+            <SpeakerForm
+                slug={slug}
+                initialValues={{
+                    name: speaker.name,
+                    bio: speaker.bio ?? '',
+                    photo: speaker.photo ?? '',
+                    company: speaker.company ?? '',
+                    links: formatSocialLinks(speaker.links),
+                }}
+            />
+        </div>
+    )
+}
+export default AdminSpeakerEdit
@@ -0,0 +1,43 @@
+import Link from "next/link";
+import {notFound} from "next/navigation";
+import {getCurrentUser, hasRole} from "@/lib/auth";
+import {getSpeakers} from "@/lib/actions/speaker.actions";
+
+const AdminSpeakerList = async () => {
+    if (!hasRole(await getCurrentUser(), 'admin')) notFound();
+
+    const speakers = await getSpeakers();
+
+    return (
+        <div className="flex flex-col gap-8">
+            <div>
+                <h1>Speakers</h1>
+                <p>Profiles are created when events name new speakers.</p>
+            </div>
+
+            {speakers.length > 0 ? (
+                <table className="admin-table">
+                    <thead>
+                        <tr>
+                            <th>Name</th>
+                            <th>Company</th>
+                            <th>Profile</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {speakers.map((speaker) => (
+                            <tr key={String(speaker._id)}>
+                                <td><Link href={`/admin/speakers/${speaker.slug}`} className="text-link">{speaker.name}</Link></td>
+                                <td>{speaker.company}</td>
+                                <td>{speaker.bio || speaker.photo ? 'Complete' : 'Name only'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <p>No speakers yet.</p>
+            )}
+        </div>
+    )
+}
+export default AdminSpeakerList
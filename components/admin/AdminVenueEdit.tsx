@@ -0,0 +1,38 @@
+import {notFound} from "next/navigation";
+import {isValidObjectId} from "mongoose";
+import Venue, {IVenue} from "@/database/venue.model";
+import connectDB from "@/lib/mongodb";
+import {getCurrentUser, hasRole} from "@/lib/auth";
+import VenueForm from "@/components/admin/VenueForm";
+
+const AdminVenueEdit = async ({ params }: { params: Promise<string> }) => {
+    const id = await params;
+
+    await connectDB();
+
+    if (!hasRole(await getCurrentUser(), 'admin')) notFound();
+
+    const venue = isValidObjectId(id) ? await Venue.findById(id).lean<IVenue>() : null;
+
+    if (!venue) notFound();
+
+    const [longitude, latitude] = venue.location.coordinates;
+
+    return (
+        <div className="flex flex-col gap-8">
+            <h1>Edit Venue</h1>
+
+            <VenueForm
+                id={id}
+                initialValues={{
+                    name: venue.name,
+                    address: venue.address,
+                    latitude: String(latitude),
+                    longitude: String(longitude),
+                    capacity: venue.capacity ? String(venue.capacity) : '',
+                }}
+            />
+        </div>
+    )
+}
+export default AdminVenueEdit
@@ -0,0 +1,49 @@
+import Link from "next/link";
+import {notFound} from "next/navigation";
+import Venue, {IVenue} from "@/database/venue.model";
+import connectDB from "@/lib/mongodb";
+import {getCurrentUser, hasRole} from "@/lib/auth";
+
+const AdminVenueList = async () => {
+    await connectDB();
+
+    if (!hasRole(await getCurrentUser(), 'admin')) notFound();
+
+    const venues = await Venue.find()
+        .sort({ name: 1 })
+        .collation({ locale: 'en', strength: 2 })
+        .lean<IVenue[]>();
+
+    return (
+        <div className="flex flex-col gap-8">
+            <div className="flex flex-row justify-between items-center">
+                <h1>Venues</h1>
+                <Link href="/admin/venues/new" className="text-link">New venue</Link>
+            </div>
+
+            {venues.length > 0 ? (
+                <table className="admin-table">
+                    <thead>
+                        <tr>
+                            <th>Name</th>
+                            <th>Address</th>
+                            <th>Capacity</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {venues.map((venue) => (
+                            <tr key={String(venue._id)}>
+                                <td><Link href={`/admin/venues/${venue._id}`} className="text-link">{venue.name}</Link></td>
+                                <td>{venue.address}</td>
+                                <td>{venue.capacity ?? '—'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <p>No venues yet.</p>
+            )}
+        </div>
+    )
+}
+export default AdminVenueList
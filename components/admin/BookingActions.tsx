@@ -0,0 +1,47 @@
+'use client';
+
+import {useState, useTransition} from "react";
+import {deleteBooking, mergeDuplicateBookings} from "@/lib/actions/admin.actions";
+
+// Paid bookings are refunded and kept as refunded rather than deleted
+export const DeleteBookingButton = ({ bookingId, refund = false }: { bookingId: string; refund?: boolean }) => {
+    const [isPending, startTransition] = useTransition();
+    const [failed, setFailed] = useState(false);
+
+    const handleDelete = () => {
+        const question = refund
+            ? 'Refund this booking? The payment is returned and the next person on the waitlist will get the seat.'
+            : 'Delete this booking? The next person on the waitlist will get the seat.';
+
+        if (!confirm(question)) return;
+
+        startTransition(async () => {
+            const { success } = await deleteBooking(bookingId);
+            setFailed(!success);
+        });
+    }
+
+    return (
+        <button type="button" className="danger" onClick={handleDelete} disabled={isPending}>
+            {isPending ? 'Deleting...' : failed ? 'Retry delete' : refund ? 'Refund' : 'Delete'}
+        </button>
+    )
+}
+
+export const MergeDuplicatesButton = ({ keepId, duplicateIds }: { keepId: string; duplicateIds: string[] }) => {
+    const [isPending, startTransition] = useTransition();
+    const [failed, setFailed] = useState(false);
+
+    const handleMerge = () => {
+        startTransition(async () => {
+            const { success } = await mergeDuplicateBookings(keepId, duplicateIds);
+            setFailed(!success);
+        });
+    }
+
+    return (
+        <button type="button" className="secondary" onClick={handleMerge} disabled={isPending}>
+            {isPending ? 'Merging...' : failed ? 'Retry merge' : `Merge ${duplicateIds.length + 1} bookings`}
+        </button>
+    )
+}
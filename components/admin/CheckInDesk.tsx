@@ -0,0 +1,30 @@
+import Link from "next/link";
+import {notFound} from "next/navigation";
+import Event, {IEvent} from "@/database/event.model";
+import connectDB from "@/lib/mongodb";
+import {canManageEvent, getCurrentUser} from "@/lib/auth";
+import {getCheckInCounts} from "@/lib/check-in";
+import CheckInScanner from "@/components/admin/CheckInScanner";
+
+const CheckInDesk = async ({ params }: { params: Promise<string> }) => {
+    const slug = await params;
+
+    await connectDB();
+    const event = await Event.findOne({ slug }).select('title organizer').lean<Pick<IEvent, '_id' | 'title' | 'organizer'>>();
+
+    // Events someone can't manage look the same as missing ones
+    if (!event || !canManageEvent(await getCurrentUser(), event)) return notFound();
+
+    return (
+        <div className="flex flex-col gap-8">
+            <div className="flex flex-row justify-between items-center">
+                <h1>Check-in</h1>
+                <Link href={`/admin/events/${slug}/bookings`} className="text-link">Bookings</Link>
+            </div>
+            <p>{event.title}</p>
+
+            <CheckInScanner slug={slug} initialCounts={await getCheckInCounts(String(event._id))} />
+        </div>
+    )
+}
+export default CheckInDesk
@@ -0,0 +1,162 @@
+'use client';
+
+import {useCallback, useEffect, useRef, useState} from "react";
+import type {CheckInCounts} from "@/lib/check-in";
+
+// How often the counts refresh, so several doors see each other's check-ins
+const POLL_INTERVAL_MS = 5000;
+
+// A camera keeps seeing the same code for a while; ignore repeats within this window
+const RESCAN_DELAY_MS = 3000;
+
+// Shape Chrome's BarcodeDetector exposes; TypeScript's DOM types don't include it yet
+type BarcodeDetectorLike = { detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]> };
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+type ScanResult = {
+    id: number;
+    ok: boolean;
+    message: string;
+    email?: string;
+    bookedFor?: string | null;
+};
+
+let nextResultId = 0;
+
+const CheckInScanner = ({ slug, initialCounts }: { slug: string; initialCounts: CheckInCounts }) => {
+    const [code, setCode] = useState('');
+    const [counts, setCounts] = useState(initialCounts);
+    const [results, setResults] = useState<ScanResult[]>([]);
+    const [isPending, setIsPending] = useState(false);
+    const [scanning, setScanning] = useState(false);
+    const [cameraSupported, setCameraSupported] = useState(false);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const lastScan = useRef({ value: '', at: 0 });
+
+    const endpoint = `/api/events/${slug}/check-in`;
+
+    const checkIn = useCallback(async (value: string) => {
+        if (!value.trim()) return;
+
+        setIsPending(true);
+        try {
+            const response = await fetch(endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ code: value }),
+            });
+            const data = await response.json();
+
+            if (data.counts) setCounts(data.counts);
+
+            setResults((previous) => [{
+                id: nextResultId++,
+                ok: response.ok,
+                message: response.ok ? 'Checked in' : data.error ?? 'Check-in failed',
+                email: data.attendee?.email,
+                bookedFor: data.attendee?.bookedFor,
+            }, ...previous].slice(0, 20));
+        } catch {
+            setResults((previous) => [{ id: nextResultId++, ok: false, message: 'Network error, try again' }, ...previous]);
+        } finally {
+            setIsPending(false);
+        }
+    }, [endpoint]);
+
+    useEffect(() => {
+        const timer = setInterval(async () => {
+            const response = await fetch(endpoint).catch(() => null);
+            if (response?.ok) setCounts((await response.json()).counts);
+        }, POLL_INTERVAL_MS);
+
+        return () => clearInterval(timer);
+    }, [endpoint]);
+
+    useEffect(() => {
+        setCameraSupported('BarcodeDetector' in window && !!navigator.mediaDevices);
+    }, []);
+
+    useEffect(() => {
+        if (!scanning) return;
+
+        let stream: MediaStream | null = null;
+        let timer: ReturnType<typeof setInterval> | undefined;
+
+        const start = async () => {
+            const Detector = (window as unknown as { BarcodeDetector: BarcodeDetectorConstructor }).BarcodeDetector;
+            const detector = new Detector({ formats: ['qr_code'] });
+
+            stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+            if (!videoRef.current) return;
+
+            videoRef.current.srcObject = stream;
+            await videoRef.current.play();
+
+            timer = setInterval(async () => {
+                if (!videoRef.current) return;
+
+                const [barcode] = await detector.detect(videoRef.current).catch(() => []);
+                const now = Date.now();
+
+                if (barcode && (barcode.rawValue !== lastScan.current.value || now - lastScan.current.at > RESCAN_DELAY_MS)) {
+                    lastScan.current = { value: barcode.rawValue, at: now };
+                    await checkIn(barcode.rawValue);
+                }
+            }, 500);
+        };
+
+        start().catch(() => {
+            setScanning(false);
+            setResults((previous) => [{ id: nextResultId++, ok: false, message: 'Could not open the camera' }, ...previous]);
+        });
+
+        return () => {
+            clearInterval(timer);
+            stream?.getTracks().forEach((track) => track.stop());
+        };
+    }, [scanning, checkIn]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        await checkIn(code);
+        setCode('');
+    }
+
+    return (
+        <div id="check-in">
+            <p className="counts" aria-live="polite">
+                <strong>{counts.checkedIn}</strong> of {counts.booked} checked in
+            </p>
+
+            {/* Handheld scanners type the code and press enter, so the field keeps focus */}
+            <form onSubmit={handleSubmit}>
+                <input
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="Scan or type a ticket code"
+                    aria-label="Ticket code"
+                    autoFocus
+                    autoComplete="off"
+                />
+                <button type="submit" disabled={isPending}>Check in</button>
+                {cameraSupported && (
+                    <button type="button" className="secondary" onClick={() => setScanning(!scanning)}>
+                        {scanning ? 'Stop camera' : 'Scan with camera'}
+                    </button>
+                )}
+            </form>
+
+            {scanning && <video ref={videoRef} muted playsInline />}
+
+            <ul className="results">
+                {results.map((result) => (
+                    <li key={result.id} className={result.ok ? 'ok' : 'failed'}>
+                        <strong>{result.message}</strong>
+                        {result.email && <span>{result.email}{result.bookedFor && ` · ${result.bookedFor}`}</span>}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    )
+}
+export default CheckInScanner
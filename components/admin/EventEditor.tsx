@@ -0,0 +1,369 @@
+'use client';
+
+import {startTransition, useActionState, useState} from "react";
+import {saveEvent, type EventFormState} from "@/lib/actions/admin.actions";
+import type {OrganizerOption} from "@/lib/actions/organizer.actions";
+import type {VenueOption} from "@/lib/actions/venue.actions";
+
+export type EventFormValues = {
+    title: string;
+    description: string;
+    overview: string;
+    image: string;
+    venue: string;
+    location: string;
+    venueId: string;
+    date: string;
+    time: string;
+    endDate: string;
+    endTime: string;
+    timezone: string;
+    recurrence: string;
+    mode: string;
+    audience: string;
+    organizerProfile: string;
+    // Comma separated names
+    speakers: string;
+    capacity: string;
+    waitlistEnabled: boolean;
+    agenda: AgendaFormValues[];
+    tags: string[];
+    sessions: SessionFormValues[];
+    ticketTiers: TicketTierFormValues[];
+};
+
+export type AgendaFormValues = {
+    day: string;
+    startTime: string;
+    endTime: string;
+    title: string;
+    description: string;
+    // Comma separated
+    speakers: string;
+    track: string;
+};
+
+const EMPTY_AGENDA_ITEM: AgendaFormValues = { day: '1', startTime: '', endTime: '', title: '', description: '', speakers: '', track: '' };
+
+// A session as edited: wall-clock date and times in the event's timezone
+export type SessionFormValues = {
+    // Empty for sessions that haven't been saved yet
+    id: string;
+    title: string;
+    date: string;
+    startTime: string;
+    endTime: string;
+    room: string;
+    speakers: string;
+    capacity: string;
+};
+
+const EMPTY_SESSION: SessionFormValues = { id: '', title: '', date: '', startTime: '', endTime: '', room: '', speakers: '', capacity: '' };
+
+// A ticket tier as edited: a decimal price and wall-clock sale window (YYYY-MM-DDTHH:MM) in the event's timezone
+export type TicketTierFormValues = {
+    // Empty for tiers that haven't been saved yet
+    id: string;
+    name: string;
+    price: string;
+    currency: string;
+    quantity: string;
+    salesStart: string;
+    salesEnd: string;
+};
+
+const EMPTY_TICKET_TIER: TicketTierFormValues = { id: '', name: '', price: '', currency: 'USD', quantity: '', salesStart: '', salesEnd: '' };
+
+const initialState: EventFormState = { status: 'idle', errors: {} };
+
+// Keys are stable per row so inputs keep their values and focus while rows move
+let nextRowId = 0;
+const withKey = <T,>(values: T): T & { key: number } => ({ key: nextRowId++, ...values });
+
+const FieldError = ({ state, name }: { state: EventFormState; name: string }) => (
+    state.errors[name] ? <p className="field-error" role="alert">{state.errors[name]}</p> : null
+)
+
+const EventEditor = ({ slug, initialValues, timezones, organizers, venues }: {
+    slug: string | null;
+    initialValues: EventFormValues;
+    timezones: string[];
+    organizers: OrganizerOption[];
+    venues: VenueOption[];
+}) => {
+    const [state, formAction, isPending] = useActionState(saveEvent.bind(null, slug), initialState);
+    const [agenda, setAgenda] = useState(() => (initialValues.agenda.length > 0 ? initialValues.agenda : [EMPTY_AGENDA_ITEM]).map(withKey));
+    const [tags, setTags] = useState<string[]>(initialValues.tags);
+    const [sessions, setSessions] = useState(() => initialValues.sessions.map(withKey));
+    const [ticketTiers, setTicketTiers] = useState(() => initialValues.ticketTiers.map(withKey));
+    const [tagInput, setTagInput] = useState('');
+
+    const moveAgendaItem = (index: number, offset: -1 | 1) => {
+        setAgenda((rows) => {
+            const target = index + offset;
+            if (target < 0 || target >= rows.length) return rows;
+
+            const next = [...rows];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    }
+
+    const addTag = () => {
+        const tag = tagInput.trim();
+        if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+        setTagInput('');
+    }
+
+    // Submitting manually skips React's automatic form reset, so input survives validation errors
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const formData = new FormData(e.currentTarget);
+        startTransition(() => formAction(formData));
+    }
+
+    return (
+        <form onSubmit={handleSubmit} id="event-editor">
+            {state.message && (
+                <p className={state.status === 'error' ? 'field-error' : 'form-message'} role="status">{state.message}</p>
+            )}
+
+            <div className="field">
+                <label htmlFor="title">Title</label>
+                <input id="title" name="title" defaultValue={initialValues.title} maxLength={100} />
+                <FieldError state={state} name="title" />
+            </div>
+
+            <div className="field">
+                <label htmlFor="description">Description</label>
+                <textarea id="description" name="description" defaultValue={initialValues.description} maxLength={1000} rows={4} />
+                <FieldError state={state} name="description" />
+            </div>
+
+            <div className="field">
+                <label htmlFor="overview">Overview</label>
+                <textarea id="overview" name="overview" defaultValue={initialValues.overview} maxLength={500} rows={3} />
+                <FieldError state={state} name="overview" />
+            </div>
+
+            <div className="field">
+                <label htmlFor="image">Image URL</label>
+                <input id="image" name="image" defaultValue={initialValues.image} />
+                <label htmlFor="imageFile">or upload a banner</label>
+                <input id="imageFile" name="imageFile" type="file" accept="image/*" />
+                <FieldError state={state} name="image" />
+            </div>
+
+            <div className="field-row">
+                <div className="field">
+                    <label htmlFor="venue">Venue</label>
+                    <input id="venue" name="venue" defaultValue={initialValues.venue} />
+                    <FieldError state={state} name="venue" />
+                </div>
+                <div className="field">
+                    <label htmlFor="location">Location</label>
+                    <input id="location" name="location" defaultValue={initialValues.location} />
+                    <FieldError state={state} name="location" />
+                </div>
+            </div>
+
+            <div className="field">
+                <label htmlFor="venueId">Mapped venue (used for distance search)</label>
+                <select id="venueId" name="venueId" defaultValue={initialValues.venueId}>
+                    <option value="">Not mapped</option>
+                    {venues.map((venue) => (
+                        <option key={venue.id} value={venue.id}>
+                            {venue.name} — {venue.address}{venue.capacity ? ` (${venue.capacity} seats)` : ''}
+                        </option>
+                    ))}
+                </select>
+                <FieldError state={state} name="venueId" />
+            </div>
+
+            <div className="field-row">
+                <div className="field">
+                    <label htmlFor="date">Date</label>
+                    <input id="date" name="date" type="date" defaultValue={initialValues.date} />
+                    <FieldError state={state} name="date" />
+                </div>
+                <div className="field">
+                    <label htmlFor="time">Start time</label>
+                    <input id="time" name="time" type="time" defaultValue={initialValues.time} />
+                    <FieldError state={state} name="time" />
+                </div>
+                <div className="field">
+                    <label htmlFor="endDate">End date</label>
+                    <input id="endDate" name="endDate" type="date" defaultValue={initialValues.endDate} />
+                </div>
+                <div className="field">
+                    <label htmlFor="endTime">End time</label>
+                    <input id="endTime" name="endTime" type="time" defaultValue={initialValues.endTime} />
+                    <FieldError state={state} name="endsAt" />
+                </div>
+            </div>
+
+            <div className="field">
+                <label htmlFor="timezone">Timezone</label>
+                <input id="timezone" name="timezone" list="timezones" defaultValue={initialValues.timezone} />
+                <datalist id="timezones">
+                    {timezones.map((timezone) => <option key={timezone} value={timezone} />)}
+                </datalist>
+                <FieldError state={state} name="timezone" />
+            </div>
+
+            <div className="field">
+                <label htmlFor="recurrence">Repeats (RRULE)</label>
+                <input id="recurrence" name="recurrence" defaultValue={initialValues.recurrence} placeholder="e.g. FREQ=MONTHLY;BYDAY=2TU;COUNT=12" />
+                <FieldError state={state} name="recurrence" />
+            </div>
+
+            <div className="field-row">
+                <div className="field">
+                    <label htmlFor="mode">Mode</label>
+                    <select id="mode" name="mode" defaultValue={initialValues.mode}>
+                        <option value="">Select a mode</option>
+                        <option value="online">Online</option>
+                        <option value="offline">Offline</option>
+                        <option value="hybrid">Hybrid</option>
+                    </select>
+                    <FieldError state={state} name="mode" />
+                </div>
+                <div className="field">
+                    <label htmlFor="audience">Audience</label>
+                    <input id="audience" name="audience" defaultValue={initialValues.audience} />
+                    <FieldError state={state} name="audience" />
+                </div>
+                <div className="field">
+                    <label htmlFor="organizerProfile">Organizer</label>
+                    <select id="organizerProfile" name="organizerProfile" defaultValue={initialValues.organizerProfile}>
+                        <option value="">No public profile</option>
+                        {organizers.map((organizer) => (
+                            <option key={organizer.id} value={organizer.id}>{organizer.name}</option>
+                        ))}
+                    </select>
+                    <FieldError state={state} name="organizerProfile" />
+                </div>
+            </div>
+
+            <div className="field">
+                <label htmlFor="speakers">Headline speakers</label>
+                <input id="speakers" name="speakers" defaultValue={initialValues.speakers} placeholder="Names, comma separated" />
+                <FieldError state={state} name="speakers" />
+            </div>
+
+            <div className="field-row">
+                <div className="field">
+                    <label htmlFor="capacity">Capacity</label>
+                    <input id="capacity" name="capacity" type="number" min={1} step={1} defaultValue={initialValues.capacity} placeholder="Unlimited" />
+                    <FieldError state={state} name="capacity" />
+                </div>
+                <label className="checkbox">
+                    <input name="waitlistEnabled" type="checkbox" defaultChecked={initialValues.waitlistEnabled} />
+                    Waitlist when full
+                </label>
+            </div>
+
+            <fieldset className="field">
+                <legend>Agenda</legend>
+                <ol className="agenda-editor">
+                    {agenda.map((row, index) => (
+                        <li key={row.key}>
+                            <div className="agenda-times">
+                                <input name="agendaDay" type="number" min={1} step={1} defaultValue={row.day} aria-label={`Agenda item ${index + 1} day`} title="Day" />
+                                <input name="agendaStart" type="time" defaultValue={row.startTime} aria-label={`Agenda item ${index + 1} start`} />
+                                <input name="agendaEnd" type="time" defaultValue={row.endTime} aria-label={`Agenda item ${index + 1} end`} />
+                                <input name="agendaTrack" defaultValue={row.track} placeholder="Track" aria-label={`Agenda item ${index + 1} track`} />
+                            </div>
+                            <input name="agendaTitle" defaultValue={row.title} placeholder="Title" aria-label={`Agenda item ${index + 1}`} />
+                            <input name="agendaSpeakers" defaultValue={row.speakers} placeholder="Speakers, comma separated" aria-label={`Agenda item ${index + 1} speakers`} />
+                            <textarea name="agendaDescription" defaultValue={row.description} placeholder="Description" rows={2} aria-label={`Agenda item ${index + 1} description`} />
+                            <div className="agenda-actions">
+                                <button type="button" onClick={() => moveAgendaItem(index, -1)} disabled={index === 0} aria-label="Move up">↑</button>
+                                <button type="button" onClick={() => moveAgendaItem(index, 1)} disabled={index === agenda.length - 1} aria-label="Move down">↓</button>
+                                <button type="button" onClick={() => setAgenda(agenda.filter((item) => item.key !== row.key))} aria-label="Remove">✕</button>
+                            </div>
+                        </li>
+                    ))}
+                </ol>
+                <button type="button" className="secondary" onClick={() => setAgenda([...agenda, withKey(EMPTY_AGENDA_ITEM)])}>Add agenda item</button>
+                <FieldError state={state} name="agenda" />
+            </fieldset>
+
+            <fieldset className="field">
+                <legend>Sessions</legend>
+                <ol className="session-editor">
+                    {sessions.map((session, index) => (
+                        <li key={session.key}>
+                            <input type="hidden" name="sessionId" value={session.id} />
+                            <input name="sessionTitle" defaultValue={session.title} placeholder="Title" aria-label={`Session ${index + 1} title`} />
+                            <input name="sessionDate" type="date" defaultValue={session.date} aria-label={`Session ${index + 1} date`} />
+                            <input name="sessionStart" type="time" defaultValue={session.startTime} aria-label={`Session ${index + 1} start`} />
+                            <input name="sessionEnd" type="time" defaultValue={session.endTime} aria-label={`Session ${index + 1} end`} />
+                            <input name="sessionRoom" defaultValue={session.room} placeholder="Room" aria-label={`Session ${index + 1} room`} />
+                            <input name="sessionSpeakers" defaultValue={session.speakers} placeholder="Speakers, comma separated" aria-label={`Session ${index + 1} speakers`} />
+                            <input name="sessionCapacity" type="number" min={1} step={1} defaultValue={session.capacity} placeholder="Seats" aria-label={`Session ${index + 1} capacity`} />
+                            <button type="button" onClick={() => setSessions(sessions.filter((item) => item.key !== session.key))} aria-label="Remove">✕</button>
+                        </li>
+                    ))}
+                </ol>
+                <button type="button" className="secondary" onClick={() => setSessions([...sessions, withKey(EMPTY_SESSION)])}>Add session</button>
+                <FieldError state={state} name="sessions" />
+            </fieldset>
+
+            <fieldset className="field">
+                <legend>Tickets</legend>
+                <p className="text-sm">Leave empty for a free event. Ticketed events sell out instead of waitlisting.</p>
+                <ol className="ticket-editor">
+                    {ticketTiers.map((tier, index) => (
+                        <li key={tier.key}>
+                            <input type="hidden" name="tierId" value={tier.id} />
+                            <input name="tierName" defaultValue={tier.name} placeholder="Name, e.g. Early bird" aria-label={`Ticket tier ${index + 1} name`} />
+                            <input name="tierPrice" type="number" min={0} step="0.01" defaultValue={tier.price} placeholder="Price" aria-label={`Ticket tier ${index + 1} price`} />
+                            <input name="tierCurrency" defaultValue={tier.currency} maxLength={3} aria-label={`Ticket tier ${index + 1} currency`} />
+                            <input name="tierQuantity" type="number" min={1} step={1} defaultValue={tier.quantity} placeholder="Unlimited" aria-label={`Ticket tier ${index + 1} quantity`} />
+                            <input name="tierSalesStart" type="datetime-local" defaultValue={tier.salesStart} aria-label={`Ticket tier ${index + 1} sales start`} title="Sales start" />
+                            <input name="tierSalesEnd" type="datetime-local" defaultValue={tier.salesEnd} aria-label={`Ticket tier ${index + 1} sales end`} title="Sales end" />
+                            <button type="button" onClick={() => setTicketTiers(ticketTiers.filter((item) => item.key !== tier.key))} aria-label="Remove">✕</button>
+                        </li>
+                    ))}
+                </ol>
+                <button type="button" className="secondary" onClick={() => setTicketTiers([...ticketTiers, withKey(EMPTY_TICKET_TIER)])}>Add ticket tier</button>
+                <FieldError state={state} name="ticketTiers" />
+            </fieldset>
+
+            <fieldset className="field">
+                <legend>Tags</legend>
+                <div className="flex flex-row gap-1.5 flex-wrap">
+                    {tags.map((tag) => (
+                        <span className="pill" key={tag}>
+                            <input type="hidden" name="tags" value={tag} />
+                            {tag}
+                            <button type="button" onClick={() => setTags(tags.filter((t) => t !== tag))} aria-label={`Remove ${tag}`}>✕</button>
+                        </span>
+                    ))}
+                </div>
+                <div className="flex flex-row gap-2">
+                    <input
+                        value={tagInput}
+                        onChange={(e) => setTagInput(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                                e.preventDefault();
+                                addTag();
+                            }
+                        }}
+                        placeholder="Add a tag"
+                        aria-label="New tag"
+                    />
+                    <button type="button" className="secondary" onClick={addTag}>Add</button>
+                </div>
+                <FieldError state={state} name="tags" />
+            </fieldset>
+
+            <button type="submit" className="button-submit" disabled={isPending}>
+                {isPending ? 'Saving...' : slug ? 'Save changes' : 'Create event'}
+            </button>
+        </form>
+    )
+}
+export default EventEditor
@@ -0,0 +1,96 @@
+'use client';
+
+import {startTransition, useActionState} from "react";
+import Link from "next/link";
+import {importEventsFile, type EventImportState} from "@/lib/actions/event-import.actions";
+import {CSV_LIST_SEPARATOR, EVENT_IMPORT_FIELDS} from "@/lib/event-import/rows";
+
+const initialState: EventImportState = { status: 'idle' };
+
+const ACTION_LABELS = { create: 'Create', update: 'Update', skip: 'Skip' };
+
+const EventImportForm = () => {
+    const [state, formAction, isPending] = useActionState(importEventsFile, initialState);
+    const report = state.report;
+
+    // Submitting manually skips React's automatic form reset, so the chosen file survives a dry run
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const formData = new FormData(e.currentTarget);
+        startTransition(() => formAction(formData));
+    }
+
+    return (
+        <div className="flex flex-col gap-8">
+            <form onSubmit={handleSubmit} id="event-import">
+                <p className="text-sm">
+                    CSV files start with a header line naming the fields: {EVENT_IMPORT_FIELDS.join(', ')}.
+                    Separate tags and agenda items with <code>{CSV_LIST_SEPARATOR}</code>. JSON files hold an array of
+                    events with the same fields. Rows update the event with the same slug, or the slug their title
+                    gives, and otherwise create a new draft with that slug.
+                </p>
+
+                {state.message && <p className="field-error" role="alert">{state.message}</p>}
+
+                <div className="field-row">
+                    <div className="field">
+                        <label htmlFor="file">File</label>
+                        <input id="file" name="file" type="file" accept=".csv,.json" required />
+                    </div>
+
+                    <label className="checkbox">
+                        <input type="checkbox" name="dryRun" defaultChecked />
+                        Dry run
+                    </label>
+                </div>
+
+                <button type="submit" className="button-submit" disabled={isPending}>
+                    {isPending ? 'Importing...' : 'Import'}
+                </button>
+            </form>
+
+            {report && (
+                <div className="flex flex-col gap-4">
+                    <p className="form-message" role="status">
+                        {report.dryRun ? 'Dry run: would create' : 'Created'} {report.created}, {report.dryRun ? 'update' : 'updated'} {report.updated}, {report.dryRun ? 'skip' : 'skipped'} {report.skipped} event(s).
+                    </p>
+
+                    <table className="admin-table">
+                        <thead>
+                            <tr>
+                                <th>Row</th>
+                                <th>Event</th>
+                                <th>Action</th>
+                                <th>Problems</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {report.rows.map(({ row, slug, action, errors }) => (
+                                <tr key={row}>
+                                    <td>{row}</td>
+                                    <td>
+                                        {/* Only rows without problems name an event that exists, except creates in a dry run */}
+                                        {slug && Object.keys(errors).length === 0 && !(report.dryRun && action === 'create')
+                                            ? <Link href={`/admin/events/${slug}`} className="text-link">{slug}</Link>
+                                            : slug || '—'}
+                                    </td>
+                                    <td>{ACTION_LABELS[action]}</td>
+                                    <td>
+                                        {Object.keys(errors).length > 0 ? (
+                                            <ul>
+                                                {Object.entries(errors).map(([field, message]) => (
+                                                    <li key={field} className="error">{field}: {message}</li>
+                                                ))}
+                                            </ul>
+                                        ) : action === 'skip' ? 'Unchanged' : null}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    )
+}
+export default EventImportForm
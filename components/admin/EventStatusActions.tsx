@@ -0,0 +1,53 @@
+'use client';
+
+import {useState, useTransition} from "react";
+import {setEventStatus} from "@/lib/actions/admin.actions";
+import {EventStatus, getNextEventStatuses} from "@/lib/event-status";
+
+const ACTION_LABELS: Record<EventStatus, string> = {
+    draft: 'Unpublish',
+    published: 'Publish',
+    cancelled: 'Cancel',
+    postponed: 'Postpone',
+    archived: 'Archive',
+};
+
+// Changes attendees get emailed about
+const CONFIRMATIONS: Partial<Record<EventStatus, string>> = {
+    cancelled: 'Cancel this event? Bookings close and everyone booked gets an email. This cannot be undone.',
+    postponed: 'Postpone this event? Bookings close until you publish it again, and everyone booked gets an email.',
+};
+
+const EventStatusActions = ({ slug, status }: { slug: string; status: EventStatus }) => {
+    const [isPending, startTransition] = useTransition();
+    const [error, setError] = useState<string | null>(null);
+
+    const handleChange = (next: EventStatus) => {
+        const question = CONFIRMATIONS[next];
+
+        if (question && !confirm(question)) return;
+
+        startTransition(async () => {
+            const { success, message } = await setEventStatus(slug, next);
+            setError(success ? null : message ?? 'Could not change the status');
+        });
+    }
+
+    return (
+        <>
+            {getNextEventStatuses(status).map((next) => (
+                <button
+                    key={next}
+                    type="button"
+                    className={next === 'cancelled' ? 'danger' : 'secondary'}
+                    onClick={() => handleChange(next)}
+                    disabled={isPending}
+                >
+                    {ACTION_LABELS[next]}
+                </button>
+            ))}
+            {error && <span className="error" role="alert">{error}</span>}
+        </>
+    )
+}
+export default EventStatusActions
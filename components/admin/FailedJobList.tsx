@@ -0,0 +1,67 @@
+import {notFound} from "next/navigation";
+import Job, {IJob, JOB_STATUSES, JobStatus} from "@/database/job.model";
+import connectDB from "@/lib/mongodb";
+import {getCurrentUser, hasRole} from "@/lib/auth";
+import {formatDateTime} from "@/lib/timezone";
+import {RetryJobButton} from "@/components/admin/JobActions";
+
+// Enough to spot a pattern; older failures are still in the database
+const FAILED_JOB_LIMIT = 100;
+
+const FailedJobList = async () => {
+    await connectDB();
+
+    if (!hasRole(await getCurrentUser(), 'admin')) notFound();
+
+    const counts: { _id: JobStatus; count: number }[] = await Job.aggregate([
+        { $group: { _id: '$status', count: { $sum: 1 } } },
+    ]);
+    const countOf = (status: JobStatus) => counts.find(({ _id }) => _id === status)?.count ?? 0;
+
+    const failed = await Job.find({ status: 'failed' })
+        .sort({ failedAt: -1 })
+        .limit(FAILED_JOB_LIMIT)
+        .lean<IJob[]>();
+
+    return (
+        <div className="flex flex-col gap-8">
+            <div>
+                <h1>Jobs</h1>
+                <p>{JOB_STATUSES.map((status) => `${countOf(status)} ${status}`).join(' · ')}</p>
+            </div>
+
+            <h2>Failed jobs</h2>
+            {failed.length > 0 ? (
+                <table className="admin-table">
+                    <thead>
+                        <tr>
+                            <th>Job</th>
+                            <th>Payload</th>
+                            <th>Attempts</th>
+                            <th>Last error</th>
+                            <th>Failed</th>
+                            <th />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {failed.map((job) => (
+                            <tr key={String(job._id)}>
+                                <td>{job.name}</td>
+                                <td><code>{JSON.stringify(job.payload)}</code></td>
+                                <td>{job.attempts} / {job.maxAttempts}</td>
+                                <td>{job.lastError}</td>
+                                <td>{job.failedAt && formatDateTime(job.failedAt, 'UTC')}</td>
+                                <td className="actions">
+                                    <RetryJobButton jobId={String(job._id)} />
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <p>No failed jobs.</p>
+            )}
+        </div>
+    )
+}
+export default FailedJobList
@@ -0,0 +1,22 @@
+'use client';
+
+import {useState, useTransition} from "react";
+import {retryJob} from "@/lib/actions/job.actions";
+
+export const RetryJobButton = ({ jobId }: { jobId: string }) => {
+    const [isPending, startTransition] = useTransition();
+    const [failed, setFailed] = useState(false);
+
+    const handleRetry = () => {
+        startTransition(async () => {
+            const { success } = await retryJob(jobId);
+            setFailed(!success);
+        });
+    }
+
+    return (
+        <button type="button" className="secondary" onClick={handleRetry} disabled={isPending}>
+            {isPending ? 'Retrying...' : failed ? 'Try again' : 'Retry'}
+        </button>
+    )
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import {startTransition, useActionState} from "react";
+import {saveOrganizer, type OrganizerFormState} from "@/lib/actions/organizer.actions";
+
+export type OrganizerFormValues = {
+    name: string;
+    bio: string;
+    logo: string;
+    website: string;
+    // One "Label | URL" per line
+    socials: string;
+};
+
+const initialState: OrganizerFormState = { status: 'idle', errors: {} };
+
+const FieldError = ({ state, name }: { state: OrganizerFormState; name: string }) => (
+    state.errors[name] ? <p className="field-error" role="alert">{state.errors[name]}</p> : null
+)
+
+const OrganizerForm = ({ slug, initialValues }: { slug: string | null; initialValues: OrganizerFormValues }) => {
+    const [state, formAction, isPending] = useActionState(saveOrganizer.bind(null, slug), initialState);
+
+    // Submitting manually skips React's automatic form reset, so input survives validation errors
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const formData = new FormData(e.currentTarget);
+        startTransition(() => formAction(formData));
+    }
+
+    return (
+        <form onSubmit={handleSubmit} id="organizer-form">
+            {state.message && (
+                <p className={state.status === 'error' ? 'field-error' : 'form-message'} role="status">{state.message}</p>
+            )}
+
+            <div className="field">
+                <label htmlFor="name">Name</label>
+                <input id="name" name="name" defaultValue={initialValues.name} maxLength={100} />
+                <FieldError state={state} name="name" />
+            </div>
+
+            <div className="field">
+                <label htmlFor="bio">Bio</label>
+                <textarea id="bio" name="bio" defaultValue={initialValues.bio} maxLength={1000} rows={5} />
+                <FieldError state={state} name="bio" />
+            </div>
+
+            <div className="field-row">
+                <div className="field">
+                    <label htmlFor="logo">Logo URL</label>
+                    <input id="logo" name="logo" defaultValue={initialValues.logo} placeholder="https://..." />
+                    <FieldError state={state} name="logo" />
+                </div>
+
+                <div className="field">
+                    <label htmlFor="website">Website</label>
+                    <input id="website" name="website" type="url" defaultValue={initialValues.website} placeholder="https://..." />
+                    <FieldError state={state} name="website" />
+                </div>
+            </div>
+
+            <div className="field">
+                <label htmlFor="socials">Social links, one per line as Label | URL</label>
+                <textarea id="socials" name="socials" defaultValue={initialValues.socials} rows={4} placeholder="Mastodon | https://..." />
+                <FieldError state={state} name="socials" />
+            </div>
+
+            <button type="submit" className="button-submit" disabled={isPending}>
+                {isPending ? 'Saving...' : slug ? 'Save Organizer' : 'Create Organizer'}
+            </button>
+        </form>
+    )
+}
+export default OrganizerForm
@@ -0,0 +1,23 @@
+'use client';
+
+import {useState, useTransition} from "react";
+import {setPromoCodeActive} from "@/lib/actions/promo-code.actions";
+
+// Deactivated codes are kept, so their redemptions stay on record
+export const TogglePromoCodeButton = ({ promoCodeId, active }: { promoCodeId: string; active: boolean }) => {
+    const [isPending, startTransition] = useTransition();
+    const [failed, setFailed] = useState(false);
+
+    const handleToggle = () => {
+        startTransition(async () => {
+            const { success } = await setPromoCodeActive(promoCodeId, !active);
+            setFailed(!success);
+        });
+    }
+
+    return (
+        <button type="button" className={active ? 'danger' : 'secondary'} onClick={handleToggle} disabled={isPending}>
+            {isPending ? 'Saving...' : failed ? 'Retry' : active ? 'Deactivate' : 'Activate'}
+        </button>
+    )
+}
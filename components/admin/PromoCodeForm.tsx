@@ -0,0 +1,130 @@
+'use client';
+
+import {startTransition, useActionState, useState} from "react";
+import {savePromoCode, type PromoCodeEventOption, type PromoCodeFormState} from "@/lib/actions/promo-code.actions";
+
+const initialState: PromoCodeFormState = { status: 'idle', errors: {} };
+
+const FieldError = ({ state, name }: { state: PromoCodeFormState; name: string }) => (
+    state.errors[name] ? <p className="field-error" role="alert">{state.errors[name]}</p> : null
+)
+
+const PromoCodeForm = ({ events }: { events: PromoCodeEventOption[] }) => {
+    const [state, formAction, isPending] = useActionState(savePromoCode, initialState);
+    const [discountType, setDiscountType] = useState('percent');
+    const [eventIds, setEventIds] = useState<string[]>([]);
+
+    // Tiers of the chosen events, or of every event for codes valid everywhere
+    const tierEvents = eventIds.length > 0 ? events.filter((event) => eventIds.includes(event.id)) : events;
+
+    // Submitting manually skips React's automatic form reset, so input survives validation errors
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const formData = new FormData(e.currentTarget);
+        startTransition(() => formAction(formData));
+    }
+
+    return (
+        <form onSubmit={handleSubmit} id="promo-code-form">
+            {state.message && (
+                <p className={state.status === 'error' ? 'field-error' : 'form-message'} role="status">{state.message}</p>
+            )}
+
+            <div className="field-row">
+                <div className="field">
+                    <label htmlFor="code">Code</label>
+                    <input id="code" name="code" maxLength={32} placeholder="SPRING-25" className="uppercase" />
+                    <FieldError state={state} name="code" />
+                </div>
+
+                <div className="field">
+                    <label htmlFor="discountType">Discount</label>
+                    <select id="discountType" name="discountType" value={discountType} onChange={(e) => setDiscountType(e.target.value)}>
+                        <option value="percent">Percent off</option>
+                        <option value="fixed">Amount off</option>
+                    </select>
+                    <FieldError state={state} name="discountType" />
+                </div>
+
+                <div className="field">
+                    <label htmlFor="discountValue">{discountType === 'percent' ? 'Percent' : 'Amount'}</label>
+                    <input id="discountValue" name="discountValue" inputMode="decimal" placeholder={discountType === 'percent' ? '20' : '10.00'} />
+                    <FieldError state={state} name="discountValue" />
+                </div>
+
+                {discountType === 'fixed' && (
+                    <div className="field">
+                        <label htmlFor="currency">Currency</label>
+                        <input id="currency" name="currency" defaultValue="USD" maxLength={3} className="uppercase" />
+                        <FieldError state={state} name="currency" />
+                    </div>
+                )}
+            </div>
+
+            <div className="field-row">
+                <div className="field">
+                    <label htmlFor="maxRedemptions">Total uses</label>
+                    <input id="maxRedemptions" name="maxRedemptions" type="number" min={1} placeholder="Unlimited" />
+                    <FieldError state={state} name="maxRedemptions" />
+                </div>
+
+                <div className="field">
+                    <label htmlFor="maxPerEmail">Uses per email</label>
+                    <input id="maxPerEmail" name="maxPerEmail" type="number" min={1} defaultValue={1} />
+                    <FieldError state={state} name="maxPerEmail" />
+                </div>
+            </div>
+
+            <div className="field-row">
+                <div className="field">
+                    <label htmlFor="validFrom">Valid from (UTC)</label>
+                    <input id="validFrom" name="validFrom" type="datetime-local" />
+                    <FieldError state={state} name="validFrom" />
+                </div>
+
+                <div className="field">
+                    <label htmlFor="validUntil">Valid until (UTC)</label>
+                    <input id="validUntil" name="validUntil" type="datetime-local" />
+                    <FieldError state={state} name="validUntil" />
+                </div>
+            </div>
+
+            <div className="field-row">
+                <div className="field">
+                    <label htmlFor="eventIds">Events (none for all)</label>
+                    <select
+                        id="eventIds"
+                        name="eventIds"
+                        multiple
+                        value={eventIds}
+                        onChange={(e) => setEventIds([...e.target.selectedOptions].map((option) => option.value))}
+                    >
+                        {events.map((event) => (
+                            <option key={event.id} value={event.id}>{event.title}</option>
+                        ))}
+                    </select>
+                    <FieldError state={state} name="eventIds" />
+                </div>
+
+                <div className="field">
+                    <label htmlFor="tierIds">Tickets (none for all)</label>
+                    <select id="tierIds" name="tierIds" multiple>
+                        {tierEvents.filter((event) => event.tiers.length > 0).map((event) => (
+                            <optgroup key={event.id} label={event.title}>
+                                {event.tiers.map((tier) => (
+                                    <option key={tier.id} value={tier.id}>{tier.name}</option>
+                                ))}
+                            </optgroup>
+                        ))}
+                    </select>
+                    <FieldError state={state} name="tierIds" />
+                </div>
+            </div>
+
+            <button type="submit" className="button-submit" disabled={isPending}>
+                {isPending ? 'Saving...' : 'Create code'}
+            </button>
+        </form>
+    )
+}
+export default PromoCodeForm
@@ -0,0 +1,86 @@
+import PromoCode, {IPromoCode} from "@/database/promo-code.model";
+import Event, {IEvent} from "@/database/event.model";
+import connectDB from "@/lib/mongodb";
+import {getCurrentUser} from "@/lib/auth";
+import {formatPrice} from "@/lib/tickets";
+import {formatDateTime} from "@/lib/timezone";
+import {getPromoCodeEventOptions} from "@/lib/actions/promo-code.actions";
+import PromoCodeForm from "@/components/admin/PromoCodeForm";
+import {TogglePromoCodeButton} from "@/components/admin/PromoCodeActions";
+
+const describeDiscount = (promo: IPromoCode) =>
+    promo.discountType === 'percent' ? `${promo.discountValue}% off` : `${formatPrice(promo.discountValue, promo.currency!)} off`;
+
+const describeWindow = (promo: IPromoCode) => {
+    if (!promo.validFrom && !promo.validUntil) return 'Always';
+
+    return [
+        promo.validFrom && `from ${formatDateTime(promo.validFrom, 'UTC')}`,
+        promo.validUntil && `until ${formatDateTime(promo.validUntil, 'UTC')}`,
+    ].filter(Boolean).join(' ');
+}
+
+const PromoCodeList = async () => {
+    await connectDB();
+
+    const user = await getCurrentUser();
+
+    // Organizers see the codes they created; admins see everything
+    const filter = user?.role === 'admin' ? {} : { createdBy: user?._id };
+    const promoCodes = await PromoCode.find(filter).sort({ createdAt: -1 }).lean<IPromoCode[]>();
+    const events = await Event.find({ _id: { $in: promoCodes.flatMap((promo) => promo.eventIds) } })
+        .select('title')
+        .lean<Pick<IEvent, '_id' | 'title'>[]>();
+    const titles = new Map(events.map((event) => [String(event._id), event.title]));
+
+    return (
+        <div className="flex flex-col gap-8">
+            <h1>Promo codes</h1>
+
+            {promoCodes.length > 0 ? (
+                <table className="admin-table">
+                    <thead>
+                        <tr>
+                            <th>Code</th>
+                            <th>Discount</th>
+                            <th>Used</th>
+                            <th>Valid</th>
+                            <th>Events</th>
+                            <th />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {promoCodes.map((promo) => (
+                            <tr key={String(promo._id)}>
+                                <td>{promo.code}{!promo.active && ' (inactive)'}</td>
+                                <td>
+                                    {describeDiscount(promo)}
+                                    {promo.tierIds.length > 0 && `, ${promo.tierIds.length} ticket type(s)`}
+                                </td>
+                                <td>
+                                    {promo.redemptions}{promo.maxRedemptions ? ` / ${promo.maxRedemptions}` : ''}
+                                    {` (${promo.maxPerEmail} per email)`}
+                                </td>
+                                <td>{describeWindow(promo)}</td>
+                                <td>
+                                    {promo.eventIds.length > 0
+                                        ? promo.eventIds.map((id) => titles.get(String(id)) ?? 'Deleted event').join(', ')
+                                        : 'All events'}
+                                </td>
+                                <td className="actions">
+                                    <TogglePromoCodeButton promoCodeId={String(promo._id)} active={promo.active} />
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <p>No promo codes yet.</p>
+            )}
+
+            <h2>New code</h2>
+            <PromoCodeForm events={await getPromoCodeEventOptions()} />
+        </div>
+    )
+}
+export default PromoCodeList
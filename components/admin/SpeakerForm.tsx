@@ -0,0 +1,75 @@
+'use client';
+
+import {startTransition, useActionState} from "react";
+import {saveSpeaker, type SpeakerFormState} from "@/lib/actions/speaker.actions";
+
+export type SpeakerFormValues = {
+    name: string;
+    bio: string;
+    photo: string;
+    company: string;
+    // One "Label | URL" per line
+    links: string;
+};
+
+const initialState: SpeakerFormState = { status: 'idle', errors: {} };
+
+const FieldError = ({ state, name }: { state: SpeakerFormState; name: string }) => (
+    state.errors[name] ? <p className="field-error" role="alert">{state.errors[name]}</p> : null
+)
+
+const SpeakerForm = ({ slug, initialValues }: { slug: string; initialValues: SpeakerFormValues }) => {
+    const [state, formAction, isPending] = useActionState(saveSpeaker.bind(null, slug), initialState);
+
+    // Submitting manually skips React's automatic form reset, so input survives validation errors
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const formData = new FormData(e.currentTarget);
+        startTransition(() => formAction(formData));
+    }
+
+    return (
+        <form onSubmit={handleSubmit} id="speaker-form">
+            {state.message && (
+                <p className={state.status === 'error' ? 'field-error' : 'form-message'} role="status">{state.message}</p>
+            )}
+
+            <div className="field-row">
+                <div className="field">
+                    <label htmlFor="name">Name</label>
+                    <input id="name" name="name" defaultValue={initialValues.name} maxLength={100} />
+                    <FieldError state={state} name="name" />
+                </div>
+
+                <div className="field">
+                    <label htmlFor="company">Company</label>
+                    <input id="company" name="company" defaultValue={initialValues.company} maxLength={100} />
+                    <FieldError state={state} name="company" />
+                </div>
+            </div>
+
+            <div className="field">
+                <label htmlFor="bio">Bio</label>
+                <textarea id="bio" name="bio" defaultValue={initialValues.bio} maxLength={1000} rows={5} />
+                <FieldError state={state} name="bio" />
+            </div>
+
+            <div className="field">
+                <label htmlFor="photo">Photo URL</label>
+                <input id="photo" name="photo" defaultValue={initialValues.photo} placeholder="https://..." />
+                <FieldError state={state} name="photo" />
+            </div>
+
+            <div className="field">
+                <label htmlFor="links">Links, one per line as Label | URL</label>
+                <textarea id="links" name="links" defaultValue={initialValues.links} rows={4} placeholder="GitHub | https://github.com/..." />
+                <FieldError state={state} name="links" />
+            </div>
+
+            <button type="submit" className="button-submit" disabled={isPending}>
+                {isPending ? 'Saving...' : 'Save Speaker'}
+            </button>
+        </form>
+    )
+}
+export default SpeakerForm
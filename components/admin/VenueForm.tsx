@@ -0,0 +1,77 @@
+'use client';
+
+import {startTransition, useActionState} from "react";
+import {saveVenue, type VenueFormState} from "@/lib/actions/venue.actions";
+
+export type VenueFormValues = {
+    name: string;
+    address: string;
+    // Blank to look the coordinates up from the address
+    latitude: string;
+    longitude: string;
+    capacity: string;
+};
+
+const initialState: VenueFormState = { status: 'idle', errors: {} };
+
+const FieldError = ({ state, name }: { state: VenueFormState; name: string }) => (
+    state.errors[name] ? <p className="field-error" role="alert">{state.errors[name]}</p> : null
+)
+
+const VenueForm = ({ id, initialValues }: { id: string | null; initialValues: VenueFormValues }) => {
+    const [state, formAction, isPending] = useActionState(saveVenue.bind(null, id), initialState);
+
+    // Submitting manually skips React's automatic form reset, so input survives validation errors
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const formData = new FormData(e.currentTarget);
+        startTransition(() => formAction(formData));
+    }
+
+    return (
+        <form onSubmit={handleSubmit} id="venue-form">
+            {state.message && (
+                <p className={state.status === 'error' ? 'field-error' : 'form-message'} role="status">{state.message}</p>
+            )}
+
+            <div className="field">
+                <label htmlFor="name">Name</label>
+                <input id="name" name="name" defaultValue={initialValues.name} maxLength={100} />
+                <FieldError state={state} name="name" />
+            </div>
+
+            <div className="field">
+                <label htmlFor="address">Address</label>
+                <input id="address" name="address" defaultValue={initialValues.address} maxLength={300} placeholder="Street, City, Country" />
+                <FieldError state={state} name="address" />
+            </div>
+
+            <fieldset className="field">
+                <legend>Coordinates; leave both blank to look them up from the city in the address</legend>
+                <div className="field-row">
+                    <div className="field">
+                        <label htmlFor="latitude">Latitude</label>
+                        <input id="latitude" name="latitude" type="number" step="any" min={-90} max={90} defaultValue={initialValues.latitude} />
+                    </div>
+
+                    <div className="field">
+                        <label htmlFor="longitude">Longitude</label>
+                        <input id="longitude" name="longitude" type="number" step="any" min={-180} max={180} defaultValue={initialValues.longitude} />
+                    </div>
+                </div>
+                <FieldError state={state} name="coordinates" />
+            </fieldset>
+
+            <div className="field">
+                <label htmlFor="capacity">Capacity (optional)</label>
+                <input id="capacity" name="capacity" type="number" min={1} step={1} defaultValue={initialValues.capacity} />
+                <FieldError state={state} name="capacity" />
+            </div>
+
+            <button type="submit" className="button-submit" disabled={isPending}>
+                {isPending ? 'Saving...' : id ? 'Save Venue' : 'Create Venue'}
+            </button>
+        </form>
+    )
+}
+export default VenueForm
@@ -1,14 +1,64 @@
 import { Schema, model, models, Document, Types } from 'mongoose';
 import Event from './event.model';
 
+// Paid tickets go pending -> paid -> refunded; free bookings are confirmed or waitlisted
+export const BOOKING_STATUSES = ['confirmed', 'waitlisted', 'pending', 'paid', 'refunded'] as const;
+export type BookingStatus = (typeof BOOKING_STATUSES)[number];
+
+// Bookings that don't hold a seat. Bookings without a status predate the waitlist and hold one
+export const SEATLESS_STATUSES: BookingStatus[] = ['waitlisted', 'refunded'];
+
+// Bookings that hold no seat or haven't been paid for yet, so don't count as attendees
+export const NOT_ATTENDING_STATUSES: BookingStatus[] = ['waitlisted', 'pending', 'refunded'];
+
+// Payment for a ticket, as recorded when its checkout was started
+export interface IBookingPayment {
+  provider: string;
+  checkoutId: string;
+  // In the currency's minor unit
+  amount: number;
+  currency: string;
+  paidAt?: Date;
+  refundedAt?: Date;
+}
+
 // TypeScript interface for Booking document
 export interface IBooking extends Document {
   eventId: Types.ObjectId;
+  // Start of the booked occurrence, for recurring events
+  occurrenceStart?: Date;
+  // Booked session, for multi-session events
+  sessionId?: Types.ObjectId;
+  // Ticket tier bought, for events that sell tickets
+  ticketTierId?: Types.ObjectId;
+  // Promo code redeemed for the ticket, if any
+  promoCodeId?: Types.ObjectId;
   email: string;
+  status: BookingStatus;
+  payment?: IBookingPayment;
+  // Pending bookings give their seat back after this instant
+  expiresAt?: Date;
+  // Signed code shown on the attendee's ticket and scanned at the door
+  ticketCode?: string;
+  checkedInAt?: Date;
+  // When the day-before reminder went out
+  reminderSentAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const BookingPaymentSchema = new Schema<IBookingPayment>(
+  {
+    provider: { type: String, required: true },
+    checkoutId: { type: String, required: true },
+    amount: { type: Number, required: true, min: 0 },
+    currency: { type: String, required: true, uppercase: true },
+    paidAt: { type: Date },
+    refundedAt: { type: Date },
+  },
+  { _id: false }
+);
+
 const BookingSchema = new Schema<IBooking>(
   {
     eventId: {
@@ -16,6 +66,19 @@ const BookingSchema = new Schema<IBooking>(
       ref: 'Event',
       required: [true, 'Event ID is required'],
     },
+    occurrenceStart: {
+      type: Date,
+    },
+    sessionId: {
+      type: Schema.Types.ObjectId,
+    },
+    ticketTierId: {
+      type: Schema.Types.ObjectId,
+    },
+    promoCodeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PromoCode',
+    },
     email: {
       type: String,
       required: [true, 'Email is required'],
@@ -30,12 +93,51 @@ const BookingSchema = new Schema<IBooking>(
         message: 'Please provide a valid email address',
       },
     },
+    status: {
+      type: String,
+      enum: {
+        values: BOOKING_STATUSES,
+        message: 'Status must be one of confirmed, waitlisted, pending, paid or refunded',
+      },
+      default: 'confirmed',
+    },
+    payment: {
+      type: BookingPaymentSchema,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    ticketCode: {
+      type: String,
+      uppercase: true,
+    },
+    checkedInAt: {
+      type: Date,
+    },
+    reminderSentAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true, // Auto-generate createdAt and updatedAt
   }
 );
 
+// A booking holds a seat for a whole event, one occurrence or one session
+BookingSchema.pre('validate', function (next) {
+  const booking = this as IBooking;
+
+  if (booking.occurrenceStart && booking.sessionId) {
+    booking.invalidate('sessionId', 'A booking cannot target both an occurrence and a session');
+  }
+
+  if (booking.status === 'pending' && !booking.expiresAt) {
+    booking.invalidate('expiresAt', 'Pending bookings must expire');
+  }
+
+  next();
+});
+
 // Pre-save hook to validate events exists before creating booking
 BookingSchema.pre('save', async function (next) {
   const booking = this as IBooking;
@@ -66,11 +168,40 @@ BookingSchema.index({ eventId: 1 });
 // Create compound index for common queries (events bookings by date)
 BookingSchema.index({ eventId: 1, createdAt: -1 });
 
+// Create compound index for waitlist ordering (oldest waitlisted booking first)
+BookingSchema.index({ eventId: 1, status: 1, createdAt: 1 });
+
+// Create compound index for per-occurrence and per-session waitlists
+BookingSchema.index({ eventId: 1, occurrenceStart: 1, sessionId: 1, status: 1, createdAt: 1 });
+
+// Create index for finding pending bookings that have expired
+BookingSchema.index({ status: 1, expiresAt: 1 });
+
+// Create unique index for matching payment events to bookings
+BookingSchema.index({ 'payment.checkoutId': 1 }, { unique: true, sparse: true });
+
+// Create unique index for looking up tickets at check-in
+BookingSchema.index({ ticketCode: 1 }, { unique: true, sparse: true });
+
+// Create compound index for check-in counts
+BookingSchema.index({ eventId: 1, checkedInAt: 1 });
+
+// Create index for finding occurrence bookings due a reminder
+BookingSchema.index({ occurrenceStart: 1, reminderSentAt: 1 });
+
 // Create index on email for user booking lookups
 BookingSchema.index({ email: 1 });
 
-// Enforce one booking per events per email
-BookingSchema.index({ eventId: 1, email: 1 }, { unique: true, name: 'uniq_event_email' });
+// Enforce one booking per email for each event, occurrence or session. Refunded bookings stay
+// as payment records without blocking a new booking; partial indexes with $in need MongoDB 6.0
+BookingSchema.index(
+  { eventId: 1, occurrenceStart: 1, sessionId: 1, email: 1 },
+  {
+    unique: true,
+    name: 'uniq_active_event_target_email',
+    partialFilterExpression: { status: { $in: BOOKING_STATUSES.filter((status) => status !== 'refunded') } },
+  }
+);
 const Booking = models.Booking || model<IBooking>('Booking', BookingSchema);
 
 export default Booking;
\ No newline at end of file
@@ -1,25 +1,273 @@
-import { Schema, model, models, Document } from 'mongoose';
+import { Schema, model, models, Document, Model, Types, Error as MongooseError } from 'mongoose';
+import { isValidTimeZone, utcToZonedTime, zonedTimeToUtc } from '../lib/timezone';
+import { isValidRecurrenceRule } from '../lib/recurrence';
+import { DEFAULT_TRACK, findAgendaOverlap, parseAgendaText } from '../lib/agenda';
+import { DEFAULT_CURRENCY, isCurrencyCode } from '../lib/tickets';
+import { FALLBACK_SLUG, isSlugFor, nextAvailableSlug, slugify } from '../lib/slugs';
+import { canChangeEventStatus, EVENT_STATUSES, EventStatus, INITIAL_EVENT_STATUSES } from '../lib/event-status';
+import Venue from './venue.model';
+
+// A bookable part of a multi-session event, such as a workshop or one conference day
+export interface IEventSession {
+  _id: Types.ObjectId;
+  title: string;
+  startsAt: Date;
+  endsAt: Date;
+  room?: string;
+  speakers: Types.ObjectId[];
+  capacity?: number;
+}
+
+// One entry in an event's agenda; times are wall-clock HH:MM in the event's timezone
+export interface IAgendaItem {
+  _id: Types.ObjectId;
+  // 1 for the event's first day
+  day: number;
+  startTime?: string;
+  endTime?: string;
+  title: string;
+  description?: string;
+  speakers: Types.ObjectId[];
+  track?: string;
+}
+
+// A kind of ticket, such as early bird or student; see lib/tickets
+export interface ITicketTier {
+  _id: Types.ObjectId;
+  name: string;
+  // In the currency's minor unit; 0 for free tickets
+  price: number;
+  currency: string;
+  // Unlimited when missing; still bounded by the event's capacity
+  quantity?: number;
+  salesStart?: Date;
+  salesEnd?: Date;
+}
+
+// Confirmed bookings held against one occurrence, session or ticket tier
+export interface ITargetSeats {
+  // `occurrence:<ISO start>`, `session:<id>` or `tier:<id>`
+  target: string;
+  seatsTaken: number;
+}
 
 // TypeScript interface for Event document
 export interface IEvent extends Document {
   title: string;
   slug: string;
+  // Slugs the event had before it was renamed; links using them redirect to the current one
+  slugHistory: string[];
   description: string;
   overview: string;
   image: string;
   venue: string;
   location: string;
+  // Mapped venue used for distance search; `venue` and `location` stay as display text
+  venueId?: Types.ObjectId;
   date: string;
   time: string;
+  startsAt: Date;
+  endsAt?: Date;
+  timezone: string;
+  // RRULE subset (see lib/recurrence); the date and time above give the first occurrence
+  recurrence?: string;
+  sessions: IEventSession[];
   mode: string;
   audience: string;
-  agenda: string[];
-  organizer: string;
+  agenda: IAgendaItem[];
+  // Account that owns the event and may edit it
+  organizer: Types.ObjectId;
+  // Public profile shown under "About the Organizer"
+  organizerProfile?: Types.ObjectId;
+  // Headline speakers; agenda items and sessions list their own
+  speakers: Types.ObjectId[];
   tags: string[];
+  capacity?: number;
+  waitlistEnabled: boolean;
+  // Events with tiers sell tickets; events without are free to book
+  ticketTiers: ITicketTier[];
+  seatsTaken: number;
+  targetSeats: ITargetSeats[];
+  // Only published events are listed and bookable; see lib/event-status for the allowed transitions
+  status: EventStatus;
+  statusChangedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Fields clients may set when creating or updating an event (slug, owner and timestamps are derived)
+export const EVENT_EDITABLE_FIELDS = [
+  'title',
+  'description',
+  'overview',
+  'image',
+  'venue',
+  'location',
+  'venueId',
+  'date',
+  'time',
+  'startsAt',
+  'endsAt',
+  'timezone',
+  'recurrence',
+  'sessions',
+  'mode',
+  'audience',
+  'agenda',
+  'organizerProfile',
+  'speakers',
+  'tags',
+  'capacity',
+  'waitlistEnabled',
+  'ticketTiers',
+  'status',
+] as const;
+
+// Editable fields that hold lists; agenda entries may be plain text lines (see lib/agenda)
+export const EVENT_LIST_FIELDS = ['agenda', 'speakers', 'tags'] as const;
+
+const EventSessionSchema = new Schema<IEventSession>({
+  title: {
+    type: String,
+    required: [true, 'Session title is required'],
+    trim: true,
+    maxlength: [100, 'Session title cannot exceed 100 characters'],
+  },
+  startsAt: {
+    type: Date,
+    required: [true, 'Session start is required'],
+  },
+  endsAt: {
+    type: Date,
+    required: [true, 'Session end is required'],
+    validate: {
+      validator: function (this: IEventSession, v: Date) {
+        return !this.startsAt || v > this.startsAt;
+      },
+      message: 'Session must end after it starts',
+    },
+  },
+  room: {
+    type: String,
+    trim: true,
+  },
+  speakers: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'Speaker' }],
+    default: [],
+  },
+  capacity: {
+    type: Number,
+    min: [1, 'Session capacity must be at least 1'],
+    validate: {
+      validator: (v: number | null) => v == null || Number.isInteger(v),
+      message: 'Session capacity must be a whole number',
+    },
+  },
+});
+
+const AGENDA_TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const AgendaItemSchema = new Schema<IAgendaItem>({
+  day: {
+    type: Number,
+    default: 1,
+    min: [1, 'Agenda day must be at least 1'],
+    validate: {
+      validator: Number.isInteger,
+      message: 'Agenda day must be a whole number',
+    },
+  },
+  startTime: {
+    type: String,
+    match: [AGENDA_TIME, 'Agenda times must use HH:MM'],
+  },
+  endTime: {
+    type: String,
+    match: [AGENDA_TIME, 'Agenda times must use HH:MM'],
+    validate: {
+      validator: function (this: IAgendaItem, v: string) {
+        return !!this.startTime && v > this.startTime;
+      },
+      message: 'Agenda item must start before it ends',
+    },
+  },
+  title: {
+    type: String,
+    required: [true, 'Agenda item title is required'],
+    trim: true,
+    maxlength: [200, 'Agenda item title cannot exceed 200 characters'],
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Agenda item description cannot exceed 1000 characters'],
+  },
+  speakers: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'Speaker' }],
+    default: [],
+  },
+  track: {
+    type: String,
+    trim: true,
+  },
+});
+
+const TicketTierSchema = new Schema<ITicketTier>({
+  name: {
+    type: String,
+    required: [true, 'Ticket tier name is required'],
+    trim: true,
+    maxlength: [50, 'Ticket tier name cannot exceed 50 characters'],
+  },
+  price: {
+    type: Number,
+    required: [true, 'Ticket price is required'],
+    min: [0, 'Ticket price cannot be negative'],
+    validate: {
+      validator: Number.isInteger,
+      message: 'Ticket price must be a whole number of cents',
+    },
+  },
+  currency: {
+    type: String,
+    default: DEFAULT_CURRENCY,
+    trim: true,
+    uppercase: true,
+    validate: {
+      validator: isCurrencyCode,
+      message: '{VALUE} is not an ISO 4217 currency code',
+    },
+  },
+  quantity: {
+    type: Number,
+    min: [1, 'Ticket quantity must be at least 1'],
+    validate: {
+      validator: (v: number | null) => v == null || Number.isInteger(v),
+      message: 'Ticket quantity must be a whole number',
+    },
+  },
+  salesStart: {
+    type: Date,
+  },
+  salesEnd: {
+    type: Date,
+    validate: {
+      validator: function (this: ITicketTier, v: Date | null) {
+        return !v || !this.salesStart || v > this.salesStart;
+      },
+      message: 'Ticket sales must end after they start',
+    },
+  },
+});
+
+const TargetSeatsSchema = new Schema<ITargetSeats>(
+  {
+    target: { type: String, required: true },
+    seatsTaken: { type: Number, default: 0, min: 0 },
+  },
+  { _id: false }
+);
+
 const EventSchema = new Schema<IEvent>(
   {
     title: {
@@ -34,6 +282,10 @@ const EventSchema = new Schema<IEvent>(
       lowercase: true,
       trim: true,
     },
+    slugHistory: {
+      type: [String],
+      default: [],
+    },
     description: {
       type: String,
       required: [true, 'Description is required'],
@@ -61,6 +313,10 @@ const EventSchema = new Schema<IEvent>(
       required: [true, 'Location is required'],
       trim: true,
     },
+    venueId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Venue',
+    },
     date: {
       type: String,
       required: [true, 'Date is required'],
@@ -69,6 +325,35 @@ const EventSchema = new Schema<IEvent>(
       type: String,
       required: [true, 'Time is required'],
     },
+    // Start instant; `date` and `time` hold the same moment as wall-clock values in `timezone`
+    startsAt: {
+      type: Date,
+    },
+    endsAt: {
+      type: Date,
+    },
+    timezone: {
+      type: String,
+      default: 'UTC',
+      trim: true,
+      validate: {
+        validator: isValidTimeZone,
+        message: '{VALUE} is not a valid IANA timezone',
+      },
+    },
+    recurrence: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      validate: {
+        validator: (v: string | null) => !v || isValidRecurrenceRule(v),
+        message: 'Recurrence must be a supported RRULE, e.g. FREQ=MONTHLY;BYDAY=2TU;COUNT=12',
+      },
+    },
+    sessions: {
+      type: [EventSessionSchema],
+      default: [],
+    },
     mode: {
       type: String,
       required: [true, 'Mode is required'],
@@ -83,17 +368,31 @@ const EventSchema = new Schema<IEvent>(
       trim: true,
     },
     agenda: {
-      type: [String],
+      type: [AgendaItemSchema],
       required: [true, 'Agenda is required'],
+      // Plain text lines, as sent by older clients, are parsed into items. Speaker
+      // names stay in the title: turning them into profiles needs lib/speakers
+      set: (items: unknown) =>
+        Array.isArray(items)
+          ? items.map((item) => (typeof item === 'string' ? parseAgendaText(item, { readSpeakers: false }) : item))
+          : items,
       validate: {
-        validator: (v: string[]) => v.length > 0,
+        validator: (v: IAgendaItem[]) => v.length > 0,
         message: 'At least one agenda item is required',
       },
     },
     organizer: {
-      type: String,
+      type: Schema.Types.ObjectId,
+      ref: 'User',
       required: [true, 'Organizer is required'],
-      trim: true,
+    },
+    organizerProfile: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organizer',
+    },
+    speakers: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Speaker' }],
+      default: [],
     },
     tags: {
       type: [String],
@@ -103,56 +402,303 @@ const EventSchema = new Schema<IEvent>(
         message: 'At least one tag is required',
       },
     },
+    capacity: {
+      type: Number,
+      min: [1, 'Capacity must be at least 1'],
+      validate: {
+        validator: (v: number | null) => v == null || Number.isInteger(v),
+        message: 'Capacity must be a whole number',
+      },
+    },
+    // When disabled, bookings past capacity are rejected instead of waitlisted
+    waitlistEnabled: {
+      type: Boolean,
+      default: true,
+    },
+    ticketTiers: {
+      type: [TicketTierSchema],
+      default: [],
+    },
+    // Confirmed bookings counted against capacity; only updated atomically by the booking flow
+    seatsTaken: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Per-occurrence, per-session and per-tier counterparts of seatsTaken, also only updated by the booking flow
+    targetSeats: {
+      type: [TargetSeatsSchema],
+      default: [],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: EVENT_STATUSES,
+        message: '{VALUE} is not an event status',
+      },
+      default: 'draft',
+    },
+    statusChangedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true, // Auto-generate createdAt and updatedAt
   }
 );
 
-// Pre-save hook for slug generation and data normalization
+// Pre-validate hook deriving the wall-clock date and time from an explicit start instant
+EventSchema.pre('validate', function (next) {
+  const event = this as IEvent;
+
+  if (event.isModified('startsAt') && event.startsAt && isValidTimeZone(event.timezone)) {
+    const { date, time } = utcToZonedTime(event.startsAt, event.timezone);
+    event.date = date;
+    event.time = time;
+  }
+
+  next();
+});
+
+// Remember the stored status, so a save can tell which transition it makes
+const rememberStatus = (doc: IEvent) => {
+  doc.$locals.storedStatus = doc.status;
+};
+
+EventSchema.post('init', rememberStatus);
+EventSchema.post('save', rememberStatus);
+
+// A saved slug is the event's own, so later renames don't mistake it for a retry
+EventSchema.post('save', (doc: IEvent) => {
+  delete doc.$locals.generatedSlug;
+});
+
+// Pre-validate hook enforcing the status lifecycle
+EventSchema.pre('validate', function (next) {
+  const event = this as IEvent;
+
+  if (event.isNew) {
+    if (!INITIAL_EVENT_STATUSES.includes(event.status)) {
+      event.invalidate('status', 'New events must be drafts or published');
+    }
+  } else if (event.isModified('status')) {
+    const from = event.$locals.storedStatus as EventStatus | undefined;
+
+    if (from && !canChangeEventStatus(from, event.status)) {
+      event.invalidate('status', `Events cannot go from ${from} to ${event.status}`);
+    } else if (from !== event.status) {
+      event.statusChangedAt = new Date();
+    }
+  }
+
+  next();
+});
+
+// Pre-validate hook rejecting agenda items that overlap within a track
+EventSchema.pre('validate', function (next) {
+  const event = this as IEvent;
+  const overlap = event.isModified('agenda') ? findAgendaOverlap(event.agenda ?? []) : null;
+
+  if (overlap) {
+    const [first, second] = overlap;
+    event.invalidate('agenda', `"${second.title}" overlaps "${first.title}" in ${first.track || DEFAULT_TRACK}`);
+  }
+
+  next();
+});
+
+// Pre-save hook giving new and renamed events a unique slug; a renamed event keeps its old slug for redirects
+EventSchema.pre('save', async function (next) {
+  const event = this as IEvent;
+
+  if (!event.isNew && !event.isModified('title')) return next();
+
+  // A save retried after a concurrent one took its generated slug (see saveEventWithUniqueSlug) starts over
+  if (event.$locals.generatedSlug && event.slug === event.$locals.generatedSlug) {
+    event.slug = event.$locals.slugBefore as string;
+    event.slugHistory = event.$locals.slugHistoryBefore as string[];
+  }
+
+  try {
+    // New events may name their slug, as imports do so re-importing finds them again
+    if (event.isNew && event.slug) {
+      const model = event.constructor as Model<IEvent>;
+
+      if (await model.exists({ $or: [{ slug: event.slug }, { slugHistory: event.slug }] })) {
+        return next(fieldError(event, 'slug', new Error(`The slug ${event.slug} is already taken`)));
+      }
+
+      return next();
+    }
+
+    const base = slugify(event.title) || FALLBACK_SLUG;
+
+    // Edits that don't change the slug's words, like fixing capitalization, keep the slug and its suffix
+    if (!event.isNew && event.slug && isSlugFor(event.slug, base)) return next();
+
+    const slug = await findAvailableEventSlug(base, event._id);
+
+    event.$locals.slugBefore = event.slug;
+    event.$locals.slugHistoryBefore = [...event.slugHistory];
+    event.$locals.generatedSlug = slug;
+
+    if (!event.isNew && event.slug) {
+      // Renaming back to an old title takes the old slug back out of the history
+      event.slugHistory = [...new Set([...event.slugHistory, event.slug])].filter((old) => old !== slug);
+    }
+
+    event.slug = slug;
+  } catch (error) {
+    return next(error as Error);
+  }
+
+  next();
+});
+
+// Pre-save hook for data normalization
 EventSchema.pre('save', function (next) {
   const event = this as IEvent;
 
-  // Generate slug only if title changed or document is new
-  if (event.isModified('title') || event.isNew) {
-    event.slug = generateSlug(event.title);
+  try {
+    // Normalize date to ISO format if it's not already
+    if (event.isModified('date')) {
+      event.date = normalizeDate(event.date);
+    }
+  } catch (error) {
+    return next(fieldError(event, 'date', error));
+  }
+
+  try {
+    // Normalize time format (HH:MM)
+    if (event.isModified('time')) {
+      event.time = normalizeTime(event.time);
+    }
+  } catch (error) {
+    return next(fieldError(event, 'time', error));
+  }
+
+  // Resolve the wall-clock date and time to an instant unless one was given explicitly
+  const wallClockChanged = event.isModified('date') || event.isModified('time') || event.isModified('timezone');
+  if (!event.isModified('startsAt') && (event.isNew || wallClockChanged || !event.startsAt)) {
+    const previousStart = event.startsAt;
+    event.startsAt = zonedTimeToUtc(event.date, event.time, event.timezone);
+
+    // Keep the duration when a rescheduled event doesn't get a new end time
+    if (previousStart && event.endsAt && !event.isModified('endsAt')) {
+      event.endsAt = new Date(event.endsAt.getTime() + event.startsAt.getTime() - previousStart.getTime());
+    }
   }
 
-  // Normalize date to ISO format if it's not already
-  if (event.isModified('date')) {
-    event.date = normalizeDate(event.date);
+  if (event.endsAt && event.endsAt <= event.startsAt) {
+    return next(fieldError(event, 'endsAt', new Error('End time must be after start time')));
   }
 
-  // Normalize time format (HH:MM)
-  if (event.isModified('time')) {
-    event.time = normalizeTime(event.time);
+  // Sessions have fixed dates, so they can't repeat with the event
+  if (event.recurrence && event.sessions?.length > 0) {
+    return next(fieldError(event, 'recurrence', new Error('Events with sessions cannot repeat')));
+  }
+
+  next();
+});
+
+// Pre-save hook to keep the event within its venue's capacity
+EventSchema.pre('save', async function (next) {
+  const event = this as IEvent;
+
+  if (!event.venueId || !(event.isModified('venueId') || event.isModified('capacity'))) return next();
+
+  try {
+    const venue = await Venue.findById(event.venueId).select('capacity');
+
+    if (!venue) {
+      return next(fieldError(event, 'venueId', new Error('Venue does not exist')));
+    }
+
+    if (venue.capacity && event.capacity && event.capacity > venue.capacity) {
+      return next(fieldError(event, 'capacity', new Error(`Capacity cannot exceed the venue's ${venue.capacity} seats`)));
+    }
+  } catch (error) {
+    return next(error as Error);
   }
 
   next();
 });
 
-// Helper function to generate URL-friendly slug
-function generateSlug(title: string): string {
-  return title
-    .toLowerCase()
-    .trim()
-    .replace(/[^a-z0-9\s-]/g, '') // Remove special characters
-    .replace(/\s+/g, '-') // Replace spaces with hyphens
-    .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
-    .replace(/^-|-$/g, ''); // Remove leading/trailing hyphens
+// Helper function to report a pre-save failure as a ValidationError on a single field,
+// so callers can surface it next to that field
+function fieldError(event: IEvent, path: string, error: unknown): MongooseError.ValidationError {
+  const message = error instanceof Error ? error.message : String(error);
+  const validationError = new MongooseError.ValidationError();
+  validationError.addError(path, new MongooseError.ValidatorError({ path, message, value: event.get(path) }));
+  return validationError;
 }
 
-// Helper function to normalize date to ISO format
-function normalizeDate(dateString: string): string {
+// How often a save picks the next suffix after losing its slug to concurrent saves
+const SLUG_SAVE_ATTEMPTS = 5;
+
+/**
+ * Saves an event, moving on to the next free slug when a concurrent save
+ * took the one generated for it between the check and the write. Use it for
+ * saves that create or rename events; slugs set explicitly aren't changed.
+ */
+export async function saveEventWithUniqueSlug(event: IEvent): Promise<IEvent> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await event.save();
+    } catch (error) {
+      const { code, keyPattern } = error as { code?: number; keyPattern?: Record<string, unknown> };
+      const lostSlug = code === 11000 && !!keyPattern && 'slug' in keyPattern && event.slug === event.$locals.generatedSlug;
+
+      if (!lostSlug || attempt >= SLUG_SAVE_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * Picks the slug for an event titled to give `base`: the base itself, or the
+ * first free numbered variant. Other events' current and former slugs are
+ * both taken, so old links never point at the wrong event.
+ * @param excludeId - The event being renamed, whose own slugs don't count
+ */
+export async function findAvailableEventSlug(base: string, excludeId?: unknown): Promise<string> {
+  const pattern = new RegExp(`^${base}(-\\d+)?$`);
+  const others = await Event.find({
+    ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+    $or: [{ slug: pattern }, { slugHistory: pattern }],
+  })
+    .select('slug slugHistory')
+    .lean<Pick<IEvent, 'slug' | 'slugHistory'>[]>();
+
+  return nextAvailableSlug(base, others.flatMap((other) => [other.slug, ...(other.slugHistory ?? [])]));
+}
+
+// Helper function to normalize date to ISO format; also used to check imported events (see lib/event-import)
+export function normalizeDate(dateString: string): string {
+  // ISO input already names the calendar day; reading it literally avoids
+  // shifting the day by the server's UTC offset
+  const isoMatch = dateString.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:$|T)/);
+
+  if (isoMatch) {
+    const [, year, month, day] = isoMatch.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      throw new Error('Invalid date format');
+    }
+    return `${isoMatch[1]}-${isoMatch[2]}-${isoMatch[3]}`;
+  }
+
+  // Other formats (e.g. "December 31, 2024") are parsed as local time
   const date = new Date(dateString);
   if (isNaN(date.getTime())) {
     throw new Error('Invalid date format');
   }
-  return date.toISOString().split('T')[0]; // Return YYYY-MM-DD format
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`; // Return YYYY-MM-DD format
 }
 
 // Helper function to normalize time format
-function normalizeTime(timeString: string): string {
+export function normalizeTime(timeString: string): string {
   // Handle various time formats and convert to HH:MM (24-hour format)
   const timeRegex = /^(\d{1,2}):(\d{2})(\s*(AM|PM))?$/i;
   const match = timeString.trim().match(timeRegex);
@@ -181,9 +727,38 @@ function normalizeTime(timeString: string): string {
 // Create unique index on slug for better performance
 EventSchema.index({ slug: 1 }, { unique: true });
 
+// Create index for redirecting old slugs of renamed events
+EventSchema.index({ slugHistory: 1 });
+
 // Create compound index for common queries
 EventSchema.index({ date: 1, mode: 1 });
 
+// Create index for chronological listings
+EventSchema.index({ startsAt: 1 });
+
+// Create compound index for listings of published events by date
+EventSchema.index({ status: 1, startsAt: 1 });
+
+// Create index for an organizer's own events
+EventSchema.index({ organizer: 1, startsAt: -1 });
+
+// Create index for finding events at nearby venues
+EventSchema.index({ venueId: 1 });
+
+// Create index for listing events on organizer profile pages
+EventSchema.index({ organizerProfile: 1, startsAt: 1 });
+
+// Create indexes for finding a speaker's events and talks
+EventSchema.index({ speakers: 1 });
+EventSchema.index({ 'agenda.speakers': 1 });
+EventSchema.index({ 'sessions.speakers': 1 });
+
+// Create weighted text index for full-text search
+EventSchema.index(
+  { title: 'text', tags: 'text', overview: 'text', description: 'text' },
+  { name: 'event_text_search', weights: { title: 10, tags: 5, overview: 2, description: 1 } }
+);
+
 const Event = models.Event || model<IEvent>('Event', EventSchema);
 
 export default Event;
\ No newline at end of file
@@ -1,8 +1,21 @@
 // Database models exports
 export { default as Event } from './event.model';
 export { default as Booking } from './booking.model';
+export { default as User } from './user.model';
+export { default as Session } from './session.model';
+export { default as Organizer } from './organizer.model';
+export { default as Venue } from './venue.model';
+export { default as Speaker } from './speaker.model';
+export { default as PromoCode } from './promo-code.model';
+export { default as Job } from './job.model';
 
 // TypeScript interfaces exports
-export type { IEvent } from './event.model';
-export type { IBooking } from './booking.model';
-
+export type { IEvent, IEventSession, IAgendaItem, ITicketTier } from './event.model';
+export type { IBooking, BookingStatus } from './booking.model';
+export type { IUser, UserRole } from './user.model';
+export type { ISession } from './session.model';
+export type { IOrganizer, SocialLink } from './organizer.model';
+export type { IVenue, GeoPoint } from './venue.model';
+export type { ISpeaker } from './speaker.model';
+export type { IPromoCode, IPromoRedemption } from './promo-code.model';
+export type { IJob, JobStatus } from './job.model';
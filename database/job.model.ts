@@ -0,0 +1,97 @@
+import { Schema, model, models, Document } from 'mongoose';
+
+export const JOB_STATUSES = ['queued', 'running', 'completed', 'failed'] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+// TypeScript interface for Job document
+export interface IJob extends Document {
+  name: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  // When the job becomes due; pushed back after each failed attempt
+  runAt: Date;
+  attempts: number;
+  maxAttempts: number;
+  // Jobs enqueued twice with the same key only run once
+  idempotencyKey?: string;
+  lastError?: string;
+  // Set while a worker runs the job, so stalled jobs can be picked up again
+  lockedAt?: Date;
+  lockedBy?: string;
+  completedAt?: Date;
+  failedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobSchema = new Schema<IJob>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Job name is required'],
+      trim: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    status: {
+      type: String,
+      enum: {
+        values: JOB_STATUSES,
+        message: '{VALUE} is not a job status',
+      },
+      default: 'queued',
+    },
+    runAt: {
+      type: Date,
+      default: () => new Date(),
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      default: 5,
+      min: [1, 'Jobs need at least one attempt'],
+    },
+    idempotencyKey: {
+      type: String,
+      trim: true,
+    },
+    lastError: {
+      type: String,
+    },
+    lockedAt: {
+      type: Date,
+    },
+    lockedBy: {
+      type: String,
+    },
+    completedAt: {
+      type: Date,
+    },
+    failedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true, // Auto-generate createdAt and updatedAt
+    minimize: false, // Keep empty payloads
+  }
+);
+
+// Create index for workers picking the next due job
+JobSchema.index({ status: 1, runAt: 1 });
+
+// Create unique index on idempotencyKey; jobs without one don't collide
+JobSchema.index({ idempotencyKey: 1 }, { unique: true, sparse: true });
+
+// Completed jobs are only kept for a week
+JobSchema.index({ completedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+const Job = models.Job || model<IJob>('Job', JobSchema);
+
+export default Job;
@@ -1,11 +1,25 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
 import { connect, connection, Types } from 'mongoose';
 import Booking, { IBooking } from './booking.model';
-import Event, { IEvent } from './event.model';
+import Event, { IEvent, saveEventWithUniqueSlug } from './event.model';
+import User from './user.model';
+import Organizer from './organizer.model';
+import Venue from './venue.model';
+import Speaker from './speaker.model';
+import PromoCode from './promo-code.model';
+import Job from './job.model';
+import { importEvents } from '../lib/event-import';
+import { findOrCreateSpeaker } from '../lib/speakers';
+import { findMergeableBookings, redeemPromoCode, releasePromoCode } from '../lib/bookings';
+import { enqueueJob, getRetryDelay, JOB_LOCK_TIMEOUT_MS, recoverStalledJobs } from '../lib/jobs';
+import { claimNextJob, failJob } from '../lib/jobs/queue';
 
 // MongoDB Memory Server setup (optional - can use real test DB)
 let mongoUri: string;
 
+// Account that owns the test events
+const organizerId = new Types.ObjectId();
+
 beforeAll(async () => {
   // Connect to test database
   // Replace with your test MongoDB URI
@@ -23,6 +37,12 @@ beforeEach(async () => {
   // Clear collections before each test
   await Booking.deleteMany({});
   await Event.deleteMany({});
+  await User.deleteMany({});
+  await Organizer.deleteMany({});
+  await Venue.deleteMany({});
+  await Speaker.deleteMany({});
+  await PromoCode.deleteMany({});
+  await Job.deleteMany({});
 });
 
 describe('Booking Model Tests', () => {
@@ -43,7 +63,7 @@ describe('Booking Model Tests', () => {
         mode: 'online',
         audience: 'Everyone',
         agenda: ['Item 1'],
-        organizer: 'Test Organizer',
+        organizer: organizerId,
         tags: ['test'],
       });
     });
@@ -108,6 +128,138 @@ describe('Booking Model Tests', () => {
     });
   });
 
+  describe('Status', () => {
+    let testEvent: IEvent;
+
+    beforeEach(async () => {
+      testEvent = await Event.create({
+        title: 'Status Event',
+        description: 'Test Description',
+        overview: 'Test Overview',
+        image: 'https://example.com/image.jpg',
+        venue: 'Test Venue',
+        location: 'Test Location',
+        date: '2024-12-31',
+        time: '14:00',
+        mode: 'online',
+        audience: 'Everyone',
+        agenda: ['Item 1'],
+        organizer: organizerId,
+        tags: ['test'],
+      });
+    });
+
+    it('should default status to confirmed', async () => {
+      const booking = await Booking.create({
+        eventId: testEvent._id,
+        email: 'test@example.com',
+      });
+
+      expect(booking.status).toBe('confirmed');
+    });
+
+    it('should accept waitlisted status', async () => {
+      const booking = await Booking.create({
+        eventId: testEvent._id,
+        email: 'test@example.com',
+        status: 'waitlisted',
+      });
+
+      expect(booking.status).toBe('waitlisted');
+    });
+
+    it('should reject unknown status values', async () => {
+      const booking = new Booking({
+        eventId: testEvent._id,
+        email: 'test@example.com',
+        status: 'cancelled',
+      });
+
+      await expect(booking.save()).rejects.toThrow(/confirmed, waitlisted, pending, paid or refunded/);
+    });
+
+    it('should require pending bookings to expire', async () => {
+      const booking = new Booking({
+        eventId: testEvent._id,
+        email: 'test@example.com',
+        status: 'pending',
+      });
+
+      await expect(booking.save()).rejects.toThrow('Pending bookings must expire');
+
+      booking.expiresAt = new Date(Date.now() + 30 * 60 * 1000);
+      await expect(booking.save()).resolves.toBeDefined();
+    });
+
+    it('should upper-case ticket codes and keep them unique', async () => {
+      const booking = await Booking.create({
+        eventId: testEvent._id,
+        email: 'first@example.com',
+        ticketCode: '7k3m9qxa-p2d4hw8n',
+      });
+
+      expect(booking.ticketCode).toBe('7K3M9QXA-P2D4HW8N');
+
+      await expect(
+        Booking.create({ eventId: testEvent._id, email: 'second@example.com', ticketCode: '7K3M9QXA-P2D4HW8N' })
+      ).rejects.toThrow();
+    });
+
+    it('should keep refunded bookings without blocking a new booking', async () => {
+      await Booking.init();
+      const refunded = await Booking.create({ eventId: testEvent._id, email: 'test@example.com', status: 'refunded' });
+
+      const rebooked = await Booking.create({ eventId: testEvent._id, email: 'test@example.com' });
+
+      expect(await Booking.exists({ _id: refunded._id })).toBeTruthy();
+      expect(rebooked.status).toBe('confirmed');
+      await expect(
+        Booking.create({ eventId: testEvent._id, email: 'test@example.com', status: 'waitlisted' })
+      ).rejects.toThrow(/duplicate key/);
+    });
+  });
+
+  describe('Merging Duplicates', () => {
+    let keep: IBooking;
+    let duplicate: IBooking;
+
+    beforeEach(async () => {
+      const testEvent = await Event.create({
+        title: 'Merge Event',
+        description: 'Test Description',
+        overview: 'Test Overview',
+        image: 'https://example.com/image.jpg',
+        venue: 'Test Venue',
+        location: 'Test Location',
+        date: '2024-12-31',
+        time: '14:00',
+        mode: 'online',
+        audience: 'Everyone',
+        agenda: ['Item 1'],
+        organizer: organizerId,
+        tags: ['test'],
+      });
+
+      keep = await Booking.create({ eventId: testEvent._id, email: 'jane.doe@gmail.com' });
+      duplicate = await Booking.create({ eventId: testEvent._id, email: 'janedoe+events@gmail.com' });
+    });
+
+    it('should refuse to cancel the booking it keeps', async () => {
+      const keepId = String(keep._id);
+
+      expect(await findMergeableBookings(keepId, [keepId])).toBeNull();
+      expect(await findMergeableBookings(keepId, [String(duplicate._id), keepId])).toBeNull();
+    });
+
+    it('should count a repeated duplicate once', async () => {
+      const duplicateId = String(duplicate._id);
+      const merge = await findMergeableBookings(String(keep._id), [duplicateId, duplicateId]);
+
+      expect(merge).not.toBeNull();
+      expect(merge!.duplicates.map((booking) => String(booking._id))).toEqual([duplicateId]);
+    });
+  });
+
   describe('Event ID Validation', () => {
     it('should prevent saving with non-existent eventId', async () => {
       const nonExistentId = new Types.ObjectId();
@@ -133,7 +285,7 @@ describe('Booking Model Tests', () => {
         mode: 'online',
         audience: 'Everyone',
         agenda: ['Item 1'],
-        organizer: 'Test Organizer',
+        organizer: organizerId,
         tags: ['test'],
       });
 
@@ -182,7 +334,7 @@ describe('Event Model Tests', () => {
           mode: 'online',
           audience: 'Everyone',
           agenda: ['Item 1'],
-          organizer: 'Test Organizer',
+          organizer: organizerId,
           tags: ['test'],
         });
 
@@ -203,7 +355,7 @@ describe('Event Model Tests', () => {
         mode: 'online',
         audience: 'Everyone',
         agenda: ['Item 1'],
-        organizer: 'Test Organizer',
+        organizer: organizerId,
         tags: ['test'],
       });
 
@@ -213,6 +365,192 @@ describe('Event Model Tests', () => {
       await event.save();
 
       expect(event.slug).toBe('updated-title');
+      expect(event.slugHistory).toEqual(['original-title']);
+    });
+
+    describe('Collisions and history', () => {
+      const slugEvent = {
+        description: 'Test Description',
+        overview: 'Test Overview',
+        image: 'https://example.com/image.jpg',
+        venue: 'Test Venue',
+        location: 'Test Location',
+        date: '2024-12-31',
+        time: '14:00',
+        mode: 'online',
+        audience: 'Everyone',
+        agenda: ['Item 1'],
+        organizer: organizerId,
+        tags: ['test'],
+      };
+
+      it('should transliterate accented titles', async () => {
+        const event = await Event.create({ ...slugEvent, title: 'Café Conf' });
+
+        expect(event.slug).toBe('cafe-conf');
+      });
+
+      it('should number colliding slugs', async () => {
+        const first = await Event.create({ ...slugEvent, title: 'Café Conf' });
+        const second = await Event.create({ ...slugEvent, title: 'Cafe Conf' });
+        const third = await Event.create({ ...slugEvent, title: 'CAFÉ conf!' });
+
+        expect([first.slug, second.slug, third.slug]).toEqual(['cafe-conf', 'cafe-conf-2', 'cafe-conf-3']);
+      });
+
+      it('should fall back to a generic slug when nothing transliterates', async () => {
+        const event = await Event.create({ ...slugEvent, title: '東京' });
+
+        expect(event.slug).toBe('event');
+      });
+
+      it('should keep the slug when a title edit does not change it', async () => {
+        await Event.create({ ...slugEvent, title: 'Cafe Conf' });
+        const event = await Event.create({ ...slugEvent, title: 'Cafe Conf' });
+
+        event.title = 'Café Conf';
+        await event.save();
+
+        expect(event.slug).toBe('cafe-conf-2');
+        expect(event.slugHistory).toEqual([]);
+      });
+
+      it("should not reuse another event's old slug", async () => {
+        const renamed = await Event.create({ ...slugEvent, title: 'Cafe Conf' });
+        renamed.title = 'Bistro Conf';
+        await renamed.save();
+
+        const event = await Event.create({ ...slugEvent, title: 'Cafe Conf' });
+
+        expect(event.slug).toBe('cafe-conf-2');
+      });
+
+      it('should move on to the next suffix when concurrent saves pick the same slug', async () => {
+        await Event.init();
+
+        const events = await Promise.all(
+          [1, 2, 3].map(() => saveEventWithUniqueSlug(new Event({ ...slugEvent, title: 'Cafe Conf' })))
+        );
+
+        expect(events.map((event) => event.slug).sort()).toEqual(['cafe-conf', 'cafe-conf-2', 'cafe-conf-3']);
+      });
+
+      it('should keep an explicitly set slug on new events unless it is taken', async () => {
+        const event = await Event.create({ ...slugEvent, title: 'Cafe Conf', slug: 'cafe-q3' });
+        expect(event.slug).toBe('cafe-q3');
+
+        await expect(Event.create({ ...slugEvent, title: 'Other', slug: 'cafe-q3' })).rejects.toThrow('already taken');
+      });
+
+      it('should take an old slug back out of the history when renamed back', async () => {
+        const event = await Event.create({ ...slugEvent, title: 'Cafe Conf' });
+
+        event.title = 'Bistro Conf';
+        await event.save();
+        event.title = 'Cafe Conf';
+        await event.save();
+
+        expect(event.slug).toBe('cafe-conf');
+        expect(event.slugHistory).toEqual(['bistro-conf']);
+      });
+    });
+  });
+
+  describe('Import', () => {
+    const importRow = {
+      description: 'Test Description',
+      overview: 'Test Overview',
+      image: 'https://example.com/image.jpg',
+      venue: 'Test Venue',
+      location: 'Test Location',
+      date: 'November 7, 2025',
+      time: '09:00 AM',
+      mode: 'offline',
+      audience: 'Everyone',
+      agenda: ['09:00 Keynote', '10:00 Workshops'],
+      tags: ['react'],
+    };
+    const rows = [
+      { ...importRow, slug: 'react-summit-us', title: 'React Summit US 2025' },
+      { ...importRow, title: 'Café Conf' },
+    ];
+
+    it('should create events under the row slug, or the one the title gives', async () => {
+      const report = await importEvents(rows, { organizer: organizerId });
+
+      expect(report).toMatchObject({ created: 2, updated: 0, skipped: 0 });
+      expect(report.rows.map((row) => row.slug)).toEqual(['react-summit-us', 'cafe-conf']);
+      expect(await Event.exists({ slug: 'react-summit-us', date: '2025-11-07', time: '09:00' })).toBeTruthy();
+    });
+
+    it('should report the slugs a dry run would save without saving', async () => {
+      const report = await importEvents(rows, { organizer: organizerId, dryRun: true });
+
+      expect(report.rows.map((row) => [row.slug, row.action])).toEqual([
+        ['react-summit-us', 'create'],
+        ['cafe-conf', 'create'],
+      ]);
+      expect(await Event.countDocuments()).toBe(0);
+    });
+
+    it('should only update or skip when the same file is imported again', async () => {
+      await importEvents(rows, { organizer: organizerId });
+
+      const unchanged = await importEvents(rows, { organizer: organizerId });
+      expect(unchanged).toMatchObject({ created: 0, updated: 0, skipped: 2 });
+
+      const edited = await importEvents(
+        [{ ...rows[0], capacity: 300 }, rows[1]],
+        { organizer: organizerId }
+      );
+      expect(edited).toMatchObject({ created: 0, updated: 1, skipped: 1 });
+      expect(await Event.countDocuments()).toBe(2);
+    });
+
+    it('should report invalid rows without saving them', async () => {
+      const report = await importEvents(
+        [{ ...importRow, title: 'Bad Time', time: '25:00' }, { title: 'No Details' }],
+        { organizer: organizerId }
+      );
+
+      expect(report).toMatchObject({ created: 0, skipped: 2 });
+      expect(report.rows[0].errors.time).toBe('Invalid time values');
+      expect(report.rows[1].errors.description).toBe('Description is required');
+      expect(await Event.countDocuments()).toBe(0);
+    });
+  });
+
+  describe('Capacity', () => {
+    const baseEvent = {
+      title: 'Capacity Event',
+      description: 'Test Description',
+      overview: 'Test Overview',
+      image: 'https://example.com/image.jpg',
+      venue: 'Test Venue',
+      location: 'Test Location',
+      date: '2024-12-31',
+      time: '14:00',
+      mode: 'online',
+      audience: 'Everyone',
+      agenda: ['Item 1'],
+      organizer: organizerId,
+      tags: ['test'],
+    };
+
+    it('should be optional and start with no seats taken', async () => {
+      const event = await Event.create(baseEvent);
+
+      expect(event.capacity).toBeUndefined();
+      expect(event.seatsTaken).toBe(0);
+      expect(event.waitlistEnabled).toBe(true);
+    });
+
+    it('should reject non-positive or fractional capacities', async () => {
+      for (const capacity of [0, -5, 2.5]) {
+        const event = new Event({ ...baseEvent, capacity });
+
+        await expect(event.save()).rejects.toThrow();
+      }
     });
   });
 
@@ -238,7 +576,7 @@ describe('Event Model Tests', () => {
           mode: 'online',
           audience: 'Everyone',
           agenda: ['Item 1'],
-          organizer: 'Test Organizer',
+          organizer: organizerId,
           tags: ['test'],
         });
 
@@ -259,12 +597,108 @@ describe('Event Model Tests', () => {
         mode: 'online',
         audience: 'Everyone',
         agenda: ['Item 1'],
-        organizer: 'Test Organizer',
+        organizer: organizerId,
         tags: ['test'],
       });
 
       await expect(event.save()).rejects.toThrow(/Invalid date format/);
     });
+
+    it('should report invalid dates as validation errors', async () => {
+      const event = new Event({
+        title: 'Test Event',
+        description: 'Test Description',
+        overview: 'Test Overview',
+        image: 'https://example.com/image.jpg',
+        venue: 'Test Venue',
+        location: 'Test Location',
+        date: 'invalid-date',
+        time: '14:00',
+        mode: 'online',
+        audience: 'Everyone',
+        agenda: ['Item 1'],
+        organizer: organizerId,
+        tags: ['test'],
+      });
+
+      await expect(event.save()).rejects.toMatchObject({ name: 'ValidationError' });
+    });
+  });
+
+  describe('Start and End Instants', () => {
+    const baseEvent = {
+      title: 'Zoned Event',
+      description: 'Test Description',
+      overview: 'Test Overview',
+      image: 'https://example.com/image.jpg',
+      venue: 'Test Venue',
+      location: 'Test Location',
+      mode: 'online',
+      audience: 'Everyone',
+      agenda: ['Item 1'],
+      organizer: organizerId,
+      tags: ['test'],
+    };
+
+    it('should resolve date and time in the event timezone to startsAt', async () => {
+      const event = await Event.create({
+        ...baseEvent,
+        date: '2025-11-07',
+        time: '09:00 AM',
+        timezone: 'America/Los_Angeles',
+      });
+
+      expect(event.startsAt.toISOString()).toBe('2025-11-07T17:00:00.000Z');
+    });
+
+    it('should default timezone to UTC', async () => {
+      const event = await Event.create({ ...baseEvent, date: '2024-12-31', time: '14:00' });
+
+      expect(event.timezone).toBe('UTC');
+      expect(event.startsAt.toISOString()).toBe('2024-12-31T14:00:00.000Z');
+    });
+
+    it('should derive date and time from an explicit startsAt', async () => {
+      const event = await Event.create({
+        ...baseEvent,
+        startsAt: new Date('2026-03-18T09:00:00.000Z'),
+        timezone: 'Europe/Vienna',
+      });
+
+      expect(event.date).toBe('2026-03-18');
+      expect(event.time).toBe('10:00');
+    });
+
+    it('should keep the duration when the event is rescheduled', async () => {
+      const event = await Event.create({
+        ...baseEvent,
+        date: '2024-12-31',
+        time: '14:00',
+        endsAt: new Date('2024-12-31T16:00:00.000Z'),
+      });
+
+      event.time = '15:00';
+      await event.save();
+
+      expect(event.endsAt?.toISOString()).toBe('2024-12-31T17:00:00.000Z');
+    });
+
+    it('should reject an end time before the start time', async () => {
+      const event = new Event({
+        ...baseEvent,
+        date: '2024-12-31',
+        time: '14:00',
+        endsAt: new Date('2024-12-31T13:00:00.000Z'),
+      });
+
+      await expect(event.save()).rejects.toThrow(/End time must be after start time/);
+    });
+
+    it('should reject unknown timezones', async () => {
+      const event = new Event({ ...baseEvent, date: '2024-12-31', time: '14:00', timezone: 'Mars/Olympus' });
+
+      await expect(event.save()).rejects.toThrow(/not a valid IANA timezone/);
+    });
   });
 
   describe('Time Normalization', () => {
@@ -293,7 +727,7 @@ describe('Event Model Tests', () => {
           mode: 'online',
           audience: 'Everyone',
           agenda: ['Item 1'],
-          organizer: 'Test Organizer',
+          organizer: organizerId,
           tags: ['test'],
         });
 
@@ -323,7 +757,7 @@ describe('Event Model Tests', () => {
           mode: 'online',
           audience: 'Everyone',
           agenda: ['Item 1'],
-          organizer: 'Test Organizer',
+          organizer: organizerId,
           tags: ['test'],
         });
 
@@ -332,3 +766,717 @@ describe('Event Model Tests', () => {
     });
   });
 });
+
+describe('Structured Agenda', () => {
+  const baseEvent = {
+    title: 'Agenda Event',
+    description: 'Test Description',
+    overview: 'Test Overview',
+    image: 'https://example.com/image.jpg',
+    venue: 'Test Venue',
+    location: 'Test Location',
+    date: '2024-12-31',
+    time: '09:00',
+    mode: 'online',
+    audience: 'Everyone',
+    organizer: organizerId,
+    tags: ['test'],
+  };
+
+  it('should parse plain text agenda lines into items', async () => {
+    const event = await Event.create({ ...baseEvent, agenda: ['09:00-10:00 Keynote – Jane Doe', 'Networking'] });
+
+    // Names can't become speaker references here, so they stay in the title
+    expect(event.agenda[0]).toMatchObject({ day: 1, startTime: '09:00', endTime: '10:00', title: 'Keynote – Jane Doe' });
+    expect(event.agenda[0].speakers).toHaveLength(0);
+    expect(event.agenda[1]).toMatchObject({ day: 1, title: 'Networking', speakers: [] });
+    expect(event.agenda[1].startTime).toBeUndefined();
+  });
+
+  it('should reject overlapping items in the same track', async () => {
+    await expect(
+      Event.create({
+        ...baseEvent,
+        agenda: [
+          { title: 'Keynote', startTime: '09:00', endTime: '10:00' },
+          { title: 'Workshop', startTime: '09:30', endTime: '11:00' },
+        ],
+      })
+    ).rejects.toThrow('"Workshop" overlaps "Keynote" in Main track');
+  });
+
+  it('should allow parallel items in different tracks', async () => {
+    const event = await Event.create({
+      ...baseEvent,
+      agenda: [
+        { title: 'Keynote', startTime: '09:00', endTime: '10:00', track: 'Main' },
+        { title: 'Workshop', startTime: '09:30', endTime: '11:00', track: 'Labs' },
+      ],
+    });
+
+    expect(event.agenda).toHaveLength(2);
+  });
+
+  it('should reject items that end before they start', async () => {
+    await expect(
+      Event.create({ ...baseEvent, agenda: [{ title: 'Keynote', startTime: '10:00', endTime: '09:00' }] })
+    ).rejects.toThrow('Agenda item must start before it ends');
+  });
+});
+
+describe('Ticket Tiers', () => {
+  const baseEvent = {
+    title: 'Ticketed Event',
+    description: 'Test Description',
+    overview: 'Test Overview',
+    image: 'https://example.com/image.jpg',
+    venue: 'Test Venue',
+    location: 'Test Location',
+    date: '2024-12-31',
+    time: '09:00',
+    mode: 'offline',
+    audience: 'Everyone',
+    agenda: ['Item 1'],
+    organizer: organizerId,
+    tags: ['test'],
+  };
+
+  it('should default tiers to none and currency to USD', async () => {
+    const free = await Event.create(baseEvent);
+    expect(free.ticketTiers).toHaveLength(0);
+
+    const event = await Event.create({ ...baseEvent, title: 'Paid Event', ticketTiers: [{ name: 'Regular', price: 2500 }] });
+    expect(event.ticketTiers[0]).toMatchObject({ name: 'Regular', price: 2500, currency: 'USD' });
+  });
+
+  it('should reject fractional prices and unknown currency codes', async () => {
+    await expect(
+      Event.create({ ...baseEvent, ticketTiers: [{ name: 'Regular', price: 25.5 }] })
+    ).rejects.toThrow('Ticket price must be a whole number of cents');
+    await expect(
+      Event.create({ ...baseEvent, ticketTiers: [{ name: 'Regular', price: 2500, currency: 'EURO' }] })
+    ).rejects.toThrow('EURO is not an ISO 4217 currency code');
+  });
+
+  it('should reject sale windows that end before they start', async () => {
+    await expect(
+      Event.create({
+        ...baseEvent,
+        ticketTiers: [{
+          name: 'Early bird',
+          price: 1500,
+          salesStart: new Date('2024-11-01T00:00:00Z'),
+          salesEnd: new Date('2024-10-01T00:00:00Z'),
+        }],
+      })
+    ).rejects.toThrow('Ticket sales must end after they start');
+  });
+});
+
+describe('Event Status', () => {
+  const baseEvent = {
+    title: 'Lifecycle Event',
+    description: 'Test Description',
+    overview: 'Test Overview',
+    image: 'https://example.com/image.jpg',
+    venue: 'Test Venue',
+    location: 'Test Location',
+    date: '2024-12-31',
+    time: '09:00',
+    mode: 'offline',
+    audience: 'Everyone',
+    agenda: ['Item 1'],
+    organizer: organizerId,
+    tags: ['test'],
+  };
+
+  it('should start new events as drafts', async () => {
+    const event = await Event.create(baseEvent);
+
+    expect(event.status).toBe('draft');
+    expect(event.statusChangedAt).toBeUndefined();
+  });
+
+  it('should only create drafts or published events', async () => {
+    await expect(Event.create({ ...baseEvent, status: 'cancelled' })).rejects.toThrow('New events must be drafts or published');
+  });
+
+  it('should allow publishing and then cancelling', async () => {
+    const event = await Event.create(baseEvent);
+
+    event.status = 'published';
+    await event.save();
+    expect(event.statusChangedAt).toBeInstanceOf(Date);
+
+    const loaded = (await Event.findById(event._id))!;
+    loaded.status = 'cancelled';
+    await loaded.save();
+
+    expect((await Event.findById(event._id))!.status).toBe('cancelled');
+  });
+
+  it('should reject transitions the lifecycle does not allow', async () => {
+    const event = await Event.create({ ...baseEvent, status: 'published' });
+
+    const loaded = (await Event.findById(event._id))!;
+    loaded.status = 'draft';
+
+    await expect(loaded.save()).rejects.toThrow('Events cannot go from published to draft');
+  });
+});
+
+describe('PromoCode Model Tests', () => {
+  const basePromo = { code: 'spring-25', discountType: 'percent', discountValue: 25, createdBy: organizerId };
+
+  it('should upper-case codes and default to one use per email', async () => {
+    const promo = await PromoCode.create(basePromo);
+
+    expect(promo.code).toBe('SPRING-25');
+    expect(promo.maxPerEmail).toBe(1);
+    expect(promo.redemptions).toBe(0);
+    expect(promo.active).toBe(true);
+  });
+
+  it('should reject duplicate and malformed codes', async () => {
+    await PromoCode.create(basePromo);
+
+    await expect(PromoCode.create({ ...basePromo, code: 'SPRING-25' })).rejects.toThrow();
+    await expect(PromoCode.create({ ...basePromo, code: 'no spaces' })).rejects.toThrow(
+      'Code must be 3 to 32 letters, digits, hyphens or underscores'
+    );
+  });
+
+  it('should limit percent discounts to 100', async () => {
+    await expect(PromoCode.create({ ...basePromo, discountValue: 120 })).rejects.toThrow('Percent discounts cannot exceed 100');
+    await expect(PromoCode.create({ ...basePromo, discountValue: 12.5 })).rejects.toThrow('Discount must be a whole number');
+  });
+
+  it('should require a currency for fixed discounts', async () => {
+    await expect(
+      PromoCode.create({ ...basePromo, discountType: 'fixed', discountValue: 500 })
+    ).rejects.toThrow('Fixed discounts need a currency');
+
+    const promo = await PromoCode.create({ ...basePromo, discountType: 'fixed', discountValue: 500, currency: 'eur' });
+    expect(promo.currency).toBe('EUR');
+  });
+
+  it('should reject validity windows that end before they start', async () => {
+    await expect(
+      PromoCode.create({
+        ...basePromo,
+        validFrom: new Date('2024-11-01T00:00:00Z'),
+        validUntil: new Date('2024-10-01T00:00:00Z'),
+      })
+    ).rejects.toThrow('Codes must stop being valid after they start');
+  });
+});
+
+describe('Promo Code Redemption', () => {
+  const basePromo = { code: 'LAUNCH', discountType: 'percent', discountValue: 50, createdBy: organizerId };
+
+  it('should let exactly one of many parallel redemptions take the last use', async () => {
+    const promo = await PromoCode.create({ ...basePromo, maxRedemptions: 1 });
+    const emails = Array.from({ length: 10 }, (_, i) => `attendee${i}@example.com`);
+
+    const results = await Promise.all(emails.map((email) => redeemPromoCode(promo, email)));
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect((await PromoCode.findById(promo._id))!.redemptions).toBe(1);
+  });
+
+  it('should limit uses per mailbox, counting plus-addresses and Gmail dots as one', async () => {
+    const promo = await PromoCode.create({ ...basePromo, maxPerEmail: 2 });
+
+    const results = await Promise.all(
+      ['jane.doe@gmail.com', 'janedoe+conf@gmail.com', 'JaneDoe@googlemail.com', 'j.a.n.e.doe@gmail.com']
+        .map((email) => redeemPromoCode(promo, email))
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(2);
+
+    const saved = (await PromoCode.findById(promo._id))!;
+    expect(saved.redemptions).toBe(2);
+    expect(saved.redeemedBy).toHaveLength(1);
+    expect(saved.redeemedBy[0]).toMatchObject({ email: 'janedoe@gmail.com', count: 2 });
+
+    // Other mailboxes keep their own allowance
+    expect(await redeemPromoCode(promo, 'someone@example.com')).toBe(true);
+  });
+
+  it('should refuse inactive codes and give back released uses', async () => {
+    const promo = await PromoCode.create({ ...basePromo, maxRedemptions: 1 });
+
+    expect(await redeemPromoCode(promo, 'jane@example.com')).toBe(true);
+    expect(await redeemPromoCode(promo, 'john@example.com')).toBe(false);
+
+    await releasePromoCode(promo._id, 'jane@example.com');
+    expect(await redeemPromoCode(promo, 'john@example.com')).toBe(true);
+
+    await PromoCode.updateOne({ _id: promo._id }, { $set: { active: false, maxRedemptions: null } });
+    expect(await redeemPromoCode(promo, 'someone@example.com')).toBe(false);
+  });
+});
+
+describe('Job Model Tests', () => {
+  it('should queue jobs to run now with five attempts by default', async () => {
+    const before = Date.now();
+    const job = await Job.create({ name: 'send-event-reminders' });
+
+    expect(job.status).toBe('queued');
+    expect(job.attempts).toBe(0);
+    expect(job.maxAttempts).toBe(5);
+    expect(job.payload).toEqual({});
+    expect(job.runAt.getTime()).toBeGreaterThanOrEqual(before);
+  });
+
+  it('should reject unknown statuses', async () => {
+    await expect(Job.create({ name: 'send-email', status: 'paused' })).rejects.toThrow('paused is not a job status');
+  });
+
+  it('should allow one job per idempotency key', async () => {
+    await Job.init();
+    await Job.create({ name: 'send-email', idempotencyKey: 'event-changed:1' });
+
+    await expect(Job.create({ name: 'send-email', idempotencyKey: 'event-changed:1' })).rejects.toThrow();
+
+    // Jobs without a key never collide
+    await Job.create({ name: 'promote-waitlists' });
+    await Job.create({ name: 'promote-waitlists' });
+    expect(await Job.countDocuments({ name: 'promote-waitlists' })).toBe(2);
+  });
+});
+
+describe('Job Queue', () => {
+  const now = new Date('2026-03-10T14:00:00Z');
+  const minutesFromNow = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000);
+
+  it('should claim the job due longest first and skip jobs not due yet', async () => {
+    await enqueueJob('archive-past-events', {}, { runAt: minutesFromNow(-5) });
+    const oldest = await enqueueJob('send-event-reminders', {}, { runAt: minutesFromNow(-10) });
+    await enqueueJob('expire-pending-bookings', {}, { runAt: minutesFromNow(5) });
+
+    const claimed = await claimNextJob('worker-1', now);
+
+    expect(String(claimed!._id)).toBe(String(oldest._id));
+    expect(claimed!.status).toBe('running');
+    expect(claimed!.attempts).toBe(1);
+    expect(claimed!.lockedBy).toBe('worker-1');
+
+    expect((await claimNextJob('worker-1', now))!.name).toBe('archive-past-events');
+    expect(await claimNextJob('worker-1', now)).toBeNull();
+  });
+
+  it('should hand each due job to one worker only', async () => {
+    await enqueueJob('send-event-reminders', {}, { runAt: minutesFromNow(-1) });
+
+    const claims = await Promise.all(['worker-1', 'worker-2', 'worker-3'].map((worker) => claimNextJob(worker, now)));
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('should retry failed attempts after a growing delay, then give up', async () => {
+    await enqueueJob('send-event-reminders', {}, { runAt: now, maxAttempts: 2 });
+
+    const first = (await claimNextJob('worker-1', now))!;
+    expect(await failJob(first, new Error('SMTP timeout'), now)).toBe('queued');
+
+    const retried = (await Job.findById(first._id))!;
+    expect(retried.lastError).toBe('SMTP timeout');
+    expect(retried.runAt).toEqual(new Date(now.getTime() + getRetryDelay(1)));
+    expect(retried.lockedBy).toBeUndefined();
+
+    // Not due again until the delay has passed
+    expect(await claimNextJob('worker-1', now)).toBeNull();
+
+    const second = (await claimNextJob('worker-1', retried.runAt))!;
+    expect(second.attempts).toBe(2);
+    expect(await failJob(second, 'still down', retried.runAt)).toBe('failed');
+
+    const failed = (await Job.findById(first._id))!;
+    expect(failed.status).toBe('failed');
+    expect(failed.lastError).toBe('still down');
+    expect(failed.failedAt).toEqual(retried.runAt);
+  });
+
+  it('should requeue jobs whose worker died, failing those out of attempts', async () => {
+    const lockedAt = new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS - 1000);
+    const stalled = await Job.create({ name: 'send-event-reminders', status: 'running', attempts: 1, lockedAt, lockedBy: 'gone' });
+    const exhausted = await Job.create({
+      name: 'archive-past-events', status: 'running', attempts: 5, maxAttempts: 5, lockedAt, lockedBy: 'gone',
+    });
+    const busy = await Job.create({ name: 'expire-pending-bookings', status: 'running', attempts: 1, lockedAt: now, lockedBy: 'alive' });
+
+    expect(await recoverStalledJobs(now)).toBe(2);
+
+    const [requeued, failed, running] = await Promise.all([stalled, exhausted, busy].map((job) => Job.findById(job._id)));
+
+    expect(requeued!.status).toBe('queued');
+    expect(requeued!.runAt).toEqual(now);
+    expect(requeued!.lockedBy).toBeUndefined();
+    expect(failed!.status).toBe('failed');
+    expect(failed!.lastError).toBe('The worker stopped while running this job');
+    expect(running!.status).toBe('running');
+  });
+
+  it('should return the existing job when enqueueing the same idempotency key again', async () => {
+    await Job.init();
+
+    const jobs = await Promise.all(
+      [1, 2, 3].map(() => enqueueJob('send-event-reminders', {}, { idempotencyKey: 'send-event-reminders:14:00' }))
+    );
+
+    expect(new Set(jobs.map((job) => String(job._id))).size).toBe(1);
+    expect(await Job.countDocuments({ idempotencyKey: 'send-event-reminders:14:00' })).toBe(1);
+  });
+});
+
+describe('User Model Tests', () => {
+  it('should default new accounts to the attendee role', async () => {
+    const user = await User.create({ email: 'someone@example.com' });
+
+    expect(user.role).toBe('attendee');
+  });
+
+  it('should store emails lowercased and trimmed', async () => {
+    const user = await User.create({ email: '  Someone@Example.COM ' });
+
+    expect(user.email).toBe('someone@example.com');
+  });
+
+  it('should reject unknown roles', async () => {
+    await expect(User.create({ email: 'someone@example.com', role: 'superuser' })).rejects.toThrow(
+      'Role must be one of: attendee, organizer, admin'
+    );
+  });
+
+  it('should enforce one account per email', async () => {
+    await User.init();
+    await User.create({ email: 'someone@example.com' });
+
+    await expect(User.create({ email: 'SOMEONE@example.com' })).rejects.toThrow();
+  });
+});
+
+describe('Event Organizer', () => {
+  it('should require an organizer account', async () => {
+    const event = new Event({
+      title: 'Test Event',
+      description: 'Test Description',
+      overview: 'Test Overview',
+      image: 'https://example.com/image.jpg',
+      venue: 'Test Venue',
+      location: 'Test Location',
+      date: '2024-12-31',
+      time: '10:00',
+      mode: 'online',
+      audience: 'Everyone',
+      agenda: ['Item 1'],
+      tags: ['test'],
+    });
+
+    await expect(event.save()).rejects.toThrow('Organizer is required');
+  });
+
+  it('should reject an organizer that is not an account id', async () => {
+    const event = new Event({
+      title: 'Test Event',
+      description: 'Test Description',
+      overview: 'Test Overview',
+      image: 'https://example.com/image.jpg',
+      venue: 'Test Venue',
+      location: 'Test Location',
+      date: '2024-12-31',
+      time: '10:00',
+      mode: 'online',
+      audience: 'Everyone',
+      agenda: ['Item 1'],
+      organizer: 'Test Organizer',
+      tags: ['test'],
+    });
+
+    await expect(event.save()).rejects.toThrow();
+  });
+});
+
+describe('Organizer Model Tests', () => {
+  it('should derive the slug from the name before validation', async () => {
+    const organizer = new Organizer({ name: '  Acme Dev, Inc.  ' });
+    await organizer.validate();
+
+    expect(organizer.slug).toBe('acme-dev-inc');
+  });
+
+  it('should regenerate the slug when the name changes', async () => {
+    const organizer = await Organizer.create({ name: 'Old Name' });
+    organizer.name = 'New Name';
+    await organizer.save();
+
+    expect(organizer.slug).toBe('new-name');
+  });
+
+  it('should give organizers with the same or no transliterable slug distinct slugs', async () => {
+    const acme = await Organizer.create({ name: 'Acme' });
+    const acmeAgain = await Organizer.create({ name: 'ACME!' });
+    const first = await Organizer.create({ name: '東京' });
+    const second = await Organizer.create({ name: '大阪' });
+
+    expect([acme.slug, acmeAgain.slug]).toEqual(['acme', 'acme-2']);
+    expect([first.slug, second.slug]).toEqual(['organizer', 'organizer-2']);
+  });
+
+  it('should reject logos that are neither http(s) URLs nor site paths', async () => {
+    await expect(Organizer.create({ name: 'Acme', logo: 'javascript:alert(1)' })).rejects.toThrow(
+      'Logo must be an http(s) URL or a site path'
+    );
+  });
+
+  it('should reject websites and social links that are not http(s) URLs', async () => {
+    await expect(Organizer.create({ name: 'Acme', website: 'javascript:alert(1)' })).rejects.toThrow(
+      'Website must be an http(s) URL'
+    );
+    await expect(
+      Organizer.create({ name: 'Acme', socials: [{ label: 'GitHub', url: 'not a url' }] })
+    ).rejects.toThrow('Social links must be http(s) URLs');
+  });
+
+  it('should default to no social links', async () => {
+    const organizer = await Organizer.create({ name: 'Acme' });
+
+    expect(organizer.socials).toHaveLength(0);
+  });
+});
+
+describe('Speaker Model Tests', () => {
+  it('should derive the slug from the name before validation', async () => {
+    const speaker = new Speaker({ name: '  Jane O. Doe ' });
+    await speaker.validate();
+
+    expect(speaker.slug).toBe('jane-o-doe');
+  });
+
+  it('should transliterate names and fall back for names with nothing to transliterate', async () => {
+    const zoe = await Speaker.create({ name: 'Zoë Ångström' });
+    const first = await Speaker.create({ name: '李雷' });
+    const second = await Speaker.create({ name: '韩梅梅' });
+
+    expect(zoe.slug).toBe('zoe-angstrom');
+    expect(first.slug).toBe('speaker');
+    expect(second.slug).toBe('speaker-2');
+  });
+
+  it('should number the slugs of different people with the same slug', async () => {
+    const first = await Speaker.create({ name: 'Jane Doe' });
+    const second = await Speaker.create({ name: 'Jane Doe!' });
+
+    expect(first.slug).toBe('jane-doe');
+    expect(second.slug).toBe('jane-doe-2');
+
+    // Saving again keeps the suffix
+    second.bio = 'Another Jane';
+    await second.save();
+    expect(second.slug).toBe('jane-doe-2');
+  });
+
+  it('should find speakers by name, not by slug', async () => {
+    const jane = await findOrCreateSpeaker('Jane Doe');
+
+    expect(String((await findOrCreateSpeaker('  jane   doe '))._id)).toBe(String(jane._id));
+    expect(String((await findOrCreateSpeaker('Jane Doe!'))._id)).not.toBe(String(jane._id));
+    expect(String((await findOrCreateSpeaker('李雷'))._id)).not.toBe(String((await findOrCreateSpeaker('韩梅梅'))._id));
+    expect(await Speaker.countDocuments()).toBe(4);
+  });
+
+  it('should create one profile when the same new speaker is named concurrently', async () => {
+    await Speaker.init();
+
+    const speakers = await Promise.all(['Jane Doe', 'jane doe', 'JANE  DOE', 'Jane Doe'].map(findOrCreateSpeaker));
+
+    expect(new Set(speakers.map((speaker) => String(speaker._id))).size).toBe(1);
+    expect(await Speaker.countDocuments()).toBe(1);
+    await expect(Speaker.create({ name: 'jane DOE' })).rejects.toThrow(/duplicate key/);
+  });
+
+  it('should accept http(s) and site path photos only', async () => {
+    await expect(Speaker.create({ name: 'Jane Doe', photo: 'javascript:alert(1)' })).rejects.toThrow(
+      'Photo must be an http(s) URL or a site path'
+    );
+
+    const speaker = await Speaker.create({ name: 'Jane Doe', photo: '/images/jane.png' });
+    expect(speaker.photo).toBe('/images/jane.png');
+  });
+
+  it('should reject links that are not http(s) URLs', async () => {
+    await expect(
+      Speaker.create({ name: 'Jane Doe', links: [{ label: 'GitHub', url: 'not a url' }] })
+    ).rejects.toThrow('Social links must be http(s) URLs');
+  });
+
+  it('should link events, agenda items and sessions to speakers', async () => {
+    const speaker = await Speaker.create({ name: 'Jane Doe' });
+    const event = await Event.create({
+      title: 'Speaker Event',
+      description: 'Test Description',
+      overview: 'Test Overview',
+      image: 'https://example.com/image.jpg',
+      venue: 'Test Venue',
+      location: 'Test Location',
+      date: '2024-12-31',
+      time: '09:00',
+      mode: 'online',
+      audience: 'Everyone',
+      organizer: organizerId,
+      tags: ['test'],
+      speakers: [speaker._id],
+      agenda: [{ title: 'Keynote', startTime: '09:00', speakers: [speaker._id] }],
+    });
+
+    const found = await Event.find({ 'agenda.speakers': speaker._id });
+
+    expect(found.map((e) => e.slug)).toEqual([event.slug]);
+    expect(event.speakers[0].equals(speaker._id as Types.ObjectId)).toBe(true);
+  });
+});
+
+describe('Venue Model Tests', () => {
+  it('should fill in coordinates from the offline city table', async () => {
+    const venue = await Venue.create({ name: 'Moscone Center', address: '747 Howard St, San Francisco, CA, USA' });
+
+    expect(venue.location.type).toBe('Point');
+    expect(venue.location.coordinates).toEqual([-122.4194, 37.7749]);
+  });
+
+  it('should keep explicitly given coordinates', async () => {
+    const venue = await Venue.create({
+      name: 'Moscone Center',
+      address: '747 Howard St, San Francisco, CA, USA',
+      location: { type: 'Point', coordinates: [-122.4011, 37.7842] },
+    });
+
+    expect(venue.location.coordinates).toEqual([-122.4011, 37.7842]);
+  });
+
+  it('should reject addresses it cannot place without coordinates', async () => {
+    await expect(Venue.create({ name: 'Barn', address: 'Smallville, KS, USA' })).rejects.toThrow(
+      'Could not find coordinates for this address'
+    );
+  });
+
+  it('should reject out-of-range coordinates', async () => {
+    await expect(
+      Venue.create({ name: 'Nowhere', address: 'Somewhere', location: { type: 'Point', coordinates: [200, 95] } })
+    ).rejects.toThrow('Coordinates must be [longitude, latitude] within valid ranges');
+  });
+
+  it('should find venues within a radius', async () => {
+    await Venue.init();
+    await Venue.create({ name: 'SF Venue', address: 'San Francisco, CA, USA' });
+    await Venue.create({ name: 'Paris Venue', address: 'Paris, France' });
+
+    // 100 km around San Jose reaches San Francisco but not Paris
+    const nearby = await Venue.find({
+      location: { $geoWithin: { $centerSphere: [[-121.8863, 37.3382], 100 / 6371] } },
+    });
+
+    expect(nearby.map((venue) => venue.name)).toEqual(['SF Venue']);
+  });
+
+  it('should keep event capacity within the venue capacity', async () => {
+    const venue = await Venue.create({ name: 'Small Room', address: 'Berlin, Germany', capacity: 50 });
+
+    await expect(
+      Event.create({
+        title: 'Crowded Event',
+        description: 'Test Description',
+        overview: 'Test Overview',
+        image: 'https://example.com/image.jpg',
+        venue: 'Small Room',
+        location: 'Berlin, Germany',
+        venueId: venue._id,
+        capacity: 80,
+        date: '2024-12-31',
+        time: '10:00',
+        mode: 'offline',
+        audience: 'Everyone',
+        agenda: ['Item 1'],
+        organizer: organizerId,
+        tags: ['test'],
+      })
+    ).rejects.toThrow("Capacity cannot exceed the venue's 50 seats");
+  });
+});
+
+describe('Recurring and Multi-Session Events', () => {
+  const baseEvent = {
+    title: 'Monthly Meetup',
+    description: 'Test Description',
+    overview: 'Test Overview',
+    image: 'https://example.com/image.jpg',
+    venue: 'Test Venue',
+    location: 'Test Location',
+    date: '2026-01-13',
+    time: '18:00',
+    timezone: 'America/New_York',
+    mode: 'offline',
+    audience: 'Everyone',
+    agenda: ['Item 1'],
+    organizer: organizerId,
+    tags: ['test'],
+  };
+
+  const session = {
+    title: 'Keynote',
+    startsAt: new Date('2026-01-13T23:00:00Z'),
+    endsAt: new Date('2026-01-14T00:00:00Z'),
+    room: 'Hall A',
+  };
+
+  it('should store recurrence rules uppercased', async () => {
+    const event = await Event.create({ ...baseEvent, recurrence: 'freq=monthly;byday=2tu;count=12' });
+
+    expect(event.recurrence).toBe('FREQ=MONTHLY;BYDAY=2TU;COUNT=12');
+  });
+
+  it('should reject unsupported recurrence rules', async () => {
+    await expect(Event.create({ ...baseEvent, recurrence: 'FREQ=YEARLY' })).rejects.toThrow(
+      'Recurrence must be a supported RRULE'
+    );
+  });
+
+  it('should reject sessions that end before they start', async () => {
+    await expect(
+      Event.create({ ...baseEvent, sessions: [{ ...session, endsAt: new Date('2026-01-13T22:00:00Z') }] })
+    ).rejects.toThrow('Session must end after it starts');
+  });
+
+  it('should not let events with sessions repeat', async () => {
+    await expect(
+      Event.create({ ...baseEvent, recurrence: 'FREQ=WEEKLY', sessions: [session] })
+    ).rejects.toThrow('Events with sessions cannot repeat');
+  });
+
+  it('should allow one booking per email for each session', async () => {
+    await Booking.init();
+    const event = await Event.create({ ...baseEvent, sessions: [session, { ...session, title: 'Workshop', room: 'Hall B' }] });
+    const [keynote, workshop] = event.sessions;
+
+    await Booking.create({ eventId: event._id, sessionId: keynote._id, email: 'test@example.com' });
+    await Booking.create({ eventId: event._id, sessionId: workshop._id, email: 'test@example.com' });
+
+    await expect(
+      Booking.create({ eventId: event._id, sessionId: keynote._id, email: 'test@example.com' })
+    ).rejects.toThrow(/duplicate key/);
+  });
+
+  it('should reject bookings for both an occurrence and a session', async () => {
+    const event = await Event.create({ ...baseEvent, sessions: [session] });
+
+    await expect(
+      Booking.create({
+        eventId: event._id,
+        occurrenceStart: session.startsAt,
+        sessionId: event.sessions[0]._id,
+        email: 'test@example.com',
+      })
+    ).rejects.toThrow('A booking cannot target both an occurrence and a session');
+  });
+});
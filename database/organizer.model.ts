@@ -0,0 +1,129 @@
+import { Schema, model, models, Document, Model } from 'mongoose';
+import { findAvailableSlug, isSlugFor, slugify } from '../lib/slugs';
+
+// Slug for names with nothing to transliterate, e.g. ones written only in CJK characters
+const FALLBACK_ORGANIZER_SLUG = 'organizer';
+
+export type SocialLink = {
+  label: string;
+  url: string;
+};
+
+// TypeScript interface for Organizer document
+export interface IOrganizer extends Document {
+  name: string;
+  slug: string;
+  bio?: string;
+  logo?: string;
+  website?: string;
+  socials: SocialLink[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const isHttpUrl = (value: string | null | undefined) => {
+  if (!value) return true;
+
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+export const SocialLinkSchema = new Schema<SocialLink>(
+  {
+    label: {
+      type: String,
+      required: [true, 'Social link label is required'],
+      trim: true,
+      maxlength: [50, 'Social link label cannot exceed 50 characters'],
+    },
+    url: {
+      type: String,
+      required: [true, 'Social link URL is required'],
+      trim: true,
+      validate: {
+        validator: isHttpUrl,
+        message: 'Social links must be http(s) URLs',
+      },
+    },
+  },
+  { _id: false }
+);
+
+const OrganizerSchema = new Schema<IOrganizer>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    slug: {
+      type: String,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    bio: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Bio cannot exceed 1000 characters'],
+    },
+    logo: {
+      type: String,
+      trim: true,
+      validate: {
+        validator: (v: string | null) => !v || v.startsWith('/') || isHttpUrl(v),
+        message: 'Logo must be an http(s) URL or a site path',
+      },
+    },
+    website: {
+      type: String,
+      trim: true,
+      validate: {
+        validator: isHttpUrl,
+        message: 'Website must be an http(s) URL',
+      },
+    },
+    socials: {
+      type: [SocialLinkSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true, // Auto-generate createdAt and updatedAt
+  }
+);
+
+// Give new and renamed organizers a unique slug before validation. Names
+// with nothing to transliterate share the fallback, so clashes get numbered
+// suffixes instead of failing on the unique index
+OrganizerSchema.pre('validate', async function (next) {
+  const organizer = this as IOrganizer;
+
+  // Organizers saved with an empty slug by older versions get one on their next save
+  if (!organizer.isNew && !organizer.isModified('name') && organizer.slug) return next();
+
+  const base = slugify(organizer.name ?? '') || FALLBACK_ORGANIZER_SLUG;
+
+  // Validating again, or a rename that keeps the slug's words, keeps the slug and its suffix
+  if (organizer.slug && isSlugFor(organizer.slug, base)) return next();
+
+  try {
+    organizer.slug = await findAvailableSlug(organizer.constructor as Model<IOrganizer>, base, organizer._id);
+  } catch (error) {
+    return next(error as Error);
+  }
+
+  next();
+});
+
+// Create unique index on slug for better performance
+OrganizerSchema.index({ slug: 1 }, { unique: true });
+
+const Organizer = models.Organizer || model<IOrganizer>('Organizer', OrganizerSchema);
+
+export default Organizer;
@@ -0,0 +1,164 @@
+import { Schema, model, models, Document, Types } from 'mongoose';
+import { isCurrencyCode } from '../lib/tickets';
+import { PROMO_DISCOUNT_TYPES, PromoDiscountType } from '../lib/promo-codes';
+
+// Redemptions of a code by one mailbox
+export interface IPromoRedemption {
+  // Canonical form, so plus-addresses don't get around the per-email limit
+  email: string;
+  count: number;
+}
+
+// TypeScript interface for PromoCode document
+export interface IPromoCode extends Document {
+  code: string;
+  discountType: PromoDiscountType;
+  // Whole percent for percent codes, minor units of `currency` for fixed ones
+  discountValue: number;
+  currency?: string;
+  // Total redemptions allowed; unlimited when missing
+  maxRedemptions?: number;
+  maxPerEmail: number;
+  validFrom?: Date;
+  validUntil?: Date;
+  // Events and ticket tiers the code applies to; empty for all of them
+  eventIds: Types.ObjectId[];
+  tierIds: Types.ObjectId[];
+  active: boolean;
+  createdBy: Types.ObjectId;
+  redemptions: number;
+  redeemedBy: IPromoRedemption[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PromoRedemptionSchema = new Schema<IPromoRedemption>(
+  {
+    email: { type: String, required: true },
+    count: { type: Number, default: 0, min: 0 },
+  },
+  { _id: false }
+);
+
+const PromoCodeSchema = new Schema<IPromoCode>(
+  {
+    code: {
+      type: String,
+      required: [true, 'Code is required'],
+      unique: true,
+      trim: true,
+      uppercase: true,
+      match: [/^[A-Z0-9_-]{3,32}$/, 'Code must be 3 to 32 letters, digits, hyphens or underscores'],
+    },
+    discountType: {
+      type: String,
+      enum: {
+        values: PROMO_DISCOUNT_TYPES,
+        message: 'Discount type must be percent or fixed',
+      },
+      required: [true, 'Discount type is required'],
+    },
+    discountValue: {
+      type: Number,
+      required: [true, 'Discount is required'],
+      min: [1, 'Discount must be at least 1'],
+      validate: [
+        {
+          validator: Number.isInteger,
+          message: 'Discount must be a whole number',
+        },
+        {
+          validator: function (this: IPromoCode, v: number) {
+            return this.discountType !== 'percent' || v <= 100;
+          },
+          message: 'Percent discounts cannot exceed 100',
+        },
+      ],
+    },
+    currency: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      validate: {
+        validator: (v: string | null) => !v || isCurrencyCode(v),
+        message: '{VALUE} is not an ISO 4217 currency code',
+      },
+    },
+    maxRedemptions: {
+      type: Number,
+      min: [1, 'Redemption limit must be at least 1'],
+      validate: {
+        validator: (v: number | null) => v == null || Number.isInteger(v),
+        message: 'Redemption limit must be a whole number',
+      },
+    },
+    maxPerEmail: {
+      type: Number,
+      default: 1,
+      min: [1, 'Per-email limit must be at least 1'],
+      validate: {
+        validator: Number.isInteger,
+        message: 'Per-email limit must be a whole number',
+      },
+    },
+    validFrom: {
+      type: Date,
+    },
+    validUntil: {
+      type: Date,
+      validate: {
+        validator: function (this: IPromoCode, v: Date | null) {
+          return !v || !this.validFrom || v > this.validFrom;
+        },
+        message: 'Codes must stop being valid after they start',
+      },
+    },
+    eventIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Event' }],
+      default: [],
+    },
+    tierIds: {
+      type: [Schema.Types.ObjectId],
+      default: [],
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Creator is required'],
+    },
+    redemptions: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    redeemedBy: {
+      type: [PromoRedemptionSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true, // Auto-generate createdAt and updatedAt
+  }
+);
+
+// Fixed discounts are amounts of money, so they need a currency
+PromoCodeSchema.pre('validate', function (next) {
+  const promo = this as IPromoCode;
+
+  if (promo.discountType === 'fixed' && !promo.currency) {
+    promo.invalidate('currency', 'Fixed discounts need a currency');
+  }
+
+  next();
+});
+
+// Create index for listing the codes that apply to an event
+PromoCodeSchema.index({ eventIds: 1 });
+
+const PromoCode = models.PromoCode || model<IPromoCode>('PromoCode', PromoCodeSchema);
+
+export default PromoCode;
@@ -0,0 +1,43 @@
+import { Schema, model, models, Document, Types } from 'mongoose';
+
+// TypeScript interface for Session document
+export interface ISession extends Document {
+  // SHA-256 of the session cookie value, so a database leak can't be replayed
+  tokenHash: string;
+  userId: Types.ObjectId;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema = new Schema<ISession>(
+  {
+    tokenHash: {
+      type: String,
+      required: [true, 'Token hash is required'],
+      unique: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry is required'],
+    },
+  },
+  {
+    timestamps: true, // Auto-generate createdAt and updatedAt
+  }
+);
+
+// Let MongoDB remove sessions once they expire
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create index on userId for signing a user out everywhere
+SessionSchema.index({ userId: 1 });
+
+const Session = models.Session || model<ISession>('Session', SessionSchema);
+
+export default Session;
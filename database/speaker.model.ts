@@ -0,0 +1,97 @@
+import { Schema, model, models, Document, Model } from 'mongoose';
+import { findAvailableSlug, isSlugFor, slugify } from '../lib/slugs';
+import { isHttpUrl, SocialLink, SocialLinkSchema } from './organizer.model';
+
+// Slug for names with nothing to transliterate, e.g. ones written only in CJK characters
+const FALLBACK_SPEAKER_SLUG = 'speaker';
+
+// Names are compared ignoring case, so "jane doe" is Jane Doe's profile
+export const SPEAKER_NAME_COLLATION = { locale: 'en', strength: 2 };
+
+// TypeScript interface for Speaker document
+export interface ISpeaker extends Document {
+  name: string;
+  slug: string;
+  bio?: string;
+  photo?: string;
+  company?: string;
+  links: SocialLink[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SpeakerSchema = new Schema<ISpeaker>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    slug: {
+      type: String,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    bio: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Bio cannot exceed 1000 characters'],
+    },
+    photo: {
+      type: String,
+      trim: true,
+      validate: {
+        validator: (v: string | null) => !v || v.startsWith('/') || isHttpUrl(v),
+        message: 'Photo must be an http(s) URL or a site path',
+      },
+    },
+    company: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Company cannot exceed 100 characters'],
+    },
+    links: {
+      type: [SocialLinkSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true, // Auto-generate createdAt and updatedAt
+  }
+);
+
+// Give new and renamed speakers a unique slug before validation. Different
+// people can share a slug's letters, e.g. names with nothing to transliterate,
+// so clashes get numbered suffixes rather than merging profiles
+SpeakerSchema.pre('validate', async function (next) {
+  const speaker = this as ISpeaker;
+
+  // Speakers saved with an empty slug by older versions get one on their next save
+  if (!speaker.isNew && !speaker.isModified('name') && speaker.slug) return next();
+
+  const base = slugify(speaker.name ?? '') || FALLBACK_SPEAKER_SLUG;
+
+  // Validating again, or a rename that keeps the slug's words, keeps the slug and its suffix
+  if (speaker.slug && isSlugFor(speaker.slug, base)) return next();
+
+  try {
+    speaker.slug = await findAvailableSlug(speaker.constructor as Model<ISpeaker>, base, speaker._id);
+  } catch (error) {
+    return next(error as Error);
+  }
+
+  next();
+});
+
+// Create unique index on slug for better performance
+SpeakerSchema.index({ slug: 1 }, { unique: true });
+
+// One profile per name, so concurrent imports naming a new speaker share it;
+// also serves the alphabetical directory
+SpeakerSchema.index({ name: 1 }, { unique: true, collation: SPEAKER_NAME_COLLATION });
+
+const Speaker = models.Speaker || model<ISpeaker>('Speaker', SpeakerSchema);
+
+export default Speaker;
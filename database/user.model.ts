@@ -0,0 +1,67 @@
+import { Schema, model, models, Document } from 'mongoose';
+
+export const USER_ROLES = ['attendee', 'organizer', 'admin'] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+// TypeScript interface for User document
+export interface IUser extends Document {
+  email: string;
+  name?: string;
+  role: UserRole;
+  // SHA-256 of the outstanding sign-in link token; cleared once the link is used
+  loginTokenHash?: string;
+  loginTokenExpiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UserSchema = new Schema<IUser>(
+  {
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      unique: true,
+      trim: true,
+      lowercase: true,
+      validate: {
+        validator: function (email: string) {
+          // RFC 5322 compliant email validation regex
+          const emailRegex = /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+          return emailRegex.test(email);
+        },
+        message: 'Please provide a valid email address',
+      },
+    },
+    name: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    role: {
+      type: String,
+      enum: {
+        values: USER_ROLES,
+        message: 'Role must be one of: attendee, organizer, admin',
+      },
+      default: 'attendee',
+    },
+    loginTokenHash: {
+      type: String,
+      select: false,
+    },
+    loginTokenExpiresAt: {
+      type: Date,
+      select: false,
+    },
+  },
+  {
+    timestamps: true, // Auto-generate createdAt and updatedAt
+  }
+);
+
+// Sign-in links are looked up by their token hash
+UserSchema.index({ loginTokenHash: 1 }, { sparse: true });
+
+const User = models.User || model<IUser>('User', UserSchema);
+
+export default User;
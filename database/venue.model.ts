@@ -0,0 +1,93 @@
+import { Schema, model, models, Document } from 'mongoose';
+import { geocode } from '../lib/geocoding';
+
+export type GeoPoint = {
+  type: 'Point';
+  // GeoJSON order: [longitude, latitude]
+  coordinates: [number, number];
+};
+
+// TypeScript interface for Venue document
+export interface IVenue extends Document {
+  name: string;
+  address: string;
+  location: GeoPoint;
+  capacity?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GeoPointSchema = new Schema<GeoPoint>(
+  {
+    type: {
+      type: String,
+      enum: ['Point'],
+      default: 'Point',
+    },
+    coordinates: {
+      type: [Number],
+      validate: {
+        validator: (v: number[]) =>
+          v.length === 2 && v[0] >= -180 && v[0] <= 180 && v[1] >= -90 && v[1] <= 90,
+        message: 'Coordinates must be [longitude, latitude] within valid ranges',
+      },
+    },
+  },
+  { _id: false }
+);
+
+const VenueSchema = new Schema<IVenue>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    address: {
+      type: String,
+      required: [true, 'Address is required'],
+      trim: true,
+      maxlength: [300, 'Address cannot exceed 300 characters'],
+    },
+    location: {
+      type: GeoPointSchema,
+      required: [true, 'Coordinates are required'],
+    },
+    capacity: {
+      type: Number,
+      min: [1, 'Capacity must be at least 1'],
+      validate: {
+        validator: (v: number | null) => v == null || Number.isInteger(v),
+        message: 'Capacity must be a whole number',
+      },
+    },
+  },
+  {
+    timestamps: true, // Auto-generate createdAt and updatedAt
+  }
+);
+
+// Fill in coordinates from the offline city table when none were given
+VenueSchema.pre('validate', function (next) {
+  const venue = this as IVenue;
+
+  if (!venue.location?.coordinates?.length && venue.address) {
+    const coordinates = geocode(venue.address);
+
+    if (coordinates) {
+      venue.location = { type: 'Point', coordinates: [coordinates.lng, coordinates.lat] };
+    } else {
+      venue.invalidate('location', 'Could not find coordinates for this address; please enter them manually');
+    }
+  }
+
+  next();
+});
+
+// Create geospatial index for distance queries
+VenueSchema.index({ location: '2dsphere' });
+
+const Venue = models.Venue || model<IVenue>('Venue', VenueSchema);
+
+export default Venue;
@@ -1,12 +1,16 @@
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
-  roots: ['<rootDir>/database'],
+  roots: ['<rootDir>/database', '<rootDir>/lib'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1',
+  },
   testMatch: ['**/*.test.ts'],
   moduleFileExtensions: ['ts', 'js', 'json'],
   collectCoverageFrom: [
     'database/**/*.ts',
-    '!database/**/*.test.ts',
+    'lib/**/*.ts',
+    '!**/*.test.ts',
     '!database/index.ts',
   ],
   coverageDirectory: 'coverage',
@@ -0,0 +1,383 @@
+'use server';
+
+import Event, { EVENT_EDITABLE_FIELDS, EVENT_LIST_FIELDS, saveEventWithUniqueSlug } from '@/database/event.model';
+import Booking from '@/database/booking.model';
+import { Error as MongooseError, isValidObjectId, Types } from 'mongoose';
+
+import connectDB from "@/lib/mongodb";
+import { formDataToBody, getValidationErrors, isDuplicateKeyError } from "@/lib/api";
+import { canManageEvent, getCurrentUser, hasRole } from "@/lib/auth";
+import { bookingStatsTag, cancelBooking, findMergeableBookings, notifyAfterCancellation } from "@/lib/bookings";
+import { enqueueJob } from "@/lib/jobs";
+import { notifyEventChange, notifyEventStatusChange, snapshotEventDetails } from "@/lib/event-notifications";
+import type { EventStatus } from "@/lib/event-status";
+import { resolveEventSpeakers } from "@/lib/speakers";
+import { getStorage, uploadImage, validateImage } from "@/lib/storage";
+import { isValidTimeZone, zonedTimeToUtc } from "@/lib/timezone";
+import { DEFAULT_CURRENCY, toMinorUnits } from "@/lib/tickets";
+import { revalidatePath, updateTag } from "next/cache";
+import { redirect } from "next/navigation";
+
+export type EventFormState = {
+    status: 'idle' | 'error' | 'saved';
+    // Validation messages keyed by form field
+    errors: Record<string, string>;
+    message?: string;
+};
+
+/**
+ * Reads the editor's session rows, given as parallel `session*` fields with
+ * wall-clock times in the event's timezone. Rows without a title are dropped.
+ * Sessions ending at or before their start time are taken to end the next day.
+ */
+const readSessions = (formData: FormData, timezone: string) => {
+    const column = (name: string) => formData.getAll(name).map((value) => typeof value === 'string' ? value.trim() : '');
+    const [ids, titles, dates, starts, ends, rooms, speakers, capacities] = [
+        'sessionId', 'sessionTitle', 'sessionDate', 'sessionStart', 'sessionEnd', 'sessionRoom', 'sessionSpeakers', 'sessionCapacity',
+    ].map(column);
+    const zone = isValidTimeZone(timezone) ? timezone : 'UTC';
+
+    return titles.flatMap((title, i) => {
+        if (!title) return [];
+
+        // Leave incomplete times to the schema's required validators
+        const startsAt = dates[i] && starts[i] ? zonedTimeToUtc(dates[i], starts[i], zone) : null;
+        let endsAt = dates[i] && ends[i] ? zonedTimeToUtc(dates[i], ends[i], zone) : null;
+
+        if (startsAt && endsAt && endsAt <= startsAt) {
+            endsAt = new Date(endsAt.getTime() + 24 * 60 * 60 * 1000);
+        }
+
+        return [{
+            ...(ids[i] && { _id: ids[i] }),
+            title,
+            startsAt,
+            endsAt,
+            room: rooms[i] || undefined,
+            speakers: speakers[i] ? speakers[i].split(',').map((speaker) => speaker.trim()).filter(Boolean) : [],
+            capacity: capacities[i] ? Number(capacities[i]) : null,
+        }];
+    });
+}
+
+/**
+ * Reads the editor's ticket tier rows, given as parallel `tier*` fields with
+ * decimal prices and sale windows as wall-clock datetime-local values in the
+ * event's timezone. Rows without a name are dropped.
+ */
+const readTicketTiers = (formData: FormData, timezone: string) => {
+    const column = (name: string) => formData.getAll(name).map((value) => typeof value === 'string' ? value.trim() : '');
+    const [ids, names, prices, currencies, quantities, salesStarts, salesEnds] = [
+        'tierId', 'tierName', 'tierPrice', 'tierCurrency', 'tierQuantity', 'tierSalesStart', 'tierSalesEnd',
+    ].map(column);
+    const zone = isValidTimeZone(timezone) ? timezone : 'UTC';
+
+    const toInstant = (value: string) => {
+        const [date, time] = value.split('T');
+        return date && time ? zonedTimeToUtc(date, time, zone) : null;
+    }
+
+    return names.flatMap((name, i) => {
+        if (!name) return [];
+
+        const currency = (currencies[i] || DEFAULT_CURRENCY).toUpperCase();
+
+        return [{
+            ...(ids[i] && { _id: ids[i] }),
+            name,
+            // Unreadable prices are left to the schema's required validator
+            price: prices[i] ? toMinorUnits(prices[i], currency) : null,
+            currency,
+            quantity: quantities[i] ? Number(quantities[i]) : null,
+            salesStart: toInstant(salesStarts[i]),
+            salesEnd: toInstant(salesEnds[i]),
+        }];
+    });
+}
+
+/**
+ * Reads the editor's agenda rows, given as parallel `agenda*` fields. Rows
+ * without a title are dropped.
+ */
+const readAgenda = (formData: FormData) => {
+    const column = (name: string) => formData.getAll(name).map((value) => typeof value === 'string' ? value.trim() : '');
+    const [days, starts, ends, titles, descriptions, speakers, tracks] = [
+        'agendaDay', 'agendaStart', 'agendaEnd', 'agendaTitle', 'agendaDescription', 'agendaSpeakers', 'agendaTrack',
+    ].map(column);
+
+    return titles.flatMap((title, i) => title ? [{
+        day: days[i] ? Number(days[i]) : 1,
+        startTime: starts[i] || undefined,
+        endTime: ends[i] || undefined,
+        title,
+        description: descriptions[i] || undefined,
+        speakers: speakers[i] ? speakers[i].split(',').map((speaker) => speaker.trim()).filter(Boolean) : [],
+        track: tracks[i] || undefined,
+    }] : []);
+}
+
+/**
+ * Builds an event body from the editor form. Besides the schema fields it
+ * reads an optional end date/time pair and the agenda, session and ticket
+ * tier rows, and checks an optional `imageFile` upload. The image is only
+ * returned, so nothing gets stored for forms that are never saved.
+ */
+const readEventForm = async (formData: FormData): Promise<{
+    body: Record<string, unknown>;
+    errors: Record<string, string>;
+    imageFile?: File;
+}> => {
+    const body = formDataToBody(formData, EVENT_EDITABLE_FIELDS, EVENT_LIST_FIELDS);
+    const errors: Record<string, string> = {};
+
+    // Status changes go through setEventStatus, which tells attendees about them
+    delete body.status;
+
+    // Blank rows in the editor are dropped; an emptied list still reaches the required validators
+    body.tags = ((body.tags as string[] | undefined) ?? []).map((tag) => tag.trim()).filter(Boolean);
+    body.speakers = ((body.speakers as string[] | undefined) ?? [])
+        .flatMap((names) => names.split(','))
+        .map((name) => name.trim())
+        .filter(Boolean);
+    body.agenda = readAgenda(formData);
+
+    // Empty selections detach the public profile and mapped venue
+    body.organizerProfile = body.organizerProfile || null;
+    body.venueId = body.venueId || null;
+
+    const capacity = formData.get('capacity');
+    body.capacity = typeof capacity === 'string' && capacity.trim() !== '' ? Number(capacity) : null;
+    body.waitlistEnabled = formData.get('waitlistEnabled') === 'on';
+
+    const endTime = formData.get('endTime');
+    const endDate = formData.get('endDate') || body.date;
+    const timezone = (body.timezone as string | undefined) || 'UTC';
+
+    if (typeof endTime === 'string' && endTime !== '' && typeof endDate === 'string' && isValidTimeZone(timezone)) {
+        body.endsAt = zonedTimeToUtc(endDate, endTime, timezone);
+    } else {
+        body.endsAt = null;
+    }
+
+    body.recurrence = body.recurrence || null;
+    body.sessions = readSessions(formData, timezone);
+    body.ticketTiers = readTicketTiers(formData, timezone);
+
+    const imageFile = formData.get('imageFile');
+
+    if (imageFile instanceof File && imageFile.size > 0) {
+        const imageError = await validateImage(imageFile);
+
+        if (imageError) {
+            errors.image = imageError;
+        } else {
+            return { body, errors, imageFile };
+        }
+    }
+
+    return { body, errors };
+}
+
+// How the editor names a row of each list in error messages
+const ROW_LABELS = { agenda: 'Agenda item', sessions: 'Session', ticketTiers: 'Ticket tier' };
+
+export const saveEvent = async (slug: string | null, prevState: EventFormState, formData: FormData): Promise<EventFormState> => {
+    let savedSlug: string;
+    // An uploaded banner the event hasn't been saved with yet
+    let unsavedImageUrl: string | undefined;
+
+    try {
+        await connectDB();
+
+        const user = await getCurrentUser();
+
+        if (!hasRole(user, 'organizer', 'admin')) {
+            return { status: 'error', errors: {}, message: 'Only organizers can manage events' };
+        }
+
+        const { body, errors, imageFile } = await readEventForm(formData);
+
+        // Stored only once everything before saving has passed; the catch below removes it if saving fails
+        const storeImage = async () => {
+            if (imageFile) body.image = unsavedImageUrl = await uploadImage(imageFile, 'events');
+        }
+
+        if (Object.keys(errors).length > 0) {
+            return { status: 'error', errors };
+        }
+
+        if (slug) {
+            const event = await Event.findOne({ slug });
+
+            if (!event) return { status: 'error', errors: {}, message: 'This event no longer exists' };
+
+            if (!canManageEvent(user, event)) {
+                return { status: 'error', errors: {}, message: 'You can only edit your own events' };
+            }
+
+            // Only once the event is theirs, since naming new speakers creates their profiles
+            await resolveEventSpeakers(body);
+            await storeImage();
+
+            const details = snapshotEventDetails(event);
+            event.set(body);
+            const capacityChanged = event.isModified('capacity') || event.isModified('sessions');
+            await saveEventWithUniqueSlug(event);
+            unsavedImageUrl = undefined;
+
+            await notifyEventChange(event, details);
+
+            if (capacityChanged) {
+                await enqueueJob('promote-waitlists', { eventId: String(event._id) });
+                updateTag(bookingStatsTag(event.slug));
+            }
+
+            savedSlug = event.slug;
+        } else {
+            await resolveEventSpeakers(body);
+            await storeImage();
+
+            const event = await saveEventWithUniqueSlug(new Event({ ...body, organizer: user._id }));
+            savedSlug = event.slug;
+        }
+    } catch (e) {
+        // Don't leave orphaned banners behind when the event itself was rejected
+        if (unsavedImageUrl) {
+            await getStorage().delete(unsavedImageUrl).catch(console.error);
+        }
+
+        if (e instanceof MongooseError.ValidationError) {
+            const errors = getValidationErrors(e);
+
+            // The editor shows row problems under their list, e.g. `sessions.1.endsAt` under sessions
+            for (const [field, message] of Object.entries(errors)) {
+                const match = field.match(/^(agenda|sessions|ticketTiers)\.(\d+)\./);
+                const list = match?.[1] as keyof typeof ROW_LABELS | undefined;
+
+                if (list && !errors[list]) {
+                    errors[list] = `${ROW_LABELS[list]} ${Number(match![2]) + 1}: ${message}`;
+                }
+            }
+
+            return { status: 'error', errors };
+        }
+
+        if (isDuplicateKeyError(e)) {
+            return { status: 'error', errors: { title: 'An event with this title already exists' } };
+        }
+
+        console.error('save event failed', e);
+        return { status: 'error', errors: {}, message: 'Something went wrong while saving' };
+    }
+
+    revalidatePath('/admin', 'layout');
+
+    // A new event, or a renamed one, lives at a new URL
+    if (savedSlug !== slug) {
+        redirect(`/admin/events/${savedSlug}`);
+    }
+
+    return { status: 'saved', errors: {}, message: 'Event saved' };
+}
+
+/**
+ * Moves an event along its lifecycle, e.g. publishing a draft or cancelling
+ * it. Everyone booked hears about cancellations and postponements.
+ */
+export const setEventStatus = async (slug: string, status: EventStatus): Promise<{ success: boolean; message?: string }> => {
+    try {
+        await connectDB();
+
+        const [user, event] = await Promise.all([getCurrentUser(), Event.findOne({ slug })]);
+
+        if (!event || !canManageEvent(user, event)) {
+            return { success: false, message: 'You can only change your own events' };
+        }
+
+        event.status = status;
+        await event.save();
+
+        await notifyEventStatusChange(event);
+    } catch (e) {
+        if (e instanceof MongooseError.ValidationError) {
+            const errors = getValidationErrors(e);
+            return { success: false, message: errors.status ?? 'Fix the event in the editor first' };
+        }
+
+        console.error('set event status failed', e);
+        return { success: false, message: 'Something went wrong' };
+    }
+
+    revalidatePath('/admin', 'layout');
+    revalidatePath(`/events/${slug}`);
+
+    return { success: true };
+}
+
+const canManageBookingsOf = async (eventId: Types.ObjectId) => {
+    const [user, event] = await Promise.all([
+        getCurrentUser(),
+        Event.findById(eventId).select('organizer').lean<{ organizer?: Types.ObjectId }>(),
+    ]);
+
+    return !!event && canManageEvent(user, event);
+}
+
+export const deleteBooking = async (bookingId: string) => {
+    try {
+        if (!isValidObjectId(bookingId)) return { success: false };
+
+        await connectDB();
+
+        const booking = await Booking.findById(bookingId).select('eventId');
+
+        if (!booking || !(await canManageBookingsOf(booking.eventId))) return { success: false };
+
+        const result = await cancelBooking(bookingId);
+
+        if (!result) return { success: false };
+
+        const slug = await notifyAfterCancellation(result, { cancelledBy: 'organizer' });
+
+        if (slug) {
+            updateTag(bookingStatsTag(slug));
+            revalidatePath(`/admin/events/${slug}/bookings`);
+        }
+
+        return { success: true };
+    } catch (e) {
+        console.error('delete booking failed', e);
+        return { success: false };
+    }
+}
+
+/**
+ * Keeps one booking and cancels the others, which must be for the same
+ * event, occurrence or session and reach the same mailbox.
+ */
+export const mergeDuplicateBookings = async (keepId: string, duplicateIds: string[]) => {
+    try {
+        await connectDB();
+
+        const merge = await findMergeableBookings(keepId, duplicateIds);
+
+        if (!merge || !(await canManageBookingsOf(merge.keep.eventId))) return { success: false };
+
+        let slug: string | null = null;
+
+        for (const duplicate of merge.duplicates) {
+            const result = await cancelBooking(String(duplicate._id));
+            if (result) slug = await notifyAfterCancellation(result);
+        }
+
+        if (slug) {
+            updateTag(bookingStatsTag(slug));
+            revalidatePath(`/admin/events/${slug}/bookings`);
+        }
+
+        return { success: true };
+    } catch (e) {
+        console.error('merge bookings failed', e);
+        return { success: false };
+    }
+}
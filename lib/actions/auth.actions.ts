@@ -0,0 +1,53 @@
+'use server';
+
+import { Error as MongooseError } from 'mongoose';
+
+import connectDB from "@/lib/mongodb";
+import { destroySession, SESSION_COOKIE, sendLoginLink } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+
+export type LoginFormState = {
+    status: 'idle' | 'sent' | 'error';
+    message?: string;
+};
+
+export const requestLoginLink = async (next: string, prevState: LoginFormState, formData: FormData): Promise<LoginFormState> => {
+    const email = formData.get('email');
+
+    if (typeof email !== 'string' || email.trim() === '') {
+        return { status: 'error', message: 'Please enter your email address' };
+    }
+
+    try {
+        await connectDB();
+        await sendLoginLink(email, next);
+
+        return { status: 'sent', message: `We sent a sign-in link to ${email.trim()}` };
+    } catch (e) {
+        if (e instanceof MongooseError.ValidationError) {
+            return { status: 'error', message: 'Please enter a valid email address' };
+        }
+
+        console.error('sign-in link failed', e);
+        return { status: 'error', message: 'Something went wrong. Please try again.' };
+    }
+}
+
+export const signOut = async () => {
+    const cookieStore = await cookies();
+    const token = cookieStore.get(SESSION_COOKIE)?.value;
+
+    if (token) {
+        try {
+            await connectDB();
+            await destroySession(token);
+        } catch (e) {
+            // The cookie is cleared regardless, so the browser is signed out either way
+            console.error('sign out failed', e);
+        }
+    }
+
+    cookieStore.delete(SESSION_COOKIE);
+    redirect('/');
+}
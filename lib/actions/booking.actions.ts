@@ -1,18 +1,403 @@
 'use server';
 
 import Booking from '@/database/booking.model';
+import type { BookingStatus, IBooking } from '@/database/booking.model';
+import Event, { IEventSession, ITicketTier } from '@/database/event.model';
+import PromoCode, { IPromoCode } from '@/database/promo-code.model';
+import { Error as MongooseError, isValidObjectId } from 'mongoose';
 
 import connectDB from "@/lib/mongodb";
+import { isDuplicateKeyError } from "@/lib/api";
+import { isOccurrence } from "@/lib/recurrence";
+import { formatPrice, getTierAvailability } from "@/lib/tickets";
+import { applyDiscount, checkPromoCode, normalizePromoCode } from "@/lib/promo-codes";
+import { EventStatus, isBookable } from "@/lib/event-status";
+import {
+    bookingStatsTag,
+    BookingTarget,
+    cancelBooking,
+    createTicketCode,
+    describeBookingTarget,
+    getWaitlistPosition,
+    notifyAfterCancellation,
+    redeemPromoCode,
+    releasePromoCode,
+    releaseSeat,
+    releaseTicket,
+    reserveSeat,
+    reserveTicket,
+    sendBookingEmail,
+    verifyManageBookingsToken,
+    verifyTicketCode,
+} from "@/lib/bookings";
+import { isAttending } from "@/lib/check-in";
+import { expirePendingBookings, getCheckoutExpiry, startCheckout } from "@/lib/checkout";
+import { hasPaymentProvider } from "@/lib/payments";
+import { revalidatePath, updateTag } from "next/cache";
 
-export const createBooking = async ({ eventId, slug, email }: { eventId: string; slug: string; email: string; }) => {
+export type BookingErrorCode =
+    | 'DUPLICATE'
+    | 'INVALID_EMAIL'
+    | 'EVENT_NOT_FOUND'
+    | 'EVENT_UNAVAILABLE'
+    | 'INVALID_TARGET'
+    | 'INVALID_TIER'
+    | 'SOLD_OUT'
+    | 'INVALID_CODE'
+    | 'CODE_EXHAUSTED'
+    | 'EVENT_FULL'
+    | 'PAYMENTS_UNAVAILABLE'
+    | 'INTERNAL';
+
+export type CreateBookingResult =
+    // Pending bookings are paid for at `checkoutUrl`; confirmed ones come with their `ticketCode`
+    | { success: true; status: BookingStatus; position?: number; checkoutUrl?: string; ticketCode?: string }
+    | { success: false; code: BookingErrorCode; message: string };
+
+// Why an event that isn't published turns bookings away
+const UNAVAILABLE_MESSAGES: Partial<Record<EventStatus, string>> = {
+    cancelled: 'This event was cancelled',
+    postponed: 'This event was postponed; bookings reopen once it has a new date',
+    archived: 'This event is over',
+};
+
+const bookingError = (code: BookingErrorCode, message: string): CreateBookingResult => ({ success: false, code, message });
+
+export type ManagedBooking = {
+    id: string;
+    status: BookingStatus;
+    createdAt: string;
+    // Occurrence or session the booking is for, if any
+    target: string | null;
+    // Ticket tier and price paid, for ticketed events
+    ticket: string | null;
+    // Code of the ticket to show at the door, for bookings with a seat
+    ticketCode: string | null;
+    event: { title: string; slug: string; date: string; time: string; location: string } | null;
+};
+
+// A ticket as shown on its own page
+export type TicketDetails = {
+    code: string;
+    email: string;
+    status: BookingStatus;
+    // Whether the ticket gets its holder in; waitlisted, unpaid and refunded bookings don't
+    valid: boolean;
+    checkedInAt: string | null;
+    target: string | null;
+    ticket: string | null;
+    event: { title: string; slug: string; date: string; time: string; location: string } | null;
+};
+
+/**
+ * Books a seat, or a waitlist spot when the event is full. Recurring events
+ * need the start of one of their occurrences (ISO string) and multi-session
+ * events one of their session ids. Ticketed events need a tier on sale; paid
+ * tiers leave the booking pending until its checkout is paid. A promo code
+ * lowers the price of the ticket, and makes it free when nothing is left to pay.
+ */
+export const createBooking = async ({ eventId, slug, email, occurrenceStart, sessionId, ticketTierId, promoCode }: {
+    eventId: string;
+    slug: string;
+    email: string;
+    occurrenceStart?: string;
+    sessionId?: string;
+    ticketTierId?: string;
+    promoCode?: string;
+}): Promise<CreateBookingResult> => {
     try {
         await connectDB();
 
-        await Booking.create({ eventId, slug, email });
+        const event = isValidObjectId(eventId)
+            ? await Event.findById(eventId).select('title date time timezone startsAt recurrence sessions waitlistEnabled ticketTiers status')
+            : null;
 
-        return { success: true };
+        if (!event) return bookingError('EVENT_NOT_FOUND', `Event with ID ${eventId} does not exist`);
+
+        if (!isBookable(event.status)) {
+            return bookingError('EVENT_UNAVAILABLE', UNAVAILABLE_MESSAGES[event.status as EventStatus] ?? 'This event is not taking bookings');
+        }
+
+        const target: BookingTarget = {};
+
+        if (event.recurrence) {
+            const start = occurrenceStart ? new Date(occurrenceStart) : null;
+
+            if (!start || isNaN(start.getTime()) || start < new Date() || !isOccurrence(event, start)) {
+                return bookingError('INVALID_TARGET', 'Choose one of the upcoming dates');
+            }
+
+            target.occurrenceStart = start;
+        } else if (event.sessions.length > 0) {
+            const session = sessionId ? event.sessions.find((session: IEventSession) => String(session._id) === sessionId) : undefined;
+
+            if (!session) return bookingError('INVALID_TARGET', 'Choose one of the sessions');
+
+            target.sessionId = session._id;
+        }
+
+        let tier: ITicketTier | undefined;
+
+        if (event.ticketTiers.length > 0) {
+            tier = ticketTierId ? event.ticketTiers.find((tier: ITicketTier) => String(tier._id) === ticketTierId) : undefined;
+
+            if (!tier || getTierAvailability(tier, 0) !== 'on-sale') {
+                return bookingError('INVALID_TIER', 'Choose a ticket that is on sale');
+            }
+        }
+
+        let promo: IPromoCode | null = null;
+
+        if (promoCode?.trim()) {
+            if (!tier) return bookingError('INVALID_CODE', 'This event has no tickets to discount');
+
+            promo = await PromoCode.findOne({ code: normalizePromoCode(promoCode) });
+
+            if (!promo) return bookingError('INVALID_CODE', 'This code does not exist');
+
+            const reason = checkPromoCode(promo, { eventId: String(event._id), tierId: String(tier._id), currency: tier.currency });
+
+            if (reason) return bookingError('INVALID_CODE', reason);
+        }
+
+        const price = tier ? (promo ? applyDiscount(tier.price, promo) : tier.price) : 0;
+        const paid = price > 0;
+
+        if (paid && !hasPaymentProvider()) {
+            return bookingError('PAYMENTS_UNAVAILABLE', 'Paid tickets cannot be bought right now');
+        }
+
+        // Seats held by abandoned checkouts go back on sale first
+        await expirePendingBookings(event._id);
+
+        // Claim a ticket and a seat first so concurrent bookings can never exceed capacity
+        if (tier && !(await reserveTicket(eventId, tier._id))) {
+            return bookingError('SOLD_OUT', `${tier.name} tickets are sold out`);
+        }
+
+        const seatReserved = await reserveSeat(eventId, target);
+
+        // Ticketed events don't waitlist: a promoted booking would skip paying
+        if (!seatReserved && (tier || event.waitlistEnabled === false)) {
+            if (tier) await releaseTicket(eventId, tier._id);
+            return bookingError('EVENT_FULL', 'This event is fully booked');
+        }
+
+        // Redeem last, so a code isn't used up by a booking that found no seat
+        if (promo && !(await redeemPromoCode(promo, email))) {
+            await releaseSeat(eventId, target);
+            await releaseTicket(eventId, tier!._id);
+            return bookingError('CODE_EXHAUSTED', 'This code has reached its redemption limit');
+        }
+
+        let booking;
+        try {
+            booking = await Booking.create({
+                eventId,
+                slug,
+                email,
+                ...target,
+                ticketTierId: tier?._id,
+                promoCodeId: promo?._id,
+                ticketCode: createTicketCode(),
+                status: paid ? 'pending' : seatReserved ? 'confirmed' : 'waitlisted',
+                ...(paid && { expiresAt: getCheckoutExpiry() }),
+            });
+        } catch (e) {
+            if (seatReserved) await releaseSeat(eventId, target);
+            if (tier) await releaseTicket(eventId, tier._id);
+            if (promo) await releasePromoCode(String(promo._id), email);
+            throw e;
+        }
+
+        // Expire cached counts so event pages reflect the new booking immediately
+        updateTag(bookingStatsTag(slug));
+
+        if (paid) {
+            try {
+                const checkoutUrl = await startCheckout(booking, { tier: tier!, amount: price, eventTitle: event.title, slug });
+                return { success: true, status: 'pending', checkoutUrl };
+            } catch (e) {
+                await Booking.deleteOne({ _id: booking._id });
+                await releaseSeat(eventId, target);
+                await releaseTicket(eventId, tier!._id);
+                if (promo) await releasePromoCode(String(promo._id), email);
+                throw e;
+            }
+        }
+
+        const position = booking.status === 'waitlisted' ? await getWaitlistPosition(booking) : undefined;
+
+        try {
+            const label = describeBookingTarget(event, target);
+            const eventTitle = label ? `${event.title} (${label})` : event.title;
+
+            await sendBookingEmail({ email: booking.email, eventTitle, status: booking.status, position, ticketCode: booking.ticketCode });
+        } catch (e) {
+            // The booking stands even if the confirmation email can't be sent
+            console.error('booking email failed', e);
+        }
+
+        return booking.status === 'waitlisted'
+            ? { success: true, status: 'waitlisted', position }
+            : { success: true, status: 'confirmed', ticketCode: booking.ticketCode };
     } catch (e) {
+        if (isDuplicateKeyError(e)) {
+            return bookingError('DUPLICATE', 'This email is already booked for this event');
+        }
+
+        if (e instanceof MongooseError.ValidationError && e.errors.email) {
+            return bookingError('INVALID_EMAIL', e.errors.email.message);
+        }
+
+        // The pre-save hook reports a vanished event as a plain 'ValidationError'
+        if (e instanceof Error && e.name === 'ValidationError' && !(e instanceof MongooseError.ValidationError)) {
+            return bookingError('EVENT_NOT_FOUND', e.message);
+        }
+
         console.error('create booking failed', e);
+        return bookingError('INTERNAL', 'Something went wrong while booking');
+    }
+}
+
+// e.g. "Early bird · $25.00"; the price paid wins over the tier's current price,
+// and tickets a promo code made free have nothing to pay
+const describeTicket = (booking: Pick<IBooking, 'ticketTierId' | 'payment' | 'promoCodeId'>, tiers: ITicketTier[]): string | null => {
+    if (!booking.ticketTierId) return null;
+
+    const tier = tiers.find((tier) => tier._id.equals(booking.ticketTierId));
+    const price = booking.payment
+        ? formatPrice(booking.payment.amount, booking.payment.currency)
+        : booking.promoCodeId ? 'Free' : tier && formatPrice(tier.price, tier.currency);
+
+    return [tier?.name ?? 'Ticket', price].filter(Boolean).join(' · ');
+}
+
+export const getBookingsByToken = async (token: string): Promise<{ email: string; bookings: ManagedBooking[] } | null> => {
+    const email = verifyManageBookingsToken(token);
+
+    if (!email) return null;
+
+    await connectDB();
+
+    const bookings = await Booking.find({ email })
+        .sort({ createdAt: -1 })
+        .populate<{
+            eventId: {
+                title: string;
+                slug: string;
+                date: string;
+                time: string;
+                location: string;
+                timezone: string;
+                sessions: IEventSession[];
+                ticketTiers: ITicketTier[];
+            } | null;
+        }>('eventId', 'title slug date time location timezone sessions ticketTiers');
+
+    return {
+        email,
+        bookings: bookings.map((booking) => ({
+            id: booking._id.toString(),
+            status: booking.status,
+            createdAt: booking.createdAt.toISOString(),
+            target: booking.eventId && describeBookingTarget(booking.eventId, {
+                occurrenceStart: booking.occurrenceStart,
+                sessionId: booking.sessionId,
+            }),
+            ticket: describeTicket(
+                { ticketTierId: booking.ticketTierId, payment: booking.payment, promoCodeId: booking.promoCodeId },
+                booking.eventId?.ticketTiers ?? []
+            ),
+            ticketCode: isAttending({ status: booking.status }) ? booking.ticketCode ?? null : null,
+            event: booking.eventId && {
+                title: booking.eventId.title,
+                slug: booking.eventId.slug,
+                date: booking.eventId.date,
+                time: booking.eventId.time,
+                location: booking.eventId.location,
+            },
+        })),
+    };
+}
+
+/**
+ * Looks up the booking behind a ticket code. Anyone with the code may see the
+ * ticket, which is what gets them in.
+ */
+export const getTicketByCode = async (code: string): Promise<TicketDetails | null> => {
+    const ticketCode = verifyTicketCode(code);
+
+    if (!ticketCode) return null;
+
+    await connectDB();
+
+    const booking = await Booking.findOne({ ticketCode })
+        .populate<{
+            eventId: {
+                title: string;
+                slug: string;
+                date: string;
+                time: string;
+                location: string;
+                timezone: string;
+                sessions: IEventSession[];
+                ticketTiers: ITicketTier[];
+            } | null;
+        }>('eventId', 'title slug date time location timezone sessions ticketTiers');
+
+    if (!booking) return null;
+
+    return {
+        code: ticketCode,
+        email: booking.email,
+        status: booking.status,
+        valid: isAttending(booking),
+        checkedInAt: booking.checkedInAt?.toISOString() ?? null,
+        target: booking.eventId && describeBookingTarget(booking.eventId, {
+            occurrenceStart: booking.occurrenceStart,
+            sessionId: booking.sessionId,
+        }),
+        ticket: describeTicket(
+            { ticketTierId: booking.ticketTierId, payment: booking.payment, promoCodeId: booking.promoCodeId },
+            booking.eventId?.ticketTiers ?? []
+        ),
+        event: booking.eventId && {
+            title: booking.eventId.title,
+            slug: booking.eventId.slug,
+            date: booking.eventId.date,
+            time: booking.eventId.time,
+            location: booking.eventId.location,
+        },
+    };
+}
+
+export const cancelBookingByToken = async (token: string, bookingId: string) => {
+    try {
+        const email = verifyManageBookingsToken(token);
+
+        if (!email) return { success: false };
+
+        await connectDB();
+
+        // Only the owner of the link may cancel, and only their own bookings
+        const booking = await Booking.findOne({ _id: bookingId, email }).select('_id');
+
+        if (!booking) return { success: false };
+
+        const result = await cancelBooking(booking._id);
+
+        if (!result) return { success: false };
+
+        const slug = await notifyAfterCancellation(result, { cancelledBy: 'attendee' });
+
+        if (slug) updateTag(bookingStatsTag(slug));
+
+        revalidatePath(`/bookings/${token}`);
+
+        return { success: true };
+    } catch (e) {
+        console.error('cancel booking failed', e);
         return { success: false };
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,25 @@
+'use server';
+
+import connectDB from "@/lib/mongodb";
+import { bookingStatsTag } from "@/lib/bookings";
+import { completeCheckout } from "@/lib/checkout";
+import { isFakePaymentProvider, readFakeCheckout } from "@/lib/payments";
+import { updateTag } from "next/cache";
+import { redirect } from "next/navigation";
+
+/**
+ * Completes a fake checkout as if the buyer had paid, then sends them back
+ * to their bookings. Only works while the fake provider is in use.
+ */
+export const payFakeCheckout = async (token: string) => {
+    const checkout = readFakeCheckout(token);
+
+    if (!checkout || !isFakePaymentProvider()) redirect('/');
+
+    await connectDB();
+    const slug = await completeCheckout(checkout.checkoutId);
+
+    if (slug) updateTag(bookingStatsTag(slug));
+
+    redirect(checkout.successUrl);
+}
@@ -0,0 +1,57 @@
+'use server';
+
+import connectDB from "@/lib/mongodb";
+import { getCurrentUser, hasRole } from "@/lib/auth";
+import { type EventImportReport, getImportFormat, importEvents, readEventRows } from "@/lib/event-import";
+import { revalidatePath } from "next/cache";
+
+export type EventImportState = {
+    status: 'idle' | 'error' | 'done';
+    message?: string;
+    report?: EventImportReport;
+};
+
+/**
+ * Imports an uploaded CSV or JSON file of events, or with `dryRun` checked
+ * only reports what importing it would do. Imports may update any event, so
+ * they are limited to admins.
+ */
+export const importEventsFile = async (prevState: EventImportState, formData: FormData): Promise<EventImportState> => {
+    try {
+        await connectDB();
+
+        const user = await getCurrentUser();
+
+        if (!hasRole(user, 'admin')) {
+            return { status: 'error', message: 'Only admins can import events' };
+        }
+
+        const file = formData.get('file');
+
+        if (!(file instanceof File) || file.size === 0) {
+            return { status: 'error', message: 'Choose a CSV or JSON file to import' };
+        }
+
+        const format = getImportFormat(file.name);
+
+        if (!format) {
+            return { status: 'error', message: 'Only .csv and .json files can be imported' };
+        }
+
+        let rows;
+        try {
+            rows = readEventRows(await file.text(), format);
+        } catch (e) {
+            return { status: 'error', message: e instanceof Error ? e.message : 'The file could not be read' };
+        }
+
+        const report = await importEvents(rows, { organizer: user._id, dryRun: formData.get('dryRun') === 'on' });
+
+        if (!report.dryRun) revalidatePath('/admin', 'layout');
+
+        return { status: 'done', report };
+    } catch (e) {
+        console.error('import events failed', e);
+        return { status: 'error', message: 'Something went wrong while importing' };
+    }
+}
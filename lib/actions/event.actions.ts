@@ -1,15 +1,120 @@
 'use server';
 
-import Event from '@/database/event.model';
+import Event, { IEvent } from '@/database/event.model';
+import Booking, { NOT_ATTENDING_STATUSES, SEATLESS_STATUSES } from '@/database/booking.model';
 import connectDB from "@/lib/mongodb";
+import { bookingStatsTag } from "@/lib/bookings";
+import { rankCandidates } from "@/lib/recommendations";
+import { LISTED_EVENT_FILTER } from "@/lib/event-status";
+import { Types } from 'mongoose';
+import { cacheLife, cacheTag } from "next/cache";
 
-export const getSimilarEventsBySlug = async (slug: string) => {
+export type BookingStats = {
+    total: number;
+    last24h: number;
+    waitlisted: number;
+    // null when the event has no capacity limit, or seats are counted per occurrence or session
+    seatsLeft: number | null;
+};
+
+const EMPTY_STATS: BookingStats = { total: 0, last24h: 0, waitlisted: 0, seatsLeft: null };
+
+// Upper bound on candidates pulled from the database before ranking
+const CANDIDATE_POOL_SIZE = 100;
+
+export const getSimilarEventsBySlug = async (slug: string, limit = 3): Promise<IEvent[]> => {
     try {
         await connectDB();
-        const event = await Event.findOne({ slug });
+        const event = await Event.findOne({ slug }).lean<IEvent>();
+
+        if (!event) return [];
+
+        // People who booked this event, and what else they booked
+        const attendees: string[] = await Booking.distinct('email', { eventId: event._id });
+        const coBooked: { _id: Types.ObjectId; count: number }[] = attendees.length > 0
+            ? await Booking.aggregate([
+                { $match: { email: { $in: attendees }, eventId: { $ne: event._id } } },
+                { $group: { _id: '$eventId', count: { $sum: 1 } } },
+            ])
+            : [];
+        const coBookings = new Map(coBooked.map(({ _id, count }) => [_id.toString(), count]));
 
-        return await Event.find({ _id: { $ne: event._id }, tags: { $in: event.tags } }).lean();
-    } catch {
+        const upcoming = { ...LISTED_EVENT_FILTER, startsAt: { $gte: new Date() } };
+
+        // Events booked by the most of the same people make the pool first, ...
+        const upcomingCoBooked: Types.ObjectId[] = coBooked.length > 0
+            ? await Event.distinct('_id', { ...upcoming, _id: { $in: coBooked.map(({ _id }) => _id) } })
+            : [];
+        const coBookedIds = upcomingCoBooked
+            .sort((a, b) => (coBookings.get(b.toString()) ?? 0) - (coBookings.get(a.toString()) ?? 0))
+            .slice(0, CANDIDATE_POOL_SIZE);
+        const coBookedEvents = coBookedIds.length > 0
+            ? await Event.find({ _id: { $in: coBookedIds } }).lean<IEvent[]>()
+            : [];
+
+        // ... then the soonest events sharing a tag fill the rest
+        const room = CANDIDATE_POOL_SIZE - coBookedEvents.length;
+        const tagMatches = room > 0 && event.tags.length > 0
+            ? await Event.find({
+                ...upcoming,
+                _id: { $nin: [event._id, ...coBookedIds] },
+                tags: { $in: event.tags },
+            })
+                .sort({ startsAt: 1, _id: 1 })
+                .limit(room)
+                .lean<IEvent[]>()
+            : [];
+
+        const candidates = [...coBookedEvents, ...tagMatches];
+
+        return rankCandidates(event, candidates, { coBookings, sourceAttendees: attendees.length, limit });
+    } catch (e) {
+        console.error('get similar events failed', e);
         return [];
     }
-}
\ No newline at end of file
+}
+
+export const getBookingStatsBySlug = async (slug: string): Promise<BookingStats> => {
+    'use cache';
+    cacheLife('minutes');
+    cacheTag(bookingStatsTag(slug));
+
+    await connectDB();
+    const event = await Event.findOne({ slug }).select('_id capacity recurrence sessions')
+        .lean<{ _id: unknown; capacity?: number; recurrence?: string; sessions?: unknown[] }>();
+
+    if (!event) return EMPTY_STATS;
+
+    // Bookings without a status predate the waitlist and count as confirmed
+    const confirmed = { eventId: event._id, status: { $nin: NOT_ATTENDING_STATUSES } };
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+    const perTarget = !!event.recurrence || (event.sessions?.length ?? 0) > 0;
+    const limited = event.capacity != null && !perTarget;
+
+    const [total, last24h, waitlisted, seatsHeld] = await Promise.all([
+        Booking.countDocuments(confirmed),
+        Booking.countDocuments({ ...confirmed, createdAt: { $gte: since } }),
+        Booking.countDocuments({ eventId: event._id, status: 'waitlisted' }),
+        // Unpaid checkouts hold seats too
+        limited ? Booking.countDocuments({ eventId: event._id, status: { $nin: SEATLESS_STATUSES } }) : 0,
+    ]);
+
+    const seatsLeft = limited ? Math.max(event.capacity! - seatsHeld, 0) : null;
+
+    return { total, last24h, waitlisted, seatsLeft };
+}
+
+/**
+ * Booking stats for pages listing or showing events. Errors aren't cached by
+ * `getBookingStatsBySlug`, so a failed lookup is retried on the next request;
+ * meanwhile the page gets undefined and hides the stats.
+ */
+export const getBookingStatsIfAvailable = async (slug: string): Promise<BookingStats | undefined> => {
+    try {
+        return await getBookingStatsBySlug(slug);
+    } catch (e) {
+        console.error('get booking stats failed', e);
+        return undefined;
+    }
+}
@@ -0,0 +1,30 @@
+'use server';
+
+import { isValidObjectId } from 'mongoose';
+
+import connectDB from "@/lib/mongodb";
+import { getCurrentUser, hasRole } from "@/lib/auth";
+import { retryFailedJob } from "@/lib/jobs";
+import { revalidatePath } from "next/cache";
+
+// Jobs run for every organizer's events, so only admins can touch the queue
+export const retryJob = async (jobId: string) => {
+    try {
+        if (!isValidObjectId(jobId)) return { success: false };
+
+        await connectDB();
+
+        const user = await getCurrentUser();
+
+        if (!hasRole(user, 'admin')) return { success: false };
+
+        const success = await retryFailedJob(jobId);
+
+        revalidatePath('/admin/jobs');
+
+        return { success };
+    } catch (e) {
+        console.error('retry job failed', e);
+        return { success: false };
+    }
+}
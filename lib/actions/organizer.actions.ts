@@ -0,0 +1,121 @@
+'use server';
+
+import { Error as MongooseError } from 'mongoose';
+import Event, { IEvent } from '@/database/event.model';
+import Organizer, { IOrganizer } from '@/database/organizer.model';
+import connectDB from "@/lib/mongodb";
+import { getValidationErrors, isDuplicateKeyError } from "@/lib/api";
+import { getCurrentUser, hasRole } from "@/lib/auth";
+import { PROFILE_EVENT_FILTER } from "@/lib/event-status";
+import { collectLinkErrors, parseSocialLinks } from "@/lib/social-links";
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+
+export type OrganizerOption = { id: string; name: string };
+
+export type OrganizerFormState = {
+    status: 'idle' | 'error' | 'saved';
+    // Validation messages keyed by form field
+    errors: Record<string, string>;
+    message?: string;
+};
+
+export type OrganizerWithEvents = {
+    organizer: IOrganizer;
+    upcoming: IEvent[];
+    past: IEvent[];
+};
+
+// Past events shown on a profile page, most recent first
+const PAST_EVENTS_LIMIT = 12;
+
+export const getOrganizerOptions = async (): Promise<OrganizerOption[]> => {
+    try {
+        await connectDB();
+        const organizers = await Organizer.find().select('name').sort({ name: 1 }).lean<IOrganizer[]>();
+
+        return organizers.map((organizer) => ({ id: String(organizer._id), name: organizer.name }));
+    } catch {
+        return [];
+    }
+}
+
+export const getOrganizerWithEvents = async (slug: string): Promise<OrganizerWithEvents | null> => {
+    try {
+        await connectDB();
+        const organizer = await Organizer.findOne({ slug }).lean<IOrganizer>();
+
+        if (!organizer) return null;
+
+        const now = new Date();
+        const [upcoming, past] = await Promise.all([
+            Event.find({ ...PROFILE_EVENT_FILTER, organizerProfile: organizer._id, startsAt: { $gte: now } }).sort({ startsAt: 1 }).lean<IEvent[]>(),
+            Event.find({ ...PROFILE_EVENT_FILTER, organizerProfile: organizer._id, startsAt: { $lt: now } })
+                .sort({ startsAt: -1 })
+                .limit(PAST_EVENTS_LIMIT)
+                .lean<IEvent[]>(),
+        ]);
+
+        return { organizer, upcoming, past };
+    } catch {
+        return null;
+    }
+}
+
+// Blank fields clear what the profile had
+const readText = (value: FormDataEntryValue | null) =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * Creates an organizer profile from the admin form, or with a slug updates
+ * that profile. Profiles can be picked for any organizer's events, so only
+ * admins manage them. Renaming an organizer moves the profile to a new slug.
+ */
+export const saveOrganizer = async (slug: string | null, prevState: OrganizerFormState, formData: FormData): Promise<OrganizerFormState> => {
+    let savedSlug: string;
+
+    try {
+        await connectDB();
+
+        if (!hasRole(await getCurrentUser(), 'admin')) {
+            return { status: 'error', errors: {}, message: 'Only admins can manage organizer profiles' };
+        }
+
+        const organizer = slug ? await Organizer.findOne({ slug }) : new Organizer();
+
+        if (!organizer) return { status: 'error', errors: {}, message: 'This organizer no longer exists' };
+
+        organizer.set({
+            name: String(formData.get('name') ?? ''),
+            bio: readText(formData.get('bio')),
+            logo: readText(formData.get('logo')),
+            website: readText(formData.get('website')),
+            socials: parseSocialLinks(String(formData.get('socials') ?? '')),
+        });
+        await organizer.save();
+
+        savedSlug = organizer.slug;
+    } catch (e) {
+        if (e instanceof MongooseError.ValidationError) {
+            return { status: 'error', errors: collectLinkErrors(getValidationErrors(e), 'socials') };
+        }
+
+        // Another organizer was given the same slug at the same time
+        if (isDuplicateKeyError(e)) {
+            return { status: 'error', errors: {}, message: 'Another organizer took this slug meanwhile; save again' };
+        }
+
+        console.error('save organizer failed', e);
+        return { status: 'error', errors: {}, message: 'Something went wrong while saving' };
+    }
+
+    revalidatePath('/admin', 'layout');
+    revalidatePath('/organizers', 'layout');
+
+    // A new organizer, or a renamed one, lives at a new URL
+    if (savedSlug !== slug) {
+        redirect(`/admin/organizers/${savedSlug}`);
+    }
+
+    return { status: 'saved', errors: {}, message: 'Organizer saved' };
+}
@@ -0,0 +1,167 @@
+'use server';
+
+import Event, { IEvent, ITicketTier } from '@/database/event.model';
+import PromoCode from '@/database/promo-code.model';
+import { Error as MongooseError, isValidObjectId, Types } from 'mongoose';
+
+import connectDB from "@/lib/mongodb";
+import { getValidationErrors, isDuplicateKeyError } from "@/lib/api";
+import { AuthUser, canManageEvent, getCurrentUser, hasRole } from "@/lib/auth";
+import { normalizePromoCode } from "@/lib/promo-codes";
+import { toMinorUnits } from "@/lib/tickets";
+import { revalidatePath } from "next/cache";
+
+export type PromoCodeFormState = {
+    status: 'idle' | 'error' | 'saved';
+    // Validation messages keyed by form field
+    errors: Record<string, string>;
+    message?: string;
+};
+
+// An event a code can be restricted to, with its ticket tiers
+export type PromoCodeEventOption = {
+    id: string;
+    title: string;
+    tiers: { id: string; name: string }[];
+};
+
+// Events whose codes a user may manage: admins manage all of them, organizers their own
+const managedEventsFilter = (user: AuthUser) => user.role === 'admin' ? {} : { organizer: user._id };
+
+export const getPromoCodeEventOptions = async (): Promise<PromoCodeEventOption[]> => {
+    try {
+        await connectDB();
+
+        const user = await getCurrentUser();
+
+        if (!hasRole(user, 'organizer', 'admin')) return [];
+
+        const events = await Event.find(managedEventsFilter(user))
+            .select('title ticketTiers')
+            .sort({ startsAt: -1 })
+            .lean<Pick<IEvent, '_id' | 'title' | 'ticketTiers'>[]>();
+
+        return events.map((event) => ({
+            id: String(event._id),
+            title: event.title,
+            tiers: (event.ticketTiers ?? []).map((tier: ITicketTier) => ({ id: String(tier._id), name: tier.name })),
+        }));
+    } catch {
+        return [];
+    }
+}
+
+// Value of a datetime-local input, read as UTC
+const readInstant = (value: FormDataEntryValue | null) =>
+    typeof value === 'string' && value ? new Date(`${value}Z`) : null;
+
+const readNumber = (value: FormDataEntryValue | null) =>
+    typeof value === 'string' && value.trim() !== '' ? Number(value) : null;
+
+/**
+ * Creates a promo code from the admin form. Organizers must restrict codes
+ * to events they manage; only admins can create codes valid for every event.
+ * Fixed discounts are entered as decimal amounts of their currency.
+ */
+export const savePromoCode = async (prevState: PromoCodeFormState, formData: FormData): Promise<PromoCodeFormState> => {
+    try {
+        await connectDB();
+
+        const user = await getCurrentUser();
+
+        if (!hasRole(user, 'organizer', 'admin')) {
+            return { status: 'error', errors: {}, message: 'Only organizers can manage promo codes' };
+        }
+
+        const eventIds = formData.getAll('eventIds').filter((id): id is string => typeof id === 'string' && isValidObjectId(id));
+        const tierIds = formData.getAll('tierIds').filter((id): id is string => typeof id === 'string' && isValidObjectId(id));
+
+        const events = await Event.find({ _id: { $in: eventIds } })
+            .select('organizer ticketTiers')
+            .lean<Pick<IEvent, '_id' | 'organizer' | 'ticketTiers'>[]>();
+
+        if (eventIds.length === 0 && user.role !== 'admin') {
+            return { status: 'error', errors: { eventIds: 'Choose the events this code is for' } };
+        }
+
+        if (events.length !== eventIds.length || !events.every((event) => canManageEvent(user, event))) {
+            return { status: 'error', errors: { eventIds: 'You can only create codes for your own events' } };
+        }
+
+        // Tiers must belong to the chosen events, or to any managed event for codes valid everywhere
+        const tierOwners = eventIds.length > 0
+            ? events
+            : await Event.find({ 'ticketTiers._id': { $in: tierIds } }).select('ticketTiers').lean<Pick<IEvent, 'ticketTiers'>[]>();
+        const knownTiers = new Set(tierOwners.flatMap((event) => (event.ticketTiers ?? []).map((tier: ITicketTier) => String(tier._id))));
+
+        if (!tierIds.every((id) => knownTiers.has(id))) {
+            return { status: 'error', errors: { tierIds: 'Choose tickets of the selected events' } };
+        }
+
+        const discountType = formData.get('discountType');
+        const currency = String(formData.get('currency') ?? '').trim().toUpperCase();
+        const discount = String(formData.get('discountValue') ?? '').trim();
+
+        const discountValue = discountType === 'fixed'
+            ? toMinorUnits(discount, currency)
+            : readNumber(discount);
+
+        await PromoCode.create({
+            code: normalizePromoCode(String(formData.get('code') ?? '')),
+            discountType,
+            discountValue,
+            currency: discountType === 'fixed' ? currency || undefined : undefined,
+            maxRedemptions: readNumber(formData.get('maxRedemptions')),
+            maxPerEmail: readNumber(formData.get('maxPerEmail')) ?? 1,
+            validFrom: readInstant(formData.get('validFrom')),
+            validUntil: readInstant(formData.get('validUntil')),
+            eventIds,
+            tierIds,
+            createdBy: user._id,
+        });
+    } catch (e) {
+        if (e instanceof MongooseError.ValidationError) {
+            return { status: 'error', errors: getValidationErrors(e) };
+        }
+
+        if (isDuplicateKeyError(e)) {
+            return { status: 'error', errors: { code: 'This code already exists' } };
+        }
+
+        console.error('save promo code failed', e);
+        return { status: 'error', errors: {}, message: 'Something went wrong while saving' };
+    }
+
+    revalidatePath('/admin/promo-codes');
+
+    return { status: 'saved', errors: {}, message: 'Promo code created' };
+}
+
+/**
+ * Switches a code on or off. Codes can be changed by admins and by whoever
+ * created them.
+ */
+export const setPromoCodeActive = async (promoCodeId: string, active: boolean) => {
+    try {
+        if (!isValidObjectId(promoCodeId)) return { success: false };
+
+        await connectDB();
+
+        const user = await getCurrentUser();
+
+        if (!hasRole(user, 'organizer', 'admin')) return { success: false };
+
+        const promo = await PromoCode.findById(promoCodeId).select('createdBy').lean<{ createdBy: Types.ObjectId }>();
+
+        if (!promo || (user.role !== 'admin' && !promo.createdBy.equals(user._id))) return { success: false };
+
+        await PromoCode.updateOne({ _id: promoCodeId }, { $set: { active } });
+
+        revalidatePath('/admin/promo-codes');
+
+        return { success: true };
+    } catch (e) {
+        console.error('update promo code failed', e);
+        return { success: false };
+    }
+}
@@ -0,0 +1,164 @@
+'use server';
+
+import { Error as MongooseError, Types } from 'mongoose';
+import Event, { IAgendaItem, IEvent, IEventSession } from '@/database/event.model';
+import Speaker, { ISpeaker, SPEAKER_NAME_COLLATION } from '@/database/speaker.model';
+import connectDB from "@/lib/mongodb";
+import { getValidationErrors, isDuplicateKeyError } from "@/lib/api";
+import { getCurrentUser, hasRole } from "@/lib/auth";
+import { collectLinkErrors, parseSocialLinks } from "@/lib/social-links";
+import { formatAgendaTime } from "@/lib/agenda";
+import { formatDateTime } from "@/lib/timezone";
+import { PROFILE_EVENT_FILTER } from "@/lib/event-status";
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+
+export type SpeakerTalk = {
+    id: string;
+    title: string;
+    // When the talk happens, e.g. "Day 2 · 09:00–10:00"; empty for untimed agenda items
+    when: string;
+};
+
+// An event a speaker appears at, with their talks there (none for headline-only appearances)
+export type SpeakerAppearance = {
+    event: IEvent;
+    talks: SpeakerTalk[];
+};
+
+export type SpeakerFormState = {
+    status: 'idle' | 'error' | 'saved';
+    // Validation messages keyed by form field
+    errors: Record<string, string>;
+    message?: string;
+};
+
+export type SpeakerWithTalks = {
+    speaker: ISpeaker;
+    upcoming: SpeakerAppearance[];
+    past: SpeakerAppearance[];
+};
+
+const includes = (speakers: Types.ObjectId[] | undefined, id: Types.ObjectId) =>
+    (speakers ?? []).some((speaker) => speaker.equals(id));
+
+const findTalks = (event: IEvent, speakerId: Types.ObjectId): SpeakerTalk[] => {
+    const multiDay = event.agenda.some((item: IAgendaItem) => item.day > 1);
+
+    return [
+        ...(event.sessions ?? [])
+            .filter((session: IEventSession) => includes(session.speakers, speakerId))
+            .map((session: IEventSession) => ({
+                id: String(session._id),
+                title: session.title,
+                when: formatDateTime(session.startsAt, event.timezone),
+            })),
+        ...event.agenda
+            .filter((item: IAgendaItem) => includes(item.speakers, speakerId))
+            .map((item: IAgendaItem) => ({
+                id: String(item._id),
+                title: item.title,
+                when: [multiDay && `Day ${item.day}`, formatAgendaTime(item)].filter(Boolean).join(' · '),
+            })),
+    ];
+}
+
+export const getSpeakers = async (): Promise<ISpeaker[]> => {
+    try {
+        await connectDB();
+        return await Speaker.find().sort({ name: 1 }).collation(SPEAKER_NAME_COLLATION).lean<ISpeaker[]>();
+    } catch {
+        return [];
+    }
+}
+
+export const getSpeakerWithTalks = async (slug: string): Promise<SpeakerWithTalks | null> => {
+    try {
+        await connectDB();
+        const speaker = await Speaker.findOne({ slug }).lean<ISpeaker>();
+
+        if (!speaker) return null;
+
+        const speakerId = speaker._id as Types.ObjectId;
+        const events = await Event.find({
+            ...PROFILE_EVENT_FILTER,
+            $or: [{ speakers: speakerId }, { 'agenda.speakers': speakerId }, { 'sessions.speakers': speakerId }],
+        })
+            .sort({ startsAt: 1 })
+            .lean<IEvent[]>();
+
+        const now = new Date();
+        const appearances = events.map((event) => ({ event, talks: findTalks(event, speakerId) }));
+
+        return {
+            speaker,
+            upcoming: appearances.filter(({ event }) => event.startsAt >= now),
+            // Most recent first
+            past: appearances.filter(({ event }) => event.startsAt < now).reverse(),
+        };
+    } catch {
+        return null;
+    }
+}
+
+// Blank fields clear what the profile had
+const readText = (value: FormDataEntryValue | null) =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * Saves a speaker's profile from the admin editor. Speakers appear at events
+ * of every organizer, so only admins edit them. Renaming a speaker moves the
+ * profile to a new slug.
+ */
+export const saveSpeaker = async (slug: string, prevState: SpeakerFormState, formData: FormData): Promise<SpeakerFormState> => {
+    let savedSlug: string;
+
+    try {
+        await connectDB();
+
+        if (!hasRole(await getCurrentUser(), 'admin')) {
+            return { status: 'error', errors: {}, message: 'Only admins can edit speaker profiles' };
+        }
+
+        const speaker = await Speaker.findOne({ slug });
+
+        if (!speaker) return { status: 'error', errors: {}, message: 'This speaker no longer exists' };
+
+        speaker.set({
+            name: String(formData.get('name') ?? ''),
+            bio: readText(formData.get('bio')),
+            photo: readText(formData.get('photo')),
+            company: readText(formData.get('company')),
+            links: parseSocialLinks(String(formData.get('links') ?? '')),
+        });
+        await speaker.save();
+
+        savedSlug = speaker.slug;
+    } catch (e) {
+        if (e instanceof MongooseError.ValidationError) {
+            return { status: 'error', errors: collectLinkErrors(getValidationErrors(e), 'links') };
+        }
+
+        if (isDuplicateKeyError(e) && e.keyValue && 'name' in e.keyValue) {
+            return { status: 'error', errors: { name: 'Another speaker already has this name' } };
+        }
+
+        // Another speaker was given the same slug while this one was renamed
+        if (isDuplicateKeyError(e)) {
+            return { status: 'error', errors: {}, message: 'Another speaker took this slug meanwhile; save again' };
+        }
+
+        console.error('save speaker failed', e);
+        return { status: 'error', errors: {}, message: 'Something went wrong while saving' };
+    }
+
+    revalidatePath('/admin/speakers', 'layout');
+    revalidatePath('/speakers', 'layout');
+
+    // A renamed speaker lives at a new URL
+    if (savedSlug !== slug) {
+        redirect(`/admin/speakers/${savedSlug}`);
+    }
+
+    return { status: 'saved', errors: {}, message: 'Speaker saved' };
+}
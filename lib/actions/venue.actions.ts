@@ -0,0 +1,109 @@
+'use server';
+
+import { Error as MongooseError, isValidObjectId } from 'mongoose';
+import Event from '@/database/event.model';
+import Venue, { IVenue } from '@/database/venue.model';
+import connectDB from "@/lib/mongodb";
+import { getValidationErrors } from "@/lib/api";
+import { getCurrentUser, hasRole } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+
+export type VenueOption = { id: string; name: string; address: string; capacity?: number };
+
+export type VenueFormState = {
+    status: 'idle' | 'error' | 'saved';
+    // Validation messages keyed by form field
+    errors: Record<string, string>;
+    message?: string;
+};
+
+export const getVenueOptions = async (): Promise<VenueOption[]> => {
+    try {
+        await connectDB();
+        const venues = await Venue.find().select('name address capacity').sort({ name: 1 }).lean<IVenue[]>();
+
+        return venues.map((venue) => ({
+            id: String(venue._id),
+            name: venue.name,
+            address: venue.address,
+            capacity: venue.capacity,
+        }));
+    } catch {
+        return [];
+    }
+}
+
+const readNumber = (value: FormDataEntryValue | null) =>
+    typeof value === 'string' && value.trim() !== '' ? Number(value) : null;
+
+/**
+ * Creates a venue from the admin form, or with an id updates that venue.
+ * Venues can be picked for any organizer's events, so only admins manage
+ * them. Blank coordinates are looked up from the address.
+ */
+export const saveVenue = async (id: string | null, prevState: VenueFormState, formData: FormData): Promise<VenueFormState> => {
+    let savedId: string;
+
+    try {
+        await connectDB();
+
+        if (!hasRole(await getCurrentUser(), 'admin')) {
+            return { status: 'error', errors: {}, message: 'Only admins can manage venues' };
+        }
+
+        const venue = id === null ? new Venue() : isValidObjectId(id) ? await Venue.findById(id) : null;
+
+        if (!venue) return { status: 'error', errors: {}, message: 'This venue no longer exists' };
+
+        const lat = readNumber(formData.get('latitude'));
+        const lng = readNumber(formData.get('longitude'));
+
+        if ((lat === null) !== (lng === null)) {
+            return { status: 'error', errors: { coordinates: 'Enter both latitude and longitude, or neither' } };
+        }
+
+        const capacity = readNumber(formData.get('capacity'));
+
+        // Events keep their seats when the venue shrinks, so it can't shrink below them
+        if (capacity !== null && !venue.isNew) {
+            const larger = await Event.countDocuments({ venueId: venue._id, capacity: { $gt: capacity } });
+
+            if (larger > 0) {
+                return {
+                    status: 'error',
+                    errors: { capacity: `${larger} ${larger === 1 ? 'event here has' : 'events here have'} more seats than that` },
+                };
+            }
+        }
+
+        venue.set({
+            name: String(formData.get('name') ?? ''),
+            address: String(formData.get('address') ?? ''),
+            location: lat === null || lng === null ? undefined : { type: 'Point', coordinates: [lng, lat] },
+            capacity,
+        });
+        await venue.save();
+
+        savedId = String(venue._id);
+    } catch (e) {
+        if (e instanceof MongooseError.ValidationError) {
+            const { location, 'location.coordinates': coordinates, ...errors } = getValidationErrors(e);
+            const coordinateError = coordinates ?? location;
+
+            return { status: 'error', errors: coordinateError ? { ...errors, coordinates: coordinateError } : errors };
+        }
+
+        console.error('save venue failed', e);
+        return { status: 'error', errors: {}, message: 'Something went wrong while saving' };
+    }
+
+    revalidatePath('/admin', 'layout');
+    revalidatePath('/events');
+
+    if (savedId !== id) {
+        redirect(`/admin/venues/${savedId}`);
+    }
+
+    return { status: 'saved', errors: {}, message: 'Venue saved' };
+}
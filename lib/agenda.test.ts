@@ -0,0 +1,116 @@
+import { describe, it, expect } from '@jest/globals';
+import { findAgendaOverlap, formatAgendaTime, groupAgendaByTrack, parseAgendaText, toAgendaTime } from './agenda';
+
+describe('toAgendaTime', () => {
+  it('should convert 12-hour and 24-hour times to HH:MM', () => {
+    expect(toAgendaTime('9:00')).toBe('09:00');
+    expect(toAgendaTime('9:30 PM')).toBe('21:30');
+    expect(toAgendaTime('12:15 am')).toBe('00:15');
+  });
+
+  it('should reject invalid times', () => {
+    expect(toAgendaTime('24:00')).toBeNull();
+    expect(toAgendaTime('13:00 PM')).toBeNull();
+    expect(toAgendaTime('noon')).toBeNull();
+  });
+});
+
+describe('parseAgendaText', () => {
+  it('should read start time, title and speaker', () => {
+    expect(parseAgendaText('09:00 Keynote – Jane Doe')).toEqual({
+      day: 1,
+      startTime: '09:00',
+      title: 'Keynote',
+      speakers: ['Jane Doe'],
+    });
+  });
+
+  it('should read time ranges and several speakers', () => {
+    expect(parseAgendaText('10:30 AM - 11:15 AM: Panel by Jane Doe, John Smith & Ana Lima')).toEqual({
+      day: 1,
+      startTime: '10:30',
+      endTime: '11:15',
+      title: 'Panel',
+      speakers: ['Jane Doe', 'John Smith', 'Ana Lima'],
+    });
+  });
+
+  it('should keep text that does not name people in the title', () => {
+    expect(parseAgendaText('12:00 Lunch – provided')).toMatchObject({ title: 'Lunch – provided', speakers: [] });
+    expect(parseAgendaText('Q&A - Open Floor Discussion Time Here')).toMatchObject({ speakers: [] });
+  });
+
+  it('should leave speaker names in the title when asked to', () => {
+    expect(parseAgendaText('09:00 Keynote – Jane Doe', { readSpeakers: false })).toEqual({
+      day: 1,
+      startTime: '09:00',
+      title: 'Keynote – Jane Doe',
+      speakers: [],
+    });
+  });
+
+  it('should leave untimed or malformed lines as a title only', () => {
+    expect(parseAgendaText('  Networking  ')).toEqual({ day: 1, title: 'Networking', speakers: [] });
+    expect(parseAgendaText('11:00-10:00 Time travel')).toEqual({ day: 1, title: '11:00-10:00 Time travel', speakers: [] });
+  });
+});
+
+describe('findAgendaOverlap', () => {
+  it('should report overlapping items in the same track and day', () => {
+    const keynote = { day: 1, startTime: '09:00', endTime: '10:00' };
+    const workshop = { day: 1, startTime: '09:30', endTime: '11:00' };
+
+    expect(findAgendaOverlap([workshop, keynote])).toEqual([keynote, workshop]);
+  });
+
+  it('should treat items without an end time as taking only their start time', () => {
+    expect(findAgendaOverlap([{ day: 1, startTime: '09:00' }, { day: 1, startTime: '09:00' }])).not.toBeNull();
+    expect(findAgendaOverlap([{ day: 1, startTime: '09:00' }, { day: 1, startTime: '09:01' }])).toBeNull();
+  });
+
+  it('should allow back-to-back items and parallel tracks or days', () => {
+    expect(
+      findAgendaOverlap([
+        { day: 1, startTime: '09:00', endTime: '10:00' },
+        { day: 1, startTime: '10:00', endTime: '11:00' },
+        { day: 1, startTime: '09:30', endTime: '10:30', track: 'Workshops' },
+        { day: 2, startTime: '09:30', endTime: '10:30' },
+        { day: 1, title: 'Untimed' },
+      ])
+    ).toBeNull();
+  });
+});
+
+describe('groupAgendaByTrack', () => {
+  it('should group by track in order of appearance and sort by day and time', () => {
+    const groups = groupAgendaByTrack([
+      { title: 'Lunch', day: 1, startTime: '12:00' },
+      { title: 'Lab', day: 1, startTime: '10:00', track: 'Workshops' },
+      { title: 'Day two', day: 2, startTime: '09:00' },
+      { title: 'Keynote', day: 1, startTime: '09:00', track: '' },
+    ]);
+
+    expect(groups.map(({ track, items }) => [track, items.map((item) => item.title)])).toEqual([
+      ['Main track', ['Keynote', 'Lunch', 'Day two']],
+      ['Workshops', ['Lab']],
+    ]);
+  });
+
+  it('should keep untimed items after the item they followed', () => {
+    const groups = groupAgendaByTrack([
+      { title: 'Talk', day: 1, startTime: '11:00' },
+      { title: 'Q&A', day: 1 },
+      { title: 'Opening', day: 1, startTime: '09:00' },
+    ]);
+
+    expect(groups[0].items.map((item) => item.title)).toEqual(['Opening', 'Talk', 'Q&A']);
+  });
+});
+
+describe('formatAgendaTime', () => {
+  it('should format ranges, start times and untimed items', () => {
+    expect(formatAgendaTime({ startTime: '09:00', endTime: '10:00' })).toBe('09:00–10:00');
+    expect(formatAgendaTime({ startTime: '09:00' })).toBe('09:00');
+    expect(formatAgendaTime({})).toBe('');
+  });
+});
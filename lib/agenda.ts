@@ -0,0 +1,153 @@
+/**
+ * Structured agenda items. Times are wall-clock HH:MM in the event's
+ * timezone, and `day` counts from the event's first day, so an agenda moves
+ * with its event when it is rescheduled.
+ */
+
+// Speakers are names when parsed from text and speaker references once stored
+export type AgendaItem<Speaker = string> = {
+  // 1 for the event's first day, 2 for the next, ...
+  day: number;
+  startTime?: string;
+  endTime?: string;
+  title: string;
+  description?: string;
+  speakers: Speaker[];
+  track?: string;
+};
+
+// Track for items that don't name one
+export const DEFAULT_TRACK = 'Main track';
+
+const TIME = String.raw`(\d{1,2}:\d{2}(?:\s*[AP]M)?)`;
+const TIMED_ITEM = new RegExp(String.raw`^${TIME}(?:\s*[-–—]\s*${TIME})?\s*(?:[:|–—-]\s*)?(.+)$`, 'i');
+
+// Two to four capitalized words, e.g. "Jane Doe" or "Mary Ann O'Neil"
+const PERSON_NAME = /^\p{Lu}[\p{L}'.-]*(?:\s+\p{Lu}[\p{L}'.-]*){1,3}$/u;
+
+/**
+ * Converts "9:00 AM" or "09:00" to "09:00".
+ * @returns The 24-hour time, or null if it isn't a valid time
+ */
+export function toAgendaTime(value: string): string | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?:\s*([AP]M))?$/i);
+
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const period = match[3]?.toUpperCase();
+
+  if (period) {
+    if (hours < 1 || hours > 12) return null;
+    if (period === 'PM' && hours !== 12) hours += 12;
+    if (period === 'AM' && hours === 12) hours = 0;
+  }
+
+  if (hours > 23 || minutes > 59) return null;
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Best-effort parse of a free-text agenda line such as
+ * "09:00 Keynote – Jane Doe" or "10:30-11:15: Workshop". A trailing part
+ * after a dash becomes the speakers only if it reads like people's names;
+ * anything that can't be parsed stays in the title.
+ * @param readSpeakers - Set to false to leave names in the title
+ */
+export function parseAgendaText(text: string, { readSpeakers = true } = {}): AgendaItem {
+  const item: AgendaItem = { day: 1, title: text.trim(), speakers: [] };
+  const match = item.title.match(TIMED_ITEM);
+
+  if (match) {
+    const startTime = toAgendaTime(match[1]);
+    const endTime = match[2] ? toAgendaTime(match[2]) : null;
+
+    if (startTime && (!match[2] || (endTime && endTime > startTime))) {
+      item.startTime = startTime;
+      if (endTime) item.endTime = endTime;
+      item.title = match[3].trim();
+    }
+  }
+
+  const byline = readSpeakers ? item.title.match(/^(.+?)\s+(?:[–—-]|by)\s+([^–—]+)$/) : null;
+
+  if (byline) {
+    const speakers = byline[2].split(/\s*(?:,|&|\band\b)\s*/).map((name) => name.trim()).filter(Boolean);
+
+    if (speakers.length > 0 && speakers.every((name) => PERSON_NAME.test(name))) {
+      item.title = byline[1].trim();
+      item.speakers = speakers;
+    }
+  }
+
+  return item;
+}
+
+type TimedItem = Pick<AgendaItem, 'day' | 'startTime' | 'endTime' | 'track'>;
+
+/**
+ * Finds the first pair of items in the same track and day whose times
+ * overlap. Items without an end time occupy only their start time; items
+ * without a start time are ignored.
+ * @returns The earlier and the overlapping item, or null if none overlap
+ */
+export function findAgendaOverlap<T extends TimedItem>(items: T[]): [T, T] | null {
+  const slots = new Map<string, T[]>();
+
+  for (const item of items) {
+    if (!item.startTime) continue;
+
+    const key = `${item.track || DEFAULT_TRACK}\n${item.day ?? 1}`;
+    slots.set(key, [...(slots.get(key) ?? []), item]);
+  }
+
+  for (const slot of slots.values()) {
+    const sorted = [...slot].sort((a, b) => a.startTime!.localeCompare(b.startTime!));
+
+    for (let i = 1; i < sorted.length; i++) {
+      const previous = sorted[i - 1];
+      const current = sorted[i];
+
+      if (current.startTime === previous.startTime || current.startTime! < (previous.endTime ?? previous.startTime!)) {
+        return [previous, current];
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Groups items by track, in the order tracks first appear, and orders each
+ * track by day and start time. Untimed items stay right after the item they
+ * were entered after.
+ */
+export function groupAgendaByTrack<T extends TimedItem>(items: T[]): { track: string; items: T[] }[] {
+  const tracks = new Map<string, { item: T; sortKey: string }[]>();
+  let lastKey = '';
+
+  for (const item of items) {
+    const day = String(item.day ?? 1).padStart(3, '0');
+    // Keys of untimed items inherit the time of the item before them
+    lastKey = item.startTime ? `${day} ${item.startTime}` : lastKey.startsWith(day) ? lastKey : `${day}`;
+
+    const track = item.track || DEFAULT_TRACK;
+    tracks.set(track, [...(tracks.get(track) ?? []), { item, sortKey: lastKey }]);
+  }
+
+  return [...tracks.entries()].map(([track, entries]) => ({
+    track,
+    items: entries.sort((a, b) => a.sortKey.localeCompare(b.sortKey)).map(({ item }) => item),
+  }));
+}
+
+/**
+ * Formats an item's time range, e.g. "09:00–10:00", or "" for untimed items.
+ */
+export function formatAgendaTime(item: Pick<AgendaItem, 'startTime' | 'endTime'>): string {
+  if (!item.startTime) return '';
+
+  return item.endTime ? `${item.startTime}–${item.endTime}` : item.startTime;
+}
@@ -0,0 +1,144 @@
+import { Error as MongooseError } from 'mongoose';
+import { NextResponse } from 'next/server';
+
+// Shape of the MongoDB driver error raised when a unique index is violated
+type DuplicateKeyError = {
+  code: number;
+  keyValue?: Record<string, unknown>;
+};
+
+export function isDuplicateKeyError(e: unknown): e is DuplicateKeyError {
+  return typeof e === 'object' && e !== null && (e as DuplicateKeyError).code === 11000;
+}
+
+/**
+ * Flattens a Mongoose ValidationError into a `{ field: message }` map.
+ */
+export function getValidationErrors(e: MongooseError.ValidationError): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  for (const [field, error] of Object.entries(e.errors)) {
+    errors[field] = error.message;
+  }
+
+  return errors;
+}
+
+/**
+ * Response for a request the caller may not make: 401 when nobody is signed
+ * in, 403 when the signed-in user lacks permission.
+ * @param signedIn - Whether the request carried a valid session
+ * @param message - Human readable summary of the failed operation
+ */
+export function accessDenied(signedIn: boolean, message: string): NextResponse {
+  return signedIn
+    ? NextResponse.json({ message, error: 'You do not have permission to do this' }, { status: 403 })
+    : NextResponse.json({ message, error: 'Authentication required' }, { status: 401 });
+}
+
+/**
+ * Maps an error thrown while handling an API request to a JSON response.
+ * Schema validation and malformed ids become 400s, unique index violations
+ * become 409s and everything else is logged and reported as a bare 500.
+ * @param e - The caught error
+ * @param message - Human readable summary of the failed operation
+ */
+export function handleApiError(e: unknown, message: string): NextResponse {
+  if (e instanceof MongooseError.ValidationError) {
+    return NextResponse.json(
+      { message, error: 'Validation failed', errors: getValidationErrors(e) },
+      { status: 400 }
+    );
+  }
+
+  // Pre-save hooks flag their own failures by naming plain errors 'ValidationError'
+  if (e instanceof Error && e.name === 'ValidationError') {
+    return NextResponse.json({ message, error: e.message }, { status: 400 });
+  }
+
+  if (e instanceof MongooseError.CastError) {
+    return NextResponse.json(
+      { message, error: `Invalid value for ${e.path}` },
+      { status: 400 }
+    );
+  }
+
+  if (isDuplicateKeyError(e)) {
+    const fields = Object.keys(e.keyValue ?? {}).join(', ') || 'key';
+    return NextResponse.json(
+      { message, error: `Duplicate value for ${fields}` },
+      { status: 409 }
+    );
+  }
+
+  // Driver errors can name hosts and connection strings, so they stay in the server log
+  console.error(e);
+
+  return NextResponse.json({ message }, { status: 500 });
+}
+
+/**
+ * Parses a positive integer query parameter, falling back to a default and
+ * clamping to an optional maximum.
+ */
+export function parsePositiveInt(value: string | null, fallback: number, max?: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+
+  if (!Number.isFinite(parsed) || parsed < 1) return fallback;
+
+  return max ? Math.min(parsed, max) : parsed;
+}
+
+/**
+ * Copies only the allowed keys from an untrusted request body.
+ */
+export function pickFields<K extends string>(
+  body: unknown,
+  fields: readonly K[]
+): Partial<Record<K, unknown>> {
+  const picked: Partial<Record<K, unknown>> = {};
+
+  if (typeof body !== 'object' || body === null) return picked;
+
+  for (const field of fields) {
+    if (field in body) {
+      picked[field] = (body as Record<string, unknown>)[field];
+    }
+  }
+
+  return picked;
+}
+
+/**
+ * Converts multipart form fields into a plain body. List fields accept either
+ * repeated entries or a single JSON-encoded array.
+ */
+export function formDataToBody(
+  formData: FormData,
+  fields: readonly string[],
+  listFields: readonly string[] = []
+): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    const values = formData.getAll(field).filter((value): value is string => typeof value === 'string');
+
+    if (values.length === 0) continue;
+
+    if (listFields.includes(field)) {
+      if (values.length === 1 && values[0].trim().startsWith('[')) {
+        try {
+          body[field] = JSON.parse(values[0]);
+          continue;
+        } catch {
+          // Fall through and treat it as a single plain item
+        }
+      }
+      body[field] = values;
+    } else {
+      body[field] = values[0];
+    }
+  }
+
+  return body;
+}
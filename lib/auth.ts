@@ -0,0 +1,140 @@
+import { createHash, randomBytes } from 'crypto';
+import { cache } from 'react';
+import { cookies } from 'next/headers';
+import { Types } from 'mongoose';
+import User, { UserRole } from '@/database/user.model';
+import Session from '@/database/session.model';
+import connectDB from '@/lib/mongodb';
+import { sendMail } from '@/lib/mail';
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
+
+export const SESSION_COOKIE = 'session';
+
+// Sign-in links are single use and expire after 15 minutes
+const LOGIN_LINK_TTL_MS = 15 * 60 * 1000;
+
+// Sessions last 30 days from sign-in
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type AuthUser = {
+  _id: Types.ObjectId;
+  email: string;
+  name?: string;
+  role: UserRole;
+};
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function createRandomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Accepts only same-site paths for post sign-in redirects, so the `next`
+ * parameter can't send people to another origin.
+ */
+export function safeRedirectPath(path: string | null | undefined, fallback = '/'): string {
+  if (!path || !path.startsWith('/') || path.startsWith('//') || path.startsWith('/\\')) {
+    return fallback;
+  }
+
+  return path;
+}
+
+/**
+ * Emails a single-use sign-in link, creating an attendee account for
+ * addresses we haven't seen before.
+ * @param next - Path to land on after signing in
+ */
+export async function sendLoginLink(email: string, next = '/'): Promise<void> {
+  const token = createRandomToken();
+
+  await User.findOneAndUpdate(
+    { email: email.trim().toLowerCase() },
+    {
+      $set: { loginTokenHash: hashToken(token), loginTokenExpiresAt: new Date(Date.now() + LOGIN_LINK_TTL_MS) },
+      $setOnInsert: { role: 'attendee' },
+    },
+    { upsert: true, runValidators: true }
+  );
+
+  const params = new URLSearchParams({ token, next: safeRedirectPath(next) });
+
+  await sendMail({
+    to: email,
+    subject: 'Your sign-in link',
+    text: `Sign in to DevEvent: ${BASE_URL}/auth/verify?${params}\n\nThis link expires in 15 minutes. If you didn't ask for it, you can ignore this email.`,
+  });
+}
+
+/**
+ * Exchanges a sign-in link token for the user it was issued to. The token is
+ * cleared in the same update, so each link works once.
+ * @returns The user, or null if the token is unknown or expired
+ */
+export async function consumeLoginToken(token: string): Promise<AuthUser | null> {
+  return User.findOneAndUpdate(
+    { loginTokenHash: hashToken(token), loginTokenExpiresAt: { $gt: new Date() } },
+    { $unset: { loginTokenHash: 1, loginTokenExpiresAt: 1 } },
+    { new: true }
+  ).lean<AuthUser>();
+}
+
+/**
+ * Starts a session for a user.
+ * @returns The cookie value and when it expires
+ */
+export async function createSession(userId: Types.ObjectId): Promise<{ token: string; expiresAt: Date }> {
+  const token = createRandomToken();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await Session.create({ tokenHash: hashToken(token), userId, expiresAt });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Ends the session identified by a cookie value.
+ */
+export async function destroySession(token: string): Promise<void> {
+  await Session.deleteOne({ tokenHash: hashToken(token) });
+}
+
+/**
+ * Resolves the signed-in user from the session cookie. Memoized per request.
+ * @returns The user, or null for anonymous visitors and expired sessions
+ */
+export const getCurrentUser = cache(async (): Promise<AuthUser | null> => {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+
+  if (!token) return null;
+
+  await connectDB();
+
+  // The TTL index removes expired sessions lazily, so check the expiry here too
+  const session = await Session.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } })
+    .select('userId')
+    .lean<{ userId: Types.ObjectId }>();
+
+  if (!session) return null;
+
+  return User.findById(session.userId).select('email name role').lean<AuthUser>();
+});
+
+export function hasRole(user: AuthUser | null, ...roles: UserRole[]): user is AuthUser {
+  return user !== null && roles.includes(user.role);
+}
+
+/**
+ * Whether a user may edit an event and see its bookings: admins can manage
+ * every event, organizers only the ones they own.
+ */
+export function canManageEvent(user: AuthUser | null, event: { organizer?: Types.ObjectId | string | null }): boolean {
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+
+  return user.role === 'organizer' && !!event.organizer && String(event.organizer) === String(user._id);
+}
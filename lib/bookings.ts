@@ -0,0 +1,605 @@
+import { isValidObjectId, Types } from 'mongoose';
+import Event, { IEvent, IEventSession, ITicketTier } from '@/database/event.model';
+import Booking, { IBooking, SEATLESS_STATUSES } from '@/database/booking.model';
+import PromoCode, { IPromoCode } from '@/database/promo-code.model';
+import { createSignedCode, signToken, verifySignedCode, verifyToken } from '@/lib/tokens';
+import { notify } from '@/lib/notifications';
+import { getPaymentProvider } from '@/lib/payments';
+import { formatPrice, ticketCounterKey } from '@/lib/tickets';
+import { escapeRegex } from '@/lib/utils';
+import { formatDateTime } from '@/lib/timezone';
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
+
+// Magic links for managing bookings stay valid for 30 days
+const MANAGE_LINK_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+type Id = Types.ObjectId | string;
+
+// Bookings holding a seat; those created before the waitlist existed have no status and hold one
+const SEAT_HOLDING = { status: { $nin: SEATLESS_STATUSES } };
+
+/**
+ * Backfills `seatsTaken` for events created before capacity tracking existed,
+ * so that a capacity added later is enforced against existing bookings.
+ */
+async function ensureSeatCounter(eventId: Id): Promise<void> {
+  const untracked = await Event.exists({ _id: eventId, seatsTaken: { $exists: false } });
+
+  if (!untracked) return;
+
+  const seatsTaken = await Booking.countDocuments({ eventId, ...SEAT_HOLDING });
+  await Event.updateOne({ _id: eventId, seatsTaken: { $exists: false } }, { $set: { seatsTaken } });
+}
+
+/**
+ * What a booking holds a seat for: the whole event (no fields), one
+ * occurrence of a recurring event or one session of a multi-session event.
+ */
+export type BookingTarget = {
+  occurrenceStart?: Date | null;
+  sessionId?: Id | null;
+};
+
+export function getBookingTarget(booking: Partial<Pick<IBooking, 'occurrenceStart' | 'sessionId'>>): BookingTarget {
+  return { occurrenceStart: booking.occurrenceStart ?? null, sessionId: booking.sessionId ?? null };
+}
+
+/**
+ * Names what a booking is for, e.g. "Tue, Mar 10, 2026, 6:00 PM EDT" for an
+ * occurrence or the session title.
+ * @returns The label, or null for whole-event bookings
+ */
+export function describeBookingTarget(
+  event: { timezone?: string; sessions?: Pick<IEventSession, '_id' | 'title'>[] },
+  target: BookingTarget
+): string | null {
+  if (target.occurrenceStart) return formatDateTime(target.occurrenceStart, event.timezone);
+
+  if (target.sessionId) {
+    return event.sessions?.find((session) => String(session._id) === String(target.sessionId))?.title ?? 'Removed session';
+  }
+
+  return null;
+}
+
+// Booking query matching exactly one target; missing fields match whole-event bookings
+function targetFilter(target: BookingTarget) {
+  return { occurrenceStart: target.occurrenceStart ?? null, sessionId: target.sessionId ?? null };
+}
+
+// Key of a target's entry in the event's `targetSeats`, or null for the whole event
+function targetKey(target: BookingTarget): string | null {
+  if (target.occurrenceStart) return `occurrence:${new Date(target.occurrenceStart).toISOString()}`;
+  if (target.sessionId) return `session:${target.sessionId}`;
+
+  return null;
+}
+
+/**
+ * Seats available to a target: the event capacity for occurrences, the
+ * session's own capacity for sessions. null means unlimited.
+ */
+async function getTargetCapacity(eventId: Id, target: BookingTarget): Promise<number | null | undefined> {
+  const event = await Event.findById(eventId).select('capacity sessions');
+
+  if (!event) return undefined;
+
+  if (target.sessionId) {
+    const session = event.sessions.find((session: IEventSession) => session._id.equals(target.sessionId));
+    return session ? session.capacity ?? null : undefined;
+  }
+
+  return event.capacity ?? null;
+}
+
+// Increments a `targetSeats` counter while it is below capacity (null for unlimited)
+async function claimCounter(eventId: Id, key: string, capacity: number | null): Promise<boolean> {
+  // Create the counter on first use; the filter makes this a no-op once it exists
+  await Event.updateOne(
+    { _id: eventId, 'targetSeats.target': { $ne: key } },
+    { $push: { targetSeats: { target: key, seatsTaken: 0 } } }
+  );
+
+  const result = await Event.updateOne(
+    {
+      _id: eventId,
+      targetSeats: { $elemMatch: { target: key, ...(capacity !== null && { seatsTaken: { $lt: capacity } }) } },
+    },
+    { $inc: { 'targetSeats.$.seatsTaken': 1 } }
+  );
+
+  return result.modifiedCount === 1;
+}
+
+async function releaseCounter(eventId: Id, key: string): Promise<void> {
+  await Event.updateOne(
+    { _id: eventId, targetSeats: { $elemMatch: { target: key, seatsTaken: { $gt: 0 } } } },
+    { $inc: { 'targetSeats.$.seatsTaken': -1 } }
+  );
+}
+
+/**
+ * Atomically claims a seat. Targets without a capacity always have room;
+ * otherwise the counter is only incremented while below capacity.
+ * @returns true if a seat was claimed, false if the target is full or missing
+ */
+export async function reserveSeat(eventId: Id, target: BookingTarget = {}): Promise<boolean> {
+  const key = targetKey(target);
+
+  if (key) {
+    const capacity = await getTargetCapacity(eventId, target);
+
+    return capacity !== undefined && claimCounter(eventId, key, capacity);
+  }
+
+  await ensureSeatCounter(eventId);
+
+  const event = await Event.findOneAndUpdate(
+    {
+      _id: eventId,
+      $or: [
+        { capacity: null },
+        { $expr: { $lt: ['$seatsTaken', '$capacity'] } },
+      ],
+    },
+    { $inc: { seatsTaken: 1 } },
+    { projection: { _id: 1 } }
+  );
+
+  return event !== null;
+}
+
+/**
+ * Gives a previously claimed seat back.
+ */
+export async function releaseSeat(eventId: Id, target: BookingTarget = {}): Promise<void> {
+  const key = targetKey(target);
+
+  if (key) {
+    await releaseCounter(eventId, key);
+    return;
+  }
+
+  await Event.updateOne({ _id: eventId, seatsTaken: { $gt: 0 } }, { $inc: { seatsTaken: -1 } });
+}
+
+
+/**
+ * Atomically claims one ticket of a tier, within the tier's quantity. Tickets
+ * are counted across all occurrences and sessions of the event.
+ * @returns true if a ticket was claimed, false if the tier is sold out or missing
+ */
+export async function reserveTicket(eventId: Id, tierId: Id): Promise<boolean> {
+  const event = await Event.findById(eventId).select('ticketTiers');
+  const tier = event?.ticketTiers.find((tier: ITicketTier) => tier._id.equals(tierId));
+
+  return !!tier && claimCounter(eventId, ticketCounterKey(String(tierId)), tier.quantity ?? null);
+}
+
+/**
+ * Gives a previously claimed ticket back.
+ */
+export async function releaseTicket(eventId: Id, tierId: Id): Promise<void> {
+  await releaseCounter(eventId, ticketCounterKey(String(tierId)));
+}
+
+/**
+ * Atomically redeems a promo code for one booking, within its total limit and
+ * its limit per mailbox. Plus-addresses count as the mailbox they deliver to.
+ * @returns true if the code was redeemed, false if it is used up or inactive
+ */
+export async function redeemPromoCode(
+  promo: Pick<IPromoCode, '_id' | 'maxPerEmail'>,
+  email: string
+): Promise<boolean> {
+  const mailbox = canonicalEmail(email);
+
+  // Create the mailbox's counter on first use; the filter makes this a no-op once it exists
+  await PromoCode.updateOne(
+    { _id: promo._id, 'redeemedBy.email': { $ne: mailbox } },
+    { $push: { redeemedBy: { email: mailbox, count: 0 } } }
+  );
+
+  const result = await PromoCode.updateOne(
+    {
+      _id: promo._id,
+      active: true,
+      $or: [
+        { maxRedemptions: null },
+        { $expr: { $lt: ['$redemptions', '$maxRedemptions'] } },
+      ],
+      redeemedBy: { $elemMatch: { email: mailbox, count: { $lt: promo.maxPerEmail } } },
+    },
+    { $inc: { redemptions: 1, 'redeemedBy.$.count': 1 } }
+  );
+
+  return result.modifiedCount === 1;
+}
+
+/**
+ * Gives back a redemption of a promo code, e.g. when its booking is cancelled.
+ */
+export async function releasePromoCode(promoId: Id, email: string): Promise<void> {
+  await PromoCode.updateOne(
+    {
+      _id: promoId,
+      redemptions: { $gt: 0 },
+      redeemedBy: { $elemMatch: { email: canonicalEmail(email), count: { $gt: 0 } } },
+    },
+    { $inc: { redemptions: -1, 'redeemedBy.$.count': -1 } }
+  );
+}
+
+/**
+ * Gives back the seat, ticket and promo code redemption held by a booking
+ * that no longer needs them, then fills the seat from the waitlist.
+ * @returns Whoever was promoted off the waitlist
+ */
+export async function releaseBookingSeat(booking: IBooking): Promise<IBooking[]> {
+  const target = getBookingTarget(booking);
+
+  await releaseSeat(booking.eventId, target);
+  if (booking.ticketTierId) await releaseTicket(booking.eventId, booking.ticketTierId);
+  if (booking.promoCodeId) await releasePromoCode(booking.promoCodeId, booking.email);
+
+  return promoteFromWaitlist(booking.eventId, target);
+}
+
+/**
+ * 1-based position of a waitlisted booking in its target's queue.
+ */
+export async function getWaitlistPosition(booking: IBooking): Promise<number> {
+  return Booking.countDocuments({
+    eventId: booking.eventId,
+    ...targetFilter(getBookingTarget(booking)),
+    status: 'waitlisted',
+    createdAt: { $lte: booking.createdAt },
+  });
+}
+
+/**
+ * Moves the oldest waitlisted bookings for a target into free seats until it
+ * is full or its waitlist is empty.
+ * @returns The bookings that were promoted, in waitlist order
+ */
+export async function promoteFromWaitlist(eventId: Id, target: BookingTarget = {}): Promise<IBooking[]> {
+  const promoted: IBooking[] = [];
+
+  while (await reserveSeat(eventId, target)) {
+    const booking = await Booking.findOneAndUpdate(
+      { eventId, ...targetFilter(target), status: 'waitlisted' },
+      { $set: { status: 'confirmed' } },
+      { sort: { createdAt: 1 }, new: true }
+    );
+
+    if (!booking) {
+      // Nobody is waiting, hand the seat back
+      await releaseSeat(eventId, target);
+      break;
+    }
+
+    promoted.push(booking);
+  }
+
+  return promoted;
+}
+
+/**
+ * Promotes waitlisted bookings for every target of an event, e.g. after its
+ * capacity or its sessions' capacities changed.
+ */
+export async function promoteAllWaitlists(eventId: Id): Promise<IBooking[]> {
+  const targets: { _id: BookingTarget }[] = await Booking.aggregate([
+    { $match: { eventId: new Types.ObjectId(String(eventId)), status: 'waitlisted' } },
+    { $group: { _id: { occurrenceStart: '$occurrenceStart', sessionId: '$sessionId' } } },
+  ]);
+
+  const promoted: IBooking[] = [];
+
+  for (const { _id: target } of targets) {
+    promoted.push(...await promoteFromWaitlist(eventId, target));
+  }
+
+  return promoted;
+}
+
+/**
+ * Refunds a paid booking through the payment provider and marks it refunded.
+ * The booking is kept as a record of the payment.
+ * @returns The refunded booking, or null if it isn't a paid booking
+ */
+async function refundBooking(bookingId: Id): Promise<IBooking | null> {
+  // Claim the refund first so concurrent cancellations can't refund twice
+  const refunded = await Booking.findOneAndUpdate(
+    { _id: bookingId, status: 'paid' },
+    { $set: { status: 'refunded', 'payment.refundedAt': new Date() } },
+    { new: true }
+  );
+
+  if (!refunded?.payment) return refunded;
+
+  try {
+    await getPaymentProvider().refund(refunded.payment.checkoutId, refunded.payment.amount);
+  } catch (e) {
+    await Booking.updateOne({ _id: bookingId }, { $set: { status: 'paid' }, $unset: { 'payment.refundedAt': 1 } });
+    throw e;
+  }
+
+  return refunded;
+}
+
+/**
+ * Cancels a booking. Paid bookings are refunded, others are deleted. When it
+ * held a seat, the seat is freed and handed to the first person on the same
+ * waitlist.
+ * @returns The cancelled booking and whoever was promoted, or null if there was nothing to cancel
+ */
+export async function cancelBooking(
+  bookingId: Id
+): Promise<{ cancelled: IBooking; promoted: IBooking[] } | null> {
+  const booking = await Booking.findById(bookingId).select('status');
+
+  if (!booking || booking.status === 'refunded') return null;
+
+  const cancelled = booking.status === 'paid'
+    ? await refundBooking(bookingId)
+    : await Booking.findOneAndDelete({ _id: bookingId, status: { $nin: ['paid', 'refunded'] } });
+
+  if (!cancelled) return null;
+
+  if (cancelled.status === 'waitlisted') {
+    return { cancelled, promoted: [] };
+  }
+
+  return { cancelled, promoted: await releaseBookingSeat(cancelled) };
+}
+
+/**
+ * Cache tag for the booking stats of an event. Invalidate it whenever a
+ * booking is created, cancelled or promoted for that event.
+ */
+export function bookingStatsTag(slug: string): string {
+  return `booking-stats:${slug}`;
+}
+
+/**
+ * Builds a signed, expiring link that lets the holder of `email` view and
+ * cancel all of their bookings.
+ */
+export function createManageBookingsUrl(email: string): string {
+  const token = signToken('manage-bookings', { email }, MANAGE_LINK_TTL_SECONDS);
+
+  return `${BASE_URL}/bookings/${token}`;
+}
+
+/**
+ * Resolves a manage-bookings token to the email it was issued for.
+ * @returns The email, or null if the token is invalid or expired
+ */
+export function verifyManageBookingsToken(token: string): string | null {
+  const payload = verifyToken<{ email: string }>('manage-bookings', token);
+
+  return typeof payload?.email === 'string' ? payload.email : null;
+}
+
+/**
+ * Issues a new ticket code for a booking.
+ */
+export function createTicketCode(): string {
+  return createSignedCode('ticket');
+}
+
+/**
+ * Reads a ticket code as typed at the door or scanned from a ticket's QR
+ * code, which holds the ticket page URL.
+ * @returns The normalized code, or null if it wasn't issued by us
+ */
+export function verifyTicketCode(input: string): string | null {
+  const code = input.trim().split('/').pop() ?? '';
+
+  return verifySignedCode('ticket', code);
+}
+
+/**
+ * Link to the page showing a booking's ticket and QR code.
+ */
+export function createTicketUrl(ticketCode: string): string {
+  return `${BASE_URL}/tickets/${ticketCode}`;
+}
+
+/**
+ * Emails a booking confirmation (or waitlist notice) with the manage link,
+ * and a link to the ticket for bookings with a seat.
+ */
+export async function sendBookingEmail({
+  email,
+  eventTitle,
+  status,
+  position,
+  payment,
+  ticketCode,
+}: {
+  email: string;
+  eventTitle: string;
+  status: IBooking['status'];
+  position?: number;
+  payment?: IBooking['payment'];
+  ticketCode?: string;
+}): Promise<void> {
+  const manageUrl = createManageBookingsUrl(email);
+
+  if (status === 'waitlisted') {
+    await notify('booking-waitlisted', email, { eventTitle, manageUrl, position });
+    return;
+  }
+
+  await notify('booking-confirmed', email, {
+    eventTitle,
+    manageUrl,
+    ticketUrl: ticketCode && createTicketUrl(ticketCode),
+    amountPaid: payment && formatPrice(payment.amount, payment.currency),
+  });
+}
+
+/**
+ * Lets someone promoted off the waitlist know they now have a seat.
+ */
+export async function sendPromotionEmail({ email, eventTitle, ticketCode }: {
+  email: string;
+  eventTitle: string;
+  ticketCode?: string;
+}): Promise<void> {
+  await notify('waitlist-promoted', email, {
+    eventTitle,
+    manageUrl: createManageBookingsUrl(email),
+    ticketUrl: ticketCode && createTicketUrl(ticketCode),
+  });
+}
+
+/**
+ * Confirms a cancellation to the attendee, mentioning the refund for paid
+ * bookings.
+ * @param byOrganizer - Whether the organizer cancelled it rather than the attendee
+ */
+export async function sendCancellationEmail(
+  cancelled: Pick<IBooking, 'email' | 'status' | 'payment'>,
+  { eventTitle, slug, byOrganizer }: { eventTitle: string; slug: string; byOrganizer: boolean }
+): Promise<void> {
+  await notify('booking-cancelled', cancelled.email, {
+    eventTitle,
+    eventUrl: `${BASE_URL}/events/${slug}`,
+    byOrganizer,
+    amountRefunded: cancelled.status === 'refunded' && cancelled.payment
+      ? formatPrice(cancelled.payment.amount, cancelled.payment.currency)
+      : undefined,
+  });
+}
+
+/**
+ * Sends promotion emails after a cancellation and returns the slug of the
+ * affected event, so the caller can expire its cached booking stats.
+ * @param cancelledBy - Who cancelled, to confirm the cancellation to the attendee; omit to stay silent
+ */
+export async function notifyAfterCancellation(
+  result: { cancelled: IBooking; promoted: IBooking[] },
+  { cancelledBy }: { cancelledBy?: 'attendee' | 'organizer' } = {}
+): Promise<string | null> {
+  const event = await Event.findById(result.cancelled.eventId).select('title slug timezone sessions');
+
+  if (!event) return null;
+
+  if (cancelledBy) {
+    const label = describeBookingTarget(event, getBookingTarget(result.cancelled));
+    const eventTitle = label ? `${event.title} (${label})` : event.title;
+
+    await sendCancellationEmail(result.cancelled, { eventTitle, slug: event.slug, byOrganizer: cancelledBy === 'organizer' })
+      .catch((e) => {
+        console.error('cancellation email failed', e);
+      });
+  }
+
+  await notifyPromotions(event, result.promoted);
+
+  return event.slug;
+}
+
+/**
+ * Sends promotion emails to bookings just moved off an event's waitlists.
+ */
+export async function notifyPromotions(
+  event: Pick<IEvent, 'title' | 'timezone' | 'sessions'>,
+  promoted: IBooking[]
+): Promise<void> {
+  for (const booking of promoted) {
+    const label = describeBookingTarget(event, getBookingTarget(booking));
+    const eventTitle = label ? `${event.title} (${label})` : event.title;
+
+    await sendPromotionEmail({ email: booking.email, eventTitle, ticketCode: booking.ticketCode }).catch((e) => {
+      console.error('promotion email failed', e);
+    });
+  }
+}
+
+/**
+ * Reduces an email to the mailbox it delivers to: plus-address tags are
+ * dropped and, for Gmail, dots in the local part are ignored.
+ */
+export function canonicalEmail(email: string): string {
+  const [local = '', domain = ''] = email.trim().toLowerCase().split('@');
+  const mailbox = local.split('+')[0];
+
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    return `${mailbox.replace(/\./g, '')}@gmail.com`;
+  }
+
+  return `${mailbox}@${domain}`;
+}
+
+/**
+ * Groups bookings for the same occurrence or session whose emails reach the
+ * same mailbox. Refunded bookings are ignored. Within a group the booking to
+ * keep comes first: confirmed or paid, then pending, then waitlisted, then oldest.
+ */
+export function findDuplicateAttendees<
+  T extends Pick<IBooking, 'email' | 'status' | 'createdAt'> & Partial<Pick<IBooking, 'occurrenceStart' | 'sessionId'>>
+>(bookings: T[]): T[][] {
+  const groups = new Map<string, T[]>();
+
+  for (const booking of bookings) {
+    if (booking.status === 'refunded') continue;
+
+    const key = `${targetKey(getBookingTarget(booking)) ?? 'event'} ${canonicalEmail(booking.email)}`;
+    groups.set(key, [...(groups.get(key) ?? []), booking]);
+  }
+
+  const rank = (booking: T) => (booking.status === 'waitlisted' ? 2 : booking.status === 'pending' ? 1 : 0);
+
+  return [...groups.values()]
+    .filter((group) => group.length > 1)
+    .map((group) =>
+      [...group].sort((a, b) => rank(a) - rank(b) || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    );
+}
+
+/**
+ * Loads a booking to keep and the duplicates to cancel in its favour.
+ * Returns null unless every duplicate is another booking of the same event,
+ * occurrence or session that reaches the same mailbox. Repeated ids count once.
+ */
+export async function findMergeableBookings(
+  keepId: string,
+  duplicateIds: string[]
+): Promise<{ keep: IBooking; duplicates: IBooking[] } | null> {
+  if (![keepId, ...duplicateIds].every((id) => isValidObjectId(id))) return null;
+
+  const keepKey = String(new Types.ObjectId(keepId));
+  const ids = [...new Set(duplicateIds.map((id) => String(new Types.ObjectId(id))))];
+
+  // Cancelling the booking to keep would leave the attendee with none
+  if (ids.includes(keepKey)) return null;
+
+  const keep = await Booking.findById(keepKey);
+  const duplicates = await Booking.find({ _id: { $in: ids } });
+
+  if (!keep || duplicates.length !== ids.length) return null;
+
+  const sameAttendee = duplicates.every((duplicate) =>
+    findDuplicateAttendees([keep, duplicate]).length === 1 && duplicate.eventId.equals(keep.eventId)
+  );
+
+  return sameAttendee ? { keep, duplicates } : null;
+}
+
+/**
+ * Lists an event's bookings, oldest first, optionally filtered by an email substring.
+ */
+export async function findEventBookings(eventId: Id, search = ''): Promise<IBooking[]> {
+  const filter: Record<string, unknown> = { eventId };
+
+  if (search.trim()) {
+    filter.email = { $regex: escapeRegex(search.trim()), $options: 'i' };
+  }
+
+  return Booking.find(filter).sort({ createdAt: 1 });
+}
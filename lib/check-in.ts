@@ -0,0 +1,60 @@
+import { Types } from 'mongoose';
+import Booking, { IBooking, NOT_ATTENDING_STATUSES } from '@/database/booking.model';
+
+type Id = Types.ObjectId | string;
+
+// Bookings whose ticket gets someone in; those without a status predate the waitlist and count
+const ATTENDING = { status: { $nin: NOT_ATTENDING_STATUSES } };
+
+export type CheckInCounts = {
+  checkedIn: number;
+  booked: number;
+};
+
+export type CheckInResult =
+  | { status: 'checked-in'; booking: IBooking }
+  // The ticket was used before, at `booking.checkedInAt`
+  | { status: 'duplicate'; booking: IBooking }
+  // Waitlisted, unpaid or refunded bookings don't get anyone in
+  | { status: 'not-attending'; booking: IBooking }
+  | { status: 'not-found' };
+
+/**
+ * Whether a booking's ticket is valid for entry.
+ */
+export function isAttending(booking: Pick<IBooking, 'status'>): boolean {
+  return !NOT_ATTENDING_STATUSES.includes(booking.status);
+}
+
+/**
+ * Marks a ticket of an event as used. The update only matches tickets not
+ * checked in yet, so a ticket scanned at two doors at once gets in once.
+ * @param ticketCode - A code already checked with verifyTicketCode
+ */
+export async function checkInTicket(eventId: Id, ticketCode: string): Promise<CheckInResult> {
+  const checkedIn = await Booking.findOneAndUpdate(
+    { eventId, ticketCode, ...ATTENDING, checkedInAt: null },
+    { $set: { checkedInAt: new Date() } },
+    { new: true }
+  );
+
+  if (checkedIn) return { status: 'checked-in', booking: checkedIn };
+
+  const booking = await Booking.findOne({ eventId, ticketCode });
+
+  if (!booking) return { status: 'not-found' };
+
+  return { status: isAttending(booking) ? 'duplicate' : 'not-attending', booking };
+}
+
+/**
+ * Attendees of an event checked in so far, out of everyone with a valid ticket.
+ */
+export async function getCheckInCounts(eventId: Id): Promise<CheckInCounts> {
+  const [checkedIn, booked] = await Promise.all([
+    Booking.countDocuments({ eventId, ...ATTENDING, checkedInAt: { $ne: null } }),
+    Booking.countDocuments({ eventId, ...ATTENDING }),
+  ]);
+
+  return { checkedIn, booked };
+}
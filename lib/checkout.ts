@@ -0,0 +1,147 @@
+import { Types } from 'mongoose';
+import Booking, { IBooking } from '@/database/booking.model';
+import Event, { ITicketTier } from '@/database/event.model';
+import { getPaymentProvider } from '@/lib/payments';
+import {
+  createManageBookingsUrl,
+  describeBookingTarget,
+  getBookingTarget,
+  notifyAfterCancellation,
+  releaseBookingSeat,
+  sendBookingEmail,
+} from '@/lib/bookings';
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
+
+// How long an unpaid checkout holds its seat
+export const CHECKOUT_TTL_MINUTES = 30;
+
+/**
+ * When a checkout started now stops holding its seat.
+ */
+export function getCheckoutExpiry(now = new Date()): Date {
+  return new Date(now.getTime() + CHECKOUT_TTL_MINUTES * 60 * 1000);
+}
+
+/**
+ * Starts the provider's checkout for a pending booking and records it on the
+ * booking. Buyers return to their bookings after paying, or to the event
+ * page if they give up.
+ * @param amount - What the buyer pays, when a promo code lowered the tier's price
+ * @returns The payment page to send the buyer to
+ */
+export async function startCheckout(
+  booking: IBooking,
+  { tier, amount = tier.price, eventTitle, slug }: {
+    tier: Pick<ITicketTier, 'name' | 'price' | 'currency'>;
+    amount?: number;
+    eventTitle: string;
+    slug: string;
+  }
+): Promise<string> {
+  const provider = getPaymentProvider();
+
+  const checkout = await provider.createCheckout({
+    reference: String(booking._id),
+    amount,
+    currency: tier.currency,
+    description: `${eventTitle} – ${tier.name}`,
+    email: booking.email,
+    successUrl: createManageBookingsUrl(booking.email),
+    cancelUrl: `${BASE_URL}/events/${slug}`,
+    expiresAt: booking.expiresAt ?? getCheckoutExpiry(),
+  });
+
+  booking.payment = { provider: provider.name, checkoutId: checkout.id, amount, currency: tier.currency };
+  await booking.save();
+
+  return checkout.url;
+}
+
+/**
+ * Marks the booking behind a paid checkout as paid and emails the buyer.
+ * Payments for checkouts whose booking expired or was cancelled meanwhile
+ * are refunded. Repeated calls for the same checkout do nothing.
+ * @returns The slug of the booked event, so the caller can expire its cached booking stats
+ */
+export async function completeCheckout(checkoutId: string): Promise<string | null> {
+  const booking = await Booking.findOneAndUpdate(
+    { 'payment.checkoutId': checkoutId, status: 'pending' },
+    { $set: { status: 'paid', 'payment.paidAt': new Date() }, $unset: { expiresAt: 1 } },
+    { new: true }
+  );
+
+  if (!booking) {
+    if (!(await Booking.exists({ 'payment.checkoutId': checkoutId }))) {
+      console.warn(`payment for unknown or expired checkout ${checkoutId}, refunding`);
+      await getPaymentProvider().refund(checkoutId);
+    }
+
+    return null;
+  }
+
+  const event = await Event.findById(booking.eventId).select('title slug timezone sessions');
+
+  if (!event) return null;
+
+  try {
+    const label = describeBookingTarget(event, getBookingTarget(booking));
+    const eventTitle = label ? `${event.title} (${label})` : event.title;
+
+    await sendBookingEmail({
+      email: booking.email,
+      eventTitle,
+      status: booking.status,
+      payment: booking.payment,
+      ticketCode: booking.ticketCode,
+    });
+  } catch (e) {
+    // The booking is paid even if the confirmation email can't be sent
+    console.error('booking email failed', e);
+  }
+
+  return event.slug;
+}
+
+// Deletes a pending booking and releases its seat, unless it was paid for in the meantime
+async function releasePendingBooking(bookingId: Types.ObjectId): Promise<string | null> {
+  const expired = await Booking.findOneAndDelete({ _id: bookingId, status: 'pending' });
+
+  if (!expired) return null;
+
+  const promoted = await releaseBookingSeat(expired);
+
+  return notifyAfterCancellation({ cancelled: expired, promoted });
+}
+
+/**
+ * Releases the booking behind a checkout the provider reports as expired.
+ * @returns The slug of the affected event, or null if nothing was released
+ */
+export async function expireCheckout(checkoutId: string): Promise<string | null> {
+  const booking = await Booking.findOne({ 'payment.checkoutId': checkoutId, status: 'pending' }).select('_id');
+
+  return booking ? releasePendingBooking(booking._id) : null;
+}
+
+/**
+ * Releases the seats of pending bookings whose checkout has expired, for one
+ * event or all of them.
+ * @returns Slugs of the events that got seats back
+ */
+export async function expirePendingBookings(eventId?: Types.ObjectId | string): Promise<string[]> {
+  const expired = await Booking.find({
+    ...(eventId && { eventId }),
+    status: 'pending',
+    expiresAt: { $lte: new Date() },
+  }).select('_id');
+
+  const slugs = new Set<string>();
+
+  for (const { _id } of expired) {
+    const slug = await releasePendingBooking(_id);
+    if (slug) slugs.add(slug);
+  }
+
+  return [...slugs];
+}
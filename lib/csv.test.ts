@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseCsv, toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('should join header and rows with CRLF line endings', () => {
+    expect(toCsv(['email', 'status'], [['a@example.com', 'confirmed']])).toBe(
+      'email,status\r\na@example.com,confirmed\r\n'
+    );
+  });
+
+  it('should quote fields containing commas, quotes or newlines', () => {
+    expect(toCsv(['note'], [['a, b'], ['say "hi"'], ['line\nbreak']])).toBe(
+      'note\r\n"a, b"\r\n"say ""hi"""\r\n"line\nbreak"\r\n'
+    );
+  });
+
+  it('should serialize dates as ISO strings and leave empty values blank', () => {
+    const date = new Date('2026-06-01T16:00:00.000Z');
+
+    expect(toCsv(['at', 'missing'], [[date, null]])).toBe('at,missing\r\n2026-06-01T16:00:00.000Z,\r\n');
+  });
+
+  it('should neutralize text that spreadsheets would run as a formula', () => {
+    expect(toCsv(['email'], [['=HYPERLINK("x")'], ['@sum']])).toBe(
+      'email\r\n"\'=HYPERLINK(""x"")"\r\n\'@sum\r\n'
+    );
+  });
+
+  it('should leave negative numbers untouched', () => {
+    expect(toCsv(['delta'], [[-5]])).toBe('delta\r\n-5\r\n');
+  });
+});
+
+describe('parseCsv', () => {
+  it('should split rows and fields with either line ending', () => {
+    expect(parseCsv('title,mode\r\nReact Summit,offline\nNext.js Conf,hybrid\n')).toEqual([
+      ['title', 'mode'],
+      ['React Summit', 'offline'],
+      ['Next.js Conf', 'hybrid'],
+    ]);
+  });
+
+  it('should unquote fields with commas, escaped quotes and newlines', () => {
+    expect(parseCsv('"San Francisco, CA","say ""hi""","line\nbreak"')).toEqual([
+      ['San Francisco, CA', 'say "hi"', 'line\nbreak'],
+    ]);
+  });
+
+  it('should keep empty fields but skip blank lines and a byte order mark', () => {
+    expect(parseCsv('\uFEFFa,,c\r\n\r\n,,\r\nd,e,f')).toEqual([
+      ['a', '', 'c'],
+      ['d', 'e', 'f'],
+    ]);
+  });
+
+  it('should read what toCsv writes', () => {
+    const rows = [['note', 'count'], ['a, "b"\nc', '2']];
+
+    expect(parseCsv(toCsv(rows[0], rows.slice(1)))).toEqual(rows);
+  });
+
+  it('should reject an unclosed quote', () => {
+    expect(() => parseCsv('"open,field')).toThrow('never closed');
+  });
+});
@@ -0,0 +1,79 @@
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Escapes a single CSV field (RFC 4180). Values that spreadsheet apps would
+ * evaluate as formulas are prefixed with a quote to keep them inert.
+ */
+function escapeField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes rows into CSV text with CRLF line endings.
+ * @param header - Column names
+ * @param rows - Row values in header order
+ */
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map((row) => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parses CSV text (RFC 4180) into rows of fields. Accepts CRLF or LF line
+ * endings, quoted fields spanning several lines and a leading byte order
+ * mark, as spreadsheet apps write them. Blank lines are skipped.
+ * @throws Error when a quoted field is never closed
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) throw new Error('CSV has a quoted field that is never closed');
+
+  endRow();
+
+  return rows;
+}
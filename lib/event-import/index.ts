@@ -0,0 +1,151 @@
+import { Error as MongooseError, Types } from 'mongoose';
+import Event, { IEvent, normalizeDate, normalizeTime, saveEventWithUniqueSlug } from '@/database/event.model';
+import { getValidationErrors, isDuplicateKeyError } from '@/lib/api';
+import { notifyEventChange, snapshotEventDetails } from '@/lib/event-notifications';
+import { enqueueJob } from '@/lib/jobs';
+import { slugify } from '@/lib/slugs';
+import type { EventImportRow } from './rows';
+
+export type { EventImportField, EventImportRow, ImportFormat } from './rows';
+export { CSV_LIST_SEPARATOR, EVENT_IMPORT_FIELDS, getImportFormat, readEventRows } from './rows';
+
+// What happened, or in a dry run would happen, to one row of an import file
+export type EventImportResult = {
+  // 1 for the first event in the file
+  row: number;
+  slug: string;
+  action: 'create' | 'update' | 'skip';
+  // Validation messages keyed by field; rows with errors are skipped, and so are rows that change nothing
+  errors: Record<string, string>;
+};
+
+export type EventImportReport = {
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  skipped: number;
+  rows: EventImportResult[];
+};
+
+export type EventImportOptions = {
+  // Account that owns the events the import creates
+  organizer: Types.ObjectId;
+  // Validate every row without saving anything
+  dryRun?: boolean;
+};
+
+// Agenda text becomes items with new ids on every import, so agendas are compared by content
+const agendaKey = (agenda: IEvent['agenda'] | undefined) =>
+  JSON.stringify((agenda ?? []).map((item) => [
+    item.day, item.startTime, item.endTime, item.title, item.description, item.track, item.speakers.map(String),
+  ]));
+
+/**
+ * Validates one row and, unless it's a dry run, saves it. The row's `slug`,
+ * or the slug its title would get, picks the event to update; renamed events
+ * are found by their old slugs too. New events are created with that slug,
+ * so importing the same file again updates them.
+ */
+async function importRow(
+  row: EventImportRow,
+  seen: Set<string>,
+  { organizer, dryRun }: EventImportOptions
+): Promise<Omit<EventImportResult, 'row'>> {
+  const { slug: rowSlug, ...body } = row;
+  const slug = slugify(typeof rowSlug === 'string' ? rowSlug : String(body.title ?? ''));
+  const errors: Record<string, string> = {};
+
+  if (!slug && body.title) {
+    errors.slug = 'Give this event a slug; its title has nothing to make one from';
+  } else if (slug && seen.has(slug)) {
+    errors.slug = `An earlier row already imports ${slug}`;
+  }
+  seen.add(slug);
+
+  // Checked here rather than left to the pre-save hook, so dry runs report them too
+  for (const [field, normalize] of [['date', normalizeDate], ['time', normalizeTime]] as const) {
+    const value = body[field];
+
+    if (typeof value !== 'string') continue;
+
+    try {
+      body[field] = normalize(value);
+    } catch (e) {
+      errors[field] = e instanceof Error ? e.message : String(e);
+    }
+  }
+
+  const existing: IEvent | null = slug ? await Event.findOne({ $or: [{ slug }, { slugHistory: slug }] }) : null;
+  const event: IEvent = existing ?? new Event({ organizer, slug: slug || undefined });
+
+  if (existing) {
+    // Status changes go through the admin's status actions, which tell attendees about them
+    delete body.status;
+
+    if (Array.isArray(body.agenda) && agendaKey(new Event({ agenda: body.agenda }).agenda) === agendaKey(existing.agenda)) {
+      delete body.agenda;
+    }
+  }
+
+  const details = existing && snapshotEventDetails(existing);
+  event.set(body);
+
+  if (existing && Object.keys(errors).length === 0 && !event.isModified()) {
+    return { slug: existing.slug, action: 'skip', errors };
+  }
+
+  try {
+    await event.validate();
+  } catch (e) {
+    if (!(e instanceof MongooseError.ValidationError)) throw e;
+
+    Object.assign(errors, { ...getValidationErrors(e), ...errors });
+  }
+
+  if (Object.keys(errors).length > 0) return { slug, action: 'skip', errors };
+
+  const action = existing ? 'update' : 'create';
+
+  if (dryRun) return { slug: existing?.slug ?? slug, action, errors };
+
+  const capacityChanged = event.isModified('capacity');
+
+  try {
+    await saveEventWithUniqueSlug(event);
+  } catch (e) {
+    // Pre-save hooks, such as the venue capacity check, report problems as validation errors
+    if (e instanceof MongooseError.ValidationError) return { slug, action: 'skip', errors: getValidationErrors(e) };
+    if (isDuplicateKeyError(e)) return { slug, action: 'skip', errors: { slug: 'Another event took this slug meanwhile' } };
+    throw e;
+  }
+
+  if (details) {
+    await notifyEventChange(event, details);
+
+    if (capacityChanged) await enqueueJob('promote-waitlists', { eventId: String(event._id) });
+  }
+
+  return { slug: event.slug, action, errors };
+}
+
+/**
+ * Creates or updates events from the rows of an import file, in file order.
+ * Every row is validated like an event saved from the editor; rows with
+ * errors are skipped and reported. Updated events notify their attendees of
+ * changed dates or venues as usual.
+ */
+export async function importEvents(rows: EventImportRow[], options: EventImportOptions): Promise<EventImportReport> {
+  const report: EventImportReport = { dryRun: !!options.dryRun, created: 0, updated: 0, skipped: 0, rows: [] };
+  const seen = new Set<string>();
+
+  for (const [i, row] of rows.entries()) {
+    const result = await importRow(row, seen, options);
+    report.rows.push({ row: i + 1, ...result });
+
+    if (result.action === 'create') report.created++;
+    else if (result.action === 'update') report.updated++;
+    else report.skipped++;
+  }
+
+  return report;
+}
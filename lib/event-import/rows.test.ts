@@ -0,0 +1,48 @@
+import { describe, it, expect } from '@jest/globals';
+import { getImportFormat, readEventRows } from './rows';
+
+describe('getImportFormat', () => {
+  it('should read the format from the extension', () => {
+    expect(getImportFormat('q3-conferences.CSV')).toBe('csv');
+    expect(getImportFormat('events.json')).toBe('json');
+    expect(getImportFormat('events.xlsx')).toBeNull();
+  });
+});
+
+describe('readEventRows', () => {
+  it('should map CSV columns to event fields and split list cells', () => {
+    const csv = [
+      'title,location,date,time,tags,agenda',
+      '"React Summit US 2025","San Francisco, CA, USA",2025-11-07,09:00 AM,react|javascript,09:00 Keynote | 10:00 Workshops',
+    ].join('\r\n');
+
+    expect(readEventRows(csv, 'csv')).toEqual([
+      {
+        title: 'React Summit US 2025',
+        location: 'San Francisco, CA, USA',
+        date: '2025-11-07',
+        time: '09:00 AM',
+        tags: ['react', 'javascript'],
+        agenda: ['09:00 Keynote', '10:00 Workshops'],
+      },
+    ]);
+  });
+
+  it('should leave out blank cells and unknown columns', () => {
+    const csv = 'slug,title,capacity,notes\nnextjs-conf-2025,,,internal only';
+
+    expect(readEventRows(csv, 'csv')).toEqual([{ slug: 'nextjs-conf-2025' }]);
+  });
+
+  it('should read a JSON array of events', () => {
+    const json = JSON.stringify([{ title: 'AWS re:Invent 2025', capacity: 500, organizer: 'someone' }, 'not an event']);
+
+    expect(readEventRows(json, 'json')).toEqual([{ title: 'AWS re:Invent 2025', capacity: 500 }, {}]);
+  });
+
+  it('should reject files that cannot be read at all', () => {
+    expect(() => readEventRows('{"title":', 'json')).toThrow('not valid JSON');
+    expect(() => readEventRows('{"title":"One event"}', 'json')).toThrow('array of events');
+    expect(() => readEventRows('', 'csv')).toThrow('empty');
+  });
+});
@@ -0,0 +1,105 @@
+import { parseCsv } from '@/lib/csv';
+
+// Event fields an import file may set; nested lists such as sessions and ticket tiers are left to the editor
+export const EVENT_IMPORT_FIELDS = [
+  'slug',
+  'title',
+  'description',
+  'overview',
+  'image',
+  'venue',
+  'location',
+  'date',
+  'time',
+  'endsAt',
+  'timezone',
+  'recurrence',
+  'mode',
+  'audience',
+  'agenda',
+  'tags',
+  'capacity',
+  'waitlistEnabled',
+  'status',
+] as const;
+
+export type EventImportField = (typeof EVENT_IMPORT_FIELDS)[number];
+
+// One event as read from a file; values are still unvalidated
+export type EventImportRow = Partial<Record<EventImportField, unknown>>;
+
+export const IMPORT_FORMATS = ['csv', 'json'] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+// Separates the items of list cells in CSV files, e.g. `javascript|react`
+export const CSV_LIST_SEPARATOR = '|';
+
+const LIST_FIELDS: EventImportField[] = ['agenda', 'tags'];
+
+/**
+ * Tells the format of an import file from its name.
+ * @returns The format, or null for other extensions
+ */
+export function getImportFormat(fileName: string): ImportFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+
+  return IMPORT_FORMATS.find((format) => format === extension) ?? null;
+}
+
+const pickImportFields = (record: Record<string, unknown>): EventImportRow => {
+  const row: EventImportRow = {};
+
+  for (const field of EVENT_IMPORT_FIELDS) {
+    if (field in record) row[field] = record[field];
+  }
+
+  return row;
+}
+
+/**
+ * Reads the events in an import file. JSON files hold an array of event
+ * objects; CSV files have a header line naming the fields, with list cells
+ * split on `|` and blank cells left out, so updates keep the stored value.
+ * Unknown fields are ignored.
+ * @throws Error when the file as a whole can't be read, e.g. malformed JSON
+ */
+export function readEventRows(text: string, format: ImportFormat): EventImportRow[] {
+  if (format === 'json') {
+    let records: unknown;
+
+    try {
+      records = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    if (!Array.isArray(records)) throw new Error('The JSON file must hold an array of events');
+
+    // Entries that aren't objects become empty rows, which fail validation with the rest of the file
+    return records.map((record) =>
+      typeof record === 'object' && record !== null ? pickImportFields(record as Record<string, unknown>) : {}
+    );
+  }
+
+  const [header, ...lines] = parseCsv(text);
+
+  if (!header) throw new Error('The CSV file is empty');
+
+  const columns = header.map((name) => name.trim());
+
+  return lines.map((cells) => {
+    const record: Record<string, unknown> = {};
+
+    columns.forEach((column, i) => {
+      const value = cells[i]?.trim();
+
+      if (!value) return;
+
+      record[column] = LIST_FIELDS.includes(column as EventImportField)
+        ? value.split(CSV_LIST_SEPARATOR).map((item) => item.trim()).filter(Boolean)
+        : value;
+    });
+
+    return pickImportFields(record);
+  });
+}
@@ -0,0 +1,71 @@
+import Event from '@/database/event.model';
+import { signToken, verifyToken } from '@/lib/tokens';
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
+
+// Preview links get shared with co-organizers and speakers, so they last until launch
+const PREVIEW_LINK_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Finished events stay live this long for photos and slides before they are archived
+export const ARCHIVE_AFTER_DAYS = 7;
+
+/**
+ * Signs a token that shows an event while it is still a draft. The token
+ * names the event by id, so it survives renames.
+ */
+export function createEventPreviewToken(event: { _id: unknown }): string {
+  return signToken('event-preview', { eventId: String(event._id) }, PREVIEW_LINK_TTL_SECONDS);
+}
+
+/**
+ * Builds a signed, expiring link to an event's page that works while the
+ * event is still a draft.
+ */
+export function createEventPreviewUrl(event: { _id: unknown; slug: string }): string {
+  return `${BASE_URL}/events/${event.slug}?preview=${createEventPreviewToken(event)}`;
+}
+
+/**
+ * Checks that a preview token was issued for this event.
+ */
+export function verifyEventPreviewToken(token: string, eventId: unknown): boolean {
+  const payload = verifyToken<{ eventId: string }>('event-preview', token);
+
+  return payload?.eventId === String(eventId);
+}
+
+/**
+ * Finds the current slug of an event that used to have this slug before it
+ * was renamed, so old links can be redirected.
+ * @returns The current slug, or null when no event ever had this slug
+ */
+export async function findRenamedEventSlug(slug: string): Promise<string | null> {
+  const event = await Event.findOne({ slugHistory: slug.toLowerCase() })
+    .select('slug')
+    .lean<{ slug: string }>();
+
+  return event?.slug ?? null;
+}
+
+/**
+ * Archives published and cancelled events that ended over a week ago.
+ * Postponed events wait for their new dates, and recurring series run until
+ * their rule ends, so organizers archive those by hand.
+ * @returns How many events were archived
+ */
+export async function archivePastEvents(now = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - ARCHIVE_AFTER_DAYS * 24 * 60 * 60 * 1000);
+
+  // Both statuses may become archived, so bypassing the model's transition check is safe
+  const result = await Event.updateMany(
+    {
+      status: { $in: ['published', 'cancelled'] },
+      recurrence: { $in: [null, ''] },
+      $or: [{ endsAt: { $lt: cutoff } }, { endsAt: null, startsAt: { $lt: cutoff } }],
+      'sessions.endsAt': { $not: { $gte: cutoff } },
+    },
+    { $set: { status: 'archived', statusChangedAt: now } }
+  );
+
+  return result.modifiedCount;
+}
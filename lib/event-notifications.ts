@@ -0,0 +1,195 @@
+import Event, { IEvent, IEventSession } from '@/database/event.model';
+import Booking, { IBooking, NOT_ATTENDING_STATUSES } from '@/database/booking.model';
+import { createManageBookingsUrl, createTicketUrl, describeBookingTarget, getBookingTarget } from '@/lib/bookings';
+import { EventChange, notify, queueNotification } from '@/lib/notifications';
+import { formatDateTime } from '@/lib/timezone';
+import { LISTED_EVENT_FILTER } from '@/lib/event-status';
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
+
+// How long before the start attendees get a reminder
+export const REMINDER_LEAD_HOURS = 24;
+
+// What attendees are told about when it changes
+export type EventDetails = {
+  when: string;
+  where: string;
+  mode: string;
+};
+
+/**
+ * The details of an event attendees plan around, formatted for display.
+ * Take one before editing an event and pass it to notifyEventChange after saving.
+ */
+export function snapshotEventDetails(
+  event: Pick<IEvent, 'startsAt' | 'timezone' | 'venue' | 'location' | 'mode'>
+): EventDetails {
+  return {
+    when: event.startsAt ? formatDateTime(event.startsAt, event.timezone) : '',
+    where: [event.venue, event.location].filter(Boolean).join(', '),
+    mode: event.mode,
+  };
+}
+
+const CHANGE_LABELS: Record<keyof EventDetails, string> = { when: 'Date and time', where: 'Venue', mode: 'Mode' };
+
+/**
+ * Lists the details that differ between two snapshots of an event.
+ */
+export function diffEventDetails(before: EventDetails, after: EventDetails): EventChange[] {
+  return (Object.keys(CHANGE_LABELS) as (keyof EventDetails)[])
+    .filter((key) => before[key] !== after[key])
+    .map((key) => ({ label: CHANGE_LABELS[key], before: before[key], after: after[key] }));
+}
+
+// Everyone booked or waitlisted for an event; refunded bookings are only kept as payment records
+async function getBookerEmails(event: Pick<IEvent, '_id'>): Promise<string[]> {
+  return Booking.distinct('email', { eventId: event._id, status: { $ne: 'refunded' } });
+}
+
+/**
+ * Queues emails to everyone booked or waitlisted for an event about changes
+ * to its date, venue or mode. When the start moved, reminders are sent again
+ * for the new date.
+ * @param before - Snapshot taken before the event was edited
+ * @returns How many people are being notified
+ */
+export async function notifyEventChange(event: IEvent, before: EventDetails): Promise<number> {
+  const after = snapshotEventDetails(event);
+  const changes = diffEventDetails(before, after);
+
+  if (changes.length === 0) return 0;
+
+  if (before.when !== after.when) {
+    // Occurrences and sessions keep their own times, so only whole-event bookings move
+    await Booking.updateMany(
+      { eventId: event._id, occurrenceStart: null, sessionId: null },
+      { $unset: { reminderSentAt: 1 } }
+    );
+  }
+
+  const emails = await getBookerEmails(event);
+
+  // Keyed by the save, so a retried request doesn't email anyone twice about the same edit
+  for (const email of emails) {
+    await queueNotification('event-changed', email, {
+      eventTitle: event.title,
+      eventUrl: `${BASE_URL}/events/${event.slug}`,
+      manageUrl: createManageBookingsUrl(email),
+      changes,
+    }, `event-changed:${event._id}:${event.updatedAt.getTime()}:${email}`);
+  }
+
+  return emails.length;
+}
+
+/**
+ * Queues emails telling everyone booked or waitlisted for an event that it
+ * was cancelled or postponed. Other statuses don't concern attendees.
+ * @returns How many people are being notified
+ */
+export async function notifyEventStatusChange(event: IEvent): Promise<number> {
+  if (event.status !== 'cancelled' && event.status !== 'postponed') return 0;
+
+  const emails = await getBookerEmails(event);
+  const eventUrl = `${BASE_URL}/events/${event.slug}`;
+  // Keyed by the change, so postponing the same event twice notifies twice
+  const key = (email: string) => `event-${event.status}:${event._id}:${event.statusChangedAt?.getTime()}:${email}`;
+
+  for (const email of emails) {
+    if (event.status === 'cancelled') {
+      await queueNotification('event-cancelled', email, { eventTitle: event.title, eventUrl }, key(email));
+    } else {
+      await queueNotification('event-postponed', email, {
+        eventTitle: event.title,
+        eventUrl,
+        manageUrl: createManageBookingsUrl(email),
+      }, key(email));
+    }
+  }
+
+  return emails.length;
+}
+
+// Attending bookings that haven't been reminded yet; those without a status predate the waitlist and attend
+const DUE = { status: { $nin: NOT_ATTENDING_STATUSES }, reminderSentAt: null };
+
+type ReminderEvent = Pick<IEvent, '_id' | 'title' | 'slug' | 'startsAt' | 'timezone' | 'venue' | 'location' | 'sessions'>;
+
+// Claims a booking's reminder, then sends it; the claim is undone if sending fails so the next run retries
+async function sendReminder(booking: IBooking, event: ReminderEvent, startsAt: Date): Promise<boolean> {
+  const claimed = await Booking.updateOne({ _id: booking._id, reminderSentAt: null }, { $set: { reminderSentAt: new Date() } });
+
+  if (claimed.modifiedCount === 0) return false;
+
+  const label = booking.sessionId ? describeBookingTarget(event, getBookingTarget(booking)) : null;
+
+  try {
+    await notify('event-reminder', booking.email, {
+      eventTitle: label ? `${event.title} (${label})` : event.title,
+      when: formatDateTime(startsAt, event.timezone),
+      where: [event.venue, event.location].filter(Boolean).join(', '),
+      eventUrl: `${BASE_URL}/events/${event.slug}`,
+      ticketUrl: booking.ticketCode && createTicketUrl(booking.ticketCode),
+    });
+  } catch (e) {
+    await Booking.updateOne({ _id: booking._id }, { $unset: { reminderSentAt: 1 } });
+    console.error('reminder email failed', e);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Reminds attendees of published events, occurrences and sessions starting
+ * within the next 24 hours. Each booking is reminded once, so running this often (say
+ * hourly) is safe.
+ * @returns How many reminders were sent
+ */
+export async function sendEventReminders(now = new Date()): Promise<number> {
+  const upcoming = { $gt: now, $lte: new Date(now.getTime() + REMINDER_LEAD_HOURS * 60 * 60 * 1000) };
+  const fields = 'title slug startsAt timezone venue location sessions';
+  let sent = 0;
+
+  // Occurrences of recurring events carry their start on the booking
+  const occurrenceBookings = await Booking.find({ ...DUE, occurrenceStart: upcoming });
+  const occurrenceEvents = await Event.find({
+    ...LISTED_EVENT_FILTER,
+    _id: { $in: occurrenceBookings.map((booking) => booking.eventId) },
+  })
+    .select(fields)
+    .lean<ReminderEvent[]>();
+  const eventsById = new Map(occurrenceEvents.map((event) => [String(event._id), event]));
+
+  for (const booking of occurrenceBookings) {
+    const event = eventsById.get(String(booking.eventId));
+    if (event && await sendReminder(booking, event, booking.occurrenceStart!)) sent++;
+  }
+
+  const events = await Event.find({
+    ...LISTED_EVENT_FILTER,
+    $or: [
+      { startsAt: upcoming, recurrence: null, 'sessions.0': { $exists: false } },
+      { 'sessions.startsAt': upcoming },
+    ],
+  }).select(fields).lean<ReminderEvent[]>();
+
+  for (const event of events) {
+    const sessions = (event.sessions ?? []).filter((session: IEventSession) =>
+      session.startsAt > now && session.startsAt <= upcoming.$lte
+    );
+    const startsAt = new Map<string, Date>(sessions.map((session: IEventSession) => [String(session._id), session.startsAt]));
+
+    const bookings = sessions.length > 0
+      ? await Booking.find({ ...DUE, eventId: event._id, sessionId: { $in: sessions.map((session: IEventSession) => session._id) } })
+      : await Booking.find({ ...DUE, eventId: event._id, occurrenceStart: null, sessionId: null });
+
+    for (const booking of bookings) {
+      const start = booking.sessionId ? startsAt.get(String(booking.sessionId)) : event.startsAt;
+      if (start && await sendReminder(booking, event, start)) sent++;
+    }
+  }
+
+  return sent;
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from '@jest/globals';
+import { canChangeEventStatus, getNextEventStatuses, isBookable, isPubliclyVisible } from './event-status';
+
+describe('canChangeEventStatus', () => {
+  it('should let drafts be published and nothing else', () => {
+    expect(canChangeEventStatus('draft', 'published')).toBe(true);
+    expect(canChangeEventStatus('draft', 'cancelled')).toBe(false);
+    expect(canChangeEventStatus('draft', 'archived')).toBe(false);
+  });
+
+  it('should never turn a published event back into a draft', () => {
+    expect(canChangeEventStatus('published', 'draft')).toBe(false);
+    expect(getNextEventStatuses('published')).toEqual(['cancelled', 'postponed', 'archived']);
+  });
+
+  it('should let postponed events be published again or cancelled', () => {
+    expect(canChangeEventStatus('postponed', 'published')).toBe(true);
+    expect(canChangeEventStatus('postponed', 'cancelled')).toBe(true);
+  });
+
+  it('should keep cancelled events cancelled until they are archived', () => {
+    expect(canChangeEventStatus('cancelled', 'published')).toBe(false);
+    expect(canChangeEventStatus('cancelled', 'archived')).toBe(true);
+  });
+
+  it('should treat archived as final', () => {
+    expect(getNextEventStatuses('archived')).toEqual([]);
+    expect(canChangeEventStatus('archived', 'published')).toBe(false);
+  });
+
+  it('should allow staying in the same status', () => {
+    expect(canChangeEventStatus('archived', 'archived')).toBe(true);
+  });
+});
+
+describe('isBookable', () => {
+  it('should only accept bookings for published events', () => {
+    expect(isBookable('published')).toBe(true);
+    expect((['draft', 'cancelled', 'postponed', 'archived'] as const).some(isBookable)).toBe(false);
+  });
+});
+
+describe('isPubliclyVisible', () => {
+  it('should hide drafts but keep cancelled and past events reachable', () => {
+    expect(isPubliclyVisible('draft')).toBe(false);
+    expect(isPubliclyVisible('cancelled')).toBe(true);
+    expect(isPubliclyVisible('archived')).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Lifecycle of an event. Organizers draft an event, publish it, and may later
+ * cancel or postpone it; events end up archived once they are over.
+ */
+
+export const EVENT_STATUSES = ['draft', 'published', 'cancelled', 'postponed', 'archived'] as const;
+export type EventStatus = (typeof EVENT_STATUSES)[number];
+
+// Statuses a new event may start in
+export const INITIAL_EVENT_STATUSES: EventStatus[] = ['draft', 'published'];
+
+// Where each status may go next. Published events have attendees, so they can't go back to being drafts
+const TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+  draft: ['published'],
+  published: ['cancelled', 'postponed', 'archived'],
+  // Publishing a postponed event again (usually with new dates) puts it back on sale
+  postponed: ['published', 'cancelled', 'archived'],
+  cancelled: ['archived'],
+  archived: [],
+};
+
+// Listings, search and recommendations only show events people can book
+export const LISTED_EVENT_FILTER = { status: 'published' } as const;
+
+// Organizer and speaker profiles also keep past events once they are archived
+export const PROFILE_EVENT_FILTER = { status: { $in: ['published', 'archived'] } };
+
+export const EVENT_STATUS_LABELS: Record<EventStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  cancelled: 'Cancelled',
+  postponed: 'Postponed',
+  archived: 'Archived',
+};
+
+/**
+ * The statuses an event may move to from its current one.
+ */
+export function getNextEventStatuses(status: EventStatus): EventStatus[] {
+  return TRANSITIONS[status];
+}
+
+export function canChangeEventStatus(from: EventStatus, to: EventStatus): boolean {
+  return from === to || TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether new bookings are accepted; only published events sell seats.
+ */
+export function isBookable(status: EventStatus): boolean {
+  return status === 'published';
+}
+
+/**
+ * Whether anyone with the link may see the event. Drafts are only shown
+ * through a signed preview link.
+ */
+export function isPubliclyVisible(status: EventStatus): boolean {
+  return status !== 'draft';
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals';
+import { distanceKm, geocode, kmToRadians } from './geocoding';
+
+describe('geocode', () => {
+  it('should resolve "City, Region, Country" locations', () => {
+    expect(geocode('San Francisco, CA, USA')).toEqual({ lat: 37.7749, lng: -122.4194 });
+    expect(geocode('Vienna, Austria')).toEqual({ lat: 48.2082, lng: 16.3738 });
+  });
+
+  it('should ignore case, extra whitespace and annotations', () => {
+    expect(geocode('  los   angeles , ca, usa (Hybrid)')).toEqual({ lat: 34.0522, lng: -118.2437 });
+  });
+
+  it('should match alternative spellings', () => {
+    expect(geocode('Bangalore, India')).toEqual(geocode('Bengaluru, India'));
+    expect(geocode('München, Germany')).toEqual(geocode('Munich, Germany'));
+  });
+
+  it('should find the city within a street address', () => {
+    expect(geocode('747 Howard St, San Francisco, CA 94103, USA')).toEqual({ lat: 37.7749, lng: -122.4194 });
+  });
+
+  it('should use the region or country to pick between cities that share a name', () => {
+    expect(geocode('Vancouver, Canada')).toEqual({ lat: 49.2827, lng: -123.1207 });
+    expect(geocode('Vancouver, WA, USA')).toEqual({ lat: 45.6387, lng: -122.6615 });
+    expect(geocode('Vancouver')).toEqual({ lat: 49.2827, lng: -123.1207 });
+  });
+
+  it('should return null for places not in the table', () => {
+    expect(geocode('Smallville, KS, USA')).toBeNull();
+    expect(geocode('')).toBeNull();
+  });
+});
+
+describe('distanceKm', () => {
+  it('should be zero for the same point', () => {
+    expect(distanceKm({ lat: 48.8566, lng: 2.3522 }, { lat: 48.8566, lng: 2.3522 })).toBe(0);
+  });
+
+  it('should compute great-circle distances', () => {
+    const london = { lat: 51.5074, lng: -0.1278 };
+    const paris = { lat: 48.8566, lng: 2.3522 };
+
+    expect(distanceKm(london, paris)).toBeCloseTo(344, -1);
+  });
+});
+
+describe('kmToRadians', () => {
+  it('should divide by the earth radius', () => {
+    expect(kmToRadians(6371)).toBe(1);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Offline geocoding for the larger cities that host dev events. Locations are
+ * free text like "San Francisco, CA, USA", so this resolves them to city
+ * centre coordinates from a bundled table without any network calls.
+ */
+
+export type Coordinates = {
+  lat: number;
+  lng: number;
+};
+
+type City = Coordinates & {
+  name: string;
+  // Other spellings of the city name
+  aliases?: string[];
+  // State or province code, where it helps tell same-named cities apart
+  region?: string;
+  // ISO 3166-1 alpha-2 code
+  country: string;
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+// Names used for each country in free-text locations, lowercase
+const COUNTRY_NAMES: Record<string, string[]> = {
+  AE: ['uae', 'united arab emirates'],
+  AR: ['argentina'],
+  AT: ['austria', 'österreich'],
+  AU: ['australia'],
+  BE: ['belgium'],
+  BR: ['brazil', 'brasil'],
+  CA: ['canada'],
+  CH: ['switzerland'],
+  CN: ['china'],
+  CZ: ['czechia', 'czech republic'],
+  DE: ['germany', 'deutschland'],
+  DK: ['denmark'],
+  EG: ['egypt'],
+  ES: ['spain', 'españa'],
+  FI: ['finland'],
+  FR: ['france'],
+  GB: ['uk', 'united kingdom', 'england', 'great britain'],
+  GR: ['greece'],
+  HK: ['hong kong'],
+  HU: ['hungary'],
+  ID: ['indonesia'],
+  IE: ['ireland'],
+  IL: ['israel'],
+  IN: ['india'],
+  IT: ['italy', 'italia'],
+  JP: ['japan'],
+  KE: ['kenya'],
+  KR: ['south korea', 'korea'],
+  MX: ['mexico', 'méxico'],
+  NG: ['nigeria'],
+  NL: ['netherlands', 'the netherlands', 'holland'],
+  NO: ['norway'],
+  NZ: ['new zealand'],
+  PL: ['poland'],
+  PT: ['portugal'],
+  SE: ['sweden'],
+  SG: ['singapore'],
+  TH: ['thailand'],
+  TR: ['turkey', 'türkiye'],
+  TW: ['taiwan'],
+  UA: ['ukraine'],
+  US: ['usa', 'united states', 'united states of america'],
+  ZA: ['south africa'],
+};
+
+const CITIES: City[] = [
+  // North America
+  { name: 'San Francisco', region: 'CA', country: 'US', lat: 37.7749, lng: -122.4194 },
+  { name: 'San Jose', region: 'CA', country: 'US', lat: 37.3382, lng: -121.8863 },
+  { name: 'Los Angeles', region: 'CA', country: 'US', lat: 34.0522, lng: -118.2437 },
+  { name: 'San Diego', region: 'CA', country: 'US', lat: 32.7157, lng: -117.1611 },
+  { name: 'Seattle', region: 'WA', country: 'US', lat: 47.6062, lng: -122.3321 },
+  { name: 'Portland', region: 'OR', country: 'US', lat: 45.5152, lng: -122.6784 },
+  { name: 'Las Vegas', region: 'NV', country: 'US', lat: 36.1699, lng: -115.1398 },
+  { name: 'Phoenix', region: 'AZ', country: 'US', lat: 33.4484, lng: -112.074 },
+  { name: 'Salt Lake City', region: 'UT', country: 'US', lat: 40.7608, lng: -111.891 },
+  { name: 'Denver', region: 'CO', country: 'US', lat: 39.7392, lng: -104.9903 },
+  { name: 'Austin', region: 'TX', country: 'US', lat: 30.2672, lng: -97.7431 },
+  { name: 'Dallas', region: 'TX', country: 'US', lat: 32.7767, lng: -96.797 },
+  { name: 'Houston', region: 'TX', country: 'US', lat: 29.7604, lng: -95.3698 },
+  { name: 'Minneapolis', region: 'MN', country: 'US', lat: 44.9778, lng: -93.265 },
+  { name: 'Chicago', region: 'IL', country: 'US', lat: 41.8781, lng: -87.6298 },
+  { name: 'Atlanta', region: 'GA', country: 'US', lat: 33.749, lng: -84.388 },
+  { name: 'Miami', region: 'FL', country: 'US', lat: 25.7617, lng: -80.1918 },
+  { name: 'Orlando', region: 'FL', country: 'US', lat: 28.5384, lng: -81.3789 },
+  { name: 'Raleigh', region: 'NC', country: 'US', lat: 35.7796, lng: -78.6382 },
+  { name: 'Washington', aliases: ['washington dc', 'washington d.c.'], region: 'DC', country: 'US', lat: 38.9072, lng: -77.0369 },
+  { name: 'Philadelphia', region: 'PA', country: 'US', lat: 39.9526, lng: -75.1652 },
+  { name: 'New York', aliases: ['new york city', 'nyc', 'brooklyn', 'manhattan'], region: 'NY', country: 'US', lat: 40.7128, lng: -74.006 },
+  { name: 'Boston', region: 'MA', country: 'US', lat: 42.3601, lng: -71.0589 },
+  { name: 'Vancouver', region: 'BC', country: 'CA', lat: 49.2827, lng: -123.1207 },
+  // Listed after the better-known Vancouver, BC, which wins when nothing else disambiguates
+  { name: 'Vancouver', region: 'WA', country: 'US', lat: 45.6387, lng: -122.6615 },
+  { name: 'Toronto', region: 'ON', country: 'CA', lat: 43.6532, lng: -79.3832 },
+  { name: 'Ottawa', region: 'ON', country: 'CA', lat: 45.4215, lng: -75.6972 },
+  { name: 'Montreal', aliases: ['montréal'], region: 'QC', country: 'CA', lat: 45.5017, lng: -73.5673 },
+  { name: 'Mexico City', aliases: ['ciudad de méxico', 'cdmx'], country: 'MX', lat: 19.4326, lng: -99.1332 },
+
+  // South America
+  { name: 'São Paulo', aliases: ['sao paulo'], country: 'BR', lat: -23.5505, lng: -46.6333 },
+  { name: 'Buenos Aires', country: 'AR', lat: -34.6037, lng: -58.3816 },
+
+  // Europe
+  { name: 'London', country: 'GB', lat: 51.5074, lng: -0.1278 },
+  { name: 'Dublin', country: 'IE', lat: 53.3498, lng: -6.2603 },
+  { name: 'Paris', country: 'FR', lat: 48.8566, lng: 2.3522 },
+  { name: 'Amsterdam', country: 'NL', lat: 52.3676, lng: 4.9041 },
+  { name: 'Brussels', country: 'BE', lat: 50.8503, lng: 4.3517 },
+  { name: 'Berlin', country: 'DE', lat: 52.52, lng: 13.405 },
+  { name: 'Munich', aliases: ['münchen'], country: 'DE', lat: 48.1351, lng: 11.582 },
+  { name: 'Hamburg', country: 'DE', lat: 53.5511, lng: 9.9937 },
+  { name: 'Zurich', aliases: ['zürich'], country: 'CH', lat: 47.3769, lng: 8.5417 },
+  { name: 'Geneva', country: 'CH', lat: 46.2044, lng: 6.1432 },
+  { name: 'Vienna', aliases: ['wien'], country: 'AT', lat: 48.2082, lng: 16.3738 },
+  { name: 'Prague', country: 'CZ', lat: 50.0755, lng: 14.4378 },
+  { name: 'Budapest', country: 'HU', lat: 47.4979, lng: 19.0402 },
+  { name: 'Warsaw', country: 'PL', lat: 52.2297, lng: 21.0122 },
+  { name: 'Copenhagen', country: 'DK', lat: 55.6761, lng: 12.5683 },
+  { name: 'Oslo', country: 'NO', lat: 59.9139, lng: 10.7522 },
+  { name: 'Stockholm', country: 'SE', lat: 59.3293, lng: 18.0686 },
+  { name: 'Helsinki', country: 'FI', lat: 60.1699, lng: 24.9384 },
+  { name: 'Madrid', country: 'ES', lat: 40.4168, lng: -3.7038 },
+  { name: 'Barcelona', country: 'ES', lat: 41.3874, lng: 2.1686 },
+  { name: 'Lisbon', aliases: ['lisboa'], country: 'PT', lat: 38.7223, lng: -9.1393 },
+  { name: 'Milan', aliases: ['milano'], country: 'IT', lat: 45.4642, lng: 9.19 },
+  { name: 'Rome', aliases: ['roma'], country: 'IT', lat: 41.9028, lng: 12.4964 },
+  { name: 'Athens', country: 'GR', lat: 37.9838, lng: 23.7275 },
+  { name: 'Kyiv', aliases: ['kiev'], country: 'UA', lat: 50.4501, lng: 30.5234 },
+  { name: 'Istanbul', country: 'TR', lat: 41.0082, lng: 28.9784 },
+
+  // Middle East and Africa
+  { name: 'Tel Aviv', country: 'IL', lat: 32.0853, lng: 34.7818 },
+  { name: 'Dubai', country: 'AE', lat: 25.2048, lng: 55.2708 },
+  { name: 'Cairo', country: 'EG', lat: 30.0444, lng: 31.2357 },
+  { name: 'Lagos', country: 'NG', lat: 6.5244, lng: 3.3792 },
+  { name: 'Nairobi', country: 'KE', lat: -1.2921, lng: 36.8219 },
+  { name: 'Cape Town', country: 'ZA', lat: -33.9249, lng: 18.4241 },
+
+  // Asia and Oceania
+  { name: 'Bengaluru', aliases: ['bangalore'], country: 'IN', lat: 12.9716, lng: 77.5946 },
+  { name: 'Mumbai', country: 'IN', lat: 19.076, lng: 72.8777 },
+  { name: 'New Delhi', aliases: ['delhi'], country: 'IN', lat: 28.6139, lng: 77.209 },
+  { name: 'Singapore', country: 'SG', lat: 1.3521, lng: 103.8198 },
+  { name: 'Bangkok', country: 'TH', lat: 13.7563, lng: 100.5018 },
+  { name: 'Jakarta', country: 'ID', lat: -6.2088, lng: 106.8456 },
+  { name: 'Hong Kong', country: 'HK', lat: 22.3193, lng: 114.1694 },
+  { name: 'Taipei', country: 'TW', lat: 25.033, lng: 121.5654 },
+  { name: 'Shanghai', country: 'CN', lat: 31.2304, lng: 121.4737 },
+  { name: 'Beijing', country: 'CN', lat: 39.9042, lng: 116.4074 },
+  { name: 'Seoul', country: 'KR', lat: 37.5665, lng: 126.978 },
+  { name: 'Tokyo', country: 'JP', lat: 35.6762, lng: 139.6503 },
+  { name: 'Sydney', country: 'AU', lat: -33.8688, lng: 151.2093 },
+  { name: 'Melbourne', country: 'AU', lat: -37.8136, lng: 144.9631 },
+  { name: 'Auckland', country: 'NZ', lat: -36.8485, lng: 174.7633 },
+];
+
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const matchesCountry = (city: City, part: string) =>
+  part === city.country.toLowerCase() || (COUNTRY_NAMES[city.country] ?? []).includes(part);
+
+/**
+ * Resolves a free-text location to the coordinates of its city. Tries each
+ * comma-separated part as a city name (so street addresses work too) and uses
+ * the remaining parts to choose between cities that share a name.
+ * @returns City centre coordinates, or null for places not in the table
+ */
+export function geocode(location: string): Coordinates | null {
+  const parts = location
+    .replace(/\(.*?\)/g, '') // Drop annotations like "(Hybrid)"
+    .split(',')
+    .map(normalize)
+    .filter(Boolean);
+
+  for (const [index, part] of parts.entries()) {
+    const matches = CITIES.filter((city) => normalize(city.name) === part || city.aliases?.includes(part));
+
+    if (matches.length === 0) continue;
+
+    const rest = parts.slice(index + 1);
+    const best = matches.find((city) =>
+      rest.some((other) => other === city.region?.toLowerCase() || matchesCountry(city, other))
+    ) ?? matches[0];
+
+    return { lat: best.lat, lng: best.lng };
+  }
+
+  return null;
+}
+
+/**
+ * Great-circle distance between two points in kilometres (haversine formula).
+ */
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Converts a distance to radians on the earth's surface, as `$centerSphere` expects.
+ */
+export function kmToRadians(km: number): number {
+  return km / EARTH_RADIUS_KM;
+}
@@ -0,0 +1,176 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { buildCalendar, buildVEvent, CalendarEvent } from './ics';
+
+const event: CalendarEvent = {
+  _id: 'abc123',
+  title: 'Test Event',
+  slug: 'test-event',
+  description: 'Test Description',
+  venue: 'Test Venue',
+  location: 'Test Location',
+  date: '2025-01-07',
+  time: '18:00',
+  tags: [],
+  mode: 'offline',
+  startsAt: new Date('2025-01-07T23:00:00Z'),
+  endsAt: new Date('2025-01-08T01:00:00Z'),
+  timezone: 'America/New_York',
+  updatedAt: new Date('2024-12-01T12:00:00Z'),
+};
+
+const lines = (calendar: string) => calendar.replace(/\r\n /g, '').split('\r\n');
+
+// Lines of the first component of a kind, e.g. VTIMEZONE
+const component = (calendar: string, name: string) => {
+  const all = lines(calendar);
+  return all.slice(all.indexOf(`BEGIN:${name}`), all.indexOf(`END:${name}`) + 1);
+};
+
+// Value of the first property with this name, unfolded
+const property = (calendar: string, name: string) =>
+  lines(calendar).find((line) => line.startsWith(`${name}:`))?.slice(name.length + 1);
+
+describe('buildCalendar', () => {
+  it('should wrap events in a VCALENDAR with CRLF line endings', () => {
+    const calendar = buildCalendar([event], 'Tech, Events');
+
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(calendar.endsWith('END:VEVENT\r\nEND:VCALENDAR\r\n')).toBe(true);
+    expect(calendar.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+    expect(property(calendar, 'X-WR-CALNAME')).toBe('Tech\\, Events');
+  });
+
+  it('should escape backslashes, semicolons, commas and newlines in text', () => {
+    const calendar = buildCalendar([{
+      ...event,
+      title: 'C:\\Users; React, Vue',
+      description: 'Line one\nLine two',
+      tags: ['a,b', 'c;d'],
+    }]);
+
+    expect(property(calendar, 'SUMMARY')).toBe('C:\\\\Users\\; React\\, Vue');
+    expect(property(calendar, 'DESCRIPTION')).toMatch(/^Line one\\nLine two\\n/);
+    expect(property(calendar, 'LOCATION')).toBe('Test Venue\\, Test Location');
+    // Commas between categories separate values, so only the ones inside tags are escaped
+    expect(property(calendar, 'CATEGORIES')).toBe('a\\,b,c\\;d');
+  });
+
+  it('should fold lines longer than 75 octets without splitting characters', () => {
+    const description = `${'Long description '.repeat(10)}${'日本語'.repeat(20)}`;
+    const calendar = buildCalendar([{ ...event, description }]);
+    const physical = calendar.split('\r\n');
+
+    expect(physical.every((line) => Buffer.byteLength(line, 'utf8') <= 75)).toBe(true);
+    expect(physical.filter((line) => line.startsWith(' ')).length).toBeGreaterThan(1);
+    expect(property(calendar, 'DESCRIPTION')).toMatch(new RegExp(`^${description}\\\\n`));
+    expect(calendar).not.toContain('\uFFFD');
+  });
+
+  it('should list the agenda and link the event page in the description', () => {
+    const calendar = buildCalendar([{
+      ...event,
+      agenda: [
+        { day: 1, startTime: '09:00', endTime: '10:00', title: 'Keynote', speakers: [{ name: 'Jane Doe' }] },
+        { day: 2, title: 'Workshops', speakers: [] },
+      ],
+    } as CalendarEvent]);
+
+    const description = property(calendar, 'DESCRIPTION')!.split('\\n');
+
+    expect(description).toContain('- Day 1 09:00–10:00 Keynote (Jane Doe)');
+    expect(description).toContain('- Day 2 Workshops');
+    expect(description[description.length - 1]).toMatch(/^Details: .*\/events\/test-event$/);
+  });
+});
+
+describe('buildVEvent', () => {
+  it('should identify the event by its id and stamp it with its last update', () => {
+    const vevent = buildVEvent(event);
+
+    expect(vevent).toContain('UID:abc123@devevent');
+    expect(vevent).toContain('DTSTAMP:20241201T120000Z');
+  });
+
+  it('should stamp events without an update time with the current time', () => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-03-04T05:06:07.890Z'));
+
+    try {
+      expect(buildVEvent({ ...event, updatedAt: undefined })).toContain('DTSTAMP:20250304T050607Z');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should write events without a start instant in floating local time', () => {
+    const vevent = buildVEvent({ ...event, startsAt: undefined, endsAt: undefined });
+
+    expect(vevent).toContain('DTSTART:20250107T180000');
+    expect(vevent.some((line) => line.startsWith('DTEND'))).toBe(false);
+  });
+
+  it('should say online events happen online', () => {
+    expect(buildVEvent({ ...event, mode: 'online' })).toContain('LOCATION:Online');
+  });
+});
+
+describe('buildCalendar timezones', () => {
+  it('should write one-off events in UTC without a VTIMEZONE', () => {
+    const calendar = buildCalendar([event]);
+
+    expect(calendar).not.toContain('VTIMEZONE');
+    expect(lines(calendar)).toContain('DTSTART:20250107T230000Z');
+    expect(lines(calendar)).toContain('DTEND:20250108T010000Z');
+  });
+
+  it('should define the zone that a recurring event refers to', () => {
+    const calendar = buildCalendar([{ ...event, recurrence: 'FREQ=WEEKLY;UNTIL=20251231' }]);
+
+    expect(lines(calendar)).toContain('DTSTART;TZID=America/New_York:20250107T180000');
+    expect(component(calendar, 'VTIMEZONE')).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:America/New_York',
+      'BEGIN:STANDARD',
+      'DTSTART:20250107T180000',
+      'TZOFFSETFROM:-0500',
+      'TZOFFSETTO:-0500',
+      'END:STANDARD',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20250309T020000',
+      'TZOFFSETFROM:-0500',
+      'TZOFFSETTO:-0400',
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'DTSTART:20251102T020000',
+      'TZOFFSETFROM:-0400',
+      'TZOFFSETTO:-0500',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+    // Components a TZID refers to come before the events
+    expect(calendar.indexOf('BEGIN:VTIMEZONE')).toBeLessThan(calendar.indexOf('BEGIN:VEVENT'));
+  });
+
+  it('should define each zone once, with a single observance for zones without DST', () => {
+    const tokyo = { ...event, timezone: 'Asia/Tokyo', recurrence: 'FREQ=MONTHLY;COUNT=3' };
+    const calendar = buildCalendar([tokyo, { ...tokyo, _id: 'def456' }]);
+
+    expect(calendar.match(/BEGIN:VTIMEZONE/g)).toHaveLength(1);
+    expect(component(calendar, 'VTIMEZONE')).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:Asia/Tokyo',
+      'BEGIN:STANDARD',
+      'DTSTART:20250107T180000',
+      'TZOFFSETFROM:+0900',
+      'TZOFFSETTO:+0900',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+  });
+
+  it('should cover rules without an end for years ahead', () => {
+    const calendar = buildCalendar([{ ...event, recurrence: 'FREQ=WEEKLY' }]);
+
+    expect(calendar.match(/BEGIN:DAYLIGHT/g)).toHaveLength(10);
+    expect(lines(calendar)).toContain('DTSTART:20341105T020000');
+  });
+});
@@ -0,0 +1,281 @@
+import type { IEvent } from '@/database/event.model';
+import { getTimeZoneOffset, utcToZonedTime, zonedTimeToUtc } from '@/lib/timezone';
+import { AgendaItem, formatAgendaTime } from '@/lib/agenda';
+import { parseRecurrenceRule } from '@/lib/recurrence';
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
+
+const PRODUCT_ID = '-//DevEvent//Events Calendar//EN';
+
+const MINUTE_MS = 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * MINUTE_MS;
+
+// How far ahead VTIMEZONE components list offset changes for rules without an end
+const TIMEZONE_YEARS = 10;
+
+export type CalendarEvent = Pick<
+  IEvent,
+  'title' | 'slug' | 'description' | 'venue' | 'location' | 'date' | 'time' | 'tags' | 'mode'
+> & {
+  // Agenda with speaker names populated
+  agenda?: AgendaItem<{ name: string }>[];
+  // Missing on events that predate the start/end instants
+  startsAt?: Date | string;
+  endsAt?: Date | string;
+  timezone?: string;
+  recurrence?: string | null;
+  _id: unknown;
+  updatedAt?: Date | string;
+};
+
+/**
+ * Escapes a TEXT value (RFC 5545 section 3.3.11).
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line so no line exceeds 75 octets (RFC 5545 section 3.1).
+ */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  // Continuation lines start with a space, which counts towards the limit
+  let limit = 75;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+      limit = 74;
+    }
+
+    current += char;
+    currentBytes += charBytes;
+  }
+
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Formats a date as a UTC DATE-TIME value, e.g. 20251107T170000Z.
+ */
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Formats the stored YYYY-MM-DD date and HH:MM time as a floating local DATE-TIME.
+ */
+function formatLocal(date: string, time: string): string {
+  return `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+}
+
+/**
+ * Formats a UTC offset in minutes as a UTC-OFFSET value, e.g. -0500.
+ */
+function formatOffset(minutes: number): string {
+  const abs = Math.abs(minutes);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+type ZonedRecurrence = CalendarEvent & { recurrence: string; timezone: string };
+
+const isZonedRecurrence = (event: CalendarEvent): event is ZonedRecurrence => !!event.recurrence && !!event.timezone;
+
+type OffsetChange = { at: Date; from: number; to: number };
+
+/**
+ * Finds the instants a timezone's UTC offset changes between two instants,
+ * e.g. DST starting and ending. Zones change offset at most a few times a
+ * year, so a weekly scan narrowed down to the minute finds every change.
+ */
+function findOffsetChanges(timezone: string, from: Date, until: Date): OffsetChange[] {
+  const changes: OffsetChange[] = [];
+  let offset = getTimeZoneOffset(from, timezone);
+
+  for (let start = from.getTime(); start < until.getTime(); start += WEEK_MS) {
+    let before = start;
+    let after = Math.min(start + WEEK_MS, until.getTime());
+    const next = getTimeZoneOffset(new Date(after), timezone);
+
+    if (next === offset) continue;
+
+    while (after - before > MINUTE_MS) {
+      const middle = before + Math.floor((after - before) / MINUTE_MS / 2) * MINUTE_MS;
+
+      if (getTimeZoneOffset(new Date(middle), timezone) === offset) before = middle;
+      else after = middle;
+    }
+
+    changes.push({ at: new Date(after), from: offset, to: next });
+    offset = next;
+  }
+
+  return changes;
+}
+
+/**
+ * Builds a VTIMEZONE component (RFC 5545 section 3.6.5) for the zone a
+ * recurring event's TZID names, with one observance per offset change from
+ * its first occurrence to the rule's end, or TIMEZONE_YEARS when it has none.
+ */
+function buildTimeZone(timezone: string, from: Date, until: Date): string[] {
+  const initial = getTimeZoneOffset(from, timezone);
+  const changes = findOffsetChanges(timezone, from, until);
+  // The zone is on daylight time at the start if its next change turns the clocks back
+  const startsOnDaylight = changes.length > 0 && changes[0].to < changes[0].from;
+
+  const observance = (kind: 'STANDARD' | 'DAYLIGHT', { at, from: offsetFrom, to }: OffsetChange) => [
+    `BEGIN:${kind}`,
+    // Onsets are written in the local time in effect before the change
+    `DTSTART:${formatUtc(new Date(at.getTime() + offsetFrom * MINUTE_MS)).replace(/Z$/, '')}`,
+    `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatOffset(to)}`,
+    `END:${kind}`,
+  ];
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timezone}`,
+    ...observance(startsOnDaylight ? 'DAYLIGHT' : 'STANDARD', { at: from, from: initial, to: initial }),
+    ...changes.flatMap((change) => observance(change.to > change.from ? 'DAYLIGHT' : 'STANDARD', change)),
+    'END:VTIMEZONE',
+  ];
+}
+
+/**
+ * The span a recurring event's VTIMEZONE has to cover: from its first
+ * occurrence to its rule's UNTIL, capped at TIMEZONE_YEARS.
+ */
+function getTimeZoneSpan(event: ZonedRecurrence): { from: Date; until: Date } {
+  const from = zonedTimeToUtc(event.date, event.time, event.timezone);
+  const { until } = parseRecurrenceRule(event.recurrence);
+  const limit = new Date(from);
+  limit.setUTCFullYear(limit.getUTCFullYear() + TIMEZONE_YEARS);
+
+  const end = typeof until === 'string' ? zonedTimeToUtc(until, '23:59', event.timezone) : until;
+
+  return { from, until: end && end < limit ? end : limit };
+}
+
+function buildDescription(event: CalendarEvent): string {
+  const lines = [event.description];
+
+  if (event.agenda?.length) {
+    const multiDay = event.agenda.some((item) => item.day > 1);
+
+    lines.push('', 'Agenda:', ...event.agenda.map((item) => {
+      const time = [multiDay && `Day ${item.day}`, formatAgendaTime(item)].filter(Boolean).join(' ');
+      const speakers = item.speakers?.length ? ` (${item.speakers.map((speaker) => speaker.name).join(', ')})` : '';
+
+      return `- ${time ? `${time} ` : ''}${item.title}${speakers}`;
+    }));
+  }
+
+  lines.push('', `Details: ${BASE_URL}/events/${event.slug}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Builds the DTSTART, DTEND and RRULE lines. Recurring events are anchored to
+ * their timezone so calendar clients keep the wall-clock time across DST;
+ * buildCalendar adds the VTIMEZONE their TZID refers to.
+ */
+function buildSchedule(event: CalendarEvent): string[] {
+  if (isZonedRecurrence(event)) {
+    const tzid = `TZID=${event.timezone}`;
+    const end = event.endsAt ? utcToZonedTime(new Date(event.endsAt), event.timezone) : null;
+
+    return [
+      `DTSTART;${tzid}:${formatLocal(event.date, event.time)}`,
+      ...(end ? [`DTEND;${tzid}:${formatLocal(end.date, end.time)}`] : []),
+      `RRULE:${event.recurrence.replace(/^RRULE:/i, '')}`,
+    ];
+  }
+
+  return [
+    // Fall back to floating local time for events without a start instant
+    `DTSTART:${event.startsAt ? formatUtc(new Date(event.startsAt)) : formatLocal(event.date, event.time)}`,
+    ...(event.endsAt ? [`DTEND:${formatUtc(new Date(event.endsAt))}`] : []),
+  ];
+}
+
+/**
+ * Builds the VEVENT component lines for a single event.
+ */
+export function buildVEvent(event: CalendarEvent): string[] {
+  const stamp = event.updatedAt ? new Date(event.updatedAt) : new Date();
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${String(event._id)}@devevent`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    ...buildSchedule(event),
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(buildDescription(event))}`,
+    `LOCATION:${escapeText(event.mode === 'online' ? 'Online' : `${event.venue}, ${event.location}`)}`,
+    `URL:${BASE_URL}/events/${event.slug}`,
+    ...(event.tags?.length ? [`CATEGORIES:${event.tags.map(escapeText).join(',')}`] : []),
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Builds one VTIMEZONE per zone that recurring events refer to, covering
+ * all of their occurrences.
+ */
+function buildTimeZones(events: CalendarEvent[]): string[] {
+  const spans = new Map<string, { from: Date; until: Date }>();
+
+  for (const event of events.filter(isZonedRecurrence)) {
+    const { from, until } = getTimeZoneSpan(event);
+    const span = spans.get(event.timezone);
+
+    spans.set(event.timezone, span
+      ? { from: from < span.from ? from : span.from, until: until > span.until ? until : span.until }
+      : { from, until });
+  }
+
+  return [...spans].flatMap(([timezone, { from, until }]) => buildTimeZone(timezone, from, until));
+}
+
+/**
+ * Wraps events in a VCALENDAR, with the VTIMEZONEs of recurring events, and
+ * serializes it with CRLF line endings.
+ * @param events - Events to include
+ * @param name - Optional calendar name shown by calendar clients
+ */
+export function buildCalendar(events: CalendarEvent[], name?: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...buildTimeZones(events),
+    ...events.flatMap(buildVEvent),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,42 @@
+import Event from '@/database/event.model';
+import { notifyPromotions, promoteAllWaitlists } from '@/lib/bookings';
+import { expirePendingBookings } from '@/lib/checkout';
+import { archivePastEvents } from '@/lib/event-lifecycle';
+import { sendEventReminders } from '@/lib/event-notifications';
+import { notify } from '@/lib/notifications';
+import type { JobHandler, JobName } from './types';
+
+// What each kind of job does; a handler that throws gets its job retried
+export const JOB_HANDLERS: { [K in JobName]: JobHandler<K> } = {
+  'send-email': async ({ template, to, data }) => {
+    await notify(template, to, data);
+  },
+  'promote-waitlists': async ({ eventId }) => {
+    const event = await Event.findById(eventId).select('title timezone sessions');
+
+    if (!event) return;
+
+    await notifyPromotions(event, await promoteAllWaitlists(event._id));
+  },
+  'send-event-reminders': async () => {
+    await sendEventReminders();
+  },
+  'expire-pending-bookings': async () => {
+    await expirePendingBookings();
+  },
+  'archive-past-events': async () => {
+    await archivePastEvents();
+  },
+};
+
+// Jobs the worker enqueues on a schedule, with how often each runs
+export const RECURRING_JOBS: {
+  name: 'send-event-reminders' | 'expire-pending-bookings' | 'archive-past-events';
+  intervalMs: number;
+}[] = [
+  // Reminders go out about a day ahead, so hourly is precise enough
+  { name: 'send-event-reminders', intervalMs: 60 * 60 * 1000 },
+  // Keeps seat counts accurate on quiet events, where nobody books to expire checkouts lazily
+  { name: 'expire-pending-bookings', intervalMs: 5 * 60 * 1000 },
+  { name: 'archive-past-events', intervalMs: 24 * 60 * 60 * 1000 },
+];
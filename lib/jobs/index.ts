@@ -0,0 +1,51 @@
+import type { IJob, JobStatus } from '@/database/job.model';
+import { JOB_HANDLERS, RECURRING_JOBS } from './handlers';
+import { claimNextJob, completeJob, enqueueJob, failJob } from './queue';
+import { getIntervalStart, getRecurringJobKey } from './schedule';
+import type { JobHandler, JobName, JobPayloads } from './types';
+
+export type { EnqueueOptions, JobHandler, JobName, JobPayloads } from './types';
+export { enqueueJob, recoverStalledJobs, retryFailedJob, JOB_LOCK_TIMEOUT_MS } from './queue';
+export { getRetryDelay } from './schedule';
+
+// Outcome of one job run, for the worker's log
+export type JobRun = {
+  job: IJob;
+  status: JobStatus;
+  error?: string;
+};
+
+/**
+ * Claims the next due job and runs its handler.
+ * @returns What happened, or null when no job is due
+ */
+export async function runNextJob(workerId: string, now = new Date()): Promise<JobRun | null> {
+  const job = await claimNextJob(workerId, now);
+
+  if (!job) return null;
+
+  try {
+    const handler = JOB_HANDLERS[job.name as JobName] as JobHandler<JobName> | undefined;
+
+    if (!handler) throw new Error(`Unknown job "${job.name}"`);
+
+    await handler(job.payload as JobPayloads[JobName]);
+
+    return { job, status: await completeJob(job) };
+  } catch (e) {
+    return { job, status: await failJob(job, e), error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/**
+ * Enqueues the current run of every recurring job. Runs are keyed by their
+ * interval, so calling this from every worker on every poll is safe.
+ */
+export async function scheduleRecurringJobs(now = new Date()): Promise<void> {
+  for (const { name, intervalMs } of RECURRING_JOBS) {
+    await enqueueJob(name, {}, {
+      runAt: getIntervalStart(intervalMs, now),
+      idempotencyKey: getRecurringJobKey(name, intervalMs, now),
+    });
+  }
+}
@@ -0,0 +1,122 @@
+import Job, { IJob, JobStatus } from '@/database/job.model';
+import { isDuplicateKeyError } from '@/lib/api';
+import { getRetryDelay } from './schedule';
+import type { EnqueueOptions, JobName, JobPayloads } from './types';
+
+// A running job whose worker hasn't finished it by then is assumed to have died with it
+export const JOB_LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Adds a job to the queue. With an idempotency key, enqueueing the same key
+ * again returns the existing job instead of adding another one.
+ */
+export async function enqueueJob<K extends JobName>(
+  name: K,
+  payload: JobPayloads[K],
+  { runAt, delayMs = 0, idempotencyKey, maxAttempts }: EnqueueOptions = {}
+): Promise<IJob> {
+  const fields = {
+    name,
+    payload,
+    runAt: runAt ?? new Date(Date.now() + delayMs),
+    ...(maxAttempts && { maxAttempts }),
+  };
+
+  if (!idempotencyKey) return Job.create(fields);
+
+  try {
+    return await Job.findOneAndUpdate(
+      { idempotencyKey },
+      { $setOnInsert: { ...fields, idempotencyKey } },
+      { upsert: true, new: true }
+    );
+  } catch (e) {
+    // Another worker inserted the same key between our lookup and insert
+    if (isDuplicateKeyError(e)) return (await Job.findOne({ idempotencyKey }))!;
+    throw e;
+  }
+}
+
+/**
+ * Atomically claims the job that has been due the longest, so concurrent
+ * workers never run the same job.
+ * @returns The claimed job, or null when nothing is due
+ */
+export async function claimNextJob(workerId: string, now = new Date()): Promise<IJob | null> {
+  return Job.findOneAndUpdate(
+    { status: 'queued', runAt: { $lte: now } },
+    { $set: { status: 'running', lockedAt: now, lockedBy: workerId }, $inc: { attempts: 1 } },
+    { sort: { runAt: 1 }, new: true }
+  );
+}
+
+/**
+ * Marks a claimed job as done.
+ */
+export async function completeJob(job: IJob): Promise<JobStatus> {
+  await Job.updateOne(
+    { _id: job._id, status: 'running' },
+    { $set: { status: 'completed', completedAt: new Date() }, $unset: { lockedAt: 1, lockedBy: 1, lastError: 1 } }
+  );
+
+  return 'completed';
+}
+
+/**
+ * Records a failed attempt. The job is retried after a growing delay until
+ * it runs out of attempts, then stays failed until someone retries it.
+ * @returns The job's new status
+ */
+export async function failJob(job: IJob, error: unknown, now = new Date()): Promise<JobStatus> {
+  const lastError = error instanceof Error ? error.message : String(error);
+  const status: JobStatus = job.attempts >= job.maxAttempts ? 'failed' : 'queued';
+
+  await Job.updateOne(
+    { _id: job._id, status: 'running' },
+    {
+      $set: status === 'failed'
+        ? { status, lastError, failedAt: now }
+        : { status, lastError, runAt: new Date(now.getTime() + getRetryDelay(job.attempts)) },
+      $unset: { lockedAt: 1, lockedBy: 1 },
+    }
+  );
+
+  return status;
+}
+
+/**
+ * Hands jobs left running by a worker that crashed or was killed back to the
+ * queue, counting the interrupted run as a failed attempt.
+ * @returns How many jobs were recovered
+ */
+export async function recoverStalledJobs(now = new Date()): Promise<number> {
+  const stalled = { status: 'running', lockedAt: { $lt: new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS) } };
+  const lastError = 'The worker stopped while running this job';
+
+  const [retried, failed] = await Promise.all([
+    Job.updateMany(
+      { ...stalled, $expr: { $lt: ['$attempts', '$maxAttempts'] } },
+      { $set: { status: 'queued', lastError, runAt: now }, $unset: { lockedAt: 1, lockedBy: 1 } }
+    ),
+    Job.updateMany(
+      { ...stalled, $expr: { $gte: ['$attempts', '$maxAttempts'] } },
+      { $set: { status: 'failed', lastError, failedAt: now }, $unset: { lockedAt: 1, lockedBy: 1 } }
+    ),
+  ]);
+
+  return retried.modifiedCount + failed.modifiedCount;
+}
+
+/**
+ * Puts a failed job back in the queue with a fresh set of attempts. Its last
+ * error is kept until it runs again.
+ * @returns Whether the job was failed and got requeued
+ */
+export async function retryFailedJob(jobId: string): Promise<boolean> {
+  const result = await Job.updateOne(
+    { _id: jobId, status: 'failed' },
+    { $set: { status: 'queued', runAt: new Date(), attempts: 0 }, $unset: { failedAt: 1 } }
+  );
+
+  return result.modifiedCount > 0;
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from '@jest/globals';
+import { getIntervalStart, getRecurringJobKey, getRetryDelay, RETRY_MAX_DELAY_MS } from './schedule';
+
+describe('getRetryDelay', () => {
+  it('should double the delay after each attempt', () => {
+    expect([1, 2, 3, 4].map(getRetryDelay)).toEqual([30_000, 60_000, 120_000, 240_000]);
+  });
+
+  it('should cap the delay', () => {
+    expect(getRetryDelay(20)).toBe(RETRY_MAX_DELAY_MS);
+    expect(getRetryDelay(1000)).toBe(RETRY_MAX_DELAY_MS);
+  });
+
+  it('should treat jobs that never ran like a first attempt', () => {
+    expect(getRetryDelay(0)).toBe(30_000);
+  });
+});
+
+describe('getRecurringJobKey', () => {
+  const hour = 60 * 60 * 1000;
+
+  it('should give every moment in an interval the same key', () => {
+    const first = getRecurringJobKey('send-event-reminders', hour, new Date('2026-03-10T14:00:00Z'));
+    const last = getRecurringJobKey('send-event-reminders', hour, new Date('2026-03-10T14:59:59Z'));
+
+    expect(first).toBe('send-event-reminders:2026-03-10T14:00:00.000Z');
+    expect(last).toBe(first);
+  });
+
+  it('should change the key in the next interval', () => {
+    expect(getRecurringJobKey('send-event-reminders', hour, new Date('2026-03-10T15:00:00Z'))).toBe(
+      'send-event-reminders:2026-03-10T15:00:00.000Z'
+    );
+  });
+
+  it('should align shorter intervals to the clock', () => {
+    expect(getIntervalStart(5 * 60 * 1000, new Date('2026-03-10T14:07:30Z'))).toEqual(new Date('2026-03-10T14:05:00Z'));
+  });
+});
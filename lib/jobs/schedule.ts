@@ -0,0 +1,38 @@
+/**
+ * Timing rules for background jobs. Kept free of database access so they can
+ * be unit tested.
+ */
+
+// Delay before the first retry; each further retry waits twice as long
+export const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+// Retries never wait longer than this
+export const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * How long to wait before retrying a job that failed, growing exponentially
+ * with the attempts made so far: 30s, 1m, 2m, 4m... up to 6 hours.
+ * @param attempts - Attempts made so far, including the one that just failed
+ */
+export function getRetryDelay(attempts: number): number {
+  const exponent = Math.max(attempts - 1, 0);
+
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** exponent, RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * The start of the interval a moment falls in, counted from the Unix epoch,
+ * e.g. the top of the hour for an hourly interval.
+ */
+export function getIntervalStart(intervalMs: number, now: Date): Date {
+  return new Date(Math.floor(now.getTime() / intervalMs) * intervalMs);
+}
+
+/**
+ * Idempotency key for one run of a recurring job. Every worker derives the
+ * same key within an interval, so the run is enqueued once however many
+ * workers are polling.
+ */
+export function getRecurringJobKey(name: string, intervalMs: number, now: Date): string {
+  return `${name}:${getIntervalStart(intervalMs, now).toISOString()}`;
+}
@@ -0,0 +1,25 @@
+import type { TemplateData, TemplateName } from '@/lib/notifications/templates';
+
+// Payload each kind of job is enqueued with; payloads are stored as JSON, so ids are strings
+export type JobPayloads = {
+  // An email rendered from a notification template when the job runs
+  'send-email': { template: TemplateName; to: string; data: TemplateData[TemplateName] };
+  // Fills freed seats from an event's waitlists, e.g. after its capacity was raised
+  'promote-waitlists': { eventId: string };
+  'send-event-reminders': Record<string, never>;
+  'expire-pending-bookings': Record<string, never>;
+  'archive-past-events': Record<string, never>;
+};
+
+export type JobName = keyof JobPayloads;
+
+export type JobHandler<K extends JobName> = (payload: JobPayloads[K]) => Promise<void>;
+
+export type EnqueueOptions = {
+  // When the job becomes due; defaults to now plus `delayMs`
+  runAt?: Date;
+  delayMs?: number;
+  // A job with the same key is only enqueued once
+  idempotencyKey?: string;
+  maxAttempts?: number;
+};
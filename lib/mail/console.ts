@@ -0,0 +1,12 @@
+import type { MailTransport } from './types';
+
+/**
+ * Creates a transport that prints outgoing mail to the server log.
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send({ to, subject, text }) {
+      console.log(`[mail] To: ${to}\n[mail] Subject: ${subject}\n\n${text}\n`);
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { MailTransport } from './types';
+
+/**
+ * Creates a transport that writes each message as a JSON file to an outbox
+ * directory (defaults to `.outbox`), so sent mail can be inspected locally.
+ */
+export function createFileTransport(
+  outboxDir = path.join(process.cwd(), '.outbox')
+): MailTransport {
+  return {
+    async send(message) {
+      await mkdir(outboxDir, { recursive: true });
+
+      const sentAt = new Date().toISOString();
+      const fileName = `${sentAt.replace(/[:.]/g, '-')}-${randomUUID()}.json`;
+
+      await writeFile(
+        path.join(outboxDir, fileName),
+        JSON.stringify({ ...message, sentAt }, null, 2)
+      );
+    },
+  };
+}
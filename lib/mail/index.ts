@@ -0,0 +1,38 @@
+import { createConsoleTransport } from './console';
+import { createFileTransport } from './file';
+import type { MailMessage, MailTransport } from './types';
+
+export type { MailMessage, MailTransport } from './types';
+export { createConsoleTransport } from './console';
+export { createFileTransport } from './file';
+
+let transport: MailTransport | null = null;
+
+/**
+ * Returns the configured mail transport. `MAIL_TRANSPORT=file` writes mail to
+ * the local outbox; anything else logs it to the console unless another
+ * transport has been registered with `setMailTransport`.
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = process.env.MAIL_TRANSPORT === 'file'
+      ? createFileTransport()
+      : createConsoleTransport();
+  }
+
+  return transport;
+}
+
+/**
+ * Registers the transport used for outgoing mail.
+ */
+export function setMailTransport(mailTransport: MailTransport): void {
+  transport = mailTransport;
+}
+
+/**
+ * Sends a message through the configured transport.
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
@@ -0,0 +1,14 @@
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+/**
+ * Pluggable email delivery backend. Swap in an SMTP or API-based transport
+ * in production; development uses the console or file transports.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
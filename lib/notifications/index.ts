@@ -0,0 +1,27 @@
+import { sendMail } from '@/lib/mail';
+import { enqueueJob } from '@/lib/jobs/queue';
+import { renderTemplate, TemplateData, TemplateName } from './templates';
+
+export type { EventChange, RenderedEmail, TemplateData, TemplateName } from './templates';
+export { renderTemplate } from './templates';
+
+/**
+ * Renders a template and sends it through the configured mail transport.
+ */
+export async function notify<K extends TemplateName>(name: K, to: string, data: TemplateData[K]): Promise<void> {
+  await sendMail({ to, ...renderTemplate(name, data) });
+}
+
+/**
+ * Queues a templated email for the job worker, which retries it if sending
+ * fails. Use this for bulk mail that shouldn't hold up a request.
+ * @param idempotencyKey - Queueing the same key again doesn't send a second email
+ */
+export async function queueNotification<K extends TemplateName>(
+  name: K,
+  to: string,
+  data: TemplateData[K],
+  idempotencyKey?: string
+): Promise<void> {
+  await enqueueJob('send-email', { template: name, to, data }, { idempotencyKey });
+}
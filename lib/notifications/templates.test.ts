@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+import { escapeHtml, renderTemplate } from './templates';
+
+describe('renderTemplate', () => {
+  it('should render booking confirmations with ticket and manage links', () => {
+    const email = renderTemplate('booking-confirmed', {
+      eventTitle: 'JSConf',
+      manageUrl: 'https://example.com/bookings/abc',
+      ticketUrl: 'https://example.com/tickets/XYZ',
+      amountPaid: '$25.00',
+    });
+
+    expect(email.subject).toBe('Booking confirmed: JSConf');
+    expect(email.text).toBe(
+      "You're booked for JSConf. We received your payment of $25.00.\n\n" +
+      'Your ticket: https://example.com/tickets/XYZ\n\n' +
+      'View or cancel your bookings: https://example.com/bookings/abc'
+    );
+    expect(email.html).toContain('<a href="https://example.com/tickets/XYZ">Your ticket</a>');
+  });
+
+  it('should list event changes in both bodies', () => {
+    const email = renderTemplate('event-changed', {
+      eventTitle: 'Meetup',
+      eventUrl: 'https://example.com/events/meetup',
+      manageUrl: 'https://example.com/bookings/abc',
+      changes: [{ label: 'Mode', before: 'online', after: 'offline' }],
+    });
+
+    expect(email.text).toContain('- Mode: offline (was online)');
+    expect(email.html).toContain('<ul><li>Mode: offline (was online)</li></ul>');
+  });
+
+  it('should mention refunds and who cancelled', () => {
+    const byOrganizer = renderTemplate('booking-cancelled', {
+      eventTitle: 'Meetup',
+      eventUrl: 'https://example.com/events/meetup',
+      byOrganizer: true,
+      amountRefunded: '$10.00',
+    });
+    const byAttendee = renderTemplate('booking-cancelled', {
+      eventTitle: 'Meetup',
+      eventUrl: 'https://example.com/events/meetup',
+      byOrganizer: false,
+    });
+
+    expect(byOrganizer.text).toContain('The organizer of Meetup cancelled your booking.');
+    expect(byOrganizer.text).toContain('Your payment of $10.00 is being refunded.');
+    expect(byAttendee.text).not.toContain('refunded');
+  });
+
+  it('should keep bookings of postponed events and link to them', () => {
+    const email = renderTemplate('event-postponed', {
+      eventTitle: 'Meetup',
+      eventUrl: 'https://example.com/events/meetup',
+      manageUrl: 'https://example.com/bookings/abc',
+    });
+
+    expect(email.subject).toBe('Postponed: Meetup');
+    expect(email.text).toContain('Your booking stays in place');
+    expect(email.text).toContain('View or cancel your bookings: https://example.com/bookings/abc');
+  });
+
+  it('should escape user content in the HTML body', () => {
+    const email = renderTemplate('booking-waitlisted', {
+      eventTitle: '<script>alert(1)</script>',
+      manageUrl: 'https://example.com/bookings/abc',
+      position: 3,
+    });
+
+    expect(email.html).not.toContain('<script>');
+    expect(email.html).toContain('&lt;script&gt;alert(1)&lt;/script&gt; (#3)');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('should escape markup and quotes', () => {
+    expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;');
+  });
+});
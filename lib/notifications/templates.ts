@@ -0,0 +1,179 @@
+/**
+ * Typed email templates. Each template builds its content once and gets
+ * rendered to both plain text and HTML, so the two versions never drift.
+ */
+
+export type EmailLink = { label: string; url: string };
+
+// What a template produces before rendering
+type EmailContent = {
+  subject: string;
+  paragraphs: string[];
+  // Shown as a bulleted list after the paragraphs
+  list?: string[];
+  links?: EmailLink[];
+};
+
+export type RenderedEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+// A field of an event that changed, with its old and new value for display
+export type EventChange = {
+  label: string;
+  before: string;
+  after: string;
+};
+
+export type TemplateData = {
+  'booking-confirmed': {
+    eventTitle: string;
+    manageUrl: string;
+    ticketUrl?: string;
+    // Formatted amount paid, e.g. "$25.00"
+    amountPaid?: string;
+  };
+  'booking-waitlisted': {
+    eventTitle: string;
+    manageUrl: string;
+    position?: number;
+  };
+  'waitlist-promoted': {
+    eventTitle: string;
+    manageUrl: string;
+    ticketUrl?: string;
+  };
+  'booking-cancelled': {
+    eventTitle: string;
+    eventUrl: string;
+    // Whether the organizer cancelled it rather than the attendee
+    byOrganizer: boolean;
+    // Formatted amount refunded, for paid bookings
+    amountRefunded?: string;
+  };
+  'event-changed': {
+    eventTitle: string;
+    eventUrl: string;
+    manageUrl: string;
+    changes: EventChange[];
+  };
+  'event-cancelled': {
+    eventTitle: string;
+    eventUrl: string;
+  };
+  'event-postponed': {
+    eventTitle: string;
+    eventUrl: string;
+    manageUrl: string;
+  };
+  'event-reminder': {
+    eventTitle: string;
+    // Formatted start, e.g. "Tue, Mar 10, 2026, 6:00 PM EDT"
+    when: string;
+    where: string;
+    eventUrl: string;
+    ticketUrl?: string;
+  };
+};
+
+export type TemplateName = keyof TemplateData;
+
+const manageLink = (url: string): EmailLink => ({ label: 'View or cancel your bookings', url });
+const ticketLinks = (url?: string): EmailLink[] => (url ? [{ label: 'Your ticket', url }] : []);
+
+const TEMPLATES: { [K in TemplateName]: (data: TemplateData[K]) => EmailContent } = {
+  'booking-confirmed': ({ eventTitle, manageUrl, ticketUrl, amountPaid }) => ({
+    subject: `Booking confirmed: ${eventTitle}`,
+    paragraphs: [`You're booked for ${eventTitle}.${amountPaid ? ` We received your payment of ${amountPaid}.` : ''}`],
+    links: [...ticketLinks(ticketUrl), manageLink(manageUrl)],
+  }),
+  'booking-waitlisted': ({ eventTitle, manageUrl, position }) => ({
+    subject: `Waitlisted: ${eventTitle}`,
+    paragraphs: [`You're on the waitlist for ${eventTitle}${position ? ` (#${position})` : ''}. We'll email you if a spot opens up.`],
+    links: [manageLink(manageUrl)],
+  }),
+  'waitlist-promoted': ({ eventTitle, manageUrl, ticketUrl }) => ({
+    subject: `A spot opened up: ${eventTitle}`,
+    paragraphs: [`Good news! A spot opened up and your booking for ${eventTitle} is now confirmed.`],
+    links: [...ticketLinks(ticketUrl), manageLink(manageUrl)],
+  }),
+  'booking-cancelled': ({ eventTitle, eventUrl, byOrganizer, amountRefunded }) => ({
+    subject: `Booking cancelled: ${eventTitle}`,
+    paragraphs: [
+      byOrganizer
+        ? `The organizer of ${eventTitle} cancelled your booking.`
+        : `Your booking for ${eventTitle} is cancelled.`,
+      ...(amountRefunded ? [`Your payment of ${amountRefunded} is being refunded.`] : []),
+    ],
+    links: [{ label: 'Event page', url: eventUrl }],
+  }),
+  'event-changed': ({ eventTitle, eventUrl, manageUrl, changes }) => ({
+    subject: `Changes to ${eventTitle}`,
+    paragraphs: [`The organizer changed ${eventTitle}, which you're booked for:`],
+    list: changes.map(({ label, before, after }) => `${label}: ${after} (was ${before})`),
+    links: [{ label: 'Event page', url: eventUrl }, manageLink(manageUrl)],
+  }),
+  'event-cancelled': ({ eventTitle, eventUrl }) => ({
+    subject: `Cancelled: ${eventTitle}`,
+    paragraphs: [
+      `The organizer cancelled ${eventTitle}, so your booking no longer applies.`,
+      'If you paid for a ticket, the organizer will be in touch about your refund.',
+    ],
+    links: [{ label: 'Event page', url: eventUrl }],
+  }),
+  'event-postponed': ({ eventTitle, eventUrl, manageUrl }) => ({
+    subject: `Postponed: ${eventTitle}`,
+    paragraphs: [
+      `The organizer postponed ${eventTitle}. Your booking stays in place, and we'll email you once there's a new date.`,
+    ],
+    links: [{ label: 'Event page', url: eventUrl }, manageLink(manageUrl)],
+  }),
+  'event-reminder': ({ eventTitle, when, where, eventUrl, ticketUrl }) => ({
+    subject: `Tomorrow: ${eventTitle}`,
+    paragraphs: [`A reminder that ${eventTitle} starts ${when}.`, `Where: ${where}`],
+    links: [...ticketLinks(ticketUrl), { label: 'Event page', url: eventUrl }],
+  }),
+};
+
+/**
+ * Escapes text for use in HTML element content and attribute values.
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderText({ paragraphs, list = [], links = [] }: EmailContent): string {
+  return [
+    ...paragraphs,
+    ...(list.length > 0 ? [list.map((item) => `- ${item}`).join('\n')] : []),
+    ...links.map(({ label, url }) => `${label}: ${url}`),
+  ].join('\n\n');
+}
+
+function renderHtml({ subject, paragraphs, list = [], links = [] }: EmailContent): string {
+  return [
+    '<!DOCTYPE html>',
+    `<html><head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>`,
+    '<body style="font-family: sans-serif; line-height: 1.5; color: #111;">',
+    ...paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+    ...(list.length > 0 ? [`<ul>${list.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`] : []),
+    ...links.map(({ label, url }) => `<p><a href="${escapeHtml(url)}">${escapeHtml(label)}</a></p>`),
+    '</body></html>',
+  ].join('\n');
+}
+
+/**
+ * Renders a template to a subject with plain text and HTML bodies.
+ */
+export function renderTemplate<K extends TemplateName>(name: K, data: TemplateData[K]): RenderedEmail {
+  const content = TEMPLATES[name](data);
+
+  return { subject: content.subject, text: renderText(content), html: renderHtml(content) };
+}
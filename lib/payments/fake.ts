@@ -0,0 +1,52 @@
+import { randomUUID } from 'crypto';
+import { signToken, verifyToken } from '@/lib/tokens';
+import type { CheckoutRequest, PaymentEvent, PaymentProvider } from './types';
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
+
+// Everything the fake payment page needs, carried in its signed URL
+export type FakeCheckout = Pick<CheckoutRequest, 'amount' | 'currency' | 'description' | 'successUrl' | 'cancelUrl'> & {
+  checkoutId: string;
+};
+
+/**
+ * Reads the checkout behind a fake payment page token.
+ * @returns The checkout, or null if the token is invalid or the checkout expired
+ */
+export function readFakeCheckout(token: string): FakeCheckout | null {
+  return verifyToken<FakeCheckout>('fake-checkout', token);
+}
+
+/**
+ * Creates a provider that charges nothing. Its checkout page (`/checkout/fake`)
+ * lets whoever holds the link mark the payment as made, and refunds are only
+ * logged. The checkout lives entirely in a signed token, so no state is kept.
+ */
+export function createFakePaymentProvider(): PaymentProvider {
+  return {
+    name: 'fake',
+
+    async createCheckout({ amount, currency, description, successUrl, cancelUrl, expiresAt }) {
+      const checkout: FakeCheckout = { checkoutId: `fake_${randomUUID()}`, amount, currency, description, successUrl, cancelUrl };
+      const expiresInSeconds = Math.max(Math.floor((expiresAt.getTime() - Date.now()) / 1000), 1);
+      const token = signToken('fake-checkout', checkout, expiresInSeconds);
+
+      return { id: checkout.checkoutId, url: `${BASE_URL}/checkout/fake/${token}` };
+    },
+
+    // Accepts `{ "type": "checkout.paid", "token": "<checkout token>" }`, so
+    // webhooks can be replayed by hand during development
+    async parseWebhook(request) {
+      const body = await request.json().catch(() => null) as { type?: string; token?: string } | null;
+      const checkout = typeof body?.token === 'string' ? readFakeCheckout(body.token) : null;
+
+      if (!checkout || (body?.type !== 'checkout.paid' && body?.type !== 'checkout.expired')) return null;
+
+      return { type: body.type, checkoutId: checkout.checkoutId } satisfies PaymentEvent;
+    },
+
+    async refund(checkoutId, amount) {
+      console.log(`[payments] Refunded ${amount ?? 'the full amount'} for ${checkoutId}`);
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import { createFakePaymentProvider } from './fake';
+import type { PaymentProvider } from './types';
+
+export type { CheckoutRequest, CheckoutSession, PaymentEvent, PaymentProvider } from './types';
+export { createFakePaymentProvider, readFakeCheckout } from './fake';
+export type { FakeCheckout } from './fake';
+
+let provider: PaymentProvider | null = null;
+
+// The fake provider lets buyers mark their own checkouts as paid, so it must be
+// enabled explicitly and never serves production
+const isFakeProviderEnabled = () =>
+  process.env.PAYMENT_PROVIDER === 'fake' && process.env.NODE_ENV !== 'production';
+
+/**
+ * Whether paid checkouts can be taken: a provider has been registered with
+ * `setPaymentProvider`, or the fake one is enabled with `PAYMENT_PROVIDER=fake`
+ * outside production.
+ */
+export function hasPaymentProvider(): boolean {
+  return provider !== null || isFakeProviderEnabled();
+}
+
+/**
+ * Returns the configured payment provider.
+ * @throws Error when none is configured (see `hasPaymentProvider`)
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!provider && isFakeProviderEnabled()) {
+    provider = createFakePaymentProvider();
+  }
+
+  if (!provider) {
+    throw new Error('No payment provider is configured; register one with setPaymentProvider');
+  }
+
+  return provider;
+}
+
+/**
+ * Whether checkouts go through the fake provider, whose test checkout page
+ * completes payments without charging anything.
+ */
+export function isFakePaymentProvider(): boolean {
+  return hasPaymentProvider() && getPaymentProvider().name === 'fake';
+}
+
+/**
+ * Registers the payment provider used for checkouts and refunds (e.g. a
+ * Stripe adapter in production).
+ */
+export function setPaymentProvider(paymentProvider: PaymentProvider): void {
+  provider = paymentProvider;
+}
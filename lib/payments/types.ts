@@ -0,0 +1,45 @@
+// What a checkout charges for; amounts are in the currency's minor unit
+export type CheckoutRequest = {
+  // Our reference for the purchase (the booking id), echoed back to us by the provider
+  reference: string;
+  amount: number;
+  currency: string;
+  description: string;
+  email: string;
+  // Where the buyer lands after paying or giving up
+  successUrl: string;
+  cancelUrl: string;
+  // The provider should stop accepting payment after this instant
+  expiresAt: Date;
+};
+
+export type CheckoutSession = {
+  // Provider's id for the checkout, used to match payment events and refunds
+  id: string;
+  // Hosted payment page to send the buyer to
+  url: string;
+};
+
+// Outcome of a checkout, reported by the provider's webhook
+export type PaymentEvent = {
+  type: 'checkout.paid' | 'checkout.expired';
+  checkoutId: string;
+};
+
+/**
+ * Pluggable payment backend. Adapters wrap a hosted checkout (e.g. Stripe
+ * Checkout); development and tests use the fake provider.
+ */
+export interface PaymentProvider {
+  name: string;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  /**
+   * Authenticates and reads a webhook call.
+   * @returns The payment event, or null if the request didn't come from the provider
+   */
+  parseWebhook(request: Request): Promise<PaymentEvent | null>;
+  /**
+   * Refunds a paid checkout, in full unless an amount is given.
+   */
+  refund(checkoutId: string, amount?: number): Promise<void>;
+}
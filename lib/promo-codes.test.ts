@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyDiscount, checkPromoCode, normalizePromoCode } from './promo-codes';
+
+const purchase = { eventId: 'event-1', tierId: 'tier-1', currency: 'USD' };
+const now = new Date('2026-03-01T12:00:00Z');
+
+describe('normalizePromoCode', () => {
+  it('should trim and upper-case codes', () => {
+    expect(normalizePromoCode('  spring-25 ')).toBe('SPRING-25');
+  });
+});
+
+describe('checkPromoCode', () => {
+  it('should accept unrestricted active codes', () => {
+    expect(checkPromoCode({ discountType: 'percent', discountValue: 10 }, purchase, now)).toBeNull();
+  });
+
+  it('should respect the validity window and the active flag', () => {
+    const promo = { discountType: 'percent' as const, discountValue: 10 };
+
+    expect(checkPromoCode({ ...promo, validFrom: '2026-03-02T00:00:00Z' }, purchase, now)).toBe('This code is not valid yet');
+    expect(checkPromoCode({ ...promo, validUntil: '2026-03-01T12:00:00Z' }, purchase, now)).toBe('This code has expired');
+    expect(checkPromoCode({ ...promo, active: false }, purchase, now)).toBe('This code is no longer active');
+  });
+
+  it('should restrict codes to their events and tiers', () => {
+    const promo = { discountType: 'percent' as const, discountValue: 10 };
+
+    expect(checkPromoCode({ ...promo, eventIds: ['event-2'] }, purchase, now)).toBe('This code is not valid for this event');
+    expect(checkPromoCode({ ...promo, eventIds: ['event-1'], tierIds: ['tier-2'] }, purchase, now)).toBe(
+      'This code is not valid for this ticket'
+    );
+    expect(checkPromoCode({ ...promo, eventIds: ['event-1'], tierIds: ['tier-1'] }, purchase, now)).toBeNull();
+  });
+
+  it('should only apply fixed discounts to prices in the same currency', () => {
+    expect(checkPromoCode({ discountType: 'fixed', discountValue: 500, currency: 'EUR' }, purchase, now)).toBe(
+      'This code only applies to prices in EUR'
+    );
+    expect(checkPromoCode({ discountType: 'fixed', discountValue: 500, currency: 'USD' }, purchase, now)).toBeNull();
+  });
+});
+
+describe('applyDiscount', () => {
+  it('should take percentages off, rounded to the minor unit', () => {
+    expect(applyDiscount(2500, { discountType: 'percent', discountValue: 20 })).toBe(2000);
+    expect(applyDiscount(999, { discountType: 'percent', discountValue: 15 })).toBe(849);
+  });
+
+  it('should take fixed amounts off without going below zero', () => {
+    expect(applyDiscount(2500, { discountType: 'fixed', discountValue: 500 })).toBe(2000);
+    expect(applyDiscount(300, { discountType: 'fixed', discountValue: 500 })).toBe(0);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Promo code rules: who a code applies to and what it takes off a ticket.
+ * Redemption counts are enforced atomically by the booking flow (see
+ * lib/bookings); these checks only decide whether a code fits a purchase.
+ */
+
+export const PROMO_DISCOUNT_TYPES = ['percent', 'fixed'] as const;
+export type PromoDiscountType = (typeof PROMO_DISCOUNT_TYPES)[number];
+
+export type PromoRule = {
+  discountType: PromoDiscountType;
+  // Whole percent for percent codes, minor units of `currency` for fixed ones
+  discountValue: number;
+  currency?: string | null;
+  validFrom?: Date | string | null;
+  validUntil?: Date | string | null;
+  // Empty lists apply to every event or tier
+  eventIds?: { toString(): string }[];
+  tierIds?: { toString(): string }[];
+  active?: boolean;
+};
+
+export type PromoPurchase = {
+  eventId: string;
+  tierId: string;
+  currency: string;
+};
+
+/**
+ * Normalizes a code as typed by a buyer, e.g. " spring-25 " to "SPRING-25".
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Checks whether a code can be used for a ticket purchase right now.
+ * @returns Why the code doesn't apply, or null if it does
+ */
+export function checkPromoCode(promo: PromoRule, purchase: PromoPurchase, now = new Date()): string | null {
+  if (promo.active === false) return 'This code is no longer active';
+  if (promo.validFrom && now < new Date(promo.validFrom)) return 'This code is not valid yet';
+  if (promo.validUntil && now >= new Date(promo.validUntil)) return 'This code has expired';
+
+  if (promo.eventIds?.length && !promo.eventIds.some((id) => id.toString() === purchase.eventId)) {
+    return 'This code is not valid for this event';
+  }
+
+  if (promo.tierIds?.length && !promo.tierIds.some((id) => id.toString() === purchase.tierId)) {
+    return 'This code is not valid for this ticket';
+  }
+
+  if (promo.discountType === 'fixed' && promo.currency !== purchase.currency) {
+    return `This code only applies to prices in ${promo.currency}`;
+  }
+
+  return null;
+}
+
+/**
+ * Price of a ticket after a code's discount, never below zero. Percent
+ * discounts are rounded to the nearest minor unit.
+ */
+export function applyDiscount(price: number, promo: Pick<PromoRule, 'discountType' | 'discountValue'>): number {
+  const discount = promo.discountType === 'percent'
+    ? Math.round((price * promo.discountValue) / 100)
+    : promo.discountValue;
+
+  return Math.max(price - discount, 0);
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import { encodeQr, formatBits, qrToSvg } from './qr';
+
+// Reads the copy of the format bits around the top left finder, least significant first
+const readFormatBits = (modules: boolean[][]) => {
+  const positions = [
+    ...[0, 1, 2, 3, 4, 5, 7, 8].map((y) => [8, y]),
+    [7, 8],
+    ...[5, 4, 3, 2, 1, 0].map((x) => [x, 8]),
+  ];
+
+  return positions.reduce((bits, [x, y], i) => bits | (Number(modules[y][x]) << i), 0);
+};
+
+describe('encodeQr', () => {
+  it('should pick the smallest version that fits', () => {
+    expect(encodeQr('x'.repeat(14))).toHaveLength(21);
+    expect(encodeQr('x'.repeat(15))).toHaveLength(25);
+    expect(encodeQr('x'.repeat(213))).toHaveLength(57);
+    expect(() => encodeQr('x'.repeat(214))).toThrow('Text is too long for a QR code (214 bytes)');
+  });
+
+  it('should draw finder patterns in three corners', () => {
+    const modules = encodeQr('https://example.com/tickets/ABC');
+    const size = modules.length;
+    const finderRow = [true, true, true, true, true, true, true, false];
+
+    expect(modules[0].slice(0, 8)).toEqual(finderRow);
+    expect(modules[0].slice(size - 8).reverse()).toEqual(finderRow);
+    expect(modules[size - 1].slice(0, 8)).toEqual(finderRow);
+    expect(modules[3].slice(0, 7)).toEqual([true, false, true, true, true, false, true]);
+  });
+
+  it('should record level M and the chosen mask in the format bits', () => {
+    const bits = readFormatBits(encodeQr('TICKET-1234'));
+
+    expect([0, 1, 2, 3, 4, 5, 6, 7].map(formatBits)).toContain(bits);
+  });
+
+  it('should add version information from version 7', () => {
+    const modules = encodeQr('x'.repeat(110));
+    const size = modules.length;
+    let bits = 0;
+
+    for (let i = 0; i < 18; i++) {
+      bits |= Number(modules[Math.floor(i / 3)][size - 11 + (i % 3)]) << i;
+    }
+
+    expect(size).toBe(45);
+    expect(bits).toBe(0b000111110010010100);
+  });
+});
+
+describe('formatBits', () => {
+  it('should match the standard table for level M', () => {
+    expect(formatBits(0)).toBe(0b101010000010010);
+    expect(formatBits(4)).toBe(0b100010111111001);
+    expect(formatBits(7)).toBe(0b100101010100000);
+  });
+});
+
+describe('qrToSvg', () => {
+  it('should draw dark modules inside a quiet zone', () => {
+    const svg = qrToSvg([[true, false], [false, true]], 4);
+
+    expect(svg).toContain('viewBox="0 0 10 10"');
+    expect(svg).toContain('M4,4h1v1h-1zM5,5h1v1h-1z');
+  });
+});
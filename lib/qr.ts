@@ -0,0 +1,403 @@
+/**
+ * Minimal QR code encoder for short texts such as ticket links: byte mode,
+ * error correction level M and versions 1 to 10 (up to 213 bytes). Follows
+ * ISO/IEC 18004; the symbol is returned as a grid of dark (true) modules.
+ */
+
+// Error correction codewords per block and number of blocks at level M, by version
+const ECC_PER_BLOCK = [10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const BLOCKS = [1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+
+const MAX_VERSION = ECC_PER_BLOCK.length;
+
+// Format bits identifying error correction level M
+const LEVEL_M_BITS = 0b00;
+
+type Grid = boolean[][];
+
+const getBit = (value: number, i: number) => ((value >>> i) & 1) !== 0;
+
+// Codewords the symbol holds once function patterns are placed, data and error correction together
+function rawCodewords(version: number): number {
+  let modules = (16 * version + 128) * version + 64;
+
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) modules -= 36;
+  }
+
+  return Math.floor(modules / 8);
+}
+
+function dataCodewords(version: number): number {
+  return rawCodewords(version) - ECC_PER_BLOCK[version - 1] * BLOCKS[version - 1];
+}
+
+// Centers of alignment patterns along each axis
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+
+  for (let pos = version * 4 + 10; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+
+  return positions;
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+
+  return z;
+}
+
+// Reed-Solomon error correction codewords for one block of data
+function reedSolomon(data: number[], degree: number): number[] {
+  const divisor = new Array<number>(degree).fill(0);
+  divisor[degree - 1] = 1;
+
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      divisor[j] = gfMultiply(divisor[j], root);
+      if (j + 1 < degree) divisor[j] ^= divisor[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+
+  const remainder = new Array<number>(degree).fill(0);
+
+  for (const byte of data) {
+    const factor = byte ^ remainder.shift()!;
+    remainder.push(0);
+    divisor.forEach((coefficient, i) => {
+      remainder[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+
+  return remainder;
+}
+
+// Data bytes as a byte mode segment, padded to the version's capacity
+function encodeData(bytes: Uint8Array, version: number): number[] {
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  push(0b0100, 4);
+  push(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => push(byte, 8));
+
+  const capacity = dataCodewords(version) * 8;
+  push(0, Math.min(4, capacity - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+
+  return codewords;
+}
+
+// Splits data into blocks, adds error correction and interleaves the result
+function addErrorCorrection(data: number[], version: number): number[] {
+  const blockCount = BLOCKS[version - 1];
+  const eccLength = ECC_PER_BLOCK[version - 1];
+  const shortBlocks = blockCount - (rawCodewords(version) % blockCount);
+  const shortLength = Math.floor(data.length / blockCount);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortLength + (i < shortBlocks ? 0 : 1);
+    blocks.push(data.slice(offset, offset + length));
+    offset += length;
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortLength; i++) {
+    blocks.forEach((block) => {
+      if (i < block.length) result.push(block[i]);
+    });
+  }
+
+  const eccBlocks = blocks.map((block) => reedSolomon(block, eccLength));
+  for (let i = 0; i < eccLength; i++) {
+    eccBlocks.forEach((ecc) => result.push(ecc[i]));
+  }
+
+  return result;
+}
+
+function shouldInvert(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+/**
+ * The 15 format bits for level M and a mask, BCH protected and masked as
+ * the standard requires.
+ */
+export function formatBits(mask: number): number {
+  const data = (LEVEL_M_BITS << 3) | mask;
+  let remainder = data;
+
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+
+  return ((data << 10) | remainder) ^ 0x5412;
+}
+
+class QrBuilder {
+  readonly size: number;
+  readonly modules: Grid;
+  private readonly reserved: Grid;
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinder(3, 3);
+    this.drawFinder(this.size - 4, 3);
+    this.drawFinder(3, this.size - 4);
+
+    const positions = alignmentPositions(this.version);
+    const last = positions.length - 1;
+
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        // Skip the three corners taken by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        this.drawAlignment(x, y);
+      });
+    });
+
+    // Reserve the format areas; their bits depend on the mask chosen later
+    this.drawFormat(0);
+    this.drawVersion();
+  }
+
+  private drawFinder(cx: number, cy: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+
+        if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+          this.setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignment(cx: number, cy: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  drawFormat(mask: number) {
+    const bits = formatBits(mask);
+
+    // Around the top left finder
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    // Split between the other two finders
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, getBit(bits, i));
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return;
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, getBit(bits, i));
+      this.setFunction(b, a, getBit(bits, i));
+    }
+  }
+
+  // Places codewords in the zigzag order, two columns at a time from the bottom right
+  drawCodewords(codewords: number[]) {
+    let i = 0;
+
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+
+          if (!this.reserved[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  // XORs the mask over data modules; applying it twice undoes it
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && shouldInvert(mask, x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  // Penalty score from the standard's four rules; the lowest scoring mask wins
+  penalty(): number {
+    const { size, modules } = this;
+    let score = 0;
+
+    const lines = [
+      ...modules,
+      ...modules.map((_, x) => modules.map((row) => row[x])),
+    ];
+
+    for (const line of lines) {
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++;
+        } else {
+          if (run >= 5) score += 3 + (run - 5);
+          run = 1;
+        }
+      }
+
+      // Finder-like 1:1:3:1:1 patterns with four light modules on either side
+      const text = line.map((dark) => (dark ? '1' : '0')).join('');
+      for (let i = 0; i + 11 <= size; i++) {
+        const window = text.slice(i, i + 11);
+        if (window === '10111010000' || window === '00001011101') score += 40;
+      }
+    }
+
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = modules[y][x];
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) score += 3;
+      }
+    }
+
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+
+    return score;
+  }
+}
+
+/**
+ * Encodes text as a QR code, using the smallest version that fits.
+ * @returns Rows of modules, true for dark
+ * @throws If the text needs more than version 10 can hold
+ */
+export function encodeQr(text: string): boolean[][] {
+  const bytes = new TextEncoder().encode(text);
+
+  let version = 1;
+  // 4 mode bits plus the character count, which takes two bytes from version 10
+  while (version <= MAX_VERSION && bytes.length + (version < 10 ? 2 : 3) > dataCodewords(version)) {
+    version++;
+  }
+
+  if (version > MAX_VERSION) {
+    throw new Error(`Text is too long for a QR code (${bytes.length} bytes)`);
+  }
+
+  const builder = new QrBuilder(version);
+  builder.drawFunctionPatterns();
+  builder.drawCodewords(addErrorCorrection(encodeData(bytes, version), version));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+
+  for (let mask = 0; mask < 8; mask++) {
+    builder.applyMask(mask);
+    builder.drawFormat(mask);
+
+    const penalty = builder.penalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+
+    builder.applyMask(mask);
+  }
+
+  builder.applyMask(bestMask);
+  builder.drawFormat(bestMask);
+
+  return builder.modules;
+}
+
+/**
+ * Renders QR modules as a standalone SVG document.
+ * @param margin - Quiet zone around the code, in modules; scanners need at least 4
+ */
+export function qrToSvg(modules: boolean[][], margin = 4): string {
+  const size = modules.length + margin * 2;
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + margin},${y + margin}h1v1h-1z` : '')))
+    .join('');
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">`,
+    `<rect width="${size}" height="${size}" fill="#fff"/>`,
+    `<path d="${path}" fill="#000"/>`,
+    '</svg>',
+  ].join('');
+}
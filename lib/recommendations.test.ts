@@ -0,0 +1,137 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  RECOMMENDATION_WEIGHTS,
+  RecommendableEvent,
+  coBookingScore,
+  dateScore,
+  locationScore,
+  rankCandidates,
+  scoreCandidate,
+  tagScore,
+} from './recommendations';
+
+const makeEvent = (overrides: Partial<RecommendableEvent> & { _id: string }): RecommendableEvent => ({
+  tags: ['react'],
+  mode: 'offline',
+  location: 'San Francisco, CA, USA',
+  date: '2026-06-01',
+  startsAt: '2026-06-01T16:00:00.000Z',
+  ...overrides,
+});
+
+describe('Recommendation Scoring', () => {
+  describe('tagScore', () => {
+    it('should score the share of source tags the candidate has', () => {
+      expect(tagScore(['react', 'nextjs'], ['react'])).toBe(0.5);
+      expect(tagScore(['react', 'nextjs'], ['nextjs', 'react', 'vue'])).toBe(1);
+    });
+
+    it('should compare tags case-insensitively and ignore duplicates', () => {
+      expect(tagScore(['React'], ['react', 'REACT'])).toBe(1);
+    });
+
+    it('should score zero without shared tags or source tags', () => {
+      expect(tagScore(['react'], ['vue'])).toBe(0);
+      expect(tagScore([], ['vue'])).toBe(0);
+    });
+  });
+
+  describe('locationScore', () => {
+    it('should score the same city highest', () => {
+      expect(locationScore('San Francisco, CA, USA', 'san francisco, ca, usa')).toBe(1);
+    });
+
+    it('should score the same region above the same country', () => {
+      const sameState = locationScore('San Francisco, CA, USA', 'Los Angeles, CA, USA');
+      const sameCountry = locationScore('San Francisco, CA, USA', 'Las Vegas, NV, USA');
+
+      expect(sameState).toBeCloseTo(2 / 3);
+      expect(sameCountry).toBeCloseTo(1 / 3);
+    });
+
+    it('should ignore parenthesized annotations', () => {
+      expect(locationScore('Los Angeles, CA, USA (Hybrid)', 'Los Angeles, CA, USA')).toBe(1);
+    });
+
+    it('should score different countries as zero', () => {
+      expect(locationScore('Paris, France', 'Vienna, Austria')).toBe(0);
+    });
+  });
+
+  describe('dateScore', () => {
+    it('should be 1 for simultaneous events and halve after 30 days', () => {
+      const source = makeEvent({ _id: 'a' });
+
+      expect(dateScore(source, makeEvent({ _id: 'b' }))).toBe(1);
+      expect(dateScore(source, makeEvent({ _id: 'c', startsAt: '2026-07-01T16:00:00.000Z' }))).toBeCloseTo(0.5);
+    });
+
+    it('should fall back to the date when there is no start instant', () => {
+      const source = makeEvent({ _id: 'a', startsAt: undefined, date: '2026-06-01' });
+      const candidate = makeEvent({ _id: 'b', startsAt: undefined, date: '2026-06-01' });
+
+      expect(dateScore(source, candidate)).toBe(1);
+    });
+  });
+
+  describe('coBookingScore', () => {
+    it('should be the share of attendees who booked both, capped at 1', () => {
+      expect(coBookingScore(2, 8)).toBe(0.25);
+      expect(coBookingScore(5, 4)).toBe(1);
+      expect(coBookingScore(3, 0)).toBe(0);
+    });
+  });
+
+  describe('scoreCandidate', () => {
+    it('should give an identical event in the same place and time the full score', () => {
+      const source = makeEvent({ _id: 'a' });
+
+      expect(scoreCandidate(source, makeEvent({ _id: 'b' }), 4, 4)).toBeCloseTo(1);
+    });
+
+    it('should weight each signal', () => {
+      const source = makeEvent({ _id: 'a' });
+      const candidate = makeEvent({
+        _id: 'b',
+        tags: ['vue'],
+        mode: 'online',
+        location: 'Paris, France',
+        startsAt: '2026-07-01T16:00:00.000Z',
+      });
+
+      expect(scoreCandidate(source, candidate)).toBeCloseTo(RECOMMENDATION_WEIGHTS.date * 0.5);
+    });
+  });
+
+  describe('rankCandidates', () => {
+    const source = makeEvent({ _id: 'source', tags: ['react', 'nextjs'] });
+
+    it('should order candidates by score and return the top N', () => {
+      const weak = makeEvent({ _id: 'weak', tags: ['react'], location: 'Paris, France' });
+      const strong = makeEvent({ _id: 'strong', tags: ['react', 'nextjs'] });
+      const medium = makeEvent({ _id: 'medium', tags: ['react', 'nextjs'], location: 'Paris, France' });
+
+      const ranked = rankCandidates(source, [weak, strong, medium], { limit: 2 });
+
+      expect(ranked.map((event) => event._id)).toEqual(['strong', 'medium']);
+    });
+
+    it('should let co-bookings lift a candidate', () => {
+      const a = makeEvent({ _id: 'a', tags: ['react'] });
+      const b = makeEvent({ _id: 'b', tags: ['react'] });
+
+      const ranked = rankCandidates(source, [a, b], {
+        coBookings: new Map([['b', 3]]),
+        sourceAttendees: 3,
+      });
+
+      expect(ranked.map((event) => event._id)).toEqual(['b', 'a']);
+    });
+
+    it('should exclude the source event and candidates related only by timing', () => {
+      const unrelated = makeEvent({ _id: 'unrelated', tags: ['rust'], mode: 'online', location: 'Paris, France' });
+
+      expect(rankCandidates(source, [source, unrelated])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Scoring for "similar events" recommendations. Every signal is normalized to
+ * 0..1 and combined with fixed weights, so scores are comparable across events.
+ */
+
+export type RecommendableEvent = {
+  _id: unknown;
+  tags: string[];
+  mode: string;
+  location: string;
+  date: string;
+  startsAt?: Date | string;
+};
+
+export const RECOMMENDATION_WEIGHTS = {
+  tags: 0.35,
+  location: 0.2,
+  coBooking: 0.2,
+  date: 0.15,
+  mode: 0.1,
+};
+
+// Events this many days apart score half of what same-day events do
+const DATE_HALF_LIFE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Share of the source event's tags that the candidate also has (case-insensitive).
+ */
+export function tagScore(sourceTags: string[], candidateTags: string[]): number {
+  const source = new Set(sourceTags.map((tag) => tag.toLowerCase()));
+
+  if (source.size === 0) return 0;
+
+  const shared = new Set(candidateTags.map((tag) => tag.toLowerCase()).filter((tag) => source.has(tag)));
+
+  return shared.size / source.size;
+}
+
+/**
+ * Compares free-text locations such as "San Francisco, CA, USA" from the most
+ * general part inwards: same city scores 1, same state/region scores less and
+ * same country less again.
+ */
+export function locationScore(a: string, b: string): number {
+  const parse = (location: string) =>
+    location
+      .toLowerCase()
+      .replace(/\(.*?\)/g, '') // Drop annotations like "(Hybrid)"
+      .split(',')
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .reverse();
+
+  const left = parse(a);
+  const right = parse(b);
+  const depth = Math.max(left.length, right.length);
+
+  if (depth === 0) return 0;
+
+  let shared = 0;
+  while (shared < Math.min(left.length, right.length) && left[shared] === right[shared]) {
+    shared++;
+  }
+
+  return shared / depth;
+}
+
+function getStart(event: RecommendableEvent): number {
+  return new Date(event.startsAt ?? event.date).getTime();
+}
+
+/**
+ * Decays with the number of days between the two events.
+ */
+export function dateScore(source: RecommendableEvent, candidate: RecommendableEvent): number {
+  const days = Math.abs(getStart(source) - getStart(candidate)) / DAY_MS;
+
+  if (Number.isNaN(days)) return 0;
+
+  return 1 / (1 + days / DATE_HALF_LIFE_DAYS);
+}
+
+/**
+ * Share of the source event's attendees who also booked the candidate.
+ */
+export function coBookingScore(sharedAttendees: number, sourceAttendees: number): number {
+  if (sourceAttendees === 0) return 0;
+
+  return Math.min(sharedAttendees / sourceAttendees, 1);
+}
+
+/**
+ * Combined similarity of a candidate to the source event, between 0 and 1.
+ * @param sharedAttendees - People who booked both events
+ * @param sourceAttendees - People who booked the source event
+ */
+export function scoreCandidate(
+  source: RecommendableEvent,
+  candidate: RecommendableEvent,
+  sharedAttendees = 0,
+  sourceAttendees = 0
+): number {
+  const w = RECOMMENDATION_WEIGHTS;
+
+  return (
+    w.tags * tagScore(source.tags, candidate.tags) +
+    w.location * locationScore(source.location, candidate.location) +
+    w.coBooking * coBookingScore(sharedAttendees, sourceAttendees) +
+    w.date * dateScore(source, candidate) +
+    w.mode * (source.mode === candidate.mode ? 1 : 0)
+  );
+}
+
+/**
+ * Scores candidates and returns the best `limit`, highest first. Candidates
+ * with nothing in common besides timing (no shared tags, location, attendees
+ * or mode) are left out.
+ * @param coBookings - Shared attendee counts keyed by candidate id
+ */
+export function rankCandidates<T extends RecommendableEvent>(
+  source: RecommendableEvent,
+  candidates: T[],
+  { coBookings = new Map<string, number>(), sourceAttendees = 0, limit = 3 }: {
+    coBookings?: Map<string, number>;
+    sourceAttendees?: number;
+    limit?: number;
+  } = {}
+): T[] {
+  return candidates
+    .filter((candidate) => String(candidate._id) !== String(source._id))
+    .map((candidate) => {
+      const shared = coBookings.get(String(candidate._id)) ?? 0;
+      const score = scoreCandidate(source, candidate, shared, sourceAttendees);
+      const timingOnly = score - RECOMMENDATION_WEIGHTS.date * dateScore(source, candidate);
+
+      return { candidate, score, relevant: timingOnly > 0 };
+    })
+    .filter(({ relevant }) => relevant)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from '@jest/globals';
+import { expandOccurrences, isOccurrence, isValidRecurrenceRule, parseRecurrenceRule } from './recurrence';
+
+const dates = (recurrence: string, date = '2026-01-13', options: { from?: Date; limit?: number } = {}) =>
+  expandOccurrences({ date, time: '18:00', timezone: 'UTC', recurrence }, options).map((o) => o.date);
+
+describe('parseRecurrenceRule', () => {
+  it('should parse the supported parts', () => {
+    expect(parseRecurrenceRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;COUNT=6')).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      count: 6,
+      until: undefined,
+      byDay: [{ weekday: 2, ordinal: 2 }, { weekday: 5, ordinal: -1 }],
+      byMonthDay: [],
+    });
+  });
+
+  it('should read UNTIL as a local date or a UTC instant', () => {
+    expect(parseRecurrenceRule('FREQ=DAILY;UNTIL=20260131').until).toBe('2026-01-31');
+    expect(parseRecurrenceRule('FREQ=DAILY;UNTIL=20260131T120000Z').until).toEqual(new Date('2026-01-31T12:00:00Z'));
+  });
+
+  it('should reject unsupported or invalid rules', () => {
+    expect(() => parseRecurrenceRule('FREQ=YEARLY')).toThrow('FREQ must be DAILY, WEEKLY or MONTHLY');
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYHOUR=9')).toThrow('Unsupported recurrence rule part: BYHOUR');
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;COUNT=2;UNTIL=20260101')).toThrow('COUNT and UNTIL cannot be combined');
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=2TU')).toThrow('Invalid BYDAY value: 2TU');
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=0')).toThrow('INTERVAL must be a positive whole number');
+    expect(isValidRecurrenceRule('FREQ=DAILY;BYMONTHDAY=1')).toBe(false);
+    expect(isValidRecurrenceRule('FREQ=WEEKLY;BYDAY=MO,WE')).toBe(true);
+  });
+});
+
+describe('expandOccurrences', () => {
+  it('should return a single occurrence for events without a rule', () => {
+    const [occurrence, ...rest] = expandOccurrences({ date: '2026-01-13', time: '18:00', timezone: 'UTC' });
+
+    expect(occurrence.startsAt).toEqual(new Date('2026-01-13T18:00:00Z'));
+    expect(rest).toHaveLength(0);
+  });
+
+  it('should expand daily and weekly rules with intervals', () => {
+    expect(dates('FREQ=DAILY;INTERVAL=2;COUNT=3')).toEqual(['2026-01-13', '2026-01-15', '2026-01-17']);
+    expect(dates('FREQ=WEEKLY;COUNT=3')).toEqual(['2026-01-13', '2026-01-20', '2026-01-27']);
+    expect(dates('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=4')).toEqual([
+      '2026-01-13', '2026-01-15', '2026-01-27', '2026-01-29',
+    ]);
+  });
+
+  it('should expand monthly rules by weekday ordinal and month day', () => {
+    // 2026-01-13 is the second Tuesday of January
+    expect(dates('FREQ=MONTHLY;BYDAY=2TU;COUNT=3')).toEqual(['2026-01-13', '2026-02-10', '2026-03-10']);
+    expect(dates('FREQ=MONTHLY;BYDAY=-1FR;COUNT=2')).toEqual(['2026-01-30', '2026-02-27']);
+    expect(dates('FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3')).toEqual(['2026-01-31', '2026-02-28', '2026-03-31']);
+  });
+
+  it('should skip months that lack the start day', () => {
+    expect(dates('FREQ=MONTHLY;COUNT=3', '2026-01-31')).toEqual(['2026-01-31', '2026-03-31', '2026-05-31']);
+  });
+
+  it('should stop at UNTIL and at the limit', () => {
+    expect(dates('FREQ=WEEKLY;UNTIL=20260127')).toEqual(['2026-01-13', '2026-01-20', '2026-01-27']);
+    expect(dates('FREQ=DAILY', '2026-01-13', { limit: 2 })).toEqual(['2026-01-13', '2026-01-14']);
+  });
+
+  it('should count skipped occurrences towards COUNT when starting from a later instant', () => {
+    expect(dates('FREQ=WEEKLY;COUNT=3', '2026-01-13', { from: new Date('2026-01-14T00:00:00Z') })).toEqual([
+      '2026-01-20', '2026-01-27',
+    ]);
+  });
+
+  it('should keep the wall-clock time across DST changes', () => {
+    const occurrences = expandOccurrences({
+      date: '2026-03-02',
+      time: '18:00',
+      timezone: 'America/New_York',
+      recurrence: 'FREQ=WEEKLY;COUNT=2',
+    });
+
+    // EST (UTC-5) before 8 March, EDT (UTC-4) after
+    expect(occurrences.map((o) => o.startsAt.toISOString())).toEqual([
+      '2026-03-02T23:00:00.000Z',
+      '2026-03-09T22:00:00.000Z',
+    ]);
+  });
+
+  it('should carry the duration of the first occurrence', () => {
+    const [, second] = expandOccurrences({
+      date: '2026-01-13',
+      time: '18:00',
+      timezone: 'UTC',
+      endsAt: '2026-01-13T20:00:00Z',
+      recurrence: 'FREQ=WEEKLY',
+    });
+
+    expect(second.endsAt).toEqual(new Date('2026-01-20T20:00:00Z'));
+  });
+});
+
+describe('isOccurrence', () => {
+  const schedule = { date: '2026-01-13', time: '18:00', timezone: 'UTC', recurrence: 'FREQ=WEEKLY;COUNT=3' };
+
+  it('should accept instants the rule generates', () => {
+    expect(isOccurrence(schedule, new Date('2026-01-27T18:00:00Z'))).toBe(true);
+  });
+
+  it('should reject other instants', () => {
+    expect(isOccurrence(schedule, new Date('2026-01-27T19:00:00Z'))).toBe(false);
+    expect(isOccurrence(schedule, new Date('2026-02-03T18:00:00Z'))).toBe(false);
+  });
+});
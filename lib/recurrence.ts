@@ -0,0 +1,269 @@
+/**
+ * Recurrence rules for repeating events, using a subset of RFC 5545 RRULE:
+ * FREQ (DAILY, WEEKLY or MONTHLY), INTERVAL, COUNT or UNTIL, BYDAY and
+ * BYMONTHDAY. Occurrences are generated in the event's wall-clock time, so a
+ * meetup at 18:00 stays at 18:00 across DST changes.
+ */
+import { zonedTimeToUtc } from './timezone';
+
+export const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY'] as const;
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  // Last allowed occurrence: a local date (YYYY-MM-DD) or an instant
+  until?: string | Date;
+  // Weekday (0 = Sunday) with an optional ordinal within the month, e.g. 2TU or -1FR
+  byDay: { weekday: number; ordinal?: number }[];
+  byMonthDay: number[];
+};
+
+export type Occurrence = {
+  // Wall-clock date in the event's timezone
+  date: string;
+  startsAt: Date;
+  endsAt?: Date;
+};
+
+export type RecurringSchedule = {
+  date: string;
+  time: string;
+  timezone: string;
+  recurrence?: string | null;
+  startsAt?: Date | string;
+  endsAt?: Date | string | null;
+};
+
+// Guards against rules that never produce a date, like BYMONTHDAY=31 every 12 months from April
+const MAX_PERIODS = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toUtcDay(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function formatDay(day: Date): string {
+  return day.toISOString().slice(0, 10);
+}
+
+function parseUntil(value: string): string | Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/);
+
+  if (!match) throw new Error('UNTIL must be a date (YYYYMMDD) or a UTC time (YYYYMMDDTHHMMSSZ)');
+
+  const [, year, month, day, hour, minute, second] = match;
+
+  return hour
+    ? new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second))
+    : `${year}-${month}-${day}`;
+}
+
+function parsePositive(name: string, value: string): number {
+  const number = Number(value);
+
+  if (!Number.isInteger(number) || number < 1) throw new Error(`${name} must be a positive whole number`);
+
+  return number;
+}
+
+/**
+ * Parses an RRULE string such as `FREQ=MONTHLY;BYDAY=2TU;COUNT=12`. A leading
+ * `RRULE:` is accepted.
+ * @throws Error describing the first unsupported or invalid part
+ */
+export function parseRecurrenceRule(rule: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+
+  for (const part of rule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+
+    if (!key || value === undefined) throw new Error(`Invalid recurrence rule part: ${part}`);
+
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  for (const key of parts.keys()) {
+    if (!['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY'].includes(key)) {
+      throw new Error(`Unsupported recurrence rule part: ${key}`);
+    }
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+
+  if (!freq || !RECURRENCE_FREQUENCIES.includes(freq)) {
+    throw new Error('FREQ must be DAILY, WEEKLY or MONTHLY');
+  }
+
+  if (parts.has('COUNT') && parts.has('UNTIL')) {
+    throw new Error('COUNT and UNTIL cannot be combined');
+  }
+
+  const byDay = (parts.get('BYDAY')?.split(',') ?? []).map((value) => {
+    const match = value.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+
+    if (!match) throw new Error(`Invalid BYDAY value: ${value}`);
+
+    const ordinal = match[1] ? Number(match[1]) : undefined;
+
+    if (ordinal !== undefined && (freq !== 'MONTHLY' || ordinal === 0 || Math.abs(ordinal) > 5)) {
+      throw new Error(`Invalid BYDAY value: ${value}`);
+    }
+
+    return { weekday: WEEKDAYS.indexOf(match[2] as (typeof WEEKDAYS)[number]), ordinal };
+  });
+
+  if (byDay.length > 0 && freq === 'DAILY') {
+    throw new Error('BYDAY is only supported for WEEKLY and MONTHLY rules');
+  }
+
+  const byMonthDay = (parts.get('BYMONTHDAY')?.split(',') ?? []).map((value) => {
+    const day = Number(value);
+
+    if (!Number.isInteger(day) || day === 0 || Math.abs(day) > 31) throw new Error(`Invalid BYMONTHDAY value: ${value}`);
+
+    return day;
+  });
+
+  if (byMonthDay.length > 0 && freq !== 'MONTHLY') {
+    throw new Error('BYMONTHDAY is only supported for MONTHLY rules');
+  }
+
+  return {
+    freq,
+    interval: parts.has('INTERVAL') ? parsePositive('INTERVAL', parts.get('INTERVAL')!) : 1,
+    count: parts.has('COUNT') ? parsePositive('COUNT', parts.get('COUNT')!) : undefined,
+    until: parts.has('UNTIL') ? parseUntil(parts.get('UNTIL')!) : undefined,
+    byDay,
+    byMonthDay,
+  };
+}
+
+/**
+ * Whether a string is a supported recurrence rule.
+ */
+export function isValidRecurrenceRule(rule: string): boolean {
+  try {
+    parseRecurrenceRule(rule);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Calendar days (as UTC midnights) the rule selects in its nth period, in order
+function daysInPeriod(rule: RecurrenceRule, start: Date, period: number): Date[] {
+  if (rule.freq === 'DAILY') {
+    return [new Date(start.getTime() + period * rule.interval * DAY_MS)];
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    // Weeks start on Monday, as RRULE's default WKST=MO
+    const weekStart = start.getTime() - ((start.getUTCDay() + 6) % 7) * DAY_MS + period * rule.interval * 7 * DAY_MS;
+    const weekdays = rule.byDay.length > 0 ? rule.byDay.map(({ weekday }) => weekday) : [start.getUTCDay()];
+
+    return [...new Set(weekdays)]
+      .map((weekday) => new Date(weekStart + ((weekday + 6) % 7) * DAY_MS))
+      .sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth() + period * rule.interval;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const days = new Set<number>();
+
+  if (rule.byMonthDay.length > 0) {
+    for (const day of rule.byMonthDay) {
+      const resolved = day > 0 ? day : daysInMonth + day + 1;
+      if (resolved >= 1 && resolved <= daysInMonth) days.add(resolved);
+    }
+  } else if (rule.byDay.length > 0) {
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: number[] = [];
+
+      for (let day = 1; day <= daysInMonth; day++) {
+        if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) matching.push(day);
+      }
+
+      if (ordinal === undefined) {
+        matching.forEach((day) => days.add(day));
+      } else {
+        const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (day) days.add(day);
+      }
+    }
+  } else if (start.getUTCDate() <= daysInMonth) {
+    // Months without the start's day of month (e.g. the 31st) are skipped
+    days.add(start.getUTCDate());
+  }
+
+  return [...days].sort((a, b) => a - b).map((day) => new Date(Date.UTC(year, month, day)));
+}
+
+/**
+ * Expands an event's schedule into occurrences, oldest first. Events without
+ * a recurrence rule have a single occurrence. Occurrences keep the duration
+ * of the first one.
+ * @param from - Skip occurrences that start before this instant
+ * @param limit - Maximum number of occurrences to return
+ */
+export function expandOccurrences(
+  schedule: RecurringSchedule,
+  { from, limit = 50 }: { from?: Date; limit?: number } = {}
+): Occurrence[] {
+  const firstStart = schedule.startsAt
+    ? new Date(schedule.startsAt)
+    : zonedTimeToUtc(schedule.date, schedule.time, schedule.timezone);
+  const duration = schedule.endsAt ? new Date(schedule.endsAt).getTime() - firstStart.getTime() : null;
+
+  const toOccurrence = (date: string, startsAt: Date): Occurrence => ({
+    date,
+    startsAt,
+    ...(duration !== null && { endsAt: new Date(startsAt.getTime() + duration) }),
+  });
+
+  if (!schedule.recurrence) {
+    return from && firstStart < from ? [] : [toOccurrence(schedule.date, firstStart)].slice(0, limit);
+  }
+
+  const rule = parseRecurrenceRule(schedule.recurrence);
+  const start = toUtcDay(schedule.date);
+  const occurrences: Occurrence[] = [];
+  let generated = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const day of daysInPeriod(rule, start, period)) {
+      if (day < start) continue;
+
+      const date = formatDay(day);
+      const startsAt = zonedTimeToUtc(date, schedule.time, schedule.timezone);
+
+      const pastUntil = typeof rule.until === 'string' ? date > rule.until : rule.until && startsAt > rule.until;
+      if (pastUntil || (rule.count !== undefined && generated >= rule.count)) return occurrences;
+
+      generated++;
+
+      if (from && startsAt < from) continue;
+
+      occurrences.push(toOccurrence(date, startsAt));
+
+      if (occurrences.length >= limit) return occurrences;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Whether an instant is one of the occurrences of an event's schedule.
+ */
+export function isOccurrence(schedule: RecurringSchedule, startsAt: Date): boolean {
+  const [next] = expandOccurrences(schedule, { from: startsAt, limit: 1 });
+
+  return next?.startsAt.getTime() === startsAt.getTime();
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from '@jest/globals';
+import { Types } from 'mongoose';
+import {
+  EventSearchQuery,
+  buildSearchFilter,
+  decodeCursor,
+  encodeCursor,
+  getSearchOrder,
+  parseSearchParams,
+  toSearchParams,
+} from './search';
+
+const ID = '64b7f0c2a1b2c3d4e5f60718';
+
+const makeQuery = (overrides: Partial<EventSearchQuery> = {}): EventSearchQuery => ({
+  tags: [],
+  sort: 'date',
+  limit: 12,
+  ...overrides,
+});
+
+describe('encodeCursor and decodeCursor', () => {
+  it('should round-trip keyset and offset cursors as URL-safe strings', () => {
+    const keyset = { value: '2026-06-01T16:00:00.000Z', id: ID };
+    const encoded = encodeCursor(keyset);
+
+    expect(encoded).toMatch(/^[\w-]+$/);
+    expect(decodeCursor(encoded)).toEqual(keyset);
+    expect(decodeCursor(encodeCursor({ value: null, id: ID }))).toEqual({ value: null, id: ID });
+    expect(decodeCursor(encodeCursor({ offset: 24 }))).toEqual({ offset: 24 });
+  });
+
+  it('should reject cursors that were not made by encodeCursor', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(encode({ offset: -1 }))).toBeNull();
+    expect(decodeCursor(encode({ offset: 1.5 }))).toBeNull();
+    expect(decodeCursor(encode({ value: 3, id: 'nope' }))).toBeNull();
+    expect(decodeCursor(encode({}))).toBeNull();
+    expect(decodeCursor(encode({ value: 'not a date', id: ID }))).toBeNull();
+    expect(decodeCursor(encode({ value: {}, id: ID }))).toBeNull();
+  });
+});
+
+describe('parseSearchParams and toSearchParams', () => {
+  it('should read filters and drop malformed values', () => {
+    const query = parseSearchParams(new URLSearchParams(
+      'q=+react+&mode=space&tag=react,%20node&tag=web&from=2026-06-01&to=June&lat=37.7&lng=-122.4&within=5000&limit=500'
+    ));
+
+    expect(query).toEqual({
+      q: 'react',
+      mode: undefined,
+      tags: ['react', 'node', 'web'],
+      location: undefined,
+      organizer: undefined,
+      near: { lat: 37.7, lng: -122.4, withinKm: 1000 },
+      from: '2026-06-01',
+      to: undefined,
+      sort: 'relevance',
+      limit: 50,
+      cursor: undefined,
+    });
+  });
+
+  it('should sort by date without a text query and ignore unknown sorts', () => {
+    expect(parseSearchParams(new URLSearchParams('')).sort).toBe('date');
+    expect(parseSearchParams(new URLSearchParams('sort=price')).sort).toBe('date');
+    expect(parseSearchParams(new URLSearchParams('sort=popularity')).sort).toBe('popularity');
+  });
+
+  it('should omit defaults and read back what it writes', () => {
+    const query = parseSearchParams(new URLSearchParams('q=react&tag=web&mode=online&sort=date&limit=20'));
+    const params = toSearchParams(query);
+
+    expect(params.toString()).toBe('q=react&mode=online&tag=web&sort=date&limit=20');
+    expect(parseSearchParams(params)).toEqual(query);
+    expect(toSearchParams(makeQuery()).toString()).toBe('');
+  });
+});
+
+describe('buildSearchFilter', () => {
+  it('should only match listed events when nothing is filtered', () => {
+    expect(buildSearchFilter(makeQuery())).toEqual({ status: 'published' });
+  });
+
+  it('should combine text, mode, tag, location and date filters', () => {
+    const filter = buildSearchFilter(makeQuery({
+      q: 'react',
+      mode: 'online',
+      tags: ['react', 'web'],
+      location: 'San Francisco (CA)',
+      from: '2026-06-01',
+      to: '2026-06-30',
+    }));
+
+    expect(filter).toEqual({
+      status: 'published',
+      $text: { $search: 'react' },
+      mode: 'online',
+      tags: { $all: ['react', 'web'] },
+      location: { $regex: 'San Francisco \\(CA\\)', $options: 'i' },
+      date: { $gte: '2026-06-01', $lte: '2026-06-30' },
+    });
+  });
+
+  it('should accept open-ended date ranges', () => {
+    expect(buildSearchFilter(makeQuery({ to: '2026-06-30' })).date).toEqual({ $lte: '2026-06-30' });
+  });
+});
+
+describe('getSearchOrder', () => {
+  it('should rank by text score and fall back to date without a text query', () => {
+    expect(getSearchOrder({ q: 'react', sort: 'relevance' }, { offset: 12 })).toEqual({
+      sort: 'relevance',
+      mongoSort: { score: { $meta: 'textScore' }, startsAt: 1, _id: 1 },
+    });
+    expect(getSearchOrder({ sort: 'relevance' }, null)).toEqual({
+      sort: 'date',
+      mongoSort: { startsAt: 1, _id: 1 },
+    });
+  });
+
+  it('should continue date sorts after the cursor, breaking ties by id', () => {
+    const { after } = getSearchOrder({ sort: 'date' }, { value: '2026-06-01T16:00:00.000Z', id: ID });
+    const startsAt = new Date('2026-06-01T16:00:00.000Z');
+
+    expect(after).toEqual({
+      $or: [{ startsAt: { $gt: startsAt } }, { startsAt, _id: { $gt: new Types.ObjectId(ID) } }],
+    });
+    // Offset cursors come from events without a start instant and don't narrow the filter
+    expect(getSearchOrder({ sort: 'date' }, { offset: 12 }).after).toBeUndefined();
+  });
+
+  it('should continue popularity sorts after the cursor, keeping events without a seat counter last', () => {
+    const id = new Types.ObjectId(ID);
+
+    expect(getSearchOrder({ sort: 'popularity' }, { value: 40, id: ID })).toEqual({
+      sort: 'popularity',
+      mongoSort: { seatsTaken: -1, _id: 1 },
+      after: { $or: [{ seatsTaken: { $lt: 40 } }, { seatsTaken: 40, _id: { $gt: id } }, { seatsTaken: null }] },
+    });
+    expect(getSearchOrder({ sort: 'popularity' }, { value: null, id: ID }).after).toEqual({
+      seatsTaken: null,
+      _id: { $gt: id },
+    });
+  });
+});
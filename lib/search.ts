@@ -0,0 +1,256 @@
+import { Types } from 'mongoose';
+import Event, { IEvent } from '@/database/event.model';
+import Organizer from '@/database/organizer.model';
+import Venue from '@/database/venue.model';
+import { parsePositiveInt } from '@/lib/api';
+import { escapeRegex } from '@/lib/utils';
+import { kmToRadians } from '@/lib/geocoding';
+import { LISTED_EVENT_FILTER } from '@/lib/event-status';
+
+export const SEARCH_SORTS = ['date', 'popularity', 'relevance'] as const;
+export type SearchSort = (typeof SEARCH_SORTS)[number];
+
+const MODES = ['online', 'offline', 'hybrid'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DEFAULT_PAGE_SIZE = 12;
+const MAX_PAGE_SIZE = 50;
+
+const DEFAULT_RADIUS_KM = 50;
+const MAX_RADIUS_KM = 1000;
+
+export type EventSearchQuery = {
+  q?: string;
+  mode?: string;
+  tags: string[];
+  location?: string;
+  organizer?: string;
+  // Only events at venues within `withinKm` of this point
+  near?: { lat: number; lng: number; withinKm: number };
+  // Inclusive YYYY-MM-DD bounds on the event's local date
+  from?: string;
+  to?: string;
+  sort: SearchSort;
+  limit: number;
+  cursor?: string;
+};
+
+export type EventSearchResult = {
+  events: IEvent[];
+  nextCursor: string | null;
+};
+
+// Position after the last returned event: keyset for date/popularity, offset for relevance
+export type SearchCursor =
+  | { value: string | number | null; id: string }
+  | { offset: number };
+
+type MongoSort = Record<string, 1 | -1 | { $meta: 'textScore' }>;
+
+export function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): SearchCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    if ('offset' in decoded && Number.isInteger(decoded.offset) && decoded.offset >= 0) return decoded;
+    if (!('id' in decoded) || !Types.ObjectId.isValid(decoded.id)) return null;
+
+    // Keyset values are a seat count, null for events without one, or a start instant
+    const { value } = decoded;
+    const valid = value === null
+      || (typeof value === 'number' && Number.isFinite(value))
+      || (typeof value === 'string' && !isNaN(new Date(value).getTime()));
+
+    return valid ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads search filters from a query string. Unknown or malformed values are
+ * dropped rather than rejected so shared links keep working.
+ */
+export function parseSearchParams(params: URLSearchParams): EventSearchQuery {
+  const text = (key: string) => params.get(key)?.trim() || undefined;
+  const date = (key: string) => {
+    const value = text(key);
+    return value && DATE_PATTERN.test(value) ? value : undefined;
+  };
+
+  const q = text('q');
+  const mode = text('mode');
+  const sort = text('sort');
+
+  const lat = Number(text('lat'));
+  const lng = Number(text('lng'));
+  const within = Number(text('within'));
+  const hasPoint = text('lat') && text('lng') && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+  return {
+    q,
+    mode: mode && MODES.includes(mode) ? mode : undefined,
+    tags: params.getAll('tag').flatMap((tag) => tag.split(',')).map((tag) => tag.trim()).filter(Boolean),
+    location: text('location'),
+    organizer: text('organizer'),
+    near: hasPoint
+      ? { lat, lng, withinKm: within > 0 ? Math.min(within, MAX_RADIUS_KM) : DEFAULT_RADIUS_KM }
+      : undefined,
+    from: date('from'),
+    to: date('to'),
+    sort: SEARCH_SORTS.includes(sort as SearchSort) ? (sort as SearchSort) : q ? 'relevance' : 'date',
+    limit: parsePositiveInt(params.get('limit'), DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+    cursor: text('cursor'),
+  };
+}
+
+/**
+ * Serializes a query back into URL parameters, omitting defaults.
+ */
+export function toSearchParams(query: Partial<EventSearchQuery>): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (query.q) params.set('q', query.q);
+  if (query.mode) params.set('mode', query.mode);
+  query.tags?.forEach((tag) => params.append('tag', tag));
+  if (query.location) params.set('location', query.location);
+  if (query.organizer) params.set('organizer', query.organizer);
+  if (query.near) {
+    params.set('lat', String(query.near.lat));
+    params.set('lng', String(query.near.lng));
+    params.set('within', String(query.near.withinKm));
+  }
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  if (query.sort && query.sort !== (query.q ? 'relevance' : 'date')) params.set('sort', query.sort);
+  if (query.limit && query.limit !== DEFAULT_PAGE_SIZE) params.set('limit', String(query.limit));
+  if (query.cursor) params.set('cursor', query.cursor);
+
+  return params;
+}
+
+/**
+ * Builds the filter for the parts of a query that don't need lookups in
+ * other collections; organizer and distance filters are added by `searchEvents`.
+ */
+export function buildSearchFilter(query: EventSearchQuery): Record<string, unknown> {
+  const filter: Record<string, unknown> = { ...LISTED_EVENT_FILTER };
+
+  if (query.q) filter.$text = { $search: query.q };
+  if (query.mode) filter.mode = query.mode;
+  if (query.tags.length > 0) filter.tags = { $all: query.tags };
+  if (query.location) filter.location = { $regex: escapeRegex(query.location), $options: 'i' };
+  if (query.from || query.to) {
+    filter.date = {
+      ...(query.from && { $gte: query.from }),
+      ...(query.to && { $lte: query.to }),
+    };
+  }
+
+  return filter;
+}
+
+/**
+ * Picks the sort order of a search and, for keyset cursors, the condition
+ * that selects the events after the cursor.
+ */
+export function getSearchOrder(
+  query: Pick<EventSearchQuery, 'q' | 'sort'>,
+  cursor: SearchCursor | null
+): { sort: SearchSort; mongoSort: MongoSort; after?: Record<string, unknown> } {
+  // Relevance needs a text query to rank by
+  const sort: SearchSort = query.sort === 'relevance' && !query.q ? 'date' : query.sort;
+
+  if (sort === 'relevance') {
+    return { sort, mongoSort: { score: { $meta: 'textScore' }, startsAt: 1, _id: 1 } };
+  }
+
+  if (sort === 'popularity') {
+    // Descending order puts events without a seat counter last
+    const mongoSort: MongoSort = { seatsTaken: -1, _id: 1 };
+
+    if (!cursor || !('id' in cursor)) return { sort, mongoSort };
+
+    const id = new Types.ObjectId(cursor.id);
+    return {
+      sort,
+      mongoSort,
+      after: cursor.value === null
+        ? { seatsTaken: null, _id: { $gt: id } }
+        : {
+          $or: [
+            { seatsTaken: { $lt: cursor.value } },
+            { seatsTaken: cursor.value, _id: { $gt: id } },
+            { seatsTaken: null },
+          ],
+        },
+    };
+  }
+
+  const mongoSort: MongoSort = { startsAt: 1, _id: 1 };
+
+  if (!cursor || !('id' in cursor) || typeof cursor.value !== 'string') return { sort, mongoSort };
+
+  const value = new Date(cursor.value);
+  const id = new Types.ObjectId(cursor.id);
+  return { sort, mongoSort, after: { $or: [{ startsAt: { $gt: value } }, { startsAt: value, _id: { $gt: id } }] } };
+}
+
+/**
+ * Searches events with full-text matching, filters, sorting and cursor pagination.
+ */
+export async function searchEvents(query: EventSearchQuery): Promise<EventSearchResult> {
+  const filter = buildSearchFilter(query);
+
+  if (query.organizer) {
+    const organizers = await Organizer.find({ name: { $regex: escapeRegex(query.organizer), $options: 'i' } })
+      .select('_id')
+      .lean<{ _id: Types.ObjectId }[]>();
+    filter.organizerProfile = { $in: organizers.map((organizer) => organizer._id) };
+  }
+  if (query.near) {
+    const { lat, lng, withinKm } = query.near;
+    const venues = await Venue.find({
+      location: { $geoWithin: { $centerSphere: [[lng, lat], kmToRadians(withinKm)] } },
+    })
+      .select('_id')
+      .lean<{ _id: Types.ObjectId }[]>();
+    filter.venueId = { $in: venues.map((venue) => venue._id) };
+  }
+
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  const { sort, mongoSort, after } = getSearchOrder(query, cursor);
+
+  if (after) filter.$and = [after];
+
+  const offset = cursor && 'offset' in cursor ? cursor.offset : 0;
+
+  // Fetch one extra result to learn whether another page exists
+  const events = await Event.find(filter, sort === 'relevance' ? { score: { $meta: 'textScore' } } : undefined)
+    .sort(mongoSort)
+    .skip(offset)
+    .limit(query.limit + 1)
+    .lean<IEvent[]>();
+
+  const hasMore = events.length > query.limit;
+  const page = hasMore ? events.slice(0, query.limit) : events;
+  const last = page[page.length - 1];
+
+  let nextCursor: string | null = null;
+
+  if (hasMore && last) {
+    // Events without a start instant (not yet migrated) can't anchor a keyset cursor
+    if (sort === 'relevance' || (sort === 'date' && !last.startsAt)) {
+      nextCursor = encodeCursor({ offset: offset + page.length });
+    } else if (sort === 'popularity') {
+      nextCursor = encodeCursor({ value: last.seatsTaken ?? null, id: String(last._id) });
+    } else {
+      nextCursor = encodeCursor({ value: new Date(last.startsAt).toISOString(), id: String(last._id) });
+    }
+  }
+
+  return { events: page, nextCursor };
+}
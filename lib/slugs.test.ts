@@ -0,0 +1,48 @@
+import { describe, it, expect } from '@jest/globals';
+import { isSlugFor, nextAvailableSlug, slugify } from './slugs';
+
+describe('slugify', () => {
+  it('should drop accents instead of the accented letters', () => {
+    expect(slugify('Café Conf')).toBe('cafe-conf');
+    expect(slugify('Señor Développeur Día')).toBe('senor-developpeur-dia');
+  });
+
+  it('should transliterate letters that have no decomposition', () => {
+    expect(slugify('Straße Œuvre Łódź')).toBe('strasse-oeuvre-lodz');
+    expect(slugify('Москва JS Встреча')).toBe('moskva-js-vstrecha');
+  });
+
+  it('should keep the existing rules for symbols and spacing', () => {
+    expect(slugify('React@Scale')).toBe('reactscale');
+    expect(slugify('  Web Dev   Meet-Up  ')).toBe('web-dev-meet-up');
+    expect(slugify('Multiple---Hyphens')).toBe('multiple-hyphens');
+  });
+
+  it('should return an empty slug when nothing transliterates', () => {
+    expect(slugify('東京')).toBe('');
+  });
+});
+
+describe('isSlugFor', () => {
+  it('should match the base and its numbered variants only', () => {
+    expect(isSlugFor('cafe-conf', 'cafe-conf')).toBe(true);
+    expect(isSlugFor('cafe-conf-3', 'cafe-conf')).toBe(true);
+    expect(isSlugFor('cafe-conf-berlin', 'cafe-conf')).toBe(false);
+    expect(isSlugFor('cafe', 'cafe-conf')).toBe(false);
+  });
+});
+
+describe('nextAvailableSlug', () => {
+  it('should use the base when it is free', () => {
+    expect(nextAvailableSlug('cafe-conf', ['other'])).toBe('cafe-conf');
+  });
+
+  it('should number collisions from 2', () => {
+    expect(nextAvailableSlug('cafe-conf', ['cafe-conf'])).toBe('cafe-conf-2');
+    expect(nextAvailableSlug('cafe-conf', ['cafe-conf', 'cafe-conf-2'])).toBe('cafe-conf-3');
+  });
+
+  it('should fill gaps left by renamed events', () => {
+    expect(nextAvailableSlug('cafe-conf', ['cafe-conf', 'cafe-conf-3'])).toBe('cafe-conf-2');
+  });
+});
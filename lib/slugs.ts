@@ -0,0 +1,82 @@
+/**
+ * URL slugs for events, speakers and organizers. Names are transliterated to
+ * ASCII so that "Café Conf" becomes `cafe-conf` rather than `caf-conf`, and
+ * colliding slugs get numbered suffixes.
+ */
+import type { Model } from 'mongoose';
+
+// Used when a title has nothing that transliterates, e.g. one written only in CJK characters
+export const FALLBACK_SLUG = 'event';
+
+// Letters that Unicode decomposition doesn't reduce to ASCII
+const TRANSLITERATIONS: Record<string, string> = {
+  ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', đ: 'd', ð: 'd', þ: 'th', ł: 'l', ı: 'i', ħ: 'h',
+  а: 'a', б: 'b', в: 'v', г: 'g', ґ: 'g', д: 'd', е: 'e', ё: 'e', є: 'ye', ж: 'zh', з: 'z',
+  и: 'i', і: 'i', ї: 'yi', й: 'y', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r',
+  с: 's', т: 't', у: 'u', ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '',
+  ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya',
+};
+
+/**
+ * Turns text into a lowercase, hyphenated ASCII slug. Accents are dropped,
+ * other scripts transliterated where possible and remaining symbols removed.
+ * @returns The slug, or an empty string when nothing is left
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/[\u0080-\uffff]/g, (char) => TRANSLITERATIONS[char] ?? char)
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '') // Remove the accents decomposition split off
+    .replace(/[^a-z0-9\s-]/g, '') // Remove special characters
+    .replace(/\s+/g, '-') // Replace spaces with hyphens
+    .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
+    .replace(/^-|-$/g, ''); // Remove leading/trailing hyphens
+}
+
+/**
+ * Whether a slug is `base` itself or `base` with a numbered suffix, i.e. a
+ * slug generated from the same title.
+ */
+export function isSlugFor(slug: string, base: string): boolean {
+  return slug === base || new RegExp(`^${base}-\\d+$`).test(slug);
+}
+
+/**
+ * Picks `base` if it is free, otherwise the first free one of `base-2`,
+ * `base-3` and so on.
+ * @param taken - Slugs already in use, or reserved by other events' slug history
+ */
+export function nextAvailableSlug(base: string, taken: Iterable<string>): string {
+  const used = new Set(taken);
+
+  if (!used.has(base)) return base;
+
+  let n = 2;
+  while (used.has(`${base}-${n}`)) n++;
+
+  return `${base}-${n}`;
+}
+
+/**
+ * Picks the first free slug for `base` in a collection with unique slugs,
+ * such as speakers or organizers.
+ * @param excludeId - The document being renamed, whose own slug doesn't count
+ */
+export async function findAvailableSlug<T extends { slug: string }>(
+  model: Model<T>,
+  base: string,
+  excludeId?: unknown
+): Promise<string> {
+  const filter: Record<string, unknown> = { slug: new RegExp(`^${base}(-\\d+)?$`) };
+
+  if (excludeId) filter._id = { $ne: excludeId };
+
+  const others = await model
+    .find(filter)
+    .select('slug')
+    .lean<{ slug: string }[]>();
+
+  return nextAvailableSlug(base, others.map((other) => other.slug));
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from '@jest/globals';
+import { collectLinkErrors, formatSocialLinks, parseSocialLinks } from './social-links';
+
+describe('parseSocialLinks', () => {
+  it('should read one "Label | URL" link per line', () => {
+    const text = 'GitHub | https://github.com/jane\r\n\n  Blog|https://jane.dev  \n';
+
+    expect(parseSocialLinks(text)).toEqual([
+      { label: 'GitHub', url: 'https://github.com/jane' },
+      { label: 'Blog', url: 'https://jane.dev' },
+    ]);
+  });
+
+  it('should label bare URLs with their host', () => {
+    expect(parseSocialLinks('https://www.linkedin.com/in/jane')).toEqual([
+      { label: 'linkedin.com', url: 'https://www.linkedin.com/in/jane' },
+    ]);
+    expect(parseSocialLinks('not a url')).toEqual([{ label: 'not a url', url: 'not a url' }]);
+  });
+
+  it('should read back what formatSocialLinks writes', () => {
+    const links = [{ label: 'Mastodon', url: 'https://hachyderm.io/@jane' }];
+
+    expect(parseSocialLinks(formatSocialLinks(links))).toEqual(links);
+    expect(formatSocialLinks(undefined)).toBe('');
+  });
+});
+
+describe('collectLinkErrors', () => {
+  it('should report the first broken link under the list field', () => {
+    const errors = collectLinkErrors(
+      { 'links.2.url': 'Social links must be http(s) URLs', 'links.3.label': 'Social link label is required' },
+      'links'
+    );
+
+    expect(errors.links).toBe('Link 3: Social links must be http(s) URLs');
+  });
+});
@@ -0,0 +1,46 @@
+import type { SocialLink } from '@/database/organizer.model';
+
+/**
+ * Profile links as the admin forms edit them: one link per line, written
+ * "Label | URL". Lines with only a URL are labelled with its host.
+ */
+export function formatSocialLinks(links: SocialLink[] | undefined): string {
+  return (links ?? []).map(({ label, url }) => `${label} | ${url}`).join('\n');
+}
+
+export function parseSocialLinks(text: string): SocialLink[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const separator = line.lastIndexOf('|');
+
+      if (separator !== -1) {
+        return { label: line.slice(0, separator).trim(), url: line.slice(separator + 1).trim() };
+      }
+
+      let label = line;
+      try {
+        label = new URL(line).hostname.replace(/^www\./, '');
+      } catch {
+        // Invalid URLs keep the whole line as their label, so validation reports the URL
+      }
+
+      return { label, url: line };
+    });
+}
+
+/**
+ * Moves validation errors of single links, e.g. `links.1.url`, to the list's
+ * field so the form can show them under its textarea.
+ */
+export function collectLinkErrors(errors: Record<string, string>, field: string): Record<string, string> {
+  for (const [path, message] of Object.entries(errors)) {
+    const match = path.match(new RegExp(`^${field}\\.(\\d+)\\.`));
+
+    if (match && !errors[field]) errors[field] = `Link ${Number(match[1]) + 1}: ${message}`;
+  }
+
+  return errors;
+}
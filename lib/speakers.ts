@@ -0,0 +1,73 @@
+import { isObjectIdOrHexString, Types } from 'mongoose';
+import Speaker, { ISpeaker, SPEAKER_NAME_COLLATION } from '@/database/speaker.model';
+import { isDuplicateKeyError } from '@/lib/api';
+import { parseAgendaText } from '@/lib/agenda';
+
+/**
+ * Finds the speaker profile a name belongs to (matched by name, ignoring
+ * case), creating a name-only profile for people we haven't seen before.
+ * Slugs don't identify people: different names may share one.
+ */
+export async function findOrCreateSpeaker(name: string): Promise<ISpeaker> {
+  const trimmed = name.replace(/\s+/g, ' ').trim();
+  const findByName = () => Speaker.findOne({ name: trimmed }).collation(SPEAKER_NAME_COLLATION);
+
+  const existing = await findByName();
+
+  if (existing) return existing;
+
+  try {
+    return await Speaker.create({ name: trimmed });
+  } catch (e) {
+    if (!isDuplicateKeyError(e)) throw e;
+
+    // Someone else created the same speaker in the meantime (names are unique),
+    // or took the slug picked for this one
+    return (await findByName()) ?? await Speaker.create({ name: trimmed });
+  }
+}
+
+/**
+ * Turns a list of speaker ids or names into speaker ids. Names are matched
+ * to existing profiles or create new ones.
+ */
+export async function resolveSpeakerIds(values: unknown): Promise<Types.ObjectId[]> {
+  if (!Array.isArray(values)) return [];
+
+  const ids: Types.ObjectId[] = [];
+
+  for (const value of values) {
+    if (value instanceof Types.ObjectId) {
+      ids.push(value);
+    } else if (typeof value === 'string' && value.trim()) {
+      // Only 24-character hex strings are ids: isValidObjectId would also take 12-letter names
+      ids.push(isObjectIdOrHexString(value) ? new Types.ObjectId(value) : (await findOrCreateSpeaker(value))._id as Types.ObjectId);
+    }
+  }
+
+  // The same person listed twice is still one speaker
+  return ids.filter((id, index) => ids.findIndex((other) => other.equals(id)) === index);
+}
+
+/**
+ * Resolves speaker names in an event body (headline speakers, agenda items
+ * and sessions) to speaker ids, in place. Plain text agenda lines are parsed
+ * first so "09:00 Keynote – Jane Doe" links Jane Doe's profile.
+ */
+export async function resolveEventSpeakers(body: Record<string, unknown>): Promise<void> {
+  if ('speakers' in body) body.speakers = await resolveSpeakerIds(body.speakers);
+
+  for (const list of ['agenda', 'sessions'] as const) {
+    if (!Array.isArray(body[list])) continue;
+
+    body[list] = await Promise.all(
+      (body[list] as unknown[]).map(async (entry) => {
+        const item = typeof entry === 'string' && list === 'agenda' ? parseAgendaText(entry) : entry;
+
+        if (!item || typeof item !== 'object' || !('speakers' in item)) return item;
+
+        return { ...item, speakers: await resolveSpeakerIds(item.speakers) };
+      })
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, afterAll, beforeEach } from '@jest/globals';
+import { createLocalStorage, detectImageType, MAX_IMAGE_SIZE, setStorage, uploadImage, validateImage } from './index';
+import type { StoredFileInput } from './types';
+
+const bytes = (...values: (number | string)[]) =>
+  new Uint8Array(values.flatMap((value) => (typeof value === 'string' ? [...Buffer.from(value, 'latin1')] : [value])));
+
+const PNG = bytes(0x89, 'PNG\r\n\x1a\n', 0, 0, 0, 13, 'IHDR');
+const JPEG = bytes(0xff, 0xd8, 0xff, 0xe0, 0, 16, 'JFIF');
+const GIF = bytes('GIF89a', 1, 0, 1, 0);
+const WEBP = bytes('RIFF', 36, 0, 0, 0, 'WEBPVP8 ');
+// ftyp box of 28 bytes: major brand mif1, compatible brands mif1, avif, miaf
+const AVIF = bytes(0, 0, 0, 28, 'ftypmif1', 0, 0, 0, 0, 'mif1avifmiaf');
+const HEIC = bytes(0, 0, 0, 24, 'ftypheic', 0, 0, 0, 0, 'mif1heic');
+
+const file = (data: Uint8Array<ArrayBuffer>, type: string) => new File([data], 'upload', { type });
+
+describe('detectImageType', () => {
+  it('should recognize every allowed image type by its signature', () => {
+    expect([PNG, JPEG, GIF, WEBP, AVIF].map(detectImageType)).toEqual([
+      'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif',
+    ]);
+  });
+
+  it('should reject other files, however short', () => {
+    expect(detectImageType(HEIC)).toBeNull();
+    expect(detectImageType(bytes('<svg xmlns="http://www.w3.org/2000/svg">'))).toBeNull();
+    expect(detectImageType(bytes('%PDF-1.7'))).toBeNull();
+    expect(detectImageType(new Uint8Array())).toBeNull();
+  });
+});
+
+describe('validateImage', () => {
+  it('should judge files by their content rather than their declared type', async () => {
+    expect(await validateImage(file(PNG, 'application/octet-stream'))).toBeNull();
+    expect(await validateImage(file(bytes('<script>alert(1)</script>'), 'image/png'))).toMatch(/^Image must be one of/);
+  });
+
+  it('should reject empty and oversized files', async () => {
+    expect(await validateImage(file(new Uint8Array(), 'image/png'))).toBe('Image file is empty');
+
+    const large = new Uint8Array(MAX_IMAGE_SIZE + 1);
+    large.set(JPEG);
+    expect(await validateImage(file(large, 'image/jpeg'))).toBe('Image cannot exceed 5 MB');
+  });
+});
+
+describe('uploadImage', () => {
+  const saved: StoredFileInput[] = [];
+
+  beforeEach(() => {
+    saved.length = 0;
+    setStorage({
+      async save(input) {
+        saved.push(input);
+        return { key: `${input.folder}/1`, url: `https://cdn.example.com/${input.folder}/1` };
+      },
+      async delete() {},
+    });
+  });
+
+  // Leave the default adapter for whatever runs next
+  afterAll(() => setStorage(createLocalStorage()));
+
+  it('should store images under the type their content shows', async () => {
+    const url = await uploadImage(file(WEBP, 'image/png'), 'events');
+
+    expect(url).toBe('https://cdn.example.com/events/1');
+    expect(saved).toHaveLength(1);
+    expect(saved[0]).toMatchObject({ contentType: 'image/webp', folder: 'events' });
+    expect([...saved[0].data]).toEqual([...WEBP]);
+  });
+
+  it('should refuse to store anything but images', async () => {
+    await expect(uploadImage(file(bytes('not an image'), 'image/png'), 'events')).rejects.toThrow('Only images can be uploaded');
+    expect(saved).toHaveLength(0);
+  });
+});
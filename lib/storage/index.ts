@@ -0,0 +1,98 @@
+import { createLocalStorage } from './local';
+import type { StorageAdapter } from './types';
+
+export type { StorageAdapter, StoredFile, StoredFileInput } from './types';
+export { createLocalStorage, LOCAL_UPLOADS_DIR, readLocalUpload } from './local';
+
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif'];
+
+const ascii = (bytes: Uint8Array, start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+/**
+ * Works out an image's type from its first bytes. Browsers send whatever
+ * type the file name suggests, so the declared type can't be trusted.
+ * @returns One of ALLOWED_IMAGE_TYPES, or null for anything else
+ */
+export function detectImageType(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (ascii(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') return 'image/png';
+  if (['GIF87a', 'GIF89a'].includes(ascii(bytes, 0, 6))) return 'image/gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'image/webp';
+
+  // ISO media files start with an ftyp box listing the brands they conform to
+  if (ascii(bytes, 4, 8) === 'ftyp') {
+    const boxSize = Math.min(new DataView(bytes.buffer, bytes.byteOffset).getUint32(0), bytes.length);
+    const brands = [ascii(bytes, 8, 12)];
+
+    for (let offset = 16; offset + 4 <= boxSize; offset += 4) brands.push(ascii(bytes, offset, offset + 4));
+
+    if (brands.includes('avif') || brands.includes('avis')) return 'image/avif';
+  }
+
+  return null;
+}
+
+// Enough bytes for every signature detectImageType knows, including an ftyp box's brands
+const SIGNATURE_BYTES = 64;
+
+// 5 MB
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+let storage: StorageAdapter | null = null;
+
+/**
+ * Returns the configured storage adapter. The local filesystem adapter is
+ * used unless another one has been registered with `setStorage`.
+ */
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    storage = createLocalStorage();
+  }
+
+  return storage;
+}
+
+/**
+ * Registers the storage adapter used for uploads (e.g. an S3 adapter in
+ * production or an in-memory one in tests).
+ */
+export function setStorage(adapter: StorageAdapter): void {
+  storage = adapter;
+}
+
+/**
+ * Checks an uploaded image against the allowed types, judged by its content,
+ * and the size limit.
+ * @returns An error message, or null when the file is acceptable
+ */
+export async function validateImage(file: File): Promise<string | null> {
+  if (file.size === 0) {
+    return 'Image file is empty';
+  }
+
+  if (!detectImageType(new Uint8Array(await file.slice(0, SIGNATURE_BYTES).arrayBuffer()))) {
+    return `Image must be one of: ${ALLOWED_IMAGE_TYPES.join(', ')}`;
+  }
+
+  if (file.size > MAX_IMAGE_SIZE) {
+    return `Image cannot exceed ${MAX_IMAGE_SIZE / (1024 * 1024)} MB`;
+  }
+
+  return null;
+}
+
+/**
+ * Stores an uploaded image through the configured adapter, under the type its
+ * content shows. Check it with validateImage first.
+ * @returns The public URL of the stored image
+ */
+export async function uploadImage(file: File, folder: string): Promise<string> {
+  const data = Buffer.from(await file.arrayBuffer());
+  const contentType = detectImageType(data);
+
+  if (!contentType) throw new Error('Only images can be uploaded');
+
+  const { url } = await getStorage().save({ data, contentType, folder });
+
+  return url;
+}
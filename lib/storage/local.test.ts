@@ -0,0 +1,58 @@
+import { describe, it, expect, afterAll, beforeAll } from '@jest/globals';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createLocalStorage, readLocalUpload } from './local';
+
+describe('createLocalStorage', () => {
+  let rootDir: string;
+
+  beforeAll(async () => {
+    rootDir = await mkdtemp(path.join(tmpdir(), 'uploads-'));
+  });
+
+  afterAll(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should save files under a random name in their folder and serve them from the public path', async () => {
+    const storage = createLocalStorage({ rootDir });
+    const { key, url } = await storage.save({ data: Buffer.from('png bytes'), contentType: 'image/png', folder: 'events' });
+
+    expect(key).toMatch(/^events\/[0-9a-f-]{36}\.png$/);
+    expect(url).toBe(`/uploads/${key}`);
+    expect(await readFile(path.join(rootDir, key), 'utf8')).toBe('png bytes');
+  });
+
+  it('should read stored files back with their type', async () => {
+    const { key } = await createLocalStorage({ rootDir }).save({ data: Buffer.from('gif bytes'), contentType: 'image/gif' });
+
+    expect(await readLocalUpload(key, rootDir)).toEqual({ data: Buffer.from('gif bytes'), contentType: 'image/gif' });
+    expect(await readLocalUpload('missing.gif', rootDir)).toBeNull();
+  });
+
+  it('should not serve files outside the upload directory or of other types', async () => {
+    await writeFile(path.join(rootDir, 'notes.txt'), 'secret');
+
+    expect(await readLocalUpload('../etc/passwd.png', rootDir)).toBeNull();
+    expect(await readLocalUpload('notes.txt', rootDir)).toBeNull();
+  });
+
+  it('should delete stored files, ignoring other URLs and missing files', async () => {
+    const outside = path.join(path.dirname(rootDir), `${path.basename(rootDir)}-outside.png`);
+    await writeFile(outside, 'keep me');
+
+    const storage = createLocalStorage({ rootDir });
+    const { key, url } = await storage.save({ data: Buffer.from('jpg bytes'), contentType: 'image/jpeg', folder: 'events' });
+
+    await storage.delete(url);
+    await storage.delete(url);
+    await storage.delete(`/uploads/../${path.basename(outside)}`);
+    await storage.delete('https://cdn.example.com/events/1.jpg');
+
+    expect(await readLocalUpload(key, rootDir)).toBeNull();
+    expect(await readFile(outside, 'utf8')).toBe('keep me');
+
+    await rm(outside);
+  });
+});
@@ -0,0 +1,92 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import type { StorageAdapter } from './types';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+};
+
+/**
+ * Where the local adapter keeps uploads by default. Not under `public`:
+ * `next start` only serves public files that existed at build time, so
+ * uploads are served by the `/uploads/[...key]` route instead.
+ */
+export const LOCAL_UPLOADS_DIR = path.join(process.cwd(), 'uploads');
+
+type LocalStorageOptions = {
+  // Directory files are written to (defaults to LOCAL_UPLOADS_DIR)
+  rootDir?: string;
+  // URL prefix the root directory is served from (defaults to /uploads)
+  publicPath?: string;
+};
+
+// Path of a stored file, or null for keys that would escape the upload directory
+function resolveKey(rootDir: string, key: string): string | null {
+  const filePath = path.resolve(rootDir, key);
+
+  return filePath.startsWith(path.resolve(rootDir) + path.sep) ? filePath : null;
+}
+
+/**
+ * Reads a file the local adapter stored, for serving it.
+ * @returns The file and its type, or null when there is no such file
+ */
+export async function readLocalUpload(
+  key: string,
+  rootDir = LOCAL_UPLOADS_DIR
+): Promise<{ data: Buffer; contentType: string } | null> {
+  const filePath = resolveKey(rootDir, key);
+  const contentType = Object.keys(EXTENSIONS).find((type) => key.endsWith(`.${EXTENSIONS[type]}`));
+
+  if (!filePath || !contentType) return null;
+
+  try {
+    return { data: await readFile(filePath), contentType };
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw e;
+  }
+}
+
+/**
+ * Creates a storage adapter that writes files to the local filesystem, so no
+ * external service is needed in development or tests. With the defaults,
+ * files land in LOCAL_UPLOADS_DIR and are served from `/uploads`.
+ */
+export function createLocalStorage({
+  rootDir = LOCAL_UPLOADS_DIR,
+  publicPath = '/uploads',
+}: LocalStorageOptions = {}): StorageAdapter {
+  return {
+    async save({ data, contentType, folder }) {
+      const extension = EXTENSIONS[contentType] ?? 'bin';
+      const key = path.posix.join(folder ?? '', `${randomUUID()}.${extension}`);
+      const filePath = path.join(rootDir, key);
+
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+
+      return { key, url: `${publicPath}/${key}` };
+    },
+
+    async delete(url) {
+      if (!url.startsWith(`${publicPath}/`)) return;
+
+      const filePath = resolveKey(rootDir, url.slice(publicPath.length + 1));
+
+      // Never touch anything outside the upload directory
+      if (!filePath) return;
+
+      try {
+        await unlink(filePath);
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+      }
+    },
+  };
+}
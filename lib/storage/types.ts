@@ -0,0 +1,22 @@
+// A file ready to be persisted by a storage adapter
+export type StoredFileInput = {
+  data: Buffer;
+  contentType: string;
+  // Path segment used to group related files, e.g. "events"
+  folder?: string;
+};
+
+export type StoredFile = {
+  // Public URL the file can be served from
+  url: string;
+  key: string;
+};
+
+/**
+ * Pluggable file storage backend. Adapters decide where bytes live;
+ * callers only ever deal with the returned public URL.
+ */
+export interface StorageAdapter {
+  save(file: StoredFileInput): Promise<StoredFile>;
+  delete(url: string): Promise<void>;
+}
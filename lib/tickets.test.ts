@@ -0,0 +1,67 @@
+import { describe, it, expect } from '@jest/globals';
+import { formatPrice, fromMinorUnits, getTicketsSold, getTierAvailability, isCurrencyCode, ticketCounterKey, toMinorUnits } from './tickets';
+
+describe('toMinorUnits', () => {
+  it('should convert decimal prices using the currency minor unit', () => {
+    expect(toMinorUnits('25', 'USD')).toBe(2500);
+    expect(toMinorUnits('19.99', 'EUR')).toBe(1999);
+    expect(toMinorUnits('1500', 'JPY')).toBe(1500);
+  });
+
+  it('should reject negative or malformed prices', () => {
+    expect(toMinorUnits('-5', 'USD')).toBeNull();
+    expect(toMinorUnits('ten', 'USD')).toBeNull();
+    expect(toMinorUnits('', 'USD')).toBeNull();
+  });
+});
+
+describe('fromMinorUnits', () => {
+  it('should round-trip with toMinorUnits', () => {
+    expect(fromMinorUnits(2550, 'USD')).toBe('25.50');
+    expect(fromMinorUnits(1500, 'JPY')).toBe('1500');
+  });
+});
+
+describe('formatPrice', () => {
+  it('should format amounts and call zero free', () => {
+    expect(formatPrice(2550, 'USD')).toBe('$25.50');
+    expect(formatPrice(0, 'USD')).toBe('Free');
+  });
+});
+
+describe('isCurrencyCode', () => {
+  it('should accept upper-case three-letter codes only', () => {
+    expect(isCurrencyCode('EUR')).toBe(true);
+    expect(isCurrencyCode('eur')).toBe(false);
+    expect(isCurrencyCode('EURO')).toBe(false);
+  });
+});
+
+describe('getTierAvailability', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('should respect the sale window', () => {
+    expect(getTierAvailability({ salesStart: '2026-03-02T00:00:00Z' }, 0, now)).toBe('not-started');
+    expect(getTierAvailability({ salesEnd: '2026-03-01T12:00:00Z' }, 0, now)).toBe('ended');
+    expect(getTierAvailability({ salesStart: '2026-02-01T00:00:00Z', salesEnd: '2026-04-01T00:00:00Z' }, 0, now)).toBe('on-sale');
+  });
+
+  it('should report tiers with no tickets left as sold out', () => {
+    expect(getTierAvailability({ quantity: 10 }, 10, now)).toBe('sold-out');
+    expect(getTierAvailability({ quantity: 10 }, 9, now)).toBe('on-sale');
+    expect(getTierAvailability({ quantity: null }, 1000, now)).toBe('on-sale');
+  });
+});
+
+describe('getTicketsSold', () => {
+  it('should read tier counters and ignore occurrence and session counters', () => {
+    const sold = getTicketsSold({
+      targetSeats: [
+        { target: ticketCounterKey('abc'), seatsTaken: 3 },
+        { target: 'session:def', seatsTaken: 5 },
+      ],
+    });
+
+    expect([...sold]).toEqual([['abc', 3]]);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Ticket tiers and prices. Prices are whole amounts of a currency's minor
+ * unit (cents for USD, yen for JPY), so they add up without rounding errors.
+ */
+
+export type TicketTier = {
+  name: string;
+  // In the currency's minor unit; 0 for free tiers
+  price: number;
+  // ISO 4217 code, e.g. "USD"
+  currency: string;
+  // Tickets for sale in this tier; unlimited when missing
+  quantity?: number | null;
+  salesStart?: Date | string | null;
+  salesEnd?: Date | string | null;
+};
+
+export type TierAvailability = 'on-sale' | 'not-started' | 'ended' | 'sold-out';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Key of a tier's sales counter among the event's `targetSeats`.
+ */
+export function ticketCounterKey(tierId: string): string {
+  return `tier:${tierId}`;
+}
+
+/**
+ * Tickets of each tier taken so far, keyed by tier id.
+ */
+export function getTicketsSold(event: { targetSeats?: { target: string; seatsTaken: number }[] }): Map<string, number> {
+  return new Map(
+    (event.targetSeats ?? [])
+      .filter(({ target }) => target.startsWith('tier:'))
+      .map(({ target, seatsTaken }) => [target.slice('tier:'.length), seatsTaken])
+  );
+}
+
+/**
+ * Whether a string is a well-formed ISO 4217 currency code.
+ */
+export function isCurrencyCode(value: string): boolean {
+  return /^[A-Z]{3}$/.test(value);
+}
+
+// Digits after the decimal point, e.g. 2 for USD and 0 for JPY
+function minorUnitDigits(currency: string): number {
+  // Intl throws on malformed codes; those are rejected by validation anyway
+  if (!isCurrencyCode(currency)) return 2;
+
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * Converts a price as people write it ("25", "25.50") to minor units.
+ * @returns The amount, or null if it isn't a non-negative number
+ */
+export function toMinorUnits(value: string, currency: string): number | null {
+  if (!/^\d+(?:\.\d+)?$/.test(value.trim())) return null;
+
+  return Math.round(Number(value) * 10 ** minorUnitDigits(currency));
+}
+
+/**
+ * Converts minor units back to a plain decimal string, e.g. 2550 USD to "25.50".
+ */
+export function fromMinorUnits(amount: number, currency: string): string {
+  const digits = minorUnitDigits(currency);
+
+  return (amount / 10 ** digits).toFixed(digits);
+}
+
+/**
+ * Formats a price for display, e.g. "$25.50", or "Free" for zero.
+ */
+export function formatPrice(amount: number, currency: string, locale = 'en-US'): string {
+  if (amount === 0) return 'Free';
+
+  return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount / 10 ** minorUnitDigits(currency));
+}
+
+/**
+ * Whether a tier can be bought right now.
+ * @param sold - Tickets of the tier already taken, including unpaid checkouts
+ */
+export function getTierAvailability(
+  tier: Pick<TicketTier, 'quantity' | 'salesStart' | 'salesEnd'>,
+  sold: number,
+  now = new Date()
+): TierAvailability {
+  if (tier.salesStart && now < new Date(tier.salesStart)) return 'not-started';
+  if (tier.salesEnd && now >= new Date(tier.salesEnd)) return 'ended';
+  if (tier.quantity != null && sold >= tier.quantity) return 'sold-out';
+
+  return 'on-sale';
+}
@@ -0,0 +1,128 @@
+/**
+ * Timezone helpers built on Intl, so no tz database needs to be bundled.
+ * Wall-clock dates are `YYYY-MM-DD` strings and times are `HH:MM` (24-hour).
+ */
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+function getZonedParts(instant: Date, timeZone: string): Record<string, number> {
+  const parts: Record<string, number> = {};
+
+  for (const { type, value } of getPartsFormatter(timeZone).formatToParts(instant)) {
+    if (type !== 'literal') parts[type] = Number(value);
+  }
+
+  return parts;
+}
+
+/**
+ * Checks whether a string is an IANA timezone name known to the runtime.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in minutes (e.g. -480 for PST).
+ */
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Converts a wall-clock date and time in a timezone to the instant it denotes.
+ * Times skipped by a DST change resolve to a neighbouring valid instant.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Two passes settle the offset on either side of a DST transition
+  let instant = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone) * 60000;
+  instant = wallClock - getTimeZoneOffset(new Date(instant), timeZone) * 60000;
+
+  return new Date(instant);
+}
+
+/**
+ * Splits an instant into the wall-clock date and time it shows in a timezone.
+ */
+export function utcToZonedTime(instant: Date, timeZone: string): { date: string; time: string } {
+  const { year, month, day, hour, minute } = getZonedParts(instant, timeZone);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return {
+    date: `${year}-${pad(month)}-${pad(day)}`,
+    time: `${pad(hour)}:${pad(minute)}`,
+  };
+}
+
+/**
+ * Formats an instant for display, e.g. "Fri, Nov 7, 2025, 9:00 AM PST".
+ * @param timeZone - Zone to render in; omit to use the runtime's local zone
+ */
+export function formatDateTime(instant: Date | string, timeZone?: string, locale = 'en-US'): string {
+  return new Intl.DateTimeFormat(locale, {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(instant));
+}
+
+/**
+ * Formats only the time of day, e.g. "5:00 PM GMT+1".
+ */
+export function formatTime(instant: Date | string, timeZone?: string, locale = 'en-US'): string {
+  return new Intl.DateTimeFormat(locale, {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(instant));
+}
+
+/**
+ * Formats only the calendar day, e.g. "Friday, November 7".
+ */
+export function formatDay(instant: Date | string, timeZone?: string, locale = 'en-US'): string {
+  return new Intl.DateTimeFormat(locale, {
+    timeZone,
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+  }).format(new Date(instant));
+}
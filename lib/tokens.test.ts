@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterEach, jest } from '@jest/globals';
+
+// The secret is read when the module loads, so it's imported once this is set
+process.env.TOKEN_SECRET = 'test-secret';
+
+let tokens: typeof import('./tokens');
+
+beforeAll(async () => {
+  tokens = await import('./tokens');
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+// Replaces the character at `index` with a different one from the same alphabet
+const tamper = (value: string, index: number, alphabet: string) =>
+  value.slice(0, index) + alphabet[(alphabet.indexOf(value[index]) + 1) % alphabet.length] + value.slice(index + 1);
+
+const BASE64URL = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+const CROCKFORD = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+describe('signToken and verifyToken', () => {
+  it('should return the signed claims with their purpose and expiry', () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-10T14:00:00Z'));
+
+    const token = tokens.signToken('manage-bookings', { email: 'jane@example.com' }, 60);
+
+    expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+    expect(tokens.verifyToken('manage-bookings', token)).toEqual({
+      email: 'jane@example.com',
+      purpose: 'manage-bookings',
+      exp: Date.parse('2026-03-10T14:01:00Z') / 1000,
+    });
+  });
+
+  it('should reject tokens once they expire', () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-10T14:00:00Z'));
+    const token = tokens.signToken('ticket', { bookingId: '1' }, 60);
+
+    jest.setSystemTime(new Date('2026-03-10T14:01:00Z'));
+    expect(tokens.verifyToken('ticket', token)).not.toBeNull();
+
+    jest.setSystemTime(new Date('2026-03-10T14:01:01Z'));
+    expect(tokens.verifyToken('ticket', token)).toBeNull();
+  });
+
+  it('should reject tokens signed for another purpose', () => {
+    const token = tokens.signToken('event-preview', { eventId: '1' }, 60);
+
+    expect(tokens.verifyToken('manage-bookings', token)).toBeNull();
+  });
+
+  it('should reject tokens whose claims or signature were changed', () => {
+    const token = tokens.signToken('manage-bookings', { email: 'jane@example.com' }, 60);
+    const [encoded, signature] = token.split('.');
+
+    const claims = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    const forged = Buffer.from(JSON.stringify({ ...claims, email: 'john@example.com' })).toString('base64url');
+
+    expect(tokens.verifyToken('manage-bookings', `${forged}.${signature}`)).toBeNull();
+    expect(tokens.verifyToken('manage-bookings', `${encoded}.${tamper(signature, 0, BASE64URL)}`)).toBeNull();
+    expect(tokens.verifyToken('manage-bookings', `${encoded}.${signature.slice(1)}`)).toBeNull();
+  });
+
+  it('should reject malformed tokens', () => {
+    const token = tokens.signToken('ticket', {}, 60);
+
+    expect(tokens.verifyToken('ticket', '')).toBeNull();
+    expect(tokens.verifyToken('ticket', 'not-a-token')).toBeNull();
+    expect(tokens.verifyToken('ticket', `${token}.extra`)).toBeNull();
+  });
+});
+
+describe('createSignedCode and verifySignedCode', () => {
+  it('should create short codes in Crockford base32', () => {
+    const code = tokens.createSignedCode('ticket');
+
+    expect(code).toMatch(/^[0-9A-HJKMNP-TV-Z]{8}-[0-9A-HJKMNP-TV-Z]{8}$/);
+    expect(tokens.createSignedCode('ticket')).not.toBe(code);
+  });
+
+  it('should accept codes typed in any case or with surrounding spaces', () => {
+    const code = tokens.createSignedCode('ticket');
+
+    expect(tokens.verifySignedCode('ticket', code)).toBe(code);
+    expect(tokens.verifySignedCode('ticket', `  ${code.toLowerCase()}\n`)).toBe(code);
+  });
+
+  it('should reject codes issued for another purpose', () => {
+    expect(tokens.verifySignedCode('manage-bookings', tokens.createSignedCode('ticket'))).toBeNull();
+  });
+
+  it('should reject codes whose value or signature were changed', () => {
+    const code = tokens.createSignedCode('ticket');
+
+    expect(tokens.verifySignedCode('ticket', tamper(code, 0, CROCKFORD))).toBeNull();
+    expect(tokens.verifySignedCode('ticket', tamper(code, code.length - 1, CROCKFORD))).toBeNull();
+    expect(tokens.verifySignedCode('ticket', code.slice(0, -1))).toBeNull();
+    expect(tokens.verifySignedCode('ticket', `${code}-0000`)).toBeNull();
+    expect(tokens.verifySignedCode('ticket', code.replace('-', ''))).toBeNull();
+  });
+});
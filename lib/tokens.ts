@@ -0,0 +1,121 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const TOKEN_SECRET = process.env.TOKEN_SECRET;
+
+// What a token grants access to; a token signed for one purpose is rejected for any other
+export type TokenPurpose = 'manage-bookings' | 'fake-checkout' | 'ticket' | 'event-preview';
+
+type TokenPayload<T> = T & {
+  purpose: TokenPurpose;
+  // Expiry as a unix timestamp in seconds
+  exp: number;
+};
+
+function getSecret(): string {
+  if (!TOKEN_SECRET) {
+    throw new Error(
+      'Please define the TOKEN_SECRET environment variable inside .env.local'
+    );
+  }
+
+  return TOKEN_SECRET;
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+/**
+ * Creates a URL-safe, HMAC-signed token carrying `data`.
+ * @param purpose - What the token may be used for
+ * @param data - JSON-serializable claims to embed
+ * @param expiresInSeconds - How long the token stays valid
+ */
+export function signToken<T extends object>(
+  purpose: TokenPurpose,
+  data: T,
+  expiresInSeconds: number
+): string {
+  const payload: TokenPayload<T> = {
+    ...data,
+    purpose,
+    exp: Math.floor(Date.now() / 1000) + expiresInSeconds,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Verifies a token's signature, purpose and expiry.
+ * @returns The embedded claims, or null if the token is invalid or expired
+ */
+export function verifyToken<T extends object>(purpose: TokenPurpose, token: string): T | null {
+  const [encoded, signature, ...rest] = token.split('.');
+
+  if (!encoded || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let payload: TokenPayload<T>;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (payload.purpose !== purpose) return null;
+  if (typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now()) return null;
+
+  return payload;
+}
+
+// Crockford's base32: no I, L, O or U, so codes survive being read aloud or typed
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+// Characters of the random part and of the signature in a short code
+const CODE_LENGTH = 8;
+
+function toBase32(bytes: Buffer, length: number): string {
+  return [...bytes.subarray(0, length)].map((byte) => CODE_ALPHABET[byte % 32]).join('');
+}
+
+function signCode(purpose: TokenPurpose, value: string): string {
+  return toBase32(createHmac('sha256', getSecret()).update(`${purpose}:${value}`).digest(), CODE_LENGTH);
+}
+
+/**
+ * Creates a short random code with a signature, like "7K3M9QXA-P2D4HW8N",
+ * for things people may have to type. Unlike tokens, codes carry no claims
+ * and never expire; look up what they stand for in the database.
+ */
+export function createSignedCode(purpose: TokenPurpose): string {
+  const value = toBase32(randomBytes(CODE_LENGTH), CODE_LENGTH);
+
+  return `${value}-${signCode(purpose, value)}`;
+}
+
+/**
+ * Checks a code's signature, ignoring case and surrounding whitespace.
+ * @returns The normalized code, or null if it wasn't issued for `purpose`
+ */
+export function verifySignedCode(purpose: TokenPurpose, code: string): string | null {
+  const normalized = code.trim().toUpperCase();
+  const [value, signature, ...rest] = normalized.split('-');
+
+  if (!value || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(signCode(purpose, value));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return normalized;
+}
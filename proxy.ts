@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/mongodb";
+import { findRenamedEventSlug } from "@/lib/event-lifecycle";
+
+// Lookups are remembered briefly, current slugs included, so busy pages don't cost a query per view.
+// Kept short because renaming an event back to an old title turns its old slug current again
+const LOOKUP_TTL_MS = 60 * 1000;
+const MAX_CACHED_LOOKUPS = 1000;
+
+const lookups = new Map<string, { currentSlug: string | null; expiresAt: number }>();
+
+// The current slug of a renamed event, or null when the slug isn't an old one
+async function lookupRenamedSlug(slug: string): Promise<string | null> {
+  const key = slug.toLowerCase();
+  const cached = lookups.get(key);
+
+  if (cached && cached.expiresAt > Date.now()) return cached.currentSlug;
+
+  await connectDB();
+  const currentSlug = await findRenamedEventSlug(key);
+
+  // Maps iterate in insertion order, so the first key is the oldest lookup
+  lookups.delete(key);
+  if (lookups.size >= MAX_CACHED_LOOKUPS) lookups.delete(lookups.keys().next().value!);
+  lookups.set(key, { currentSlug, expiresAt: Date.now() + LOOKUP_TTL_MS });
+
+  return currentSlug;
+}
+
+/**
+ * Permanently redirects event pages requested by an old slug to the event's
+ * current slug, so links shared before a rename keep working.
+ */
+export async function proxy(req: NextRequest) {
+  const [, , slug, ...rest] = req.nextUrl.pathname.split("/");
+
+  try {
+    const currentSlug = await lookupRenamedSlug(slug);
+    if (!currentSlug) return NextResponse.next();
+
+    const url = req.nextUrl.clone();
+    url.pathname = ["", "events", currentSlug, ...rest].join("/");
+    return NextResponse.redirect(url, 301);
+  } catch (e) {
+    // The page itself reports database problems; a missed redirect just shows its 404
+    console.error("Event slug redirect failed:", e);
+    return NextResponse.next();
+  }
+}
+
+export const config = {
+  matcher: ["/events/:slug", "/events/:slug/ics"],
+};
@@ -0,0 +1,26 @@
+/**
+ * Releases the seats held by pending bookings whose checkout expired without
+ * being paid. Bookings also expire lazily when someone books the same event,
+ * and the job worker runs this every 5 minutes for quiet events; use the
+ * script to release them by hand. Safe to re-run.
+ *
+ * Usage: npm run bookings:expire-pending
+ */
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import { expirePendingBookings } from '@/lib/checkout';
+
+async function main() {
+  await connectDB();
+
+  const slugs = await expirePendingBookings();
+
+  console.log(slugs.length > 0 ? `Released expired checkouts for: ${slugs.join(', ')}` : 'No expired checkouts.');
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,59 @@
+/**
+ * Imports events from a CSV or JSON file, creating new events and updating
+ * existing ones matched by slug. CSV files start with a header line naming
+ * the event fields; list cells such as tags and agenda separate items with
+ * `|`. New events belong to the given organizer account and start as drafts
+ * unless a row sets `status`.
+ *
+ * Pass --dry-run to validate every row and list the errors without saving.
+ *
+ * Usage: npm run events:import -- <file.csv|file.json> --organizer someone@example.com [--dry-run]
+ */
+import { readFile } from 'node:fs/promises';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import User from '@/database/user.model';
+import { getImportFormat, importEvents, readEventRows } from '@/lib/event-import';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const file = args.find((arg, i) => !arg.startsWith('--') && args[i - 1] !== '--organizer');
+  const email = args[args.indexOf('--organizer') + 1];
+  const dryRun = args.includes('--dry-run');
+  const format = file && getImportFormat(file);
+
+  if (!format || !args.includes('--organizer') || !email) {
+    throw new Error('Usage: npm run events:import -- <file.csv|file.json> --organizer <email> [--dry-run]');
+  }
+
+  const rows = readEventRows(await readFile(file, 'utf8'), format);
+
+  await connectDB();
+
+  const organizer = await User.findOne({ email: email.trim().toLowerCase() }).select('_id');
+
+  if (!organizer) throw new Error(`No account found for ${email}`);
+
+  const report = await importEvents(rows, { organizer: organizer._id, dryRun });
+
+  for (const { row, slug, action, errors } of report.rows) {
+    const problems = Object.entries(errors).map(([field, message]) => `${field}: ${message}`);
+
+    if (problems.length > 0) {
+      console.log(`Row ${row} (${slug || 'no slug'}): ${problems.join('; ')}`);
+    } else if (action === 'skip') {
+      console.log(`Row ${row} (${slug}): unchanged`);
+    }
+  }
+
+  console.log(
+    `${dryRun ? 'Dry run: would have ' : ''}created ${report.created}, updated ${report.updated}, skipped ${report.skipped} event(s).`
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
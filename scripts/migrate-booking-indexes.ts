@@ -0,0 +1,45 @@
+/**
+ * Replaces older one-booking-per-email unique indexes with the current one,
+ * which keys on the booked occurrence or session, so an attendee can book
+ * several sessions of a conference or several dates of a meetup, and leaves
+ * out refunded bookings, so a refunded attendee can book again. Bookings
+ * from before the waitlist get the `confirmed` status they are read as,
+ * since the index only covers bookings with a status. Mongoose creates new
+ * indexes on startup but never drops old ones, hence this script. Needs
+ * MongoDB 6.0 or later. Safe to re-run.
+ *
+ * Usage: npm run migrate:booking-indexes
+ */
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Booking from '@/database/booking.model';
+
+const LEGACY_INDEXES = ['uniq_event_email', 'uniq_event_target_email'];
+
+async function main() {
+  await connectDB();
+
+  const backfilled = await Booking.updateMany({ status: { $exists: false } }, { $set: { status: 'confirmed' } });
+  console.log(`Set the status of ${backfilled.modifiedCount} old booking(s).`);
+
+  const indexes = await Booking.collection.indexes();
+
+  for (const name of LEGACY_INDEXES) {
+    if (indexes.some((index) => index.name === name)) {
+      await Booking.collection.dropIndex(name);
+      console.log(`Dropped index ${name}.`);
+    } else {
+      console.log(`Index ${name} not found; nothing to drop.`);
+    }
+  }
+
+  await Booking.createIndexes();
+  console.log('Booking indexes are up to date.');
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
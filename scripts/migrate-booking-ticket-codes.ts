@@ -0,0 +1,29 @@
+/**
+ * Issues ticket codes to bookings made before tickets existed, so their
+ * attendees can be checked in. Safe to re-run.
+ *
+ * Usage: npm run migrate:booking-ticket-codes
+ */
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Booking from '@/database/booking.model';
+import { createTicketCode } from '@/lib/bookings';
+
+async function main() {
+  await connectDB();
+
+  const bookings = await Booking.find({ ticketCode: { $exists: false } }).select('_id');
+
+  for (const { _id } of bookings) {
+    await Booking.updateOne({ _id, ticketCode: { $exists: false } }, { $set: { ticketCode: createTicketCode() } });
+  }
+
+  console.log(`Issued ticket codes to ${bookings.length} booking(s).`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,48 @@
+/**
+ * Converts free-text agenda lines such as "09:00 Keynote – Jane Doe" into
+ * structured agenda items. Times and speakers are read where the text makes
+ * them clear; everything else stays in the item title. Events whose parsed
+ * agenda has overlapping items are still converted but listed, since they
+ * must be fixed before they can be saved again. Already structured items are
+ * kept, so the migration is safe to re-run.
+ *
+ * Usage: npm run migrate:event-agendas
+ */
+import mongoose, { Types } from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Event from '@/database/event.model';
+import { AgendaItem, findAgendaOverlap, parseAgendaText } from '@/lib/agenda';
+
+async function main() {
+  await connectDB();
+
+  // Read raw documents: the schema can't hydrate plain strings as agenda items
+  const legacy = Event.collection.find({ agenda: { $type: 'string' } });
+
+  let migrated = 0;
+  const overlapping: string[] = [];
+
+  for await (const event of legacy) {
+    const agenda = (event.agenda as (string | AgendaItem)[]).map((item) =>
+      typeof item === 'string' ? { _id: new Types.ObjectId(), ...parseAgendaText(item) } : item
+    );
+
+    await Event.collection.updateOne({ _id: event._id }, { $set: { agenda } });
+    migrated++;
+
+    if (findAgendaOverlap(agenda)) overlapping.push(event.slug);
+  }
+
+  console.log(`Converted the agenda of ${migrated} event(s).`);
+
+  if (overlapping.length > 0) {
+    console.warn(`Overlapping agenda items to fix by hand: ${overlapping.join(', ')}`);
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,48 @@
+/**
+ * Backfills `startsAt` and `timezone` on events stored before they existed.
+ * The stored `date` and `time` are read as wall-clock values in the given
+ * timezone. Events that already have `startsAt` are left untouched, so the
+ * migration is safe to re-run.
+ *
+ * Usage: npm run migrate:event-datetimes -- [--timezone=America/New_York]
+ */
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Event from '@/database/event.model';
+import { isValidTimeZone } from '@/lib/timezone';
+
+async function main() {
+  const timezoneArg = process.argv.find((arg) => arg.startsWith('--timezone='));
+  const timezone = timezoneArg?.split('=')[1] ?? 'UTC';
+
+  if (!isValidTimeZone(timezone)) {
+    throw new Error(`${timezone} is not a valid IANA timezone`);
+  }
+
+  await connectDB();
+
+  let migrated = 0;
+  let failed = 0;
+
+  for await (const event of Event.find({ startsAt: { $exists: false } })) {
+    try {
+      // Persist the zone explicitly; the schema default is only applied in memory
+      event.timezone = timezone;
+      event.markModified('timezone');
+      await event.save();
+      migrated++;
+    } catch (e) {
+      failed++;
+      console.error(`Failed to migrate event ${event.slug}:`, e instanceof Error ? e.message : e);
+    }
+  }
+
+  console.log(`Migrated ${migrated} event(s) using ${timezone}; ${failed} failed.`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
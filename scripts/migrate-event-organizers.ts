@@ -0,0 +1,57 @@
+/**
+ * Moves free-text `organizer` strings into `organizerName` and hands the
+ * events to an organizer account, since `organizer` now references a user.
+ * The account is created (or upgraded from attendee) if needed. Events that
+ * already reference an account are left untouched, so the migration is safe
+ * to re-run.
+ *
+ * Usage: npm run migrate:event-organizers -- --owner=organizer@example.com
+ */
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Event from '@/database/event.model';
+import User from '@/database/user.model';
+
+async function main() {
+  const ownerArg = process.argv.find((arg) => arg.startsWith('--owner='));
+  const email = ownerArg?.split('=')[1]?.trim().toLowerCase();
+
+  if (!email) {
+    throw new Error('Pass the account that should own existing events with --owner=<email>');
+  }
+
+  await connectDB();
+
+  const owner = await User.findOneAndUpdate(
+    { email },
+    { $setOnInsert: { email } },
+    { upsert: true, new: true, runValidators: true }
+  );
+
+  if (owner.role === 'attendee') {
+    owner.role = 'organizer';
+    await owner.save();
+  }
+
+  // Read raw documents: the schema would try to cast the old strings to ObjectIds
+  const legacy = Event.collection.find({ organizer: { $type: 'string' } });
+
+  let migrated = 0;
+
+  for await (const event of legacy) {
+    await Event.collection.updateOne(
+      { _id: event._id, organizer: event.organizer },
+      { $set: { organizer: owner._id, organizerName: event.organizer } }
+    );
+    migrated++;
+  }
+
+  console.log(`Assigned ${migrated} event(s) to ${owner.email}.`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,50 @@
+/**
+ * Replaces speaker names stored on agenda items and sessions with references
+ * to Speaker profiles, creating a profile for each name not seen before.
+ * Run it after migrate:event-agendas. Names are matched by the slug they
+ * would get, so "Jane Doe" and "jane doe" share a profile. References that
+ * are already ids are kept, so the migration is safe to re-run.
+ *
+ * Usage: npm run migrate:event-speakers
+ */
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Event from '@/database/event.model';
+import { resolveSpeakerIds } from '@/lib/speakers';
+
+type WithSpeakers = { speakers?: unknown };
+
+async function main() {
+  await connectDB();
+
+  // Read raw documents: the schema would fail to cast names to ids
+  const legacy = Event.collection.find({
+    $or: [{ 'agenda.speakers': { $type: 'string' } }, { 'sessions.speakers': { $type: 'string' } }],
+  });
+
+  let migrated = 0;
+
+  for await (const event of legacy) {
+    const agenda = [];
+    for (const item of (event.agenda ?? []) as WithSpeakers[]) {
+      agenda.push({ ...item, speakers: await resolveSpeakerIds(item.speakers) });
+    }
+
+    const sessions = [];
+    for (const session of (event.sessions ?? []) as WithSpeakers[]) {
+      sessions.push({ ...session, speakers: await resolveSpeakerIds(session.speakers) });
+    }
+
+    await Event.collection.updateOne({ _id: event._id }, { $set: { agenda, sessions } });
+    migrated++;
+  }
+
+  console.log(`Linked the speakers of ${migrated} event(s) to speaker profiles.`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
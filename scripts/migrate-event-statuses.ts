@@ -0,0 +1,29 @@
+/**
+ * Publishes events created before events had a status. New events start as
+ * drafts, and documents without a status would be read as drafts too, hiding
+ * them from listings and closing their bookings. Run once before deploying
+ * the status lifecycle. Safe to re-run.
+ *
+ * Usage: npm run migrate:event-statuses
+ */
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Event from '@/database/event.model';
+
+async function main() {
+  await connectDB();
+
+  const result = await Event.updateMany(
+    { status: { $exists: false } },
+    { $set: { status: 'published', statusChangedAt: new Date() } }
+  );
+
+  console.log(`Published ${result.modifiedCount} existing event(s).`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
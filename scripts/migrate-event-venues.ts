@@ -0,0 +1,53 @@
+/**
+ * Creates Venue documents for in-person events from their free-text `venue`
+ * and `location`, and links the events to them. Coordinates come from the
+ * bundled city table, so no geocoding service is called; events in cities
+ * the table doesn't know are reported and left unlinked. Events that already
+ * have a venue are skipped, so the migration is safe to re-run.
+ *
+ * Usage: npm run migrate:event-venues
+ */
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Event from '@/database/event.model';
+import Venue from '@/database/venue.model';
+
+async function main() {
+  await connectDB();
+
+  let linked = 0;
+  let created = 0;
+  let failed = 0;
+
+  const events = Event.find({ venueId: { $exists: false }, mode: { $ne: 'online' } }).select('slug venue location');
+
+  for await (const event of events) {
+    const name = event.venue.trim();
+    const address = event.location.replace(/\(.*?\)/g, '').trim();
+
+    try {
+      // Events that share a venue name and address share one venue
+      let venue = await Venue.findOne({ name, address }).collation({ locale: 'en', strength: 2 });
+
+      if (!venue) {
+        venue = await Venue.create({ name, address });
+        created++;
+      }
+
+      await Event.updateOne({ _id: event._id }, { $set: { venueId: venue._id } });
+      linked++;
+    } catch (e) {
+      failed++;
+      console.error(`Failed to map venue of event ${event.slug}:`, e instanceof Error ? e.message : e);
+    }
+  }
+
+  console.log(`Linked ${linked} event(s) to venues (${created} created); ${failed} failed.`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
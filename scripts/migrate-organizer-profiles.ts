@@ -0,0 +1,81 @@
+/**
+ * Turns the free-text organizer names stored on events into Organizer
+ * documents and links each event to its profile. Names that only differ in
+ * case, spacing or punctuation share one profile. Names with nothing to put
+ * in a slug, e.g. ones written in CJK characters, only share a profile with
+ * the same name.
+ * Linked events drop their `organizerName`, so the migration is safe to re-run.
+ *
+ * Run `npm run migrate:event-organizers` first if events still store the
+ * name in `organizer`.
+ *
+ * Usage: npm run migrate:organizer-profiles
+ */
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Event from '@/database/event.model';
+import Organizer from '@/database/organizer.model';
+import { slugify } from '@/lib/slugs';
+
+/**
+ * Finds the profile a name belongs to. Slugs can't tell organizers apart on
+ * their own: a numbered slug may belong to the same name, and a fallback slug
+ * to a different one. So candidates are compared by the slug of their name.
+ */
+async function findOrganizer(name: string) {
+  const base = slugify(name);
+
+  if (!base) return Organizer.findOne({ name }).collation({ locale: 'en', strength: 2 });
+
+  const candidates = await Organizer.find({ slug: new RegExp(`^${base}(-\\d+)?$`) }).sort({ createdAt: 1 });
+
+  return candidates.find((candidate) => slugify(candidate.name) === base) ?? null;
+}
+
+async function main() {
+  await connectDB();
+
+  // Read raw documents: `organizerName` is no longer part of the schema
+  const legacy = Event.collection.find({ organizerName: { $type: 'string' } });
+
+  let linked = 0;
+  let created = 0;
+  let failed = 0;
+
+  for await (const event of legacy) {
+    const name = String(event.organizerName).replace(/\s+/g, ' ').trim();
+
+    try {
+      let organizer = await findOrganizer(name);
+
+      if (!organizer) {
+        organizer = await Organizer.create({ name });
+        created++;
+      }
+
+      await Event.collection.updateOne(
+        { _id: event._id },
+        { $set: { organizerProfile: organizer._id }, $unset: { organizerName: '' } }
+      );
+      linked++;
+    } catch (e) {
+      failed++;
+      console.error(`Failed to migrate organizer of event ${event.slug}:`, e instanceof Error ? e.message : e);
+    }
+  }
+
+  const unassigned = await Event.collection.countDocuments({ organizer: { $type: 'string' } });
+
+  console.log(`Linked ${linked} event(s) to organizer profiles (${created} created); ${failed} failed.`);
+
+  if (unassigned > 0) {
+    console.log(`${unassigned} event(s) still store the organizer as text; run migrate:event-organizers first.`);
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,25 @@
+/**
+ * Emails attendees whose event, occurrence or session starts within the next
+ * 24 hours. Each booking is reminded once. The job worker runs this hourly;
+ * use the script to send reminders by hand. Safe to re-run.
+ *
+ * Usage: npm run notifications:send-reminders
+ */
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import { sendEventReminders } from '@/lib/event-notifications';
+
+async function main() {
+  await connectDB();
+
+  const sent = await sendEventReminders();
+
+  console.log(sent > 0 ? `Sent ${sent} reminder(s).` : 'No reminders due.');
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
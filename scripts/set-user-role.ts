@@ -0,0 +1,34 @@
+/**
+ * Grants a role to an account, creating the account if it doesn't exist yet.
+ * This is how the first admin is bootstrapped.
+ *
+ * Usage: npm run user:role -- someone@example.com admin
+ */
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import User, { USER_ROLES, UserRole } from '@/database/user.model';
+
+async function main() {
+  const [email, role] = process.argv.slice(2);
+
+  if (!email || !USER_ROLES.includes(role as UserRole)) {
+    throw new Error(`Usage: npm run user:role -- <email> <${USER_ROLES.join('|')}>`);
+  }
+
+  await connectDB();
+
+  const user = await User.findOneAndUpdate(
+    { email: email.trim().toLowerCase() },
+    { $set: { role } },
+    { upsert: true, new: true, runValidators: true }
+  );
+
+  console.log(`${user.email} is now ${user.role}.`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,60 @@
+/**
+ * Runs background jobs: queued emails, waitlist promotions and the recurring
+ * reminder, checkout-expiry and archiving runs. Keep at least one worker
+ * running next to the app; several can share the queue, since each job is
+ * claimed by one worker at a time. Stops after the current job on Ctrl+C or
+ * SIGTERM.
+ *
+ * Pass --once to run the jobs that are due and exit, e.g. from cron.
+ *
+ * Usage: npm run jobs:work [-- --once]
+ */
+import { hostname } from 'node:os';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import { recoverStalledJobs, runNextJob, scheduleRecurringJobs } from '@/lib/jobs';
+
+// How long an idle worker waits before checking for due jobs again
+const POLL_INTERVAL_MS = 5000;
+
+const workerId = `${hostname()}:${process.pid}`;
+let stopping = false;
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    console.log('Stopping after the current job...');
+    stopping = true;
+  });
+}
+
+async function main() {
+  await connectDB();
+
+  const once = process.argv.includes('--once');
+
+  console.log(`Worker ${workerId} started.`);
+
+  while (!stopping) {
+    const recovered = await recoverStalledJobs();
+    if (recovered > 0) console.log(`Requeued ${recovered} stalled job(s).`);
+
+    await scheduleRecurringJobs();
+
+    let run;
+    while (!stopping && (run = await runNextJob(workerId))) {
+      const { job, status, error } = run;
+      console.log(`${job.name} ${job._id} (attempt ${job.attempts}): ${status}${error ? ` - ${error}` : ''}`);
+    }
+
+    if (once) break;
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());